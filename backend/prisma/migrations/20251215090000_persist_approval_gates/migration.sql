@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "ApprovalGateStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'MODIFIED');
+
+-- CreateTable
+CREATE TABLE "ApprovalGate" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "gateType" TEXT NOT NULL,
+    "status" "ApprovalGateStatus" NOT NULL DEFAULT 'PENDING',
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "modifiedPayload" JSONB,
+    "reviewerNotes" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalGate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalGateConfig" (
+    "projectId" TEXT NOT NULL,
+    "enabledGates" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApprovalGateConfig_pkey" PRIMARY KEY ("projectId")
+);
+
+-- CreateTable
+CREATE TABLE "ApprovalGateDecision" (
+    "id" TEXT NOT NULL,
+    "gateId" TEXT NOT NULL,
+    "decision" "ApprovalGateStatus" NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "notes" TEXT,
+    "modifiedPayload" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ApprovalGateDecision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApprovalGate_projectId_status_idx" ON "ApprovalGate"("projectId", "status");
+
+-- CreateIndex
+CREATE INDEX "ApprovalGate_taskId_gateType_status_idx" ON "ApprovalGate"("taskId", "gateType", "status");
+
+-- CreateIndex
+CREATE INDEX "ApprovalGateDecision_gateId_idx" ON "ApprovalGateDecision"("gateId");
+
+-- AddForeignKey
+ALTER TABLE "ApprovalGateDecision" ADD CONSTRAINT "ApprovalGateDecision_gateId_fkey" FOREIGN KEY ("gateId") REFERENCES "ApprovalGate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "CostLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "taskId" TEXT,
+    "agentId" TEXT,
+    "agentRole" TEXT,
+    "provider" TEXT,
+    "model" TEXT,
+    "tokensIn" INTEGER NOT NULL DEFAULT 0,
+    "tokensOut" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL,
+    "day" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CostLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProjectBudget" (
+    "projectId" TEXT NOT NULL,
+    "dailyLimit" DOUBLE PRECISION,
+    "projectLimit" DOUBLE PRECISION,
+    "taskLimit" DOUBLE PRECISION,
+    "warningThreshold" DOUBLE PRECISION,
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "pausedReason" TEXT,
+    "pausedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectBudget_pkey" PRIMARY KEY ("projectId")
+);
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_projectId_createdAt_idx" ON "CostLedgerEntry"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_day_idx" ON "CostLedgerEntry"("day");
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_agentId_idx" ON "CostLedgerEntry"("agentId");
+
+-- CreateIndex
+CREATE INDEX "CostLedgerEntry_model_idx" ON "CostLedgerEntry"("model");
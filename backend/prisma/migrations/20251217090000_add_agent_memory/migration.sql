@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "AgentMemoryEntry" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT,
+    "agentRole" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "context" JSONB,
+    "embedding" DOUBLE PRECISION[],
+    "embeddingModel" TEXT NOT NULL,
+    "useCount" INTEGER NOT NULL DEFAULT 0,
+    "successRate" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AgentMemoryEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AgentMemoryEntry_category_idx" ON "AgentMemoryEntry"("category");
+
+-- CreateIndex
+CREATE INDEX "AgentMemoryEntry_agentRole_idx" ON "AgentMemoryEntry"("agentRole");
+
+-- CreateIndex
+CREATE INDEX "AgentMemoryEntry_agentId_idx" ON "AgentMemoryEntry"("agentId");
+
+-- CreateIndex
+CREATE INDEX "AgentMemoryEntry_embeddingModel_idx" ON "AgentMemoryEntry"("embeddingModel");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "FileChunk" ADD COLUMN     "embedding" DOUBLE PRECISION[],
+ADD COLUMN     "embeddingModel" TEXT;
+
+-- CreateIndex
+CREATE INDEX "FileChunk_repoId_embeddingModel_idx" ON "FileChunk"("repoId", "embeddingModel");
@@ -0,0 +1,18 @@
+-- Earlier full re-indexes created one RepoFile row per run; keep the newest per path
+DELETE FROM "RepoFile" a
+USING "RepoFile" b
+WHERE a."repoId" = b."repoId"
+  AND a."path" = b."path"
+  AND (a."createdAt" < b."createdAt" OR (a."createdAt" = b."createdAt" AND a."id" < b."id"));
+
+-- DropIndex
+DROP INDEX "RepoFile_repoId_path_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepoFile_repoId_path_key" ON "RepoFile"("repoId", "path");
+
+-- CreateIndex
+CREATE INDEX "Symbol_repoId_name_idx" ON "Symbol"("repoId", "name");
+
+-- CreateIndex
+CREATE INDEX "Symbol_fileId_idx" ON "Symbol"("fileId");
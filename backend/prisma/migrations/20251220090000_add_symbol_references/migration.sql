@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "SymbolReference" (
+    "id" TEXT NOT NULL,
+    "repoId" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "fromSymbol" TEXT,
+    "toName" TEXT NOT NULL,
+    "toModule" TEXT,
+    "resolvedPath" TEXT,
+    "line" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SymbolReference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SymbolReference_repoId_toName_idx" ON "SymbolReference"("repoId", "toName");
+
+-- CreateIndex
+CREATE INDEX "SymbolReference_repoId_resolvedPath_idx" ON "SymbolReference"("repoId", "resolvedPath");
+
+-- CreateIndex
+CREATE INDEX "SymbolReference_fileId_idx" ON "SymbolReference"("fileId");
+
+-- AddForeignKey
+ALTER TABLE "SymbolReference" ADD CONSTRAINT "SymbolReference_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "RepoFile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "TraceChainEntry" (
+    "index" INTEGER NOT NULL,
+    "traceRowId" TEXT NOT NULL,
+    "traceId" TEXT NOT NULL,
+    "timestamp" TEXT NOT NULL,
+    "eventHash" TEXT NOT NULL,
+    "previousHash" TEXT NOT NULL,
+    "chainHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TraceChainEntry_pkey" PRIMARY KEY ("index")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TraceChainEntry_traceRowId_key" ON "TraceChainEntry"("traceRowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TraceChainEntry_chainHash_key" ON "TraceChainEntry"("chainHash");
+
+-- CreateIndex
+CREATE INDEX "TraceChainEntry_traceId_idx" ON "TraceChainEntry"("traceId");
+
+-- AddForeignKey
+ALTER TABLE "TraceChainEntry" ADD CONSTRAINT "TraceChainEntry_traceRowId_fkey" FOREIGN KEY ("traceRowId") REFERENCES "Trace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "TruthBlock" ADD COLUMN     "merkleRoot" TEXT,
+ADD COLUMN     "sealedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "VerifiedStatement" ADD COLUMN     "artifactHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "VerifiedStatement_artifactHash_idx" ON "VerifiedStatement"("artifactHash");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "PolicyOverride" (
+    "scope" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "document" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PolicyOverride_pkey" PRIMARY KEY ("scope")
+);
+
+-- CreateTable
+CREATE TABLE "PolicyDecisionLog" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT,
+    "taskId" TEXT,
+    "agentRole" TEXT,
+    "environment" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "effect" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "dryRun" BOOLEAN NOT NULL DEFAULT false,
+    "gateId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PolicyDecisionLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PolicyDecisionLog_projectId_createdAt_idx" ON "PolicyDecisionLog"("projectId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PolicyDecisionLog_effect_idx" ON "PolicyDecisionLog"("effect");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "GenomeBenchmarkRun" (
+    "id" TEXT NOT NULL,
+    "genomeId" TEXT NOT NULL,
+    "agentId" TEXT,
+    "role" TEXT NOT NULL,
+    "corpusVersion" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "tasksPassed" INTEGER NOT NULL,
+    "tasksTotal" INTEGER NOT NULL,
+    "testsPassed" INTEGER NOT NULL,
+    "testsTotal" INTEGER NOT NULL,
+    "model" TEXT NOT NULL,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "durationMs" INTEGER NOT NULL,
+    "results" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GenomeBenchmarkRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GenomeBenchmarkRun_genomeId_createdAt_idx" ON "GenomeBenchmarkRun"("genomeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GenomeBenchmarkRun_agentId_idx" ON "GenomeBenchmarkRun"("agentId");
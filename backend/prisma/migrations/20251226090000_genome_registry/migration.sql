@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Agent" ADD COLUMN "genomeVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "GenomeVersion" (
+    "hash" TEXT NOT NULL,
+    "genome" JSONB NOT NULL,
+    "role" TEXT,
+    "firstGenomeId" TEXT NOT NULL,
+    "firstAgentId" TEXT,
+    "parentHashes" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GenomeVersion_pkey" PRIMARY KEY ("hash")
+);
+
+-- CreateTable
+CREATE TABLE "GenomePin" (
+    "role" TEXT NOT NULL,
+    "versionHash" TEXT NOT NULL,
+    "pinnedBy" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenomePin_pkey" PRIMARY KEY ("role")
+);
+
+-- CreateIndex
+CREATE INDEX "GenomeVersion_role_createdAt_idx" ON "GenomeVersion"("role", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "GenomePin" ADD CONSTRAINT "GenomePin_versionHash_fkey" FOREIGN KEY ("versionHash") REFERENCES "GenomeVersion"("hash") ON DELETE RESTRICT ON UPDATE CASCADE;
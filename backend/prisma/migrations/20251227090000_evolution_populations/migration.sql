@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Population" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "projectId" TEXT,
+    "domain" TEXT,
+    "config" JSONB NOT NULL DEFAULT '{}',
+    "generation" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Population_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Agent" ADD COLUMN "populationId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Generation" ALTER COLUMN "projectId" DROP NOT NULL,
+ADD COLUMN "populationId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Population_projectId_key" ON "Population"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Population_domain_key" ON "Population"("domain");
+
+-- CreateIndex
+CREATE INDEX "Generation_populationId_generationNumber_idx" ON "Generation"("populationId", "generationNumber");
+
+-- AddForeignKey
+ALTER TABLE "Population" ADD CONSTRAINT "Population_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Agent" ADD CONSTRAINT "Agent_populationId_fkey" FOREIGN KEY ("populationId") REFERENCES "Population"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterForeignKey
+ALTER TABLE "Generation" DROP CONSTRAINT "Generation_projectId_fkey";
+ALTER TABLE "Generation" ADD CONSTRAINT "Generation_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Generation" ADD CONSTRAINT "Generation_populationId_fkey" FOREIGN KEY ("populationId") REFERENCES "Population"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing evolutionary agents form the global population
+INSERT INTO "Population" ("id", "scope", "updatedAt") VALUES ('global', 'GLOBAL', CURRENT_TIMESTAMP);
+UPDATE "Agent" SET "populationId" = 'global' WHERE "genome" IS NOT NULL;
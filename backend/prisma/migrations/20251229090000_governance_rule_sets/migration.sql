@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "GovernanceEvent" ADD COLUMN "ruleSetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "GovernanceRuleSet" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT,
+    "version" INTEGER NOT NULL,
+    "rules" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GovernanceRuleSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GovernanceRuleSet_projectId_version_key" ON "GovernanceRuleSet"("projectId", "version");
+
+-- AddForeignKey
+ALTER TABLE "GovernanceRuleSet" ADD CONSTRAINT "GovernanceRuleSet_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GovernanceEvent" ADD CONSTRAINT "GovernanceEvent_ruleSetId_fkey" FOREIGN KEY ("ruleSetId") REFERENCES "GovernanceRuleSet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- Global rule sets have a NULL projectId, and NULLs never collide in the
+-- (projectId, version) unique index; key versions by a non-null scope instead
+ALTER TABLE "GovernanceRuleSet" ADD COLUMN "scope" TEXT;
+UPDATE "GovernanceRuleSet" SET "scope" = COALESCE("projectId", 'global');
+ALTER TABLE "GovernanceRuleSet" ALTER COLUMN "scope" SET NOT NULL;
+
+-- Versions written twice by concurrent saves: keep the oldest row of each
+CREATE TEMP TABLE "_RuleSetDuplicate" AS
+SELECT "id", "keepId" FROM (
+    SELECT "id", FIRST_VALUE("id") OVER (PARTITION BY "scope", "version" ORDER BY "createdAt", "id") AS "keepId"
+    FROM "GovernanceRuleSet"
+) ranked
+WHERE "id" <> "keepId";
+
+UPDATE "GovernanceEvent" e SET "ruleSetId" = d."keepId"
+FROM "_RuleSetDuplicate" d WHERE e."ruleSetId" = d."id";
+
+DELETE FROM "GovernanceRuleSet" r USING "_RuleSetDuplicate" d WHERE r."id" = d."id";
+
+DROP TABLE "_RuleSetDuplicate";
+
+-- DropIndex
+DROP INDEX "GovernanceRuleSet_projectId_version_key";
+
+-- CreateIndex
+CREATE INDEX "GovernanceRuleSet_projectId_idx" ON "GovernanceRuleSet"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GovernanceRuleSet_scope_version_key" ON "GovernanceRuleSet"("scope", "version");
@@ -0,0 +1,7 @@
+-- Outcomes recorded per memory, and curation that survives restarts
+ALTER TABLE "AgentMemoryEntry" ADD COLUMN "outcomeCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "AgentMemoryEntry" ADD COLUMN "curated" BOOLEAN NOT NULL DEFAULT false;
+
+-- New memories start from a neutral prior; the 0.0 stored so far was never an observed outcome
+ALTER TABLE "AgentMemoryEntry" ALTER COLUMN "successRate" SET DEFAULT 0.5;
+UPDATE "AgentMemoryEntry" SET "successRate" = 0.5 WHERE "type" <> 'SUCCESS_PATTERN';
@@ -0,0 +1,39 @@
+process.env.TASK_QUEUE_BACKEND = process.env.TASK_QUEUE_BACKEND || 'memory';
+
+import { taskQueue } from '../src/services/taskQueue';
+
+async function runTest() {
+  console.log(`🧪 Testing Lease-based Task Queue...`);
+  let failed = 0;
+  const check = (ok: boolean, label: string) => {
+    console.log(`${ok ? '✅' : '❌'} ${label}`);
+    if (!ok) failed++;
+  };
+
+  // 1. Priority ordering
+  await taskQueue.add('task-low', 1);
+  await taskQueue.add('task-high', 10);
+  const first = await taskQueue.lease('worker-a', 50);
+  check(first?.taskId === 'task-high', 'Highest priority task is leased first');
+
+  // 2. Live lease blocks a second claim
+  const stolen = await taskQueue.claim('task-high', 'worker-b');
+  check(stolen === null, 'Live lease cannot be claimed by another worker');
+
+  // 3. Heartbeat extends, stale token is rejected after re-lease
+  check(await taskQueue.heartbeat(first!, 50), 'Heartbeat extends own lease');
+  await new Promise((r) => setTimeout(r, 80));
+  const reclaimed = await taskQueue.claim('task-high', 'worker-b');
+  check(reclaimed !== null, 'Expired lease can be claimed again');
+  check(!(await taskQueue.ack(first!)), 'Stale worker cannot ack a re-delivered lease');
+  check(await taskQueue.ack(reclaimed!), 'Current owner can ack');
+
+  // 4. Stats reflect remaining ready task
+  const stats = await taskQueue.stats();
+  check(stats.depth === 1 && stats.inFlight.length === 0, `Stats: depth=${stats.depth}, inFlight=${stats.inFlight.length}`);
+
+  console.log(failed === 0 ? '\n🎉 All queue checks passed' : `\n💥 ${failed} check(s) failed`);
+  process.exit(failed === 0 ? 0 : 1);
+}
+
+runTest();
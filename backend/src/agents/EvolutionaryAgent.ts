@@ -239,6 +239,7 @@ export class EvolutionaryAgent {
                 existencePotential: (this.agent.existencePotential + partnerAgent.agent.existencePotential) / 2, // Start with average E
                 generation: mutatedGenome.generation,
                 genome: mutatedGenome as any,
+                populationId: this.agent.populationId, // Offspring stay in their parent's population
                 parentId: this.agent.id,
                 modelConfig: this.agent.modelConfig || undefined
             }
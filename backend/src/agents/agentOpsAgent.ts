@@ -2,6 +2,7 @@ import { Task } from "@prisma/client";
 import { callLLM } from "../llm/llmClient";
 import { getAgentConfig } from "../llm/modelRegistry";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 
 export class AgentOpsAgent {
   async analyzeLogs(task: Task, context: any): Promise<any> {
@@ -66,7 +67,10 @@ export async function runAgentOpsAgentOnce() {
     });
 
     try {
-      const result = await agent.analyzeLogs(task, task.contextPacket);
+      const result = await budgetLimiter.trackTaskCost(
+        { taskId: task.id, agentId: task.assignedToAgentId, agentRole: "AgentOps" },
+        () => agent.analyzeLogs(task, task.contextPacket)
+      );
 
       if (result.status === "COMPLETED") {
         await prisma.task.update({
@@ -3,6 +3,7 @@ import { callLLM } from "../llm/llmClient";
 import { getAgentConfig } from "../llm/modelRegistry";
 import { emitTaskUpdate, emitAgentUpdate, emitLog } from "../websocket/socketServer";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 import { createVerifiedAgent } from "../services/VerifiedAgent";
 import { populationManager } from "../services/evolution/PopulationManager";
 import { quickEUpdate, getRoleReward } from "../services/evolution/EvolutionaryRewardHelper";
@@ -167,9 +168,12 @@ export async function runArchitectAgentOnce() {
       data: { status: "IN_PROGRESS" },
     });
     emitTaskUpdate(inProgressTask);
+    const cost = { taskId: task.id, agentId: task.assignedToAgentId, agentRole: "Architect" };
 
     try {
-      const result = await agent.planProject(task, task.contextPacket);
+      const result = await budgetLimiter.trackTaskCost(cost, () =>
+        agent.planProject(task, task.contextPacket)
+      );
 
       if (result) {
         // HALLUCINATION VERIFICATION GATE WITH AUTO-FIX RETRY for any code in ADR
@@ -216,10 +220,12 @@ ${adrContent.slice(0, 2000)}
 OUTPUT ONLY the fixed architecture JSON, no explanation.
 `;
               const config = await getAgentConfig("Architect");
-              const fixResponse = await callLLM(config, [
-                { role: "system", content: "You are an architecture fixer. Output ONLY valid JSON." },
-                { role: "user", content: fixPrompt }
-              ]);
+              const fixResponse = await budgetLimiter.trackTaskCost(cost, () =>
+                callLLM(config, [
+                  { role: "system", content: "You are an architecture fixer. Output ONLY valid JSON." },
+                  { role: "user", content: fixPrompt }
+                ])
+              );
               
               adrContent = fixResponse.content
                 .replace(/```(?:json)?/g, '')
@@ -2,6 +2,7 @@ import { Task } from "@prisma/client";
 import { callLLM } from "../llm/llmClient";
 import { getAgentConfig } from "../llm/modelRegistry";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 
 export class CanaryAgent {
   async probeSystem(task: Task, context: any): Promise<any> {
@@ -64,7 +65,10 @@ export async function runCanaryAgentOnce() {
     });
 
     try {
-      const result = await agent.probeSystem(task, task.contextPacket);
+      const result = await budgetLimiter.trackTaskCost(
+        { taskId: task.id, agentId: task.assignedToAgentId, agentRole: "Canary" },
+        () => agent.probeSystem(task, task.contextPacket)
+      );
 
       if (result.status === "COMPLETED") {
         await prisma.task.update({
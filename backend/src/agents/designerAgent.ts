@@ -1,9 +1,10 @@
 import { invokeModel, ModelConfig } from "../services/llmClient";
-import { queryVectorDB } from "../services/ragService";
+import { queryVectorDB, formatDocsForPrompt } from "../services/ragService";
 import { checkBudget } from "../services/preflightService";
 import { randomUUID } from "crypto";
 import { emitTaskUpdate, emitAgentUpdate } from "../websocket/socketServer";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 
 const SYSTEM_PROMPT = `
 You are a World-Class Product Designer and Creative Director (ex-Apple, ex-Airbnb).
@@ -173,9 +174,11 @@ export async function runDesignerAgentOnce() {
 
     // RAG Retrieval
     const ragResult = await queryVectorDB(
-      task.title + " " + JSON.stringify(designBrief)
+      task.title + " " + JSON.stringify(designBrief),
+      3,
+      { projectId }
     );
-    const ragContext = ragResult.docs.map((d) => d.content).join("\n\n");
+    const ragContext = formatDocsForPrompt(ragResult.docs);
 
     // 4. Preflight Check
     // Estimate cost (rough)
@@ -202,13 +205,17 @@ export async function runDesignerAgentOnce() {
     // 5. Generate Design Package
     const modelConfig = (agent.modelConfig as any).primary as ModelConfig;
 
-    const designPackageContent = await generateDesignPackage(
-      projectId,
-      task.module.project.name,
-      task.title,
-      designBrief,
-      modelConfig,
-      ragContext
+    const designPackageContent = await budgetLimiter.trackTaskCost(
+      { projectId, taskId: task.id, agentId: agent.id, agentRole: "Designer" },
+      () =>
+        generateDesignPackage(
+          projectId,
+          task.module.project.name,
+          task.title,
+          designBrief,
+          modelConfig,
+          ragContext
+        )
     );
 
     // 6. Update Task
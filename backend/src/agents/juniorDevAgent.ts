@@ -33,7 +33,11 @@ OUTPUT JSON ONLY:
     const response = await callLLM(config, [
       { role: "system", content: systemPrompt },
       { role: "user", content: "Implement this feature." },
-    ]);
+    ], {
+      taskId: task.id,
+      agentId: task.assignedToAgentId || "JuniorDev",
+      projectId: (task as any).module?.projectId,
+    });
 
     try {
       const cleanResponse = response.content
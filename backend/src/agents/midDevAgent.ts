@@ -1,5 +1,6 @@
 import { Task, TaskStatus } from "@prisma/client";
 import { callLLM } from "../llm/llmClient";
+import { StreamContext } from "../llm/types";
 import { getAgentConfig } from "../llm/modelRegistry";
 import {
   emitTaskUpdate,
@@ -12,6 +13,75 @@ import { createVerifiedAgent } from "../services/VerifiedAgent";
 import { EvolutionaryAgent } from "./EvolutionaryAgent";
 import { populationManager } from "../services/evolution/PopulationManager";
 import { hallucinationDetector } from "../services/verification/HallucinationDetector";
+import { taskQueue, LEASED_TASK_ROLES } from "../services/taskQueue";
+import { budgetLimiter } from "../services/budgetLimiter";
+import { agentMemory } from "../services/agentMemory";
+import { queryVectorDB, formatDocsForPrompt } from "../services/ragService";
+import { taskFiles } from "../services/taskFiles";
+import { sideEffects, isPolicyBlock } from "../services/sideEffects";
+
+/**
+ * Tags MidDev generations so the dashboard can show them live per task
+ */
+function streamContextFor(task: Task): StreamContext {
+  return {
+    taskId: task.id,
+    agentId: task.assignedToAgentId || "MidDev",
+    projectId: (task as any).module?.project?.id || (task as any).module?.projectId,
+  };
+}
+
+type FixOutcome = { content?: string; conflicted?: boolean; error?: string };
+
+/**
+ * Write a fix to the task's file. A unified diff is applied against the
+ * live file (three-way merged with the task's recorded base when other
+ * agents changed it); full content replaces the file. A diff that conflicts
+ * or does not apply has already sent the task back to NEEDS_REVISION; its
+ * full content is not written over the file instead, which would drop
+ * concurrent edits. Writes the safety policy refuses throw.
+ */
+async function writeFix(
+  task: Task,
+  projectId: string,
+  result: { diff?: string; newFileContent?: string }
+): Promise<FixOutcome> {
+  const filePath = task.relatedFileName!;
+
+  if (result.diff) {
+    const outcome = await taskFiles.applyPatch(task.id, projectId, filePath, [
+      { type: "apply_diff", diff: result.diff },
+    ], "MidDev");
+    if (outcome.applied) return { content: outcome.report.code };
+    if (outcome.conflicted) return { conflicted: true };
+    const reasons = outcome.report.results.map((r) => r.error).filter(Boolean).join("; ");
+    return { error: `Diff did not apply: ${reasons}` };
+  }
+
+  try {
+    await sideEffects.writeFile(
+      { projectId, taskId: task.id, agentRole: "MidDev" },
+      filePath,
+      result.newFileContent!
+    );
+    await taskFiles.snapshot(task.id, filePath, result.newFileContent!);
+  } catch (writeErr) {
+    if (isPolicyBlock(writeErr)) throw writeErr;
+    console.error(`[MidDev] ❌ Failed to write fixed file:`, writeErr);
+  }
+  return { content: result.newFileContent };
+}
+
+/**
+ * Feed an implementation's outcome back into the memories its prompt used
+ */
+async function recordMemoryOutcomes(memoryIds: string[] | undefined, success: boolean) {
+  for (const memoryId of memoryIds || []) {
+    await agentMemory
+      .updateMemoryOutcome(memoryId, success)
+      .catch((err) => console.warn(`[MidDev] Failed to record memory outcome:`, err));
+  }
+}
 
 export class MidDevAgent {
   async fixTask(
@@ -41,7 +111,8 @@ INSTRUCTIONS:
 OUTPUT JSON ONLY:
 {
   "status": "FIXED" | "FAILED",
-  "newFileContent": "Full content of the file with fixes applied",
+  "diff": "Unified diff (---/+++/@@ hunks with context) of the Related File; preferred for targeted fixes",
+  "newFileContent": "Full content of the file with fixes applied (only when not sending a diff)",
   "commitMessage": "Fix: <brief description> (QA#<id>)"
 }
 `;
@@ -50,7 +121,7 @@ OUTPUT JSON ONLY:
     const response = await callLLM(config, [
       { role: "system", content: systemPrompt },
       { role: "user", content: "Fix the code based on feedback." },
-    ]);
+    ], streamContextFor(task));
 
     try {
       const cleanResponse = response.content
@@ -71,6 +142,40 @@ OUTPUT JSON ONLY:
   async implementTask(task: Task, designContext: any): Promise<any> {
     const startTime = Date.now();
 
+    // Lessons from earlier tasks that resemble this one
+    let pastExperience = "";
+    let memoryIds: string[] = [];
+    try {
+      const memories = await agentMemory.retrieveRelevantMemories(
+        {
+          title: task.title,
+          description: (task.contextPacket as any)?.description,
+        },
+        "MidDev",
+        3
+      );
+      pastExperience = agentMemory.formatMemoriesForPrompt(memories);
+      memoryIds = memories.map((m) => m.id);
+    } catch (err) {
+      console.warn("[MidDev] Memory retrieval failed:", err);
+    }
+
+    // Existing project code the implementation should fit into
+    let projectCode = "";
+    const projectId = (task as any).module?.project?.id || (task as any).module?.projectId;
+    if (projectId) {
+      try {
+        const rag = await queryVectorDB(
+          `${task.title} ${(task.contextPacket as any)?.description || ""}`,
+          4,
+          { projectId }
+        );
+        projectCode = formatDocsForPrompt(rag.docs);
+      } catch (err) {
+        console.warn("[MidDev] RAG retrieval failed:", err);
+      }
+    }
+
     // Basic implementation logic for fresh tasks
     const systemPrompt = `
 You are a Mid-Level Developer (L4). You are in IMPLEMENTATION-MODE.
@@ -83,7 +188,8 @@ INPUT:
 INSTRUCTIONS:
 1. Implement the feature based on the design.
 2. Ensure code is clean and typed.
-
+3. Reuse and stay consistent with the existing project code below; cite file paths you rely on.
+${projectCode}${pastExperience}
 OUTPUT JSON ONLY:
 {
   "status": "COMPLETED" | "FAILED",
@@ -95,7 +201,7 @@ OUTPUT JSON ONLY:
     const response = await callLLM(config, [
       { role: "system", content: systemPrompt },
       { role: "user", content: "Implement feature." },
-    ]);
+    ], streamContextFor(task));
 
     const executionTimeMs = Date.now() - startTime;
 
@@ -148,11 +254,13 @@ OUTPUT JSON ONLY:
       // Attach metrics to the response
       return {
         ...parsed,
+        memoryIds,
         metrics: {
           executionTimeMs,
           tokensIn: response.usage?.promptTokens || 0,
           tokensOut: response.usage?.completionTokens || 0,
           costUsd: response.costUsd || 0,
+          model: config.model,
           verified: true,
         },
       };
@@ -164,11 +272,13 @@ OUTPUT JSON ONLY:
         artifact: "",
         fileName: "",
         error: `JSON Parse Error: ${e.message}`,
+        memoryIds,
         metrics: {
           executionTimeMs,
           tokensIn: response.usage?.promptTokens || 0,
           tokensOut: response.usage?.completionTokens || 0,
           costUsd: response.costUsd || 0,
+          model: config.model,
         },
       };
     }
@@ -218,7 +328,8 @@ INSTRUCTIONS:
 OUTPUT JSON ONLY:
 {
   "status": "FIXED" | "FAILED",
-  "newFileContent": "Complete fixed file content",
+  "diff": "Unified diff (---/+++/@@ hunks with context) of the file; preferred for minimal changes",
+  "newFileContent": "Complete fixed file content (only when not sending a diff)",
   "changesSummary": "Brief description of what was fixed"
 }
 `;
@@ -227,7 +338,7 @@ OUTPUT JSON ONLY:
     const response = await callLLM(config, [
       { role: "system", content: systemPrompt },
       { role: "user", content: "Fix the issues found in Senior Dev review." },
-    ]);
+    ], streamContextFor(task));
 
     const executionTimeMs = Date.now() - startTime;
 
@@ -245,6 +356,7 @@ OUTPUT JSON ONLY:
           tokensIn: response.usage?.promptTokens || 0,
           tokensOut: response.usage?.completionTokens || 0,
           costUsd: response.costUsd || 0,
+          model: config.model,
         },
       };
     } catch (e) {
@@ -258,6 +370,7 @@ OUTPUT JSON ONLY:
           tokensIn: response.usage?.promptTokens || 0,
           tokensOut: response.usage?.completionTokens || 0,
           costUsd: response.costUsd || 0,
+          model: config.model,
         },
       };
     }
@@ -269,18 +382,7 @@ export async function runMidDevAgentOnce() {
   // Also pick up stuck IN_PROGRESS tasks older than 2 minutes
   const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000);
 
-  const devRoles = [
-    "MidDev",
-    "MIDDEV",
-    "MID_DEV",
-    "midDev",
-    "middev",
-    "FrontendDev",
-    "SeniorDev",
-    "JuniorDev",
-    "Developer",
-    "Dev",
-  ];
+  const devRoles = LEASED_TASK_ROLES;
 
   const tasks = await prisma.task.findMany({
     where: {
@@ -325,7 +427,7 @@ export async function runMidDevAgentOnce() {
     // If no agent assigned, request one from the evolution pool
     if (!dbAgent) {
       // Try to get an agent from the evolutionary population pool
-      dbAgent = await populationManager.requestAgent("MidDev");
+      dbAgent = await populationManager.requestAgent("MidDev", projectId);
       
       if (dbAgent) {
         agentId = dbAgent.id;
@@ -376,6 +478,21 @@ export async function runMidDevAgentOnce() {
       console.log(`[MidDev] 🧬 Using EvolutionaryAgent wrapper (E=${dbAgent.existencePotential.toFixed(1)})`);
     }
 
+    // Don't spend on projects that are over budget or paused
+    if (projectId && !(await budgetLimiter.canProceed(projectId))) {
+      console.log(`[MidDev] 💸 Budget exhausted for project ${projectId}, skipping task ${task.id}`);
+      continue;
+    }
+
+    // Lease the task so a crash mid-run gets it re-delivered, and so a
+    // "stuck" IN_PROGRESS task another worker is still heartbeating is skipped
+    const lease = await taskQueue.claim(task.id, agentId || "MidDev");
+    if (!lease) {
+      console.log(`[MidDev] Task ${task.id} is leased by another worker, skipping`);
+      continue;
+    }
+    const stopHeartbeat = taskQueue.startHeartbeat(lease);
+
     console.log(
       `[MidDev] Processing Task ${task.id} (${task.status}) for project ${
         projectId || "unknown"
@@ -383,15 +500,15 @@ export async function runMidDevAgentOnce() {
     );
     emitLog(`[MidDev] 🔧 Starting: ${task.title}`);
 
-    // Mark as IN_PROGRESS and emit WebSocket update
-    const inProgressTask = await prisma.task.update({
-      where: { id: task.id },
-      data: { status: "IN_PROGRESS", updatedAt: new Date() },
-    });
-    emitTaskUpdate(inProgressTask);
-
+    let result: any;
     try {
-      let result;
+      // Mark as IN_PROGRESS and emit WebSocket update
+      const inProgressTask = await prisma.task.update({
+        where: { id: task.id },
+        data: { status: "IN_PROGRESS", updatedAt: new Date() },
+      });
+      emitTaskUpdate(inProgressTask);
+
       const contextPacket = task.contextPacket as any;
 
       // Check if this is a fix task from Senior Dev review
@@ -414,6 +531,8 @@ export async function runMidDevAgentOnce() {
               projectId,
               task.relatedFileName
             );
+            // The fix is written against this content
+            await taskFiles.snapshot(task.id, task.relatedFileName, fileContent);
           } catch (e) {
             console.error(
               `[MidDev] Could not read file ${task.relatedFileName}:`,
@@ -429,33 +548,27 @@ export async function runMidDevAgentOnce() {
           contextPacket.issues
         );
 
-        if (result.status === "FIXED" && result.newFileContent) {
-          // Write the fixed file
-          if (projectId && task.relatedFileName) {
-            try {
-              await workspaceManager.writeFile(
-                projectId,
-                task.relatedFileName,
-                result.newFileContent
-              );
-              console.log(
-                `[MidDev] ✅ Fixed and wrote: ${task.relatedFileName}`
-              );
-              emitLog(`[MidDev] ✅ Fixed: ${task.relatedFileName}`);
-            } catch (writeErr) {
-              console.error(
-                `[MidDev] ❌ Failed to write fixed file:`,
-                writeErr
-              );
-            }
-          }
+        const fix: FixOutcome =
+          result.status === "FIXED" && (result.diff || result.newFileContent)
+            ? projectId && task.relatedFileName
+              ? await writeFix(task, projectId, result)
+              : { content: result.newFileContent }
+            : { error: "Failed to fix review issues" };
+
+        if (fix.conflicted) {
+          emitLog(`[MidDev] ⚠️ Patch conflict in ${task.relatedFileName}, sent back for revision`);
+        } else if (fix.content !== undefined) {
+          console.log(
+            `[MidDev] ✅ Fixed and wrote: ${task.relatedFileName}`
+          );
+          emitLog(`[MidDev] ✅ Fixed: ${task.relatedFileName}`);
 
           // Mark as completed (fixed)
           const fixedTask = await prisma.task.update({
             where: { id: task.id },
             data: {
               status: "COMPLETED",
-              outputArtifact: result.newFileContent,
+              outputArtifact: fix.content,
               lastAgentMessage:
                 result.changesSummary || "Fixed issues from Senior Dev review",
             },
@@ -466,7 +579,7 @@ export async function runMidDevAgentOnce() {
             where: { id: task.id },
             data: {
               status: "FAILED",
-              errorMessage: "Failed to fix review issues",
+              errorMessage: fix.error,
             },
           });
           emitTaskUpdate(failedTask);
@@ -481,6 +594,8 @@ export async function runMidDevAgentOnce() {
               projectId,
               task.relatedFileName
             );
+            // The fix is written against this content
+            await taskFiles.snapshot(task.id, task.relatedFileName, fileContent);
           } catch (e) {
             console.error(
               `[MidDev] Could not read file ${task.relatedFileName}:`,
@@ -493,31 +608,25 @@ export async function runMidDevAgentOnce() {
 
         result = await agent.fixTask(task, fileContent, feedback);
 
-        if (result.status === "FIXED") {
-          // Write the fixed file to workspace
-          if (projectId && task.relatedFileName) {
-            try {
-              await workspaceManager.writeFile(
-                projectId,
-                task.relatedFileName,
-                result.newFileContent
-              );
-              console.log(
-                `[MidDev] ✅ Fixed and wrote: ${task.relatedFileName}`
-              );
-            } catch (writeErr) {
-              console.error(
-                `[MidDev] ❌ Failed to write fixed file:`,
-                writeErr
-              );
-            }
-          }
+        const fix: FixOutcome =
+          result.status === "FIXED" && (result.diff || result.newFileContent)
+            ? projectId && task.relatedFileName
+              ? await writeFix(task, projectId, result)
+              : { content: result.newFileContent }
+            : { error: "Agent failed to fix" };
+
+        if (fix.conflicted) {
+          emitLog(`[MidDev] ⚠️ Patch conflict in ${task.relatedFileName}, sent back for revision`);
+        } else if (fix.content !== undefined) {
+          console.log(
+            `[MidDev] ✅ Fixed and wrote: ${task.relatedFileName}`
+          );
 
           const updatedTask = await prisma.task.update({
             where: { id: task.id },
             data: {
               status: "IN_REVIEW", // Send back to Review
-              outputArtifact: result.newFileContent,
+              outputArtifact: fix.content,
               lastAgentMessage: result.commitMessage,
             },
           });
@@ -526,7 +635,7 @@ export async function runMidDevAgentOnce() {
           // Failed to fix?
           const failedTask = await prisma.task.update({
             where: { id: task.id },
-            data: { status: "FAILED", errorMessage: "Agent failed to fix" },
+            data: { status: "FAILED", errorMessage: fix.error },
           });
           emitTaskUpdate(failedTask);
         }
@@ -547,18 +656,21 @@ export async function runMidDevAgentOnce() {
                 console.log(
                   `[MidDev] 📝 Writing file ${result.fileName} to project ${projectId}...`
                 );
-                await workspaceManager.writeFile(
-                  projectId,
+                await sideEffects.writeFile(
+                  { projectId, taskId: task.id, agentRole: "MidDev" },
                   result.fileName,
                   result.artifact
                 );
                 console.log(
                   `[MidDev] ✅ Wrote file ${result.fileName} to workspace`
                 );
+                await taskFiles.snapshot(task.id, result.fileName, result.artifact);
 
                 // ... (Hallucination logic omitted for brevity as it's separate) ... 
                 
               } catch (writeErr) {
+                 // Policy blocks fail the task instead of sending an unwritten file to QA
+                 if (isPolicyBlock(writeErr)) throw writeErr;
                  console.error(`[MidDev] ❌ Failed to write file ${result.fileName}:`, writeErr);
               }
             }
@@ -574,6 +686,7 @@ export async function runMidDevAgentOnce() {
             });
             emitTaskUpdate(completedTask);
             emitLog(`[MidDev] ✅ Sent to QA: ${task.title} → ${result.fileName}`);
+            await recordMemoryOutcomes(result.memoryIds, true);
 
             // EVOLUTIONARY: Update E-value for success (+5 for regular task)
             if (evoAgent && agentId) {
@@ -609,6 +722,7 @@ export async function runMidDevAgentOnce() {
               },
             });
             emitTaskUpdate(failedTask);
+            await recordMemoryOutcomes(result.memoryIds, false);
 
             // EVOLUTIONARY: Update E-value for failure (-10)
             if (evoAgent && agentId) {
@@ -624,9 +738,12 @@ export async function runMidDevAgentOnce() {
       }
     } catch (error) {
       console.error(`[MidDev] Error processing task ${task.id}:`, error);
+      // Writes the safety policy refused wait for a human instead of failing
       const failedTask = await prisma.task.update({
         where: { id: task.id },
-        data: { status: "FAILED", errorMessage: String(error) },
+        data: isPolicyBlock(error)
+          ? { status: "BLOCKED", blockedReason: (error as Error).message }
+          : { status: "FAILED", errorMessage: String(error) },
       });
       emitTaskUpdate(failedTask);
       emitLog(
@@ -643,6 +760,23 @@ export async function runMidDevAgentOnce() {
           },
         });
       }
+    } finally {
+      // Also when recording the failure throws: a live heartbeat would hold the lease forever
+      stopHeartbeat();
+      await taskQueue.ack(lease);
+    }
+
+    // Write the LLM spend for this attempt to the cost ledger
+    if (projectId && result?.metrics?.costUsd) {
+      await budgetLimiter
+        .recordCost(projectId, task.id, result.metrics.costUsd, {
+          agentId: agentId || undefined,
+          agentRole: "MidDev",
+          model: result.metrics.model,
+          tokensIn: result.metrics.tokensIn,
+          tokensOut: result.metrics.tokensOut,
+        })
+        .catch((err) => console.error(`[MidDev] Failed to record cost:`, err));
     }
 
     // Mark the agent as IDLE after processing and emit updated stats
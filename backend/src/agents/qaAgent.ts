@@ -10,10 +10,13 @@ import { callLLM } from "../llm/llmClient";
 import { getDefaultModelConfig } from "../llm/modelRegistry";
 import { workspaceManager } from "../services/workspaceManager";
 import { sandbox } from "../services/sandbox";
+import { sideEffects, isPolicyBlock } from "../services/sideEffects";
+import { testRunner, TestRunResult, TestCaseResult } from "../services/testRunner";
 import { handleQAReject } from "../services/qaHandler";
 import { confidenceRouter } from "../services/confidenceRouter";
 import { emitTaskUpdate, emitAgentUpdate, emitLog } from "../websocket/socketServer";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 import { EvolutionaryAgent } from "./EvolutionaryAgent";
 import { populationManager } from "../services/evolution/PopulationManager";
 import { quickEUpdate, getRoleReward } from "../services/evolution/EvolutionaryRewardHelper";
@@ -83,12 +86,23 @@ export async function runQAAgentOnce() {
       }
 
       // In cloud mode, we can't run actual tests - use LLM to review code
-      if (process.env.EXECUTION_MODE === "CLOUD") {
-        await runLLMCodeReview(task, qaAgent);
-      } else {
-        await runMultiLayeredTests(task, qaAgent);
-      }
+      await budgetLimiter.trackTaskCost(
+        { projectId, taskId: task.id, agentId: qaAgent?.id, agentRole: "QA" },
+        () =>
+          process.env.EXECUTION_MODE === "CLOUD"
+            ? runLLMCodeReview(task, qaAgent)
+            : runMultiLayeredTests(task, qaAgent)
+      );
     } catch (error) {
+      if (isPolicyBlock(error)) {
+        // A check the safety policy refused is not a pass
+        console.warn(`[QA] 🚫 Task ${task.id} blocked by safety policy: ${error.message}`);
+        emitTaskUpdate(await prisma.task.update({
+          where: { id: task.id },
+          data: { status: "BLOCKED", blockedReason: error.message },
+        }));
+        continue;
+      }
       console.error(`[QA] Error validating task ${task.id}:`, error);
       // Don't let errors block - mark as passed with warning
       await prisma.task.update({
@@ -247,10 +261,13 @@ async function runMultiLayeredTests(task: any, qaAgent: any) {
     projectId,
     status.workspacePath
   );
+  // Every command below goes through the safety policy, traced on the task
+  const guard = { projectId, taskId: task.id, agentRole: "QA" };
 
   // 1. Lint & Static Analysis
   console.log("[QA] 🔍 Running Static Analysis (Lint/SAST)...");
-  const lintRes = await sandbox.exec(
+  const lintRes = await sideEffects.exec(
+    guard,
     containerId,
     "npm run lint -- --format json"
   );
@@ -265,29 +282,26 @@ async function runMultiLayeredTests(task: any, qaAgent: any) {
     return;
   }
 
-  // 2. Unit Tests
+  // 2. Unit Tests (the project's own Jest/Vitest, parsed per test)
   console.log("[QA] 🧪 Running Unit Tests...");
-  const testRes = await sandbox.exec(containerId, "npm test -- --json");
-  if (testRes.exitCode !== 0) {
-    await reportBug(
-      task,
-      "HIGH",
-      "Unit tests failed",
-      testRes.stderr || testRes.stdout,
-      ["npm test"]
-    );
+  const testRun = await testRunner.run(projectId, { coverage: true, taskId: task.id, agentRole: "QA" });
+  if (!testRun.framework) {
+    console.log(`[QA] ⚠️ ${testRun.error} - skipping unit tests`);
+  } else if (!testRun.success) {
+    await reportTestFailures(task, testRun);
     return;
   }
 
   // 3. Integration Tests (Playwright/Supertest)
   console.log("[QA] 🎭 Running Integration Tests...");
   // Check if integration tests exist
-  const hasIntegration = await sandbox.exec(
+  const hasIntegration = await sideEffects.exec(
+    guard,
     containerId,
     "ls tests/integration"
   );
   if (hasIntegration.exitCode === 0) {
-    const intRes = await sandbox.exec(containerId, "npm run test:integration");
+    const intRes = await sideEffects.exec(guard, containerId, "npm run test:integration");
     if (intRes.exitCode !== 0) {
       await reportBug(
         task,
@@ -302,7 +316,7 @@ async function runMultiLayeredTests(task: any, qaAgent: any) {
 
   // 4. Fuzz Testing (Fast-Check)
   console.log("[QA] 🎲 Running Fuzz Tests...");
-  const fuzzRes = await sandbox.exec(containerId, "npm run fuzz");
+  const fuzzRes = await sideEffects.exec(guard, containerId, "npm run fuzz");
   if (fuzzRes.exitCode !== 0) {
     // Fuzzing failures are often edge cases, treat as High but maybe not blocking if minor?
     // For now, block.
@@ -320,7 +334,7 @@ async function runMultiLayeredTests(task: any, qaAgent: any) {
   // Check budget or complexity before running
   if (task.complexityScore && task.complexityScore > 70) {
     console.log("[QA] 🧬 Running Mutation Tests (Stryker)...");
-    const mutRes = await sandbox.exec(containerId, "npx stryker run");
+    const mutRes = await sideEffects.exec(guard, containerId, "npx stryker run");
     if (mutRes.exitCode !== 0) {
       // Mutation score too low?
       await reportBug(
@@ -344,6 +358,7 @@ async function runMultiLayeredTests(task: any, qaAgent: any) {
       reviewFeedback: {
         ...existingFeedback,
         qa: "Auto-QA: Lint, Unit, Integration, Fuzz, and Mutation Tests Passed.",
+        qaTests: summarizeTestRun(testRun),
         qaTimestamp: new Date().toISOString(),
       },
     },
@@ -360,12 +375,88 @@ async function runMultiLayeredTests(task: any, qaAgent: any) {
   }
 }
 
+function summarizeTestRun(run: TestRunResult) {
+  return {
+    framework: run.framework,
+    passed: run.numPassed,
+    failed: run.numFailed,
+    skipped: run.numSkipped,
+    coverage: run.coverage
+      ? {
+          lines: run.coverage.lines.pct,
+          statements: run.coverage.statements.pct,
+          functions: run.coverage.functions.pct,
+          branches: run.coverage.branches.pct,
+        }
+      : null,
+    error: run.error,
+    finishedAt: run.finishedAt,
+  };
+}
+
+/**
+ * First stack frame that points into the project (not node_modules or the runner)
+ */
+function locateFailure(test: TestCaseResult): { file?: string; line?: number } {
+  for (const match of (test.stackTrace || "").matchAll(/\(?((?:\/|[\w.-]+\/)[^():\s]+\.[cm]?[jt]sx?):(\d+):\d+\)?/g)) {
+    const [, file, line] = match;
+    if (file.includes("node_modules") || file.startsWith("/")) continue;
+    return { file, line: Number(line) };
+  }
+  return { file: test.file, line: test.location?.line };
+}
+
+/**
+ * Turn a failed test run into a bug report. The failing test, file, lines
+ * and stack come from the runner; the LLM only adds analysis and a patch.
+ */
+async function reportTestFailures(task: any, run: TestRunResult) {
+  const failures = run.tests.filter((t) => t.status === "failed");
+
+  if (failures.length === 0) {
+    // Runner failed without a failing test (crash, timeout, coverage threshold)
+    await reportBug(
+      task,
+      "HIGH",
+      `Unit test run failed: ${run.error || `exit code ${run.exitCode}`}`,
+      run.output || "",
+      [run.command || "npm test"]
+    );
+    return;
+  }
+
+  const [first] = failures;
+  const location = locateFailure(first);
+  const details = failures
+    .slice(0, 5)
+    .map(
+      (t) =>
+        `✗ ${t.name} (${t.file})\n${t.failureMessages.join("\n")}${t.stackTrace ? `\n${t.stackTrace}` : ""}`
+    )
+    .join("\n\n");
+
+  await reportBug(
+    task,
+    "HIGH",
+    `${failures.length}/${run.numTotal} unit tests failed: ${first.name}`,
+    details,
+    failures.slice(0, 5).map((t) => testRunner.reproCommand(run.framework!, t)),
+    {
+      file: location.file,
+      lines: location.line ? [location.line] : [],
+      stackTrace: first.stackTrace || first.failureMessages.join("\n"),
+      failingArtifact: first.file,
+    }
+  );
+}
+
 async function reportBug(
   task: any,
   severity: string,
   errorMsg: string,
   details: string,
-  reproSteps: string[]
+  reproSteps: string[],
+  observed: Partial<BugReport> = {}
 ) {
   console.log(`[QA] ❌ ${severity} Bug Detected: ${errorMsg}`);
 
@@ -390,6 +481,10 @@ async function reportBug(
     bugReport.timestamp = new Date().toISOString();
     bugReport.taskId = task.id;
 
+    // What the runner observed beats the LLM's reading of it
+    Object.assign(bugReport, observed);
+    bugReport.reproSteps = reproSteps.length ? reproSteps : bugReport.reproSteps || [];
+
     // HARDENING: Route based on confidence
     if (bugReport.suggestedPatch) {
       await confidenceRouter.routeByConfidence({
@@ -415,6 +510,7 @@ async function reportBug(
       suggestedPatch: "Please fix the errors shown in the logs.",
       confidence: 0.0,
       timestamp: new Date().toISOString(),
+      ...observed,
     };
 
     // Still route to War Room if critical
@@ -7,7 +7,9 @@ import {
   emitLog,
 } from "../websocket/socketServer";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 import { workspaceManager } from "../services/workspaceManager";
+import { sideEffects } from "../services/sideEffects";
 import { createVerifiedAgent } from "../services/VerifiedAgent";
 import { EvolutionaryAgent } from "./EvolutionaryAgent";
 import { populationManager } from "../services/evolution/PopulationManager";
@@ -205,8 +207,8 @@ If no issues found, return {"issues": [], "passed": true}
 
     // Also run TypeScript type check if tsconfig exists
     try {
-      const tsResult = await workspaceManager.runCommand(
-        projectId,
+      const tsResult = await sideEffects.runWorkspaceCommand(
+        { projectId, agentRole: "SeniorDev" },
         "npx tsc --noEmit 2>&1 || true"
       );
       if (tsResult.stderr || tsResult.stdout.includes("error TS")) {
@@ -488,7 +490,10 @@ export async function runSeniorDevAgentOnce() {
       console.log(`[SeniorDev] 🔍 Reviewing project: ${project.name}`);
       emitLog(`[SeniorDev] 🔍 Starting review of ${project.name}`);
 
-      const report = await agent.reviewProject(project.id);
+      const report = await budgetLimiter.trackTaskCost(
+        { projectId: project.id, agentRole: "SeniorDev" },
+        () => agent.reviewProject(project.id)
+      );
 
       // Report to Team Leader via creating a review report task
       if (report.overallStatus !== "PASSED") {
@@ -559,6 +564,7 @@ export async function runSeniorDevAgentOnce() {
         in: ["SeniorDev", "SENIORDEV", "SENIOR_DEV", "seniorDev", "seniordev"],
       },
     },
+    include: { module: { select: { projectId: true } } },
     take: 5,
   });
 
@@ -574,7 +580,7 @@ export async function runSeniorDevAgentOnce() {
 
     // If no agent assigned, request one from the evolution pool
     if (!dbAgent) {
-      dbAgent = await populationManager.requestAgent("SeniorDev");
+      dbAgent = await populationManager.requestAgent("SeniorDev", task.module?.projectId);
       if (dbAgent) {
         agentId = dbAgent.id;
         await prisma.task.update({
@@ -600,9 +606,12 @@ export async function runSeniorDevAgentOnce() {
       data: { status: "IN_PROGRESS" },
     });
     emitTaskUpdate(inProgressTask);
+    const cost = { projectId: task.module?.projectId, taskId: task.id, agentId, agentRole: "SeniorDev" };
 
     try {
-      const result = await agent.executeTask(task, task.contextPacket);
+      const result = await budgetLimiter.trackTaskCost(cost, () =>
+        agent.executeTask(task, task.contextPacket)
+      );
 
       if (result.status === "COMPLETED") {
         // HALLUCINATION VERIFICATION GATE WITH AUTO-FIX RETRY
@@ -647,10 +656,12 @@ ${currentCode}
 OUTPUT ONLY the fixed code, no explanation.
 `;
             const config = await getAgentConfig("SeniorDev");
-            const fixResponse = await callLLM(config, [
-              { role: "system", content: "You are a senior code fixer. Output ONLY valid JavaScript/TypeScript code." },
-              { role: "user", content: fixPrompt }
-            ]);
+            const fixResponse = await budgetLimiter.trackTaskCost(cost, () =>
+              callLLM(config, [
+                { role: "system", content: "You are a senior code fixer. Output ONLY valid JavaScript/TypeScript code." },
+                { role: "user", content: fixPrompt }
+              ])
+            );
             
             currentCode = fixResponse.content
               .replace(/```(?:javascript|typescript|js|ts)?/g, '')
@@ -3,8 +3,10 @@ import { callLLM } from "../llm/llmClient";
 import { getAgentConfig } from "../llm/modelRegistry";
 import { emitTaskUpdate, emitAgentUpdate, emitLog } from "../websocket/socketServer";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 import { populationManager } from "../services/evolution/PopulationManager";
 import { quickEUpdate, getRoleReward } from "../services/evolution/EvolutionaryRewardHelper";
+import { repoQuery } from "../services/repoQuery";
 
 export class TeamLeadAgent {
   async reviewTask(
@@ -14,6 +16,24 @@ export class TeamLeadAgent {
   ): Promise<any> {
     const isDesignTask = task.requiredRole === "DESIGNER";
 
+    // Blast radius of the changed file, so the review weighs downstream breakage
+    let blastRadius = "Unknown (file not indexed)";
+    const projectId = (task as any).module?.projectId;
+    if (!isDesignTask && projectId && task.relatedFileName) {
+      try {
+        const impact = await repoQuery.impactRadius(projectId, { filePath: task.relatedFileName }, 2);
+        blastRadius =
+          impact.files.length === 0
+            ? "No other files depend on this file"
+            : `${impact.files.length} dependent file(s): ${impact.files
+                .slice(0, 15)
+                .map((f) => f.filePath)
+                .join(", ")}`;
+      } catch (err) {
+        console.warn("[TeamLead] Impact analysis failed:", err);
+      }
+    }
+
     const CODE_REVIEW_PROMPT = `
 You are a Team Lead Engineer (L6). Your job is to REVIEW the work of a Developer Agent.
 You are the Quality Gatekeeper. You prevent bad code from merging.
@@ -23,6 +43,7 @@ INPUT:
 - Design Context: ${JSON.stringify(designContext)}
 - Previous Attempts: ${JSON.stringify(previousAttempts)}
 - Current Output: ${task.outputArtifact || "No output"}
+- Blast Radius: ${blastRadius}
 
 YOUR PROCESS:
 1. Read the Design Context (ADR, Proposal). Does the code match the design?
@@ -31,6 +52,7 @@ YOUR PROCESS:
    - Security: Any SQL injection, XSS, or auth bypass risks?
    - Performance: Any O(n^2) loops or N+1 queries?
    - Complexity: Is the code readable?
+   - Compatibility: Could the change break the dependent files listed in Blast Radius?
 3. DECIDE:
    - "APPROVE": Code is good.
    - "REQUEST_CHANGES": Code has issues. Provide specific feedback.
@@ -234,7 +256,10 @@ export async function runTeamLeadAgentOnce() {
         continue;
       }
 
-      const reviewResult = await agent.reviewTask(task, designContext, history);
+      const reviewResult = await budgetLimiter.trackTaskCost(
+        { projectId, taskId: task.id, agentId: teamLeadAgent?.id, agentRole: "TeamLead" },
+        () => agent.reviewTask(task, designContext, history)
+      );
 
       let newStatus: TaskStatus = task.status;
 
@@ -2,6 +2,7 @@
 import { invokeModel, ModelConfig } from "../services/llmClient";
 import { randomUUID } from "crypto";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 
 export async function runTeamLeadResolutionOnce() {
   console.log("[TeamLead-Resolution] Checking escalations...");
@@ -75,10 +76,9 @@ Strict Output (JSON only):
 
       let responseText = "";
       try {
-        const result = await invokeModel(
-          config,
-          "You are a Team Lead Agent.",
-          prompt
+        const result = await budgetLimiter.trackTaskCost(
+          { taskId: esc.taskId, agentId: agentRecord.id, agentRole: "TeamLead" },
+          () => invokeModel(config, "You are a Team Lead Agent.", prompt)
         );
         responseText = result.text;
       } catch (err: any) {
@@ -1,8 +1,10 @@
 import { callLLM } from "../llm/llmClient";
 import { ModelConfig } from "../llm/types";
-import { workspaceManager } from "../services/workspaceManager";
+import { sideEffects } from "../services/sideEffects";
 import { prisma } from "../lib/prisma";
+import { budgetLimiter } from "../services/budgetLimiter";
 import { createVerifiedAgent } from "../services/VerifiedAgent";
+import { testRunner } from "../services/testRunner";
 
 // Default config if agent not found
 const DEFAULT_CONFIG: ModelConfig = {
@@ -61,13 +63,16 @@ Requirements:
 4. Return ONLY the test code. No markdown. No explanations.
     `;
 
-    const testCode = await callLLM(DEFAULT_CONFIG, [
-      {
-        role: "system",
-        content: "You are a Test Generator Agent. Output only code.",
-      },
-      { role: "user", content: prompt },
-    ]).then((r) => r.content);
+    const cost = { projectId, taskId: task.id, agentRole: "TestGenerator" };
+    const testCode = await budgetLimiter.trackTaskCost(cost, () =>
+      callLLM(DEFAULT_CONFIG, [
+        {
+          role: "system",
+          content: "You are a Test Generator Agent. Output only code.",
+        },
+        { role: "user", content: prompt },
+      ])
+    ).then((r) => r.content);
 
     // HALLUCINATION VERIFICATION GATE WITH AUTO-FIX RETRY
     const verifier = createVerifiedAgent({ 
@@ -108,10 +113,12 @@ ${currentTestCode}
 
 OUTPUT ONLY the fixed test code, no explanation.
 `;
-        const fixResponse = await callLLM(DEFAULT_CONFIG, [
-          { role: "system", content: "You are a test code fixer. Output ONLY valid test code." },
-          { role: "user", content: fixPrompt }
-        ]);
+        const fixResponse = await budgetLimiter.trackTaskCost(cost, () =>
+          callLLM(DEFAULT_CONFIG, [
+            { role: "system", content: "You are a test code fixer. Output ONLY valid test code." },
+            { role: "user", content: fixPrompt }
+          ])
+        );
         
         currentTestCode = fixResponse.content
           .replace(/```(?:javascript|typescript|js|ts)?/g, '')
@@ -139,22 +146,67 @@ OUTPUT ONLY the fixed test code, no explanation.
     const testFilePath = targetFile.replace(/\.(tsx|ts|js|jsx)$/, ".test.$1");
 
     // 5. Write Test File
-    await workspaceManager.writeFile(projectId, testFilePath, testCode);
+    await sideEffects.writeFile({ projectId, taskId: task.id, agentRole: "TestGenerator" }, testFilePath, currentTestCode);
     console.log(`[TestGen] ✅ Wrote test file: ${testFilePath}`);
 
-    // 6. Update Task -> IN_QA
-    await prisma.task.update({
-      where: { id: task.id },
-      data: {
-        status: "IN_QA",
-        // Append test info to result? Or just leave it.
-        // Let's add a note to the result
-        result: {
-          ...result,
-          testFile: testFilePath,
-        },
-      },
+    // 6. Run the new suite with the project's real test runner; QA re-runs everything
+    const testRun = await testRunner.run(projectId, {
+      files: [testFilePath],
+      taskId: task.id,
+      agentRole: "TestGenerator",
     });
+    if (testRun.framework) {
+      console.log(
+        `[TestGen] ${testRun.success ? "✅" : "⚠️"} ${testFilePath}: ${testRun.numPassed}/${testRun.numTotal} passed`
+      );
+    }
+
+    // 7. Gate on the run: failing tests go back to the developer, a suite that
+    // could not run is blocked, and only a passing (or runner-less) project moves to QA
+    const failures = testRun.tests
+      .filter((t) => t.status === "failed")
+      .map((t) => ({ name: t.name, message: t.failureMessages[0] || "" }));
+    const taskResult = {
+      ...result,
+      testFile: testFilePath,
+      testRun: {
+        framework: testRun.framework,
+        passed: testRun.numPassed,
+        failed: testRun.numFailed,
+        failures,
+        error: testRun.error,
+      },
+    };
+
+    if (!testRun.framework || testRun.success) {
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { status: "IN_QA", result: taskResult },
+      });
+    } else if (testRun.numFailed > 0) {
+      console.log(`[TestGen] ❌ Task ${task.id}: ${testRun.numFailed} generated test(s) failing, back to the developer`);
+      await prisma.task.update({
+        where: { id: task.id },
+        data: {
+          status: "NEEDS_REVISION",
+          retryCount: { increment: 1 },
+          result: taskResult,
+          qaFeedback:
+            `Generated tests failed ❌ (${testFilePath}): ` +
+            failures.map((f) => `${f.name}: ${f.message}`).join("; "),
+        },
+      });
+    } else {
+      console.log(`[TestGen] ⛔ Task ${task.id}: test run failed: ${testRun.error}`);
+      await prisma.task.update({
+        where: { id: task.id },
+        data: {
+          status: "BLOCKED",
+          result: taskResult,
+          blockedReason: `Test run failed: ${testRun.error || `exit code ${testRun.exitCode}`}`,
+        },
+      });
+    }
   } catch (error: any) {
     console.error(`[TestGen] ❌ Error generating tests:`, error);
     // Fallback: Send to QA anyway, maybe they can catch it
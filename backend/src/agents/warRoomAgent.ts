@@ -1,4 +1,4 @@
-import { workspaceManager } from "../services/workspaceManager";
+import { sideEffects, isPolicyBlock } from "../services/sideEffects";
 import { randomUUID } from "crypto";
 import { emitTaskUpdate } from "../websocket/socketServer";
 import { prisma } from "../lib/prisma";
@@ -91,11 +91,22 @@ Output JSON ONLY:
 
       if (isSafe) {
         console.log(`[WarRoom] ✅ Sandbox Tests PASSED. Applying patch...`);
-        await workspaceManager.writeFile(
-          task.module.project.id,
-          resolution.targetFile,
-          resolution.finalCode
-        );
+        try {
+          await sideEffects.writeFile(
+            { projectId: task.module.project.id, taskId: task.id, agentRole: "WarRoom" },
+            resolution.targetFile,
+            resolution.finalCode
+          );
+        } catch (writeErr) {
+          if (!isPolicyBlock(writeErr)) throw writeErr;
+          // The mediator's override is still subject to the safety policy
+          console.error(`[WarRoom] 🚫 Override rejected by safety policy: ${writeErr.message}`);
+          await prisma.task.update({
+            where: { id: task.id },
+            data: { status: "BLOCKED", blockedReason: writeErr.message },
+          });
+          return;
+        }
       } else {
         console.error(`[WarRoom] ❌ Sandbox Tests FAILED. Patch rejected.`);
         // In a real system, we would feed this back to the LLM for a retry
@@ -0,0 +1,191 @@
+/**
+ * Phase 4: Governance Rule Configuration
+ *
+ * The thresholds, role ladders, cooldowns and exemptions that drive
+ * evaluateGovernanceAction. The defaults reproduce the original hardcoded
+ * rules; projects store their own versions in GovernanceRuleSet.
+ */
+
+export type GovernanceActionKind = "PROMOTE" | "DEMOTE" | "TERMINATE";
+
+export interface GovernanceExemption {
+  agentId?: string; // Matches one agent...
+  role?: string; // ...or every agent in a role (both must match if both are set)
+  actions: GovernanceActionKind[];
+  reason?: string;
+}
+
+export interface GovernanceRules {
+  evaluation: {
+    minTasks: number; // Logged tasks before an agent is evaluated at all
+    window: number; // Most recent logs that are scored
+  };
+  circuitBreaker: {
+    enabled: boolean;
+    maxCostDeviation: number; // Terminate when session cost exceeds baseline x this
+    referenceComplexity: number; // Complexity at which the baseline applies 1:1
+    minComplexityMultiplier: number;
+  };
+  termination: {
+    maxFailures: number; // Terminate at this many failures
+    scoreBelow: number;
+    highRiskScoreBelow: number; // HIGH risk agents are terminated below this score
+  };
+  promotion: {
+    minTasks: number;
+    scoreAbove: number;
+    successRateAbove: number;
+  };
+  demotion: {
+    scoreBelow: number; // Together with more than failuresAbove failures
+    failuresAbove: number;
+    highRiskScoreBelow: number; // HIGH risk agents are demoted below this score
+  };
+  warning: {
+    scoreBelow: number; // MEDIUM risk agents are warned below this score
+  };
+  roleLadder: {
+    promote: Record<string, string>; // Role -> next role up
+    demote: Record<string, string>; // Role -> next role down
+  };
+  cooldowns: {
+    promotionMs: number; // Minimum time since the last role change
+    demotionMs: number;
+  };
+  exemptions: GovernanceExemption[];
+}
+
+export const DEFAULT_GOVERNANCE_RULES: GovernanceRules = {
+  evaluation: { minTasks: 3, window: 20 },
+  circuitBreaker: {
+    enabled: true,
+    maxCostDeviation: 3.0,
+    referenceComplexity: 50,
+    minComplexityMultiplier: 0.2,
+  },
+  termination: { maxFailures: 5, scoreBelow: 20, highRiskScoreBelow: 30 },
+  promotion: { minTasks: 5, scoreAbove: 80, successRateAbove: 0.8 },
+  demotion: { scoreBelow: 40, failuresAbove: 3, highRiskScoreBelow: 50 },
+  warning: { scoreBelow: 50 },
+  roleLadder: {
+    promote: { JuniorDev: "MidDev", MidDev: "SeniorDev", QA: "SeniorQA" },
+    demote: { SeniorDev: "MidDev", MidDev: "JuniorDev", SeniorQA: "QA" },
+  },
+  cooldowns: { promotionMs: 0, demotionMs: 0 },
+  exemptions: [],
+};
+
+// Upper bound for evaluation.window (the governance loop loads this many logs)
+export const MAX_EVALUATION_WINDOW = 100;
+
+const ACTIONS: GovernanceActionKind[] = ["PROMOTE", "DEMOTE", "TERMINATE"];
+
+function invalid(issues: string[]): Error {
+  return Object.assign(new Error(`Invalid governance rules: ${issues.join("; ")}`), {
+    status: 400,
+    issues,
+  });
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Merge (possibly partial) changes over a complete rule set and validate the
+ * result. Sections merge key by key; roleLadder maps and exemptions are
+ * replaced as a whole. Throws an error with `status: 400` and `issues`.
+ */
+export function parseGovernanceRules(
+  changes: unknown,
+  base: GovernanceRules = DEFAULT_GOVERNANCE_RULES
+): GovernanceRules {
+  if (!isPlainObject(changes)) throw invalid(["rules must be an object"]);
+
+  const issues: string[] = [];
+  const rules = JSON.parse(JSON.stringify(base)) as GovernanceRules;
+
+  for (const [section, value] of Object.entries(changes)) {
+    if (!(section in DEFAULT_GOVERNANCE_RULES)) {
+      issues.push(`${section}: unknown section`);
+    } else if (section === "exemptions") {
+      rules.exemptions = value as GovernanceExemption[];
+    } else if (!isPlainObject(value)) {
+      issues.push(`${section} must be an object`);
+    } else if (section === "roleLadder") {
+      rules.roleLadder = { ...rules.roleLadder, ...value };
+    } else {
+      const defaults = (DEFAULT_GOVERNANCE_RULES as any)[section];
+      for (const key of Object.keys(value)) {
+        if (!(key in defaults)) issues.push(`${section}.${key}: unknown setting`);
+      }
+      Object.assign((rules as any)[section], value);
+    }
+  }
+  if (issues.length > 0) throw invalid(issues);
+
+  // Types and ranges
+  for (const section of Object.keys(DEFAULT_GOVERNANCE_RULES) as Array<keyof GovernanceRules>) {
+    if (section === "roleLadder" || section === "exemptions") continue;
+    for (const [key, value] of Object.entries(rules[section])) {
+      const expected = typeof (DEFAULT_GOVERNANCE_RULES[section] as any)[key];
+      if (typeof value !== expected || (expected === "number" && (!Number.isFinite(value) || (value as number) < 0))) {
+        issues.push(`${section}.${key} must be a ${expected === "number" ? "non-negative number" : expected}`);
+      }
+    }
+  }
+  if (rules.evaluation.window < 1 || rules.evaluation.window > MAX_EVALUATION_WINDOW) {
+    issues.push(`evaluation.window must be between 1 and ${MAX_EVALUATION_WINDOW}`);
+  }
+  if (rules.evaluation.minTasks > rules.evaluation.window) {
+    issues.push("evaluation.minTasks must not exceed evaluation.window");
+  }
+  if (rules.promotion.successRateAbove > 1) issues.push("promotion.successRateAbove must be at most 1");
+
+  for (const direction of ["promote", "demote"] as const) {
+    const ladder = rules.roleLadder[direction];
+    if (!isPlainObject(ladder)) {
+      issues.push(`roleLadder.${direction} must map roles to roles`);
+      continue;
+    }
+    for (const [from, to] of Object.entries(ladder)) {
+      if (typeof to !== "string" || !to || to === from) {
+        issues.push(`roleLadder.${direction}.${from} must name a different role`);
+      }
+    }
+  }
+
+  if (!Array.isArray(rules.exemptions)) {
+    issues.push("exemptions must be a list");
+  } else {
+    rules.exemptions.forEach((exemption, i) => {
+      if (!isPlainObject(exemption) || (!exemption.agentId && !exemption.role)) {
+        issues.push(`exemptions[${i}] needs an agentId or a role`);
+      } else if (
+        !Array.isArray(exemption.actions) ||
+        exemption.actions.length === 0 ||
+        exemption.actions.some((action) => !ACTIONS.includes(action))
+      ) {
+        issues.push(`exemptions[${i}].actions must list ${ACTIONS.join(", ")}`);
+      }
+    });
+  }
+
+  if (issues.length > 0) throw invalid(issues);
+  return rules;
+}
+
+/**
+ * The exemption (if any) that spares an agent from an action
+ */
+export function findExemption(
+  rules: GovernanceRules,
+  agent: { id: string; role: string },
+  action: GovernanceActionKind
+): GovernanceExemption | undefined {
+  return rules.exemptions.find(
+    (exemption) =>
+      exemption.actions.includes(action) &&
+      (!exemption.agentId || exemption.agentId === agent.id) &&
+      (!exemption.role || exemption.role === agent.role)
+  );
+}
@@ -12,10 +12,14 @@ import {
   evaluateGovernanceAction,
   applyGovernanceDecision,
 } from "./governanceRules";
+import { MAX_EVALUATION_WINDOW } from "./governanceConfig";
+import {
+  ActiveRuleSet,
+  getActiveRuleSet,
+  resolveGovernanceProject,
+} from "./governanceRuleStore";
 import { evolutionCycleService } from "../services/evolution/EvolutionCycleService";
 
-const MIN_TASKS_FOR_EVAL = 3;
-
 /**
  * Main governance loop - evaluates all agents and applies governance actions
  */
@@ -29,14 +33,27 @@ export async function runGovernanceLoopOnce() {
       include: {
         performanceLogs: {
           orderBy: { createdAt: "desc" },
-          take: 20, // Only look at recent performance
+          take: MAX_EVALUATION_WINDOW, // Trimmed to each rule set's window
+          include: { task: { select: { module: { select: { projectId: true } } } } },
+        },
+        governanceEvents: {
+          where: { action: { in: ["PROMOTE", "DEMOTE"] } },
+          orderBy: { createdAt: "desc" },
+          take: 1, // Last role change, for cooldowns
+          select: { createdAt: true },
         },
       },
     });
 
+    // Rules per project, loaded once per pass
+    const ruleSets = new Map<string, ActiveRuleSet>();
+
     for (const agent of agents) {
       try {
-        await evaluateAgent(agent);
+        const projectId = resolveGovernanceProject(agent);
+        const key = projectId || "global";
+        if (!ruleSets.has(key)) ruleSets.set(key, await getActiveRuleSet(projectId));
+        await evaluateAgent(agent, ruleSets.get(key));
       } catch (err) {
         console.error(`[HeadAgent] Error evaluating agent ${agent.id}:`, err);
       }
@@ -60,11 +77,12 @@ export async function runGovernanceLoopOnce() {
 /**
  * Evaluate a single agent's performance
  */
-async function evaluateAgent(agent: any) {
-  const logs = agent.performanceLogs || [];
+async function evaluateAgent(agent: any, ruleSet: ActiveRuleSet) {
+  const { rules } = ruleSet;
+  const logs = (agent.performanceLogs || []).slice(0, rules.evaluation.window);
 
   // Skip if not enough data
-  if (logs.length < MIN_TASKS_FOR_EVAL) {
+  if (logs.length < rules.evaluation.minTasks) {
     // Silent skip to avoid log spam
     return;
   }
@@ -112,12 +130,13 @@ async function evaluateAgent(agent: any) {
     // Claim 2: Pass cost data
     costBaseline: updatedAgent.costBaseline,
     sessionCost: updatedAgent.sessionCost,
-    currentTaskComplexity: agent.currentTask?.complexityScore ?? 50, // Default to 50
-  });
+    currentTaskComplexity: agent.currentTask?.complexityScore, // Defaults to the rules' reference complexity
+    lastRoleChangeAt: agent.governanceEvents?.[0]?.createdAt,
+  }, rules);
 
   // 5. Apply the decision
   if (decision.action !== "NONE") {
-    await applyGovernanceDecision(updatedAgent.id, decision);
+    await applyGovernanceDecision(updatedAgent.id, decision, undefined, ruleSet.id);
 
     // Log detailed breakdown for significant actions
     if (
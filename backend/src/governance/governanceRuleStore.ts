@@ -0,0 +1,197 @@
+/**
+ * Phase 4: Governance Rule Sets
+ *
+ * Versioned GovernanceRules per project, on top of a global rule set. Saving
+ * never edits a version in place: it appends the next version, and the
+ * highest version is the active one. Governance events record the rule set
+ * they were decided under.
+ */
+
+import { GovernanceRuleSet, Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { emitLog } from "../websocket/socketServer";
+import {
+  DEFAULT_GOVERNANCE_RULES,
+  GovernanceRules,
+  parseGovernanceRules,
+} from "./governanceConfig";
+
+// Scope name of the rule set used by projects without their own
+export const GLOBAL_RULES_SCOPE = "global";
+
+// Saves that lose a version race re-read the current rules and retry
+const MAX_SAVE_ATTEMPTS = 3;
+
+export interface ActiveRuleSet {
+  id: string;
+  projectId: string | null;
+  version: number;
+  rules: GovernanceRules;
+  source: "project" | "global";
+}
+
+const projectIdOf = (scope: string): string | null =>
+  scope === GLOBAL_RULES_SCOPE ? null : scope;
+
+const isVersionConflict = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+function toActive(row: GovernanceRuleSet): ActiveRuleSet {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    version: row.version,
+    // Stored documents are complete; sections added later fall back to the defaults
+    rules: { ...DEFAULT_GOVERNANCE_RULES, ...(row.rules as unknown as GovernanceRules) },
+    source: row.projectId ? "project" : "global",
+  };
+}
+
+async function latest(
+  scope: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<GovernanceRuleSet | null> {
+  return db.governanceRuleSet.findFirst({
+    where: { scope },
+    orderBy: { version: "desc" },
+  });
+}
+
+async function findActive(
+  projectId: string | null,
+  db: Prisma.TransactionClient = prisma
+): Promise<GovernanceRuleSet | null> {
+  return (projectId && (await latest(projectId, db))) || latest(GLOBAL_RULES_SCOPE, db);
+}
+
+/**
+ * Rules in force for a project (its latest version, else the global one).
+ * The builtin defaults are stored as global v1 on first use so that every
+ * governance event can reference a version.
+ */
+export async function getActiveRuleSet(projectId?: string | null): Promise<ActiveRuleSet> {
+  const active = await findActive(projectId || null);
+  return toActive(active ?? (await storeBuiltinDefaults()));
+}
+
+async function storeBuiltinDefaults(): Promise<GovernanceRuleSet> {
+  try {
+    return await prisma.$transaction(
+      async (tx) =>
+        (await latest(GLOBAL_RULES_SCOPE, tx)) ??
+        tx.governanceRuleSet.create({
+          data: {
+            scope: GLOBAL_RULES_SCOPE,
+            projectId: null,
+            version: 1,
+            rules: DEFAULT_GOVERNANCE_RULES as any,
+            createdBy: "system",
+            note: "Builtin defaults",
+          },
+        })
+    );
+  } catch (error) {
+    // A concurrent first use stored them already
+    if (!isVersionConflict(error)) throw error;
+    return (await latest(GLOBAL_RULES_SCOPE))!;
+  }
+}
+
+/**
+ * Append a new version for a scope (projectId or "global"). `changes` may be
+ * partial: they are merged over the rules currently in force for the scope.
+ */
+export async function saveRuleSet(
+  scope: string,
+  changes: unknown,
+  options: { createdBy?: string; note?: string } = {}
+): Promise<ActiveRuleSet> {
+  const projectId = projectIdOf(scope);
+  if (projectId && (await prisma.project.count({ where: { id: projectId } })) === 0) {
+    throw Object.assign(new Error(`Project ${projectId} not found`), { status: 404 });
+  }
+
+  // Global v1 holds the builtin defaults, so the first save becomes v2
+  await getActiveRuleSet(projectId);
+
+  let row: GovernanceRuleSet;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      row = await prisma.$transaction(async (tx) => {
+        const current = await findActive(projectId, tx);
+        const rules = parseGovernanceRules(changes, toActive(current!).rules);
+        const previous = await latest(scope, tx);
+
+        return tx.governanceRuleSet.create({
+          data: {
+            scope,
+            projectId,
+            version: (previous?.version ?? 0) + 1,
+            rules: rules as any,
+            createdBy: options.createdBy,
+            note: options.note,
+          },
+        });
+      });
+      break;
+    } catch (error) {
+      // Another save took this version: merge over its rules instead
+      if (!isVersionConflict(error) || attempt >= MAX_SAVE_ATTEMPTS) throw error;
+    }
+  }
+  emitLog(`[Governance] 📝 ${scope} rules updated to v${row.version}`);
+  return toActive(row);
+}
+
+/**
+ * Make an earlier version active again by saving a copy of it as a new version
+ */
+export async function restoreRuleSet(
+  scope: string,
+  version: number,
+  options: { createdBy?: string } = {}
+): Promise<ActiveRuleSet> {
+  const target = await getRuleSetVersion(scope, version);
+  return saveRuleSet(scope, target.rules, {
+    createdBy: options.createdBy,
+    note: `Restored v${version}`,
+  });
+}
+
+export async function getRuleSetVersion(scope: string, version: number): Promise<ActiveRuleSet> {
+  const row = await prisma.governanceRuleSet.findUnique({
+    where: { scope_version: { scope, version } },
+  });
+  if (!row) {
+    throw Object.assign(new Error(`No ${scope} governance rules v${version}`), { status: 404 });
+  }
+  return toActive(row);
+}
+
+/**
+ * Versions of a scope, newest first, with the number of events decided under each
+ */
+export async function listRuleSetHistory(scope: string) {
+  return prisma.governanceRuleSet.findMany({
+    where: { scope },
+    orderBy: { version: "desc" },
+    include: { _count: { select: { events: true } } },
+  });
+}
+
+/**
+ * Project whose rules govern an agent: the project its population serves,
+ * else the project of its most recently logged task (logs newest first)
+ */
+export function resolveGovernanceProject(agent: {
+  populationId?: string | null;
+  performanceLogs?: Array<{ task?: { module?: { projectId: string } | null } | null }>;
+}): string | null {
+  if (agent.populationId?.startsWith("project:")) {
+    return agent.populationId.slice("project:".length);
+  }
+  for (const log of agent.performanceLogs || []) {
+    if (log.task?.module?.projectId) return log.task.module.projectId;
+  }
+  return null;
+}
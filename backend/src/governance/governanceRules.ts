@@ -2,19 +2,27 @@
 /**
  * Phase 4: Governance Decision Rules
  *
- * Implements promotion, demotion, and termination logic
+ * Implements promotion, demotion, and termination logic. Thresholds, role
+ * ladders, cooldowns and exemptions come from a GovernanceRules set (see
+ * governanceConfig.ts); the defaults are the original fixed rules.
  */
 
 import { prisma } from "../lib/prisma";
-
-interface GovernanceDecision {
+import {
+  DEFAULT_GOVERNANCE_RULES,
+  GovernanceActionKind,
+  GovernanceRules,
+  findExemption,
+} from "./governanceConfig";
+
+export interface GovernanceDecision {
   action: "PROMOTE" | "DEMOTE" | "TERMINATE" | "WARNING" | "NONE";
   reason: string;
   newRole?: string;
   previousRole?: string;
 }
 
-interface AgentContext {
+export interface AgentContext {
   id: string;
   role: string;
   score: number;
@@ -25,17 +33,42 @@ interface AgentContext {
   // Claim 2
   costBaseline?: number;
   sessionCost?: number;
+  currentTaskComplexity?: number;
+  // Cooldowns
+  lastRoleChangeAt?: Date | null;
+  at?: Date; // Evaluation time (defaults to now; set when replaying history)
 }
 
 /**
  * Main governance decision function
  */
 export function evaluateGovernanceAction(
-  agent: AgentContext
+  agent: AgentContext,
+  rules: GovernanceRules = DEFAULT_GOVERNANCE_RULES
 ): GovernanceDecision {
+  const notes: string[] = [];
+
+  // An exempt or cooling-down action is skipped and the next rule applies
+  const allowed = (action: GovernanceActionKind): boolean => {
+    const exemption = findExemption(rules, agent, action);
+    if (exemption) {
+      notes.push(`exempt from ${action}${exemption.reason ? ` (${exemption.reason})` : ""}`);
+      return false;
+    }
+    const cooldownMs = action === "PROMOTE" ? rules.cooldowns.promotionMs : action === "DEMOTE" ? rules.cooldowns.demotionMs : 0;
+    if (cooldownMs > 0 && agent.lastRoleChangeAt) {
+      const elapsed = (agent.at || new Date()).getTime() - new Date(agent.lastRoleChangeAt).getTime();
+      if (elapsed < cooldownMs) {
+        notes.push(`${action} cooling down (${Math.ceil((cooldownMs - elapsed) / 60000)} min left)`);
+        return false;
+      }
+    }
+    return true;
+  };
+
   // CLAIM 2: ECONOMIC CIRCUIT BREAKER (Highest Priority)
-  const circuitBreaker = shouldTriggerCircuitBreaker(agent);
-  if (circuitBreaker.shouldTerminate) {
+  const circuitBreaker = shouldTriggerCircuitBreaker(agent, rules);
+  if (circuitBreaker.shouldTerminate && allowed("TERMINATE")) {
     return {
       action: "TERMINATE",
       reason: circuitBreaker.reason,
@@ -44,8 +77,8 @@ export function evaluateGovernanceAction(
   }
 
   // TERMINATION (Standard)
-  const terminationCheck = shouldTerminate(agent);
-  if (terminationCheck.shouldTerminate) {
+  const terminationCheck = shouldTerminate(agent, rules);
+  if (terminationCheck.shouldTerminate && allowed("TERMINATE")) {
     return {
       action: "TERMINATE",
       reason: terminationCheck.reason,
@@ -54,8 +87,8 @@ export function evaluateGovernanceAction(
   }
 
   // PROMOTION
-  const promotionCheck = shouldPromote(agent);
-  if (promotionCheck.shouldPromote) {
+  const promotionCheck = shouldPromote(agent, rules);
+  if (promotionCheck.shouldPromote && allowed("PROMOTE")) {
     return {
       action: "PROMOTE",
       reason: promotionCheck.reason,
@@ -65,8 +98,8 @@ export function evaluateGovernanceAction(
   }
 
   // DEMOTION
-  const demotionCheck = shouldDemote(agent);
-  if (demotionCheck.shouldDemote) {
+  const demotionCheck = shouldDemote(agent, rules);
+  if (demotionCheck.shouldDemote && allowed("DEMOTE")) {
     return {
       action: "DEMOTE",
       reason: demotionCheck.reason,
@@ -76,7 +109,7 @@ export function evaluateGovernanceAction(
   }
 
   // WARNING
-  if (agent.score < 50 && agent.riskLevel === "MEDIUM") {
+  if (agent.score < rules.warning.scoreBelow && agent.riskLevel === "MEDIUM") {
     return {
       action: "WARNING",
       reason: "Performance declining - approaching demotion threshold",
@@ -85,27 +118,31 @@ export function evaluateGovernanceAction(
 
   return {
     action: "NONE",
-    reason: "Agent performing within acceptable range",
+    reason: notes.length > 0
+      ? `No action: ${notes.join("; ")}`
+      : "Agent performing within acceptable range",
   };
 }
 
 /**
  * Termination Rules (HARD)
  */
-function shouldTerminate(agent: AgentContext): {
+function shouldTerminate(agent: AgentContext, rules: GovernanceRules): {
   shouldTerminate: boolean;
   reason: string;
 } {
+  const { maxFailures, scoreBelow, highRiskScoreBelow } = rules.termination;
+
   // Rule 1: Too many failures
-  if (agent.failCount >= 5) {
+  if (agent.failCount >= maxFailures) {
     return {
       shouldTerminate: true,
-      reason: `Exceeded failure limit (${agent.failCount}/5 failures)`,
+      reason: `Exceeded failure limit (${agent.failCount}/${maxFailures} failures)`,
     };
   }
 
   // Rule 2: Critical score with high risk
-  if (agent.score < 20) {
+  if (agent.score < scoreBelow) {
     return {
       shouldTerminate: true,
       reason: `Critical performance score (${agent.score.toFixed(1)}/100)`,
@@ -113,7 +150,7 @@ function shouldTerminate(agent: AgentContext): {
   }
 
   // Rule 3: High risk for extended period
-  if (agent.riskLevel === "HIGH" && agent.score < 30) {
+  if (agent.riskLevel === "HIGH" && agent.score < highRiskScoreBelow) {
     return {
       shouldTerminate: true,
       reason: `Sustained HIGH risk level with score ${agent.score.toFixed(1)}`,
@@ -126,31 +163,33 @@ function shouldTerminate(agent: AgentContext): {
 /**
  * Claim 2: Economic Circuit Breaker Logic (Upgraded)
  */
-function shouldTriggerCircuitBreaker(agent: AgentContext): {
+function shouldTriggerCircuitBreaker(agent: AgentContext, rules: GovernanceRules): {
   shouldTerminate: boolean;
   reason: string;
 } {
-  // If no cost data, skip
-  if (!agent.costBaseline || !agent.sessionCost)
+  const { enabled, maxCostDeviation, referenceComplexity, minComplexityMultiplier } = rules.circuitBreaker;
+
+  // If disabled or no cost data, skip
+  if (!enabled || !agent.costBaseline || !agent.sessionCost)
     return { shouldTerminate: false, reason: "" };
 
-  // Dynamic Baseline Calculation
+  // Dynamic Baseline Calculation (reference complexity 50 by default)
   // Standard Task (50) -> 1.0x Multiplier
   // Complex Task (100) -> 2.0x Multiplier
   // Trivial Task (10) -> 0.2x Multiplier
-  const complexity = agent.currentTaskComplexity ?? 50;
-  const multiplier = Math.max(0.2, complexity / 50);
+  const complexity = agent.currentTaskComplexity ?? referenceComplexity;
+  const multiplier = Math.max(minComplexityMultiplier, complexity / referenceComplexity);
   const adjustedBaseline = agent.costBaseline * multiplier;
 
-  // Rule: If Session Cost > 3x Adjusted Baseline, KILL IT.
+  // Rule: If Session Cost > maxCostDeviation x Adjusted Baseline, KILL IT.
   const deviation = agent.sessionCost / adjustedBaseline;
 
-  if (deviation > 3.0) {
+  if (deviation > maxCostDeviation) {
     return {
       shouldTerminate: true,
       reason: `Economic Circuit Breaker Triggered: Cost deviation ${(
         deviation * 100
-      ).toFixed(0)}% > 300% (Complexity Adjusted)`,
+      ).toFixed(0)}% > ${(maxCostDeviation * 100).toFixed(0)}% (Complexity Adjusted)`,
     };
   }
 
@@ -160,22 +199,23 @@ function shouldTriggerCircuitBreaker(agent: AgentContext): {
 /**
  * Promotion Rules (AUTOMATIC)
  */
-function shouldPromote(agent: AgentContext): {
+function shouldPromote(agent: AgentContext, rules: GovernanceRules): {
   shouldPromote: boolean;
   reason: string;
   newRole?: string;
 } {
+  const { minTasks, scoreAbove, successRateAbove } = rules.promotion;
   const successRate =
     agent.successCount / (agent.successCount + agent.failCount);
 
   // Not enough experience yet
-  if (agent.tasksHandled < 5) {
+  if (agent.tasksHandled < minTasks) {
     return { shouldPromote: false, reason: "" };
   }
 
   // High performance threshold
-  if (agent.score > 80 && successRate > 0.8) {
-    const newRole = getNextRole(agent.role);
+  if (agent.score > scoreAbove && successRate > successRateAbove) {
+    const newRole = getNextRole(agent.role, rules);
 
     if (newRole) {
       return {
@@ -194,14 +234,16 @@ function shouldPromote(agent: AgentContext): {
 /**
  * Demotion Rules (AUTOMATIC)
  */
-function shouldDemote(agent: AgentContext): {
+function shouldDemote(agent: AgentContext, rules: GovernanceRules): {
   shouldDemote: boolean;
   reason: string;
   newRole?: string;
 } {
+  const { scoreBelow, failuresAbove, highRiskScoreBelow } = rules.demotion;
+
   // Rule 1: Low score with failures
-  if (agent.score < 40 && agent.failCount > 3) {
-    const newRole = getPreviousRole(agent.role);
+  if (agent.score < scoreBelow && agent.failCount > failuresAbove) {
+    const newRole = getPreviousRole(agent.role, rules);
 
     if (newRole) {
       return {
@@ -215,8 +257,8 @@ function shouldDemote(agent: AgentContext): {
   }
 
   // Rule 2: High risk level sustained
-  if (agent.riskLevel === "HIGH" && agent.score < 50) {
-    const newRole = getPreviousRole(agent.role);
+  if (agent.riskLevel === "HIGH" && agent.score < highRiskScoreBelow) {
+    const newRole = getPreviousRole(agent.role, rules);
 
     if (newRole) {
       return {
@@ -231,33 +273,19 @@ function shouldDemote(agent: AgentContext): {
 }
 
 /**
- * Role progression mapping
+ * Role progression mapping (roles missing from the ladder are at the top or
+ * on a different track)
  */
-function getNextRole(currentRole: string): string | null {
-  const roleHierarchy: { [key: string]: string } = {
-    JuniorDev: "MidDev",
-    MidDev: "SeniorDev",
-    SeniorDev: null, // Already at top
-    TeamLead: null, // Different track
-    QA: "SeniorQA",
-  };
-
-  return roleHierarchy[currentRole] || null;
+function getNextRole(currentRole: string, rules: GovernanceRules): string | null {
+  return rules.roleLadder.promote[currentRole] || null;
 }
 
 /**
- * Role demotion mapping
+ * Role demotion mapping (roles missing from the ladder can't be demoted
+ * further, only terminated)
  */
-function getPreviousRole(currentRole: string): string | null {
-  const demotionMap: { [key: string]: string } = {
-    SeniorDev: "MidDev",
-    MidDev: "JuniorDev",
-    JuniorDev: null, // Can't demote further, only terminate
-    SeniorQA: "QA",
-    QA: null,
-  };
-
-  return demotionMap[currentRole] || null;
+function getPreviousRole(currentRole: string, rules: GovernanceRules): string | null {
+  return rules.roleLadder.demote[currentRole] || null;
 }
 
 /**
@@ -271,7 +299,8 @@ import { emitLog, emitGovernanceEvent } from "../websocket/socketServer";
 export async function applyGovernanceDecision(
   agentId: string,
   decision: GovernanceDecision,
-  taskId?: string
+  taskId?: string,
+  ruleSetId?: string
 ): Promise<void> {
   if (decision.action === "NONE") return;
 
@@ -284,6 +313,7 @@ export async function applyGovernanceDecision(
       reason: decision.reason,
       previousRole: decision.previousRole || null,
       newRole: decision.newRole || null,
+      ruleSetId: ruleSetId || null,
     },
   });
 
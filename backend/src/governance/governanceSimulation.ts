@@ -0,0 +1,242 @@
+/**
+ * Phase 4: Governance What-If Simulation
+ *
+ * Replays a project's historical AgentPerformanceLog rows through a candidate
+ * rule set and, for comparison, through the rules currently in force, and
+ * reports which agents would have been promoted, demoted or terminated.
+ *
+ * The replay scores each agent after every logged task with the same scoring
+ * and decision code as the governance loop. Role changes and terminations
+ * carry forward within the replay; nothing is written to the database.
+ */
+
+import { prisma } from "../lib/prisma";
+import { computeAgentScore, assignRiskLevel } from "./scoringUtils";
+import { evaluateGovernanceAction } from "./governanceRules";
+import { GovernanceActionKind, GovernanceRules, parseGovernanceRules } from "./governanceConfig";
+import { getActiveRuleSet, getRuleSetVersion } from "./governanceRuleStore";
+
+const MAX_SIMULATION_LOGS = 10000;
+
+export interface ReplayLog {
+  id: string;
+  agentId: string;
+  success: boolean;
+  costUsd?: number | null;
+  durationMs?: number | null;
+  revisionCount?: number | null;
+  failureReason?: string | null;
+  createdAt: Date;
+}
+
+export interface ReplayAgent {
+  id: string;
+  role: string; // Role at the start of the replay
+  costBaseline?: number | null;
+}
+
+export interface SimulatedEvent {
+  agentId: string;
+  logId: string; // Log whose evaluation triggered the action
+  at: Date;
+  action: GovernanceActionKind;
+  reason: string;
+  previousRole: string;
+  newRole?: string;
+}
+
+export interface AgentOutcome {
+  agentId: string;
+  startRole: string;
+  finalRole: string;
+  terminated: boolean;
+  evaluations: number;
+  warnings: number;
+}
+
+export interface ReplayOutcome {
+  events: SimulatedEvent[];
+  agents: AgentOutcome[];
+  promoted: string[]; // Agent ids, each listed once
+  demoted: string[];
+  terminated: string[];
+  warnings: number;
+}
+
+/**
+ * Replay logs (any order) for the given agents through a rule set
+ */
+export function replayGovernance(
+  agents: ReplayAgent[],
+  logs: ReplayLog[],
+  rules: GovernanceRules
+): ReplayOutcome {
+  const states = new Map(
+    agents.map((agent) => [
+      agent.id,
+      {
+        agent,
+        history: [] as ReplayLog[],
+        lastRoleChangeAt: null as Date | null,
+        outcome: {
+          agentId: agent.id,
+          startRole: agent.role,
+          finalRole: agent.role,
+          terminated: false,
+          evaluations: 0,
+          warnings: 0,
+        } as AgentOutcome,
+      },
+    ])
+  );
+  const events: SimulatedEvent[] = [];
+
+  const ordered = [...logs].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  for (const log of ordered) {
+    const state = states.get(log.agentId);
+    if (!state || state.outcome.terminated) continue;
+
+    state.history.push(log);
+    // Newest first, as the governance loop loads them
+    const window = state.history.slice(-rules.evaluation.window).reverse();
+    if (window.length < rules.evaluation.minTasks) continue;
+
+    const score = computeAgentScore(window).totalScore;
+    const successCount = window.filter((l) => l.success).length;
+    const decision = evaluateGovernanceAction(
+      {
+        id: state.agent.id,
+        role: state.outcome.finalRole,
+        score,
+        riskLevel: assignRiskLevel(score),
+        successCount,
+        failCount: window.length - successCount,
+        tasksHandled: window.length,
+        costBaseline: state.agent.costBaseline ?? undefined,
+        sessionCost: log.costUsd ?? undefined, // The logged task's cost stands in for the session cost
+        lastRoleChangeAt: state.lastRoleChangeAt,
+        at: log.createdAt,
+      },
+      rules
+    );
+    state.outcome.evaluations++;
+
+    if (decision.action === "WARNING") state.outcome.warnings++;
+    if (decision.action !== "PROMOTE" && decision.action !== "DEMOTE" && decision.action !== "TERMINATE") continue;
+
+    events.push({
+      agentId: state.agent.id,
+      logId: log.id,
+      at: log.createdAt,
+      action: decision.action,
+      reason: decision.reason,
+      previousRole: state.outcome.finalRole,
+      newRole: decision.newRole,
+    });
+    if (decision.action === "TERMINATE") {
+      state.outcome.terminated = true;
+    } else if (decision.newRole) {
+      state.outcome.finalRole = decision.newRole;
+      state.lastRoleChangeAt = log.createdAt;
+    }
+  }
+
+  const agentsWith = (action: GovernanceActionKind) =>
+    [...new Set(events.filter((e) => e.action === action).map((e) => e.agentId))];
+  const outcomes = [...states.values()].map((state) => state.outcome);
+
+  return {
+    events,
+    agents: outcomes,
+    promoted: agentsWith("PROMOTE"),
+    demoted: agentsWith("DEMOTE"),
+    terminated: agentsWith("TERMINATE"),
+    warnings: outcomes.reduce((sum, outcome) => sum + outcome.warnings, 0),
+  };
+}
+
+/**
+ * What-if for a project: replay its history (tasks of the project and logs of
+ * agents in its population) through candidate rules, given either as changes
+ * to the project's current rules or as one of its stored versions
+ */
+export async function simulateGovernance(
+  projectId: string,
+  request: { rules?: unknown; version?: number; since?: Date; until?: Date } = {}
+) {
+  const project = await prisma.project.findUnique({ where: { id: projectId }, select: { id: true } });
+  if (!project) throw Object.assign(new Error(`Project ${projectId} not found`), { status: 404 });
+
+  const current = await getActiveRuleSet(projectId);
+  const candidate =
+    request.version !== undefined
+      ? (await getRuleSetVersion(projectId, request.version)).rules
+      : parseGovernanceRules(request.rules ?? {}, current.rules);
+
+  const rows = await prisma.agentPerformanceLog.findMany({
+    where: {
+      createdAt: { gte: request.since, lte: request.until },
+      OR: [
+        { task: { module: { projectId } } },
+        { agent: { populationId: `project:${projectId}` } },
+      ],
+    },
+    // The most recent history matters; replay it oldest first
+    orderBy: { createdAt: "desc" },
+    take: MAX_SIMULATION_LOGS + 1,
+  });
+  const truncated = rows.length > MAX_SIMULATION_LOGS;
+  const logs = rows.slice(0, MAX_SIMULATION_LOGS).reverse();
+
+  const agentIds = [...new Set(logs.map((log) => log.agentId))];
+  const agentRows = await prisma.agent.findMany({
+    where: { id: { in: agentIds } },
+    select: { id: true, role: true, costBaseline: true },
+  });
+
+  // Roll each agent back to its role before the first replayed role change
+  const roleChanges = logs.length === 0 ? [] : await prisma.governanceEvent.findMany({
+    where: {
+      agentId: { in: agentIds },
+      action: { in: ["PROMOTE", "DEMOTE"] },
+      createdAt: { gte: logs[0].createdAt },
+    },
+    orderBy: { createdAt: "asc" },
+    select: { agentId: true, previousRole: true },
+  });
+  const agents: ReplayAgent[] = agentRows.map((agent) => ({
+    ...agent,
+    role: roleChanges.find((e) => e.agentId === agent.id && e.previousRole)?.previousRole || agent.role,
+  }));
+
+  const currentOutcome = replayGovernance(agents, logs, current.rules);
+  const candidateOutcome = replayGovernance(agents, logs, candidate);
+
+  const changed = candidateOutcome.agents
+    .map((after) => ({ after, before: currentOutcome.agents.find((a) => a.agentId === after.agentId)! }))
+    .filter(({ before, after }) => before.finalRole !== after.finalRole || before.terminated !== after.terminated)
+    .map(({ before, after }) => ({
+      agentId: after.agentId,
+      startRole: after.startRole,
+      current: { finalRole: before.finalRole, terminated: before.terminated },
+      candidate: { finalRole: after.finalRole, terminated: after.terminated },
+    }));
+
+  return {
+    projectId,
+    since: request.since ?? logs[0]?.createdAt ?? null,
+    until: request.until ?? logs[logs.length - 1]?.createdAt ?? null,
+    logsReplayed: logs.length,
+    truncated,
+    current: {
+      ruleSet: { id: current.id, version: current.version, source: current.source },
+      ...currentOutcome,
+    },
+    candidate: {
+      version: request.version ?? null,
+      rules: candidate,
+      ...candidateOutcome,
+    },
+    changed,
+  };
+}
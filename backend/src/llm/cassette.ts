@@ -0,0 +1,170 @@
+/**
+ * LLM Cassettes: record/replay of LLM traffic
+ *
+ * Covers callLLM and the services/llmClient invokeModel path. In record
+ * mode every successful response is written to a cassette file, keyed by a
+ * hash of the model and the normalized messages. In replay mode those
+ * responses are served offline and a request with no recording throws
+ * instead of silently falling back to a provider or the mock.
+ *
+ * Enable with LLM_CASSETTE_MODE=record|replay and LLM_CASSETTE=<name>
+ * (files live in LLM_CASSETTE_DIR, default src/tests/cassettes), or from a
+ * test script with llmCassette.use(name, mode).
+ */
+
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { LLMMessage, LLMResponse, ModelConfig } from "./types";
+
+export type CassetteMode = "off" | "record" | "replay";
+
+// Only these identify a recording, so either client's config fits
+type CassetteModel = Pick<ModelConfig, "model"> & { provider: string };
+
+interface CassetteInteraction {
+  key: string;
+  provider: string;
+  model: string;
+  messages: LLMMessage[];
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  name: string;
+  interactions: CassetteInteraction[];
+}
+
+const CASSETTE_VERSION = 1;
+const DEFAULT_CASSETTE_DIR = path.join(process.cwd(), "src", "tests", "cassettes");
+
+let mode: CassetteMode = (process.env.LLM_CASSETTE_MODE as CassetteMode) || "off";
+let name = process.env.LLM_CASSETTE || "default";
+let dir = process.env.LLM_CASSETTE_DIR || DEFAULT_CASSETTE_DIR;
+
+let loaded: CassetteFile | null = null;
+// Replay cursor per key: repeated identical requests get successive recordings
+const cursors = new Map<string, number>();
+let hits = 0;
+let misses = 0;
+
+/**
+ * Strip run-specific noise (ids, timestamps, whitespace) so the same
+ * logical prompt hashes identically across runs.
+ */
+export function normalizeContent(content: string): string {
+  return content
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, "<uuid>")
+    .replace(/\bc[a-z0-9]{24}\b/g, "<cuid>")
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g, "<timestamp>")
+    .replace(/\b1[6-9]\d{11}\b/g, "<epoch-ms>")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function cassetteKey(model: string, messages: LLMMessage[]): string {
+  const normalized = JSON.stringify({
+    model,
+    messages: messages.map((m) => ({ role: m.role, content: normalizeContent(m.content) })),
+  });
+  return crypto.createHash("sha256").update(normalized).digest("hex").slice(0, 32);
+}
+
+function cassettePath(): string {
+  return path.join(dir, `${name}.json`);
+}
+
+function load(): CassetteFile {
+  if (loaded) return loaded;
+
+  const file = cassettePath();
+  if (fs.existsSync(file)) {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+    if (parsed.version !== CASSETTE_VERSION) {
+      throw new Error(`[Cassette] ${file} has version ${parsed.version}, expected ${CASSETTE_VERSION}`);
+    }
+    loaded = parsed as CassetteFile;
+  } else if (mode === "replay") {
+    throw new Error(`[Cassette] Cassette not found: ${file} (record it with LLM_CASSETTE_MODE=record)`);
+  } else {
+    loaded = { version: CASSETTE_VERSION, name, interactions: [] };
+  }
+  return loaded;
+}
+
+function save(cassette: CassetteFile): void {
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(cassettePath(), JSON.stringify(cassette, null, 2));
+}
+
+export const llmCassette = {
+  get mode(): CassetteMode {
+    return mode;
+  },
+
+  /**
+   * Switch cassette and mode at runtime (e.g. per test suite)
+   */
+  use(cassetteName: string, cassetteMode: CassetteMode, cassetteDir?: string) {
+    mode = cassetteMode;
+    name = cassetteName;
+    if (cassetteDir) dir = cassetteDir;
+    loaded = null;
+    cursors.clear();
+    hits = 0;
+    misses = 0;
+    console.log(`[Cassette] 📼 ${cassetteMode} ${cassettePath()}`);
+  },
+
+  /**
+   * Recorded response for this request. Throws on a miss: replay runs must
+   * be fully deterministic, so an unrecorded prompt is a test failure.
+   */
+  replay(config: CassetteModel, messages: LLMMessage[]): LLMResponse {
+    const key = cassetteKey(config.model, messages);
+    const matches = load().interactions.filter((i) => i.key === key);
+
+    if (matches.length === 0) {
+      misses++;
+      const lastMessage = messages[messages.length - 1]?.content || "";
+      throw new Error(
+        `[Cassette] Replay miss in "${name}" for ${config.model} (key ${key}). ` +
+          `Last message: "${normalizeContent(lastMessage).slice(0, 120)}". ` +
+          `Re-record with LLM_CASSETTE_MODE=record.`
+      );
+    }
+
+    // Successive identical requests replay in recorded order; the last repeats
+    const cursor = cursors.get(key) || 0;
+    cursors.set(key, cursor + 1);
+    hits++;
+    return { ...matches[Math.min(cursor, matches.length - 1)].response };
+  },
+
+  record(config: CassetteModel, messages: LLMMessage[], response: LLMResponse): void {
+    const cassette = load();
+    cassette.interactions.push({
+      key: cassetteKey(config.model, messages),
+      provider: config.provider,
+      model: config.model,
+      messages,
+      response: { content: response.content, usage: response.usage, costUsd: response.costUsd },
+      recordedAt: new Date().toISOString(),
+    });
+    // Written on every call so a crashed run still leaves a usable cassette
+    save(cassette);
+  },
+
+  stats() {
+    return {
+      mode,
+      name,
+      path: cassettePath(),
+      interactions: loaded?.interactions.length ?? 0,
+      hits,
+      misses,
+    };
+  },
+};
@@ -0,0 +1,196 @@
+/**
+ * Circuit Breakers for LLM providers
+ *
+ * One breaker per provider endpoint (Bedrock is keyed per region, since
+ * ap-south-1 and us-east-1 degrade independently). After
+ * LLM_BREAKER_FAILURE_THRESHOLD consecutive failures the breaker opens and
+ * the client skips that endpoint; once LLM_BREAKER_COOLDOWN_MS has passed a
+ * single half-open probe is let through, and its outcome closes or re-opens
+ * the breaker.
+ */
+
+import { ModelConfig } from "./types";
+
+export type BreakerState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface BreakerSnapshot {
+  key: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+export interface FallbackEvent {
+  role?: string;
+  from: string;
+  to: string;
+  reason?: string;
+  at: string;
+}
+
+const FAILURE_THRESHOLD = Number(process.env.LLM_BREAKER_FAILURE_THRESHOLD || 5);
+const COOLDOWN_MS = Number(process.env.LLM_BREAKER_COOLDOWN_MS || 30000);
+const MAX_FALLBACK_EVENTS = 20;
+
+class CircuitBreaker {
+  state: BreakerState = "CLOSED";
+  consecutiveFailures = 0;
+  totalFailures = 0;
+  totalSuccesses = 0;
+  lastError?: string;
+  lastFailureAt?: Date;
+  lastSuccessAt?: Date;
+  openedAt?: Date;
+  private probeInFlight = false;
+
+  constructor(readonly key: string) {}
+
+  /**
+   * Whether a request may be sent now. Moving OPEN -> HALF_OPEN claims the
+   * single probe slot, so callers must report the outcome.
+   */
+  tryAcquire(): boolean {
+    if (this.state === "CLOSED") return true;
+
+    if (this.state === "OPEN") {
+      if (Date.now() - (this.openedAt?.getTime() || 0) < COOLDOWN_MS) return false;
+      this.state = "HALF_OPEN";
+      this.probeInFlight = false;
+      console.log(`[CircuitBreaker] ${this.key} half-open, probing`);
+    }
+
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== "CLOSED") {
+      console.log(`[CircuitBreaker] ✅ ${this.key} recovered, closing`);
+    }
+    this.state = "CLOSED";
+    this.consecutiveFailures = 0;
+    this.totalSuccesses++;
+    this.lastSuccessAt = new Date();
+    this.probeInFlight = false;
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error;
+    this.lastFailureAt = new Date();
+    this.probeInFlight = false;
+
+    if (this.state === "HALF_OPEN" || this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      if (this.state !== "OPEN") {
+        console.warn(
+          `[CircuitBreaker] ⚠️ ${this.key} OPEN after ${this.consecutiveFailures} consecutive failures: ${error}`
+        );
+      }
+      this.state = "OPEN";
+      this.openedAt = new Date();
+    }
+  }
+
+  reset(): void {
+    this.state = "CLOSED";
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.probeInFlight = false;
+    console.log(`[CircuitBreaker] ${this.key} manually reset`);
+  }
+
+  snapshot(): BreakerSnapshot {
+    return {
+      key: this.key,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt?.toISOString(),
+      lastSuccessAt: this.lastSuccessAt?.toISOString(),
+      openedAt: this.openedAt?.toISOString(),
+      retryAt:
+        this.state === "OPEN" && this.openedAt
+          ? new Date(this.openedAt.getTime() + COOLDOWN_MS).toISOString()
+          : undefined,
+    };
+  }
+}
+
+class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private fallbackEvents: FallbackEvent[] = [];
+
+  /**
+   * Breaker key for a model config: provider, plus region for Bedrock
+   */
+  keyFor(config: Pick<ModelConfig, "provider" | "region">): string {
+    if (config.provider === "bedrock") {
+      return `bedrock:${config.region || process.env.AWS_REGION || "ap-south-1"}`;
+    }
+    return config.provider;
+  }
+
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  recordFallback(event: Omit<FallbackEvent, "at">): void {
+    this.fallbackEvents.unshift({ ...event, at: new Date().toISOString() });
+    if (this.fallbackEvents.length > MAX_FALLBACK_EVENTS) {
+      this.fallbackEvents.length = MAX_FALLBACK_EVENTS;
+    }
+  }
+
+  /**
+   * Force a breaker closed (e.g. after an operator confirms recovery)
+   */
+  reset(key: string): boolean {
+    const breaker = this.breakers.get(key);
+    if (!breaker) return false;
+    breaker.reset();
+    return true;
+  }
+
+  snapshot() {
+    return {
+      config: { failureThreshold: FAILURE_THRESHOLD, cooldownMs: COOLDOWN_MS },
+      breakers: Array.from(this.breakers.values()).map((b) => b.snapshot()),
+      recentFallbacks: [...this.fallbackEvents],
+    };
+  }
+}
+
+export const circuitBreakers = new CircuitBreakerRegistry();
+
+/**
+ * Rate limits, 5xx responses and throttling are worth retrying on the same
+ * endpoint; auth errors, bad requests and empty responses are not.
+ * Provider errors are re-wrapped as plain Errors, so the status is also
+ * recovered from the message.
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.status ?? error?.$metadata?.httpStatusCode;
+  if (typeof status === "number") {
+    return status === 429 || status >= 500;
+  }
+  const message = String(error?.message || "");
+  return (
+    /\b(429|50[0-4]|529)\b/.test(message) ||
+    /rate.?limit|too many requests|throttl|overloaded|service ?unavailable|ECONNRESET|ETIMEDOUT|socket hang up/i.test(message)
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * LLM Cost Tracker
+ *
+ * Adds up the spend of every LLM call made inside a tracked scope, however
+ * deep in an agent the call happens. Scopes follow async continuations
+ * (AsyncLocalStorage), so task context does not have to be threaded through
+ * every agent method; budgetLimiter.trackTaskCost opens a scope per task
+ * step and writes the totals to the cost ledger.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface CostTotals {
+  costUsd: number;
+  tokensIn: number;
+  tokensOut: number;
+  calls: number;
+  provider?: string; // Of the most expensive call
+  model?: string;
+  maxCallCostUsd: number;
+}
+
+const scopes = new AsyncLocalStorage<CostTotals>();
+
+export function newCostTotals(): CostTotals {
+  return { costUsd: 0, tokensIn: 0, tokensOut: 0, calls: 0, maxCallCostUsd: 0 };
+}
+
+/**
+ * Run `fn` with `totals` as the current scope. Calls made inside a nested
+ * scope count only there.
+ */
+export function withCostTotals<T>(totals: CostTotals, fn: () => Promise<T>): Promise<T> {
+  return scopes.run(totals, fn);
+}
+
+/**
+ * Count one call against the current scope (no-op outside a scope)
+ */
+export function addCallCost(call: {
+  provider?: string;
+  model?: string;
+  costUsd?: number;
+  tokensIn?: number;
+  tokensOut?: number;
+}): void {
+  const totals = scopes.getStore();
+  if (!totals) return;
+
+  const costUsd = call.costUsd || 0;
+  totals.costUsd += costUsd;
+  totals.tokensIn += call.tokensIn || 0;
+  totals.tokensOut += call.tokensOut || 0;
+  totals.calls++;
+  if (totals.calls === 1 || costUsd > totals.maxCallCostUsd) {
+    totals.maxCallCostUsd = costUsd;
+    totals.provider = call.provider;
+    totals.model = call.model;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Embedding Providers
+ *
+ * Pluggable text -> vector providers used by agent memory and RAG.
+ * The default `hashing` provider is deterministic and works fully offline;
+ * API-backed providers can be registered and selected via EMBEDDING_PROVIDER.
+ */
+
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+} from "@aws-sdk/client-bedrock-runtime";
+
+export interface EmbeddingProvider {
+  /** Stable identifier stored next to each vector, e.g. "hashing-512" or "openai:text-embedding-3-small/1536"; it includes the dimensions so vectors of another size are never compared */
+  readonly id: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderFactory = () => EmbeddingProvider;
+
+// Common English + code filler words that carry no topical signal
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "for", "from",
+  "has", "have", "if", "in", "into", "is", "it", "its", "of", "on", "or", "so",
+  "that", "the", "then", "this", "to", "was", "we", "were", "will", "with",
+  "you", "your", "should", "must", "use", "using", "when", "which", "not",
+  "const", "let", "var", "return", "true", "false", "null", "undefined",
+]);
+
+/**
+ * Split text into normalized terms: camelCase / snake_case aware,
+ * lowercased, stopwords dropped, trivial plural stemming.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t))
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t));
+}
+
+// FNV-1a 32-bit
+function hashTerm(term: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    h ^= term.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Hashing-trick embedding: unigrams and bigrams are hashed into a fixed
+ * number of buckets with a sign bit (to cancel collisions in expectation),
+ * weighted by sublinear term frequency, then L2-normalized so cosine
+ * similarity reduces to a dot product.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(readonly dimensions: number = 512) {
+    this.id = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((t) => this.embedOne(t));
+  }
+
+  embedOne(text: string): number[] {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    for (let i = 0; i < tokens.length; i++) {
+      counts.set(tokens[i], (counts.get(tokens[i]) || 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]}_${tokens[i]}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 0.5);
+      }
+    }
+
+    const vector = new Array(this.dimensions).fill(0);
+    for (const [term, tf] of counts) {
+      const h = hashTerm(term);
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % this.dimensions] += sign * (1 + Math.log(tf + 1));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * OpenAI-compatible /embeddings endpoint (OpenAI, Azure-style proxies, etc.)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(
+    private model: string = process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+    readonly dimensions: number = Number(process.env.EMBEDDING_DIMENSIONS) || 1536,
+    private baseURL: string = process.env.EMBEDDING_BASE_URL || "https://api.openai.com/v1"
+  ) {
+    this.id = `openai:${model}/${this.dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const apiKey = process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OpenAI embeddings are not initialized (missing API Key)");
+    }
+
+    const res = await fetch(`${this.baseURL}/embeddings`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: texts,
+        dimensions: this.dimensions,
+      }),
+    });
+
+    if (!res.ok) {
+      throw new Error(`Embedding API error ${res.status}: ${await res.text()}`);
+    }
+
+    const data: any = await res.json();
+    return data.data
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((d: any) => normalize(d.embedding));
+  }
+}
+
+/**
+ * AWS Bedrock Titan text embeddings
+ */
+export class BedrockEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private client: BedrockRuntimeClient;
+
+  constructor(
+    private model: string = process.env.EMBEDDING_MODEL || "amazon.titan-embed-text-v2:0",
+    readonly dimensions: number = Number(process.env.EMBEDDING_DIMENSIONS) || 512,
+    region: string = process.env.AWS_REGION || "ap-south-1"
+  ) {
+    this.id = `bedrock:${model}/${this.dimensions}`;
+    this.client = new BedrockRuntimeClient({ region });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    // Titan embeds one input per invocation
+    const vectors: number[][] = [];
+    for (const text of texts) {
+      const response = await this.client.send(
+        new InvokeModelCommand({
+          modelId: this.model,
+          contentType: "application/json",
+          accept: "application/json",
+          body: JSON.stringify({
+            inputText: text.slice(0, 20000),
+            dimensions: this.dimensions,
+            normalize: true,
+          }),
+        })
+      );
+      const body = JSON.parse(new TextDecoder().decode(response.body));
+      vectors.push(body.embedding);
+    }
+    return vectors;
+  }
+}
+
+const providerFactories = new Map<string, EmbeddingProviderFactory>([
+  ["hashing", () => new HashingEmbeddingProvider(Number(process.env.EMBEDDING_DIMENSIONS) || 512)],
+  ["openai", () => new OpenAIEmbeddingProvider()],
+  ["bedrock", () => new BedrockEmbeddingProvider()],
+]);
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Register (or replace) an embedding provider factory under a name
+ * selectable through EMBEDDING_PROVIDER.
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory) {
+  providerFactories.set(name, factory);
+}
+
+/**
+ * Override the active provider (tests, scripts).
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null) {
+  activeProvider = provider;
+}
+
+/**
+ * The provider configured by EMBEDDING_PROVIDER (default: offline hashing).
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    const name = process.env.EMBEDDING_PROVIDER || "hashing";
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      console.warn(`[Embeddings] Unknown provider "${name}", using hashing`);
+      activeProvider = providerFactories.get("hashing")!();
+    } else {
+      activeProvider = factory();
+    }
+    console.log(`[Embeddings] Using provider ${activeProvider.id}`);
+  }
+  return activeProvider;
+}
+
+export async function embedText(text: string): Promise<number[]> {
+  const [vector] = await getEmbeddingProvider().embed([text]);
+  return vector;
+}
+
+export function normalize(vector: number[]): number[] {
+  let norm = 0;
+  for (const v of vector) norm += v * v;
+  norm = Math.sqrt(norm);
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+/**
+ * Cosine similarity; 0 for mismatched dimensions or zero vectors.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
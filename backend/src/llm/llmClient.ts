@@ -1,136 +1,437 @@
 /**
  * LLM Client: Central routing for multi-provider system
  * Routes requests to appropriate provider based on model config
+ *
+ * Resilience: each provider endpoint sits behind a circuit breaker,
+ * transient failures (429/5xx/throttling) are retried with jittered
+ * backoff, every request has a per-model timeout, and when a model still
+ * fails the role's fallback chain from modelRegistry is walked in order.
  */
 
-import { ModelConfig, LLMMessage, LLMResponse, calculateCost } from "./types";
-import { callOpenRouter } from "./providers/openrouterProvider";
-import { callGroq } from "./providers/groqProvider";
-import { callGemini } from "./providers/geminiProvider";
-import { callBedrock } from "./providers/bedrockProvider";
-import { callMockLLM, isMockEnabled } from "./mockClient";
+import { randomUUID } from "crypto";
+import {
+  ModelConfig,
+  LLMMessage,
+  LLMResponse,
+  Provider,
+  StreamContext,
+  TokenHandler,
+  calculateCost,
+  estimateTokens,
+} from "./types";
+import { callOpenRouter, streamOpenRouter } from "./providers/openrouterProvider";
+import { callGroq, streamGroq } from "./providers/groqProvider";
+import { callGemini, streamGemini } from "./providers/geminiProvider";
+import { callBedrock, streamBedrock } from "./providers/bedrockProvider";
+import { callMockLLM, streamMockLLM, isMockEnabled } from "./mockClient";
+import { getFallbackChain, getModelTimeoutMs } from "./modelRegistry";
+import { circuitBreakers, isRetryableError } from "./circuitBreaker";
+import { llmCassette } from "./cassette";
+import { addCallCost } from "./costTracker";
+import {
+  emitLLMStreamStart,
+  emitLLMStreamChunk,
+  emitLLMStreamRetract,
+  emitLLMStreamEnd,
+} from "../websocket/socketServer";
 
+// Token deltas are coalesced so a fast stream doesn't flood the socket
+const STREAM_FLUSH_INTERVAL_MS = 50;
+
+// Retries per model on transient errors, before moving down the chain
+const MAX_RETRIES = Number(process.env.LLM_MAX_RETRIES ?? 2);
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Mock stand-ins served after every provider failed; never recorded, since
+// a replay would then pass on an outage
+const mockFallbacks = new WeakSet<LLMResponse>();
+
+/**
+ * Call the configured model. Passing a StreamContext streams the response:
+ * token chunks are broadcast as `llm:stream:*` socket events (and handed to
+ * `stream.onToken`), while the resolved value is the same complete
+ * LLMResponse, with cost computed once the stream has ended.
+ */
 export async function callLLM(
   modelConfig: ModelConfig,
-  messages: LLMMessage[]
+  messages: LLMMessage[],
+  stream?: StreamContext
 ): Promise<LLMResponse> {
-  const { provider, model, maxTokens, temperature } = modelConfig;
+  // Cassette replay serves recorded responses and never touches a provider
+  if (llmCassette.mode === "replay") {
+    const response = llmCassette.replay(modelConfig, messages);
+    stream?.onToken?.(response.content);
+    return response;
+  }
 
-  // Use mock if enabled (for testing without API keys)
-  if (isMockEnabled()) {
-    console.log(`[LLM Client] Using MOCK mode`);
-    return await callMockLLM(messages);
+  const response = stream
+    ? await streamLLM(modelConfig, messages, stream)
+    : await completeLLM(modelConfig, messages);
+  addCallCost({
+    provider: modelConfig.provider,
+    model: modelConfig.model,
+    costUsd: response.costUsd,
+    tokensIn: response.usage?.promptTokens,
+    tokensOut: response.usage?.completionTokens,
+  });
+
+  if (llmCassette.mode === "record" && !mockFallbacks.has(response)) {
+    llmCassette.record(modelConfig, messages, response);
   }
+  return response;
+}
 
-  console.log(`[LLM Client] Routing to ${provider} (${model})`);
+function attachCost(model: string, response: LLMResponse): LLMResponse {
+  if (response.usage) {
+    response.costUsd = calculateCost(
+      model,
+      response.usage.promptTokens,
+      response.usage.completionTokens
+    );
+    console.log(
+      `[LLM Client] Cost: $${response.costUsd.toFixed(6)} (${
+        response.usage.totalTokens
+      } tokens)`
+    );
+  }
+  return response;
+}
 
-  try {
-    let response: LLMResponse;
+function describe(config: ModelConfig): string {
+  return `${circuitBreakers.keyFor(config)}/${config.model}`;
+}
 
-    switch (provider) {
-      case "openrouter":
-        response = await callOpenRouter(
-          model,
-          messages,
-          maxTokens,
-          temperature
-        );
-        break;
-
-      case "groq":
-        response = await callGroq(model, messages, maxTokens, temperature);
-        break;
-
-      case "gemini":
-        response = await callGemini(model, messages, maxTokens, temperature);
-        break;
-
-      case "bedrock":
-        response = await callBedrock(
-          model,
-          messages,
-          maxTokens,
-          temperature,
-          modelConfig.region
-        );
-        break;
-
-      default:
-        throw new Error(`Unknown provider: ${provider}`);
+/**
+ * Fallback entries are only worth trying when their provider is configured
+ * (Bedrock uses the ambient AWS credential chain).
+ */
+function hasCredentials(provider: Provider): boolean {
+  switch (provider) {
+    case "groq":
+      return !!process.env.GROQ_API_KEY;
+    case "openrouter":
+      return !!process.env.OPENROUTER_API_KEY;
+    case "gemini":
+      return !!process.env.GEMINI_API_KEY;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Run a request with a deadline. The signal reaches the provider SDK, so a
+ * timed-out request is cancelled instead of running (and billing) on in
+ * the background.
+ */
+function withTimeout<T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  ms: number,
+  label: string
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${label} timed out after ${ms}ms`);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+  return Promise.race([request(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Full-jitter exponential backoff
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Dispatch one request to a provider; streams when `onToken` is given.
+ */
+async function invokeProvider(
+  config: ModelConfig,
+  messages: LLMMessage[],
+  signal: AbortSignal,
+  onToken?: TokenHandler
+): Promise<LLMResponse> {
+  const { provider, model, maxTokens, temperature, region } = config;
+
+  switch (provider) {
+    case "openrouter":
+      return onToken
+        ? streamOpenRouter(model, messages, maxTokens, temperature, onToken, signal)
+        : callOpenRouter(model, messages, maxTokens, temperature, signal);
+
+    case "groq":
+      return onToken
+        ? streamGroq(model, messages, maxTokens, temperature, onToken, signal)
+        : callGroq(model, messages, maxTokens, temperature, signal);
+
+    case "gemini":
+      return onToken
+        ? streamGemini(model, messages, maxTokens, temperature, onToken, signal)
+        : callGemini(model, messages, maxTokens, temperature, signal);
+
+    case "bedrock":
+      return onToken
+        ? streamBedrock(model, messages, maxTokens, temperature, onToken, region, signal)
+        : callBedrock(model, messages, maxTokens, temperature, region, signal);
+
+    default:
+      throw new Error(`Unknown provider: ${provider}`);
+  }
+}
+
+/**
+ * One model, guarded by its endpoint's breaker, with timeout and retries.
+ * Streams are never retried here: tokens already shown can't be taken back.
+ */
+async function callModel(
+  config: ModelConfig,
+  messages: LLMMessage[],
+  onToken?: TokenHandler
+): Promise<LLMResponse> {
+  const key = circuitBreakers.keyFor(config);
+  const breaker = circuitBreakers.get(key);
+  const timeoutMs = getModelTimeoutMs(config);
+  const maxAttempts = onToken ? 1 : MAX_RETRIES + 1;
+
+  for (let attempt = 0; ; attempt++) {
+    if (!breaker.tryAcquire()) {
+      throw new Error(`Circuit open for ${key}`);
     }
 
-    // Calculate and attach cost if usage is available
-    if (response.usage) {
-      response.costUsd = calculateCost(
-        model,
-        response.usage.promptTokens,
-        response.usage.completionTokens
+    try {
+      const response = await withTimeout(
+        (signal) => invokeProvider(config, messages, signal, onToken),
+        timeoutMs,
+        describe(config)
       );
-      console.log(
-        `[LLM Client] Cost: $${response.costUsd.toFixed(6)} (${
-          response.usage.totalTokens
-        } tokens)`
+      breaker.recordSuccess();
+      return response;
+    } catch (error: any) {
+      breaker.recordFailure(error.message);
+
+      if (attempt + 1 >= maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt);
+      console.warn(
+        `[LLM Client] ${describe(config)} transient failure (${error.message}), retry ${attempt + 1}/${MAX_RETRIES} in ${delay}ms`
       );
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
+  }
+}
 
-    return response;
-  } catch (error: any) {
-    console.error(`[LLM Client] Error with ${provider}:`, error.message);
+async function streamLLM(
+  modelConfig: ModelConfig,
+  messages: LLMMessage[],
+  stream: StreamContext
+): Promise<LLMResponse> {
+  const { provider, model } = modelConfig;
+  const streamId = randomUUID();
+  const { taskId, agentId, projectId } = stream;
+  const mock = isMockEnabled();
 
-    // Fallback chain: Try multiple providers before giving up
-    const fallbackProviders = ["groq", "openrouter", "gemini", "mock"];
+  emitLLMStreamStart({
+    streamId,
+    taskId,
+    agentId,
+    projectId,
+    provider: mock ? "mock" : provider,
+    model,
+  });
 
-    for (const fallbackProvider of fallbackProviders) {
-      // Skip the provider that already failed
-      if (fallbackProvider === provider) continue;
+  let pending = "";
+  let streamed = "";
+  const flush = () => {
+    if (!pending) return;
+    emitLLMStreamChunk({ streamId, taskId, agentId, delta: pending });
+    pending = "";
+  };
+  const timer = setInterval(flush, STREAM_FLUSH_INTERVAL_MS);
 
-      console.log(`[LLM Client] Trying fallback provider: ${fallbackProvider}`);
+  const onToken: TokenHandler = (delta) => {
+    pending += delta;
+    streamed += delta;
+    if (stream.onToken) {
+      try {
+        stream.onToken(delta);
+      } catch (e) {
+        console.error("[LLM Client] onToken handler failed:", e);
+      }
+    }
+  };
+
+  try {
+    let response: LLMResponse;
 
+    if (mock) {
+      console.log(`[LLM Client] Using MOCK mode (streaming)`);
+      response = await streamMockLLM(messages, onToken);
+    } else {
+      console.log(`[LLM Client] Streaming from ${provider} (${model})`);
+      response = await callModel(modelConfig, messages, onToken);
+    }
+
+    // Some streams omit usage; estimate so cost accounting still happens
+    if (!response.usage) {
+      const promptTokens = estimateTokens(messages.map((m) => m.content).join("\n"));
+      const completionTokens = estimateTokens(response.content);
+      response.usage = {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      };
+    }
+    attachCost(model, response);
+
+    clearInterval(timer);
+    flush();
+    emitLLMStreamEnd({
+      streamId,
+      taskId,
+      agentId,
+      projectId,
+      content: response.content,
+      usage: response.usage,
+      costUsd: response.costUsd,
+    });
+    return response;
+  } catch (error: any) {
+    clearInterval(timer);
+    pending = "";
+    console.error(`[LLM Client] Stream error with ${provider}:`, error.message);
+
+    // The partial output is superseded by the fallback's answer
+    if (streamed) {
+      emitLLMStreamRetract({ streamId, taskId, agentId });
       try {
-        if (fallbackProvider === "mock") {
-          return await callMockLLM(messages);
-        }
-
-        if (fallbackProvider === "groq" && process.env.GROQ_API_KEY) {
-          return await callGroq(
-            "llama-3.1-70b-versatile",
-            messages,
-            maxTokens,
-            temperature
-          );
-        }
-
-        if (
-          fallbackProvider === "openrouter" &&
-          process.env.OPENROUTER_API_KEY
-        ) {
-          return await callOpenRouter(
-            "anthropic/claude-3-haiku",
-            messages,
-            maxTokens,
-            temperature
-          );
-        }
-
-        if (fallbackProvider === "gemini" && process.env.GEMINI_API_KEY) {
-          return await callGemini(
-            "gemini-2.0-flash",
-            messages,
-            maxTokens,
-            temperature
-          );
-        }
-      } catch (fallbackError: any) {
-        console.error(
-          `[LLM Client] Fallback ${fallbackProvider} also failed:`,
-          fallbackError.message
-        );
-        continue;
+        stream.onRetract?.();
+      } catch (e) {
+        console.error("[LLM Client] onRetract handler failed:", e);
       }
     }
+    // ...but the provider still bills what it generated
+    const partial = streamed && !mock ? partialStreamUsage(model, messages, streamed) : undefined;
+
+    // Fall back to the non-streaming chain, a second billed request
+    let response: LLMResponse;
+    try {
+      response = await completeLLM(modelConfig, messages);
+    } catch (fallbackError: any) {
+      if (partial) {
+        addCallCost({
+          provider,
+          model,
+          costUsd: partial.costUsd,
+          tokensIn: partial.usage.promptTokens,
+          tokensOut: partial.usage.completionTokens,
+        });
+      }
+      emitLLMStreamEnd({
+        streamId,
+        taskId,
+        agentId,
+        projectId,
+        content: "",
+        usage: partial?.usage,
+        costUsd: partial?.costUsd,
+        error: `${error.message}; fallback failed: ${fallbackError.message}`,
+      });
+      throw fallbackError;
+    }
+
+    if (partial) {
+      const usage = response.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      response.usage = {
+        promptTokens: usage.promptTokens + partial.usage.promptTokens,
+        completionTokens: usage.completionTokens + partial.usage.completionTokens,
+        totalTokens: usage.totalTokens + partial.usage.totalTokens,
+      };
+      response.costUsd = (response.costUsd || 0) + partial.costUsd;
+    }
+    emitLLMStreamEnd({
+      streamId,
+      taskId,
+      agentId,
+      projectId,
+      content: response.content,
+      usage: response.usage,
+      costUsd: response.costUsd,
+      error: error.message,
+    });
+    return response;
+  }
+}
 
-    // All providers failed - use mock as last resort
-    console.log("[LLM Client] All providers failed, using mock response...");
+/**
+ * Estimated usage of a stream that broke off after `streamed`
+ */
+function partialStreamUsage(model: string, messages: LLMMessage[], streamed: string) {
+  const promptTokens = estimateTokens(messages.map((m) => m.content).join("\n"));
+  const completionTokens = estimateTokens(streamed);
+  return {
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    costUsd: calculateCost(model, promptTokens, completionTokens),
+  };
+}
+
+async function completeLLM(
+  modelConfig: ModelConfig,
+  messages: LLMMessage[]
+): Promise<LLMResponse> {
+  // Use mock if enabled (for testing without API keys)
+  if (isMockEnabled()) {
+    console.log(`[LLM Client] Using MOCK mode`);
     return await callMockLLM(messages);
   }
+
+  const chain = [modelConfig, ...getFallbackChain(modelConfig)];
+  const tried = new Set<string>();
+  let lastError: any;
+
+  for (const [index, candidate] of chain.entries()) {
+    const label = describe(candidate);
+    if (tried.has(label)) continue;
+    tried.add(label);
+
+    if (index > 0 && !hasCredentials(candidate.provider)) continue;
+
+    console.log(
+      index === 0
+        ? `[LLM Client] Routing to ${candidate.provider} (${candidate.model})`
+        : `[LLM Client] Trying fallback: ${label}`
+    );
+
+    try {
+      const response = await callModel(candidate, messages);
+
+      if (index > 0) {
+        circuitBreakers.recordFallback({
+          role: modelConfig.role,
+          from: describe(modelConfig),
+          to: label,
+          reason: lastError?.message,
+        });
+      }
+
+      // Calculate and attach cost if usage is available
+      return attachCost(candidate.model, response);
+    } catch (error: any) {
+      console.error(`[LLM Client] Error with ${label}:`, error.message);
+      lastError = error;
+    }
+  }
+
+  // All providers failed - use mock as last resort
+  console.log("[LLM Client] All providers failed, using mock response...");
+  const fallback = await callMockLLM(messages);
+  mockFallbacks.add(fallback);
+  return fallback;
 }
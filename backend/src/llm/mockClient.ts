@@ -5,11 +5,15 @@
  * Enable by setting USE_MOCK_LLM=true in .env
  */
 
-import { LLMMessage, LLMResponse } from './types';
+import { LLMMessage, LLMResponse, TokenHandler } from './types';
 
 // Simulated delay to mimic real API calls
 const MOCK_DELAY_MS = 500;
 
+// Streaming mock emits the response in small slices at this pace
+const MOCK_STREAM_CHUNK_CHARS = 24;
+const MOCK_STREAM_INTERVAL_MS = 15;
+
 /**
  * Mock responses based on prompt content
  */
@@ -254,6 +258,34 @@ export async function callMockLLM(messages: LLMMessage[]): Promise<LLMResponse>
   };
 }
 
+/**
+ * Streaming mock: same response as callMockLLM, delivered in slices so the
+ * dashboard's live generation panes can be exercised without API keys.
+ */
+export async function streamMockLLM(messages: LLMMessage[], onToken: TokenHandler): Promise<LLMResponse> {
+  await new Promise(resolve => setTimeout(resolve, MOCK_DELAY_MS));
+
+  const content = generateMockResponse(messages);
+  for (let i = 0; i < content.length; i += MOCK_STREAM_CHUNK_CHARS) {
+    onToken(content.slice(i, i + MOCK_STREAM_CHUNK_CHARS));
+    await new Promise(resolve => setTimeout(resolve, MOCK_STREAM_INTERVAL_MS));
+  }
+
+  const inputTokens = messages.reduce((sum, m) => sum + m.content.length / 4, 0);
+  const outputTokens = content.length / 4;
+
+  console.log('[MockLLM] Streamed response (' + Math.round(outputTokens) + ' tokens)');
+
+  return {
+    content,
+    usage: {
+      promptTokens: Math.round(inputTokens),
+      completionTokens: Math.round(outputTokens),
+      totalTokens: Math.round(inputTokens + outputTokens)
+    }
+  };
+}
+
 /**
  * Check if mock mode is enabled
  */
@@ -6,7 +6,7 @@
  * - Hands 🤖 (Groq Llama): High-volume execution tasks
  */
 
-import { ModelConfig } from "./types";
+import { ModelConfig, FallbackModelConfig } from "./types";
 
 export const RoleModelDefaults: Record<string, ModelConfig> = {
   // === ALL AGENTS (DeepSeek V3 via Bedrock) ===
@@ -96,8 +96,92 @@ export const RoleModelDefaults: Record<string, ModelConfig> = {
   },
 };
 
+/**
+ * Fallback chains per role, tried in order when the primary model fails or
+ * its circuit breaker is open. Entries whose provider has no credentials
+ * configured are skipped by the client. maxTokens/temperature come from
+ * the role's primary config unless set here.
+ */
+const FastFallbacks: FallbackModelConfig[] = [
+  { provider: "groq", model: "llama-3.3-70b-versatile" },
+  { provider: "gemini", model: "gemini-2.0-flash" },
+  { provider: "openrouter", model: "anthropic/claude-3-haiku" },
+];
+
+const ReasoningFallbacks: FallbackModelConfig[] = [
+  { provider: "bedrock", model: "deepseek.v3-v1:0", region: "us-east-1" },
+  { provider: "openrouter", model: "anthropic/claude-3.5-sonnet" },
+  { provider: "groq", model: "llama-3.3-70b-versatile" },
+  { provider: "gemini", model: "gemini-1.5-pro" },
+];
+
+export const DefaultFallbackChain: FallbackModelConfig[] = FastFallbacks;
+
+export const RoleFallbackChains: Record<string, FallbackModelConfig[]> = {
+  // Brains: keep quality, move to another region/provider of similar strength
+  HeadAgent: ReasoningFallbacks,
+  TeamLead: ReasoningFallbacks,
+  Architect: ReasoningFallbacks,
+  SeniorDev: ReasoningFallbacks,
+
+  // Hands: latency matters more than peak quality
+  MidDev: FastFallbacks,
+  JuniorDev: FastFallbacks,
+  QA: FastFallbacks,
+  Reviewer: FastFallbacks,
+  Canary: FastFallbacks,
+  SocraticInterrogator: FastFallbacks,
+};
+
+/**
+ * Request timeouts per model. Reasoning models think before answering,
+ * so they get more headroom.
+ */
+const DEFAULT_TIMEOUT_MS = 120000;
+
+export const ModelTimeouts: Record<string, number> = {
+  "deepseek.r1-v1:0": 300000,
+  "us.deepseek.r1-v1:0": 300000,
+  "eu.deepseek.r1-v1:0": 300000,
+  "deepseek.v3-v1:0": 180000,
+  "llama-3.3-70b-versatile": 60000,
+  "llama-3.1-8b-instant": 30000,
+  "gemini-2.0-flash": 60000,
+};
+
+export function getModelTimeoutMs(config: ModelConfig): number {
+  return config.timeoutMs || ModelTimeouts[config.model] || DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Resolved fallback chain for a config: its explicit fallbacks, else the
+ * role's chain, with unset fields inherited from the primary.
+ */
+export function getFallbackChain(config: ModelConfig): ModelConfig[] {
+  const chain =
+    config.fallbacks || (config.role && RoleFallbackChains[config.role]) || DefaultFallbackChain;
+  return chain.map((entry) => ({
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    role: config.role,
+    ...entry,
+  }));
+}
+
 import { prisma } from "../lib/prisma";
 
+function fromDbConfig(entry: any, defaultMaxTokens: number): ModelConfig {
+  return {
+    provider: entry.provider,
+    model: entry.model,
+    maxTokens: entry.max_tokens || entry.maxTokens || defaultMaxTokens,
+    temperature: entry.temperature ?? 0.4,
+    region: entry.region || "ap-south-1",
+    estimatedCost: entry.estimated_cost_per_1k_tokens_usd,
+    timeoutMs: entry.timeout_ms || entry.timeoutMs,
+  };
+}
+
 /**
  * Get model config for a role from the database
  */
@@ -114,13 +198,16 @@ export async function getAgentConfig(role: string): Promise<ModelConfig> {
 
       // Ensure primary has required fields before using
       if (primary && primary.provider && primary.model) {
+        // The agent's own fallback model goes ahead of the role chain
+        const roleChain = RoleFallbackChains[role] || DefaultFallbackChain;
+        const dbFallback =
+          config.fallback?.provider && config.fallback?.model
+            ? [fromDbConfig(config.fallback, 3072)]
+            : [];
         return {
-          provider: primary.provider,
-          model: primary.model,
-          maxTokens: primary.max_tokens || primary.maxTokens || 3072,
-          temperature: primary.temperature ?? 0.4,
-          region: primary.region || "ap-south-1",
-          estimatedCost: primary.estimated_cost_per_1k_tokens_usd,
+          ...fromDbConfig(primary, 3072),
+          role,
+          fallbacks: [...dbFallback, ...roleChain],
         };
       }
     }
@@ -130,28 +217,19 @@ export async function getAgentConfig(role: string): Promise<ModelConfig> {
 
   // Fallback if DB fails or agent not found
   console.warn(`[ModelRegistry] Using fallback default for ${role}`);
-  return (
-    RoleModelDefaults[role] || {
-      provider: "bedrock",
-      model: "deepseek.v3-v1:0",
-      maxTokens: 3072,
-      temperature: 0.4,
-      region: "ap-south-1",
-    }
-  );
+  return getDefaultModelConfig(role);
 }
 
 /**
  * Get default model config for a role (synchronous, from RoleModelDefaults)
  */
 export function getDefaultModelConfig(role: string): ModelConfig {
-  return (
-    RoleModelDefaults[role] || {
-      provider: "bedrock",
-      model: "deepseek.v3-v1:0",
-      maxTokens: 3072,
-      temperature: 0.4,
-      region: "ap-south-1",
-    }
-  );
+  const config = RoleModelDefaults[role] || {
+    provider: "bedrock",
+    model: "deepseek.v3-v1:0",
+    maxTokens: 3072,
+    temperature: 0.4,
+    region: "ap-south-1",
+  };
+  return { ...config, role };
 }
@@ -1,8 +1,9 @@
 import {
   BedrockRuntimeClient,
   InvokeModelCommand,
+  InvokeModelWithResponseStreamCommand,
 } from "@aws-sdk/client-bedrock-runtime";
-import { LLMMessage, LLMResponse } from "../types";
+import { LLMMessage, LLMResponse, TokenHandler } from "../types";
 
 // Initialize Clients Lazily by Region
 const bedrockClients: Record<string, BedrockRuntimeClient> = {};
@@ -17,78 +18,93 @@ function getBedrockClient(
   return bedrockClients[region];
 }
 
+/**
+ * Model id and request body for a Bedrock model family
+ */
+function buildRequest(
+  model: string,
+  messages: LLMMessage[],
+  maxTokens: number,
+  temperature: number
+): { modelId: string; payload: any } {
+  let payload: any = {};
+  const systemMsg = messages.find((m) => m.role === "system");
+  const userMsgs = messages.filter((m) => m.role !== "system");
+  const systemContent = systemMsg ? systemMsg.content : "";
+
+  // Construct prompt for models that need it
+  const userContent = userMsgs
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n");
+
+  // Determine model ID - use inference profile for R1
+  let modelId = model;
+
+  // 1. DeepSeek V3 (OpenAI Chat Format - messages array)
+  if (model.includes("v3")) {
+    payload = {
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      max_tokens: maxTokens,
+      temperature: temperature,
+    };
+  }
+  // 2. DeepSeek R1 (Uses inference profile with prompt format)
+  else if (model.includes("r1")) {
+    // R1 requires inference profile - use cross-region profile
+    modelId = `us.deepseek.r1-v1:0`;
+    payload = {
+      messages: [
+        ...(systemContent
+          ? [{ role: "system", content: systemContent }]
+          : []),
+        ...userMsgs.map((m) => ({ role: m.role, content: m.content })),
+      ],
+      max_tokens: maxTokens,
+      temperature: temperature,
+    };
+  }
+  // 3. Meta Llama 3
+  else if (model.includes("meta.llama")) {
+    const prompt = `<|begin_of_text|>${
+      systemContent
+        ? `<|start_header_id|>system<|end_header_id|>\n\n${systemContent}<|eot_id|>`
+        : ""
+    }${messages
+      .filter((m) => m.role !== "system")
+      .map(
+        (m) =>
+          `<|start_header_id|>${m.role}<|end_header_id|>\n\n${m.content}<|eot_id|>`
+      )
+      .join("")}<|start_header_id|>assistant<|end_header_id|>\n\n`;
+
+    payload = {
+      prompt: prompt,
+      max_gen_len: maxTokens,
+      temperature: temperature,
+    };
+  }
+  // Fallback - try chat format
+  else {
+    payload = {
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      max_tokens: maxTokens,
+      temperature: temperature,
+    };
+  }
+
+  return { modelId, payload };
+}
+
 export async function callBedrock(
   model: string,
   messages: LLMMessage[],
   maxTokens: number,
   temperature: number,
-  region?: string
+  region?: string,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   try {
-    let payload: any = {};
-    const systemMsg = messages.find((m) => m.role === "system");
-    const userMsgs = messages.filter((m) => m.role !== "system");
-    const systemContent = systemMsg ? systemMsg.content : "";
-
-    // Construct prompt for models that need it
-    const userContent = userMsgs
-      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
-      .join("\n");
-
-    // Determine model ID - use inference profile for R1
-    let modelId = model;
-
-    // 1. DeepSeek V3 (OpenAI Chat Format - messages array)
-    if (model.includes("v3")) {
-      payload = {
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
-        max_tokens: maxTokens,
-        temperature: temperature,
-      };
-    }
-    // 2. DeepSeek R1 (Uses inference profile with prompt format)
-    else if (model.includes("r1")) {
-      // R1 requires inference profile - use cross-region profile
-      modelId = `us.deepseek.r1-v1:0`;
-      payload = {
-        messages: [
-          ...(systemContent
-            ? [{ role: "system", content: systemContent }]
-            : []),
-          ...userMsgs.map((m) => ({ role: m.role, content: m.content })),
-        ],
-        max_tokens: maxTokens,
-        temperature: temperature,
-      };
-    }
-    // 3. Meta Llama 3
-    else if (model.includes("meta.llama")) {
-      const prompt = `<|begin_of_text|>${
-        systemContent
-          ? `<|start_header_id|>system<|end_header_id|>\n\n${systemContent}<|eot_id|>`
-          : ""
-      }${messages
-        .filter((m) => m.role !== "system")
-        .map(
-          (m) =>
-            `<|start_header_id|>${m.role}<|end_header_id|>\n\n${m.content}<|eot_id|>`
-        )
-        .join("")}<|start_header_id|>assistant<|end_header_id|>\n\n`;
-
-      payload = {
-        prompt: prompt,
-        max_gen_len: maxTokens,
-        temperature: temperature,
-      };
-    }
-    // Fallback - try chat format
-    else {
-      payload = {
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
-        max_tokens: maxTokens,
-        temperature: temperature,
-      };
-    }
+    const { modelId, payload } = buildRequest(model, messages, maxTokens, temperature);
 
     const command = new InvokeModelCommand({
       modelId: modelId,
@@ -98,7 +114,7 @@ export async function callBedrock(
     });
 
     const client = getBedrockClient(region);
-    const response = await client.send(command);
+    const response = await client.send(command, { abortSignal: signal });
 
     const responseBody = JSON.parse(new TextDecoder().decode(response.body));
     let completion = "";
@@ -164,3 +180,84 @@ export async function callBedrock(
     throw new Error(`Bedrock API error: ${error.message}`);
   }
 }
+
+/**
+ * Streaming variant via InvokeModelWithResponseStream. Chat-format models
+ * stream OpenAI-style deltas, Llama streams `generation` fragments; usage
+ * arrives in the final chunk's invocation metrics.
+ */
+export async function streamBedrock(
+  model: string,
+  messages: LLMMessage[],
+  maxTokens: number,
+  temperature: number,
+  onToken: TokenHandler,
+  region?: string,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  try {
+    const { modelId, payload } = buildRequest(model, messages, maxTokens, temperature);
+
+    const command = new InvokeModelWithResponseStreamCommand({
+      modelId: modelId,
+      contentType: "application/json",
+      accept: "application/json",
+      body: JSON.stringify(payload),
+    });
+
+    const client = getBedrockClient(region);
+    const response = await client.send(command, { abortSignal: signal });
+    if (!response.body) {
+      throw new Error("Bedrock returned no stream body");
+    }
+
+    const decoder = new TextDecoder();
+    let completion = "";
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const event of response.body) {
+      if (!event.chunk?.bytes) continue;
+      const chunk = JSON.parse(decoder.decode(event.chunk.bytes));
+
+      let delta = "";
+      if (chunk.choices && Array.isArray(chunk.choices)) {
+        const choice = chunk.choices[0];
+        delta = choice?.delta?.content || choice?.delta?.reasoning_content || choice?.text || "";
+      } else if (typeof chunk.generation === "string") {
+        delta = chunk.generation; // Llama
+      } else if (chunk.outputText) {
+        delta = chunk.outputText; // Titan
+      }
+
+      if (delta) {
+        completion += delta;
+        onToken(delta);
+      }
+
+      const metrics = chunk["amazon-bedrock-invocationMetrics"];
+      if (metrics) {
+        promptTokens = metrics.inputTokenCount || promptTokens;
+        completionTokens = metrics.outputTokenCount || completionTokens;
+      } else if (chunk.usage) {
+        promptTokens = chunk.usage.prompt_tokens || chunk.usage.input_tokens || promptTokens;
+        completionTokens = chunk.usage.completion_tokens || chunk.usage.output_tokens || completionTokens;
+      }
+    }
+
+    return {
+      content: completion,
+      usage:
+        promptTokens || completionTokens
+          ? {
+              promptTokens,
+              completionTokens,
+              totalTokens: promptTokens + completionTokens,
+            }
+          : undefined,
+    };
+  } catch (error: any) {
+    console.error("[Bedrock Provider] Stream error:", error);
+    throw new Error(`Bedrock API error: ${error.message}`);
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import { LLMMessage, LLMResponse } from "../types";
+import { LLMMessage, LLMResponse, TokenHandler } from "../types";
 
 // Lazy initialization to allow dotenv to load first
 let genAI: GoogleGenerativeAI | null = null;
@@ -24,11 +24,32 @@ function getGeminiClient(): GoogleGenerativeAI | null {
   return genAI;
 }
 
+/**
+ * Convert messages to Gemini format
+ */
+function toGeminiPrompt(messages: LLMMessage[]): string {
+  // Gemini expects alternating user/model messages
+  const systemMessage = messages.find((m) => m.role === "system");
+  const conversationMessages = messages.filter((m) => m.role !== "system");
+
+  // Combine system prompt with first user message if present
+  let prompt = "";
+  if (systemMessage) {
+    prompt = `${systemMessage.content}\n\n`;
+  }
+
+  if (conversationMessages.length > 0) {
+    prompt += conversationMessages.map((m) => m.content).join("\n\n");
+  }
+  return prompt;
+}
+
 export async function callGemini(
   model: string,
   messages: LLMMessage[],
   maxTokens: number,
-  temperature: number
+  temperature: number,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   try {
     const client = getGeminiClient();
@@ -43,22 +64,9 @@ export async function callGemini(
       },
     });
 
-    // Convert messages to Gemini format
-    // Gemini expects alternating user/model messages
-    const systemMessage = messages.find((m) => m.role === "system");
-    const conversationMessages = messages.filter((m) => m.role !== "system");
-
-    // Combine system prompt with first user message if present
-    let prompt = "";
-    if (systemMessage) {
-      prompt = `${systemMessage.content}\n\n`;
-    }
-
-    if (conversationMessages.length > 0) {
-      prompt += conversationMessages.map((m) => m.content).join("\n\n");
-    }
+    const prompt = toGeminiPrompt(messages);
 
-    const result = await geminiModel.generateContent(prompt);
+    const result = await geminiModel.generateContent(prompt, { signal });
     const response = result.response;
     const text = response.text();
 
@@ -77,3 +85,57 @@ export async function callGemini(
     throw new Error(`Gemini API error: ${error.message}`);
   }
 }
+
+/**
+ * Streaming variant via generateContentStream; usage is read from the
+ * aggregated response once the stream completes.
+ */
+export async function streamGemini(
+  model: string,
+  messages: LLMMessage[],
+  maxTokens: number,
+  temperature: number,
+  onToken: TokenHandler,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  try {
+    const client = getGeminiClient();
+    if (!client) {
+      throw new Error("Gemini is not initialized (missing API Key)");
+    }
+    const geminiModel = client.getGenerativeModel({
+      model,
+      generationConfig: {
+        maxOutputTokens: maxTokens,
+        temperature,
+      },
+    });
+
+    const result = await geminiModel.generateContentStream(toGeminiPrompt(messages), { signal });
+
+    let content = "";
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+    }
+
+    const response = await result.response;
+
+    return {
+      content,
+      usage: response.usageMetadata
+        ? {
+            promptTokens: response.usageMetadata.promptTokenCount || 0,
+            completionTokens: response.usageMetadata.candidatesTokenCount || 0,
+            totalTokens: response.usageMetadata.totalTokenCount || 0,
+          }
+        : undefined,
+    };
+  } catch (error: any) {
+    console.error("[Gemini Provider] Stream error:", error.message);
+    throw new Error(`Gemini API error: ${error.message}`);
+  }
+}
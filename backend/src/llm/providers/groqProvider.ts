@@ -4,7 +4,7 @@
  */
 
 import OpenAI from "openai";
-import { LLMMessage, LLMResponse } from "../types";
+import { LLMMessage, LLMResponse, TokenHandler } from "../types";
 
 // Lazy initialization to allow dotenv to load first
 let groq: OpenAI | null = null;
@@ -31,7 +31,8 @@ export async function callGroq(
   model: string,
   messages: LLMMessage[],
   maxTokens: number,
-  temperature: number
+  temperature: number,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   try {
     const client = getGroqClient();
@@ -46,7 +47,7 @@ export async function callGroq(
       })),
       max_tokens: maxTokens,
       temperature,
-    });
+    }, { signal });
 
     const choice = completion.choices[0];
     if (!choice || !choice.message?.content) {
@@ -68,3 +69,60 @@ export async function callGroq(
     throw new Error(`Groq API error: ${error.message}`);
   }
 }
+
+/**
+ * Streaming variant. Groq reports usage on the last chunk under `x_groq`.
+ */
+export async function streamGroq(
+  model: string,
+  messages: LLMMessage[],
+  maxTokens: number,
+  temperature: number,
+  onToken: TokenHandler,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  try {
+    const client = getGroqClient();
+    if (!client) {
+      throw new Error("Groq is not initialized (missing API Key)");
+    }
+    const stream = await client.chat.completions.create({
+      model,
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.content,
+      })),
+      max_tokens: maxTokens,
+      temperature,
+      stream: true,
+    }, { signal });
+
+    let content = "";
+    let usage: LLMResponse["usage"];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      const chunkUsage = (chunk as any).x_groq?.usage || chunk.usage;
+      if (chunkUsage) {
+        usage = {
+          promptTokens: chunkUsage.prompt_tokens,
+          completionTokens: chunkUsage.completion_tokens,
+          totalTokens: chunkUsage.total_tokens,
+        };
+      }
+    }
+
+    if (!content) {
+      throw new Error("Groq returned empty response");
+    }
+
+    return { content, usage };
+  } catch (error: any) {
+    console.error("[Groq Provider] Stream error:", error.message);
+    throw new Error(`Groq API error: ${error.message}`);
+  }
+}
@@ -3,7 +3,7 @@
  * Provides access to DeepSeek R1:free and other models via OpenRouter
  */
 
-import { LLMMessage, LLMResponse } from "../types";
+import { LLMMessage, LLMResponse, TokenHandler } from "../types";
 
 // Lazy initialization to allow dotenv to load first
 function getOpenRouterKey(): string | undefined {
@@ -16,7 +16,8 @@ export async function callOpenRouter(
   model: string,
   messages: LLMMessage[],
   maxTokens: number,
-  temperature: number
+  temperature: number,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   try {
     const apiKey = getOpenRouterKey();
@@ -26,6 +27,7 @@ export async function callOpenRouter(
 
     const res = await fetch(OPENROUTER_URL, {
       method: "POST",
+      signal,
       headers: {
         Authorization: `Bearer ${apiKey}`,
         "Content-Type": "application/json",
@@ -70,3 +72,97 @@ export async function callOpenRouter(
     throw new Error(`OpenRouter API error: ${error.message}`);
   }
 }
+
+/**
+ * Streaming variant: parses the SSE response, forwarding each content
+ * delta to `onToken`. Usage comes from the final chunk.
+ */
+export async function streamOpenRouter(
+  model: string,
+  messages: LLMMessage[],
+  maxTokens: number,
+  temperature: number,
+  onToken: TokenHandler,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  try {
+    const apiKey = getOpenRouterKey();
+    if (!apiKey) {
+      throw new Error("OpenRouter is not initialized (missing API Key)");
+    }
+
+    const res = await fetch(OPENROUTER_URL, {
+      method: "POST",
+      signal,
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+        "HTTP-Referer": "http://localhost:3001", // Optional, for rankings
+        "X-Title": "AI Company Platform", // Optional, for rankings
+      },
+      body: JSON.stringify({
+        model,
+        messages: messages.map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        max_tokens: maxTokens,
+        temperature,
+        stream: true,
+        usage: { include: true },
+      }),
+    });
+
+    if (!res.ok || !res.body) {
+      const text = await res.text();
+      throw new Error(`OpenRouter API error ${res.status}: ${text}`);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+    let usage: LLMResponse["usage"];
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are newline-delimited; keep the trailing partial line
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        // Skip keep-alive comments (": OPENROUTER PROCESSING") and blanks
+        if (!trimmed.startsWith("data:")) continue;
+        const data = trimmed.slice(5).trim();
+        if (data === "[DONE]") continue;
+
+        const chunk = JSON.parse(data);
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onToken(delta);
+        }
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+      }
+    }
+
+    if (!content) {
+      throw new Error("OpenRouter returned empty response");
+    }
+
+    return { content, usage };
+  } catch (error: any) {
+    console.error("[OpenRouter Provider] Stream error:", error.message);
+    throw new Error(`OpenRouter API error: ${error.message}`);
+  }
+}
@@ -37,8 +37,21 @@ export interface ModelConfig {
   temperature: number;
   region?: string;
   estimatedCost?: number;
+  // Agent role this config was resolved for; selects the fallback chain
+  role?: string;
+  // Per-request timeout; defaults per model in modelRegistry
+  timeoutMs?: number;
+  // Explicit fallback chain, tried in order when this model fails
+  fallbacks?: FallbackModelConfig[];
 }
 
+/**
+ * A fallback chain entry. Unset fields (maxTokens, temperature) are
+ * inherited from the primary config so role tuning carries over.
+ */
+export type FallbackModelConfig = Pick<ModelConfig, "provider" | "model"> &
+  Partial<Omit<ModelConfig, "fallbacks">>;
+
 export interface LLMMessage {
   role: "system" | "user" | "assistant";
   content: string;
@@ -56,6 +69,24 @@ export interface LLMResponse {
   costUsd?: number;
 }
 
+/**
+ * Receives incremental text as a streaming provider produces it
+ */
+export type TokenHandler = (delta: string) => void;
+
+/**
+ * Identifies who a streamed generation belongs to, so the dashboard can
+ * route token chunks to the right "agent is typing" pane.
+ */
+export interface StreamContext {
+  taskId?: string;
+  agentId?: string;
+  projectId?: string;
+  onToken?: TokenHandler;
+  // Tokens handed to onToken so far came from a failed attempt: discard them
+  onRetract?: () => void;
+}
+
 export interface ProviderConfig {
   apiKey: string;
   baseURL?: string;
@@ -75,3 +106,11 @@ export function calculateCost(
     (completionTokens / 1000) * costs.output
   );
 }
+
+/**
+ * Rough token estimate for providers that do not report usage on streams
+ * (~4 characters per token).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -7,7 +7,15 @@ import { Request, Response, NextFunction } from "express";
  * Uses Clerk to verify the Bearer token.
  * Requires CLERK_SECRET_KEY in .env
  */
-export const requireAuth = ClerkExpressRequireAuth({
+const clerkRequireAuth = ClerkExpressRequireAuth({
   // Optional: Add custom logic here if needed
   // onError: (err, req, res, next) => { ... }
 });
+
+export function requireAuth(req: Request<any>, res: Response, next: NextFunction) {
+  // Clerk hands signed-out requests on as an error; answer them with 401
+  return clerkRequireAuth(req as any, res as any, (error?: unknown) => {
+    if (error) return res.status(401).json({ error: "Unauthenticated" });
+    next();
+  });
+}
@@ -1,5 +1,10 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma";
+import { taskQueue } from "../services/taskQueue";
+import { repoIndexer } from "../services/repoIndexer";
+import { budgetLimiter } from "../services/budgetLimiter";
+import { circuitBreakers } from "../llm/circuitBreaker";
+import { safetyPolicy } from "../services/safetyPolicy";
 
 const router = Router();
 
@@ -47,14 +52,7 @@ router.get("/kpis", async (req, res) => {
       performance: {
         totalCostWeek: 1250.5, // Mock
       },
-      budget: {
-        daily: {
-          spent: 35.5,
-          limit: 50.0,
-          percent: 0.71,
-        },
-        isPaused: false,
-      },
+      budget: await budgetLimiter.getSpendStats(),
       memory: {
         totalMemories: 150,
         avgSuccessRate: 0.88,
@@ -68,10 +66,31 @@ router.get("/kpis", async (req, res) => {
   }
 });
 
-// GET /api/admin/safety/allowlist
-router.get("/safety/allowlist", (req, res) => {
-  // Frontend expects an array of strings (package names)
-  res.json(["axios", "react", "lodash", "express", "zod", "prisma"]);
+// GET /api/admin/safety/allowlist?projectId=
+router.get("/safety/allowlist", async (req, res) => {
+  try {
+    // Frontend expects an array of strings (package names)
+    res.json(await safetyPolicy.getAllowlist(req.query.projectId as string | undefined));
+  } catch (error) {
+    console.error("Failed to fetch allowlist:", error);
+    res.status(500).json({ error: "Failed to fetch allowlist" });
+  }
+});
+
+// POST /api/admin/safety/allowlist - { packageName, projectId? }
+router.post("/safety/allowlist", async (req, res) => {
+  const { packageName, projectId } = req.body || {};
+  if (typeof packageName !== "string" || !packageName.trim()) {
+    return res.status(400).json({ error: "packageName is required" });
+  }
+
+  try {
+    await safetyPolicy.addToAllowlist(packageName.trim(), projectId);
+    res.json({ success: true, packageName: packageName.trim() });
+  } catch (error) {
+    console.error("Failed to update allowlist:", error);
+    res.status(500).json({ error: "Failed to update allowlist" });
+  }
 });
 
 // GET /api/admin/memory/retention
@@ -95,6 +114,52 @@ router.get("/trace/stats", (req, res) => {
   });
 });
 
+// GET /api/admin/queue - Queue depth, in-flight leases and dead letters
+router.get("/queue", async (req, res) => {
+  try {
+    const stats = await taskQueue.stats();
+    res.json({
+      backend: stats.backend,
+      depth: stats.depth,
+      inFlightCount: stats.inFlight.length,
+      deadLetterCount: stats.deadLetters.length,
+      inFlight: stats.inFlight,
+      deadLetters: stats.deadLetters,
+    });
+  } catch (error) {
+    console.error("Failed to fetch queue stats:", error);
+    res.status(500).json({ error: "Failed to fetch queue stats" });
+  }
+});
+
+// POST /api/admin/queue/dlq/:taskId/requeue - Give a dead-lettered task a fresh attempt budget
+router.post("/queue/dlq/:taskId/requeue", async (req, res) => {
+  try {
+    const requeued = await taskQueue.requeueDeadLetter(req.params.taskId);
+    if (!requeued) {
+      return res.status(404).json({ error: "Task is not dead-lettered" });
+    }
+    res.json({ success: true, taskId: req.params.taskId });
+  } catch (error) {
+    console.error("Failed to requeue dead letter:", error);
+    res.status(500).json({ error: "Failed to requeue dead letter" });
+  }
+});
+
+// GET /api/admin/llm/breakers - Circuit breaker state per provider endpoint and recent fallbacks
+router.get("/llm/breakers", (req, res) => {
+  res.json(circuitBreakers.snapshot());
+});
+
+// POST /api/admin/llm/breakers/:key/reset - Close a breaker once the provider has recovered
+router.post("/llm/breakers/:key/reset", (req, res) => {
+  const reset = circuitBreakers.reset(req.params.key);
+  if (!reset) {
+    return res.status(404).json({ error: "Unknown breaker" });
+  }
+  res.json({ success: true, key: req.params.key });
+});
+
 // POST /api/admin/reset-stuck-tasks - Reset IN_PROGRESS tasks back to ASSIGNED
 router.post("/reset-stuck-tasks", async (req, res) => {
   try {
@@ -170,6 +235,7 @@ router.post("/clean-db", async (req, res) => {
     await prisma.task.deleteMany({});
     await prisma.module.deleteMany({});
     await prisma.project.deleteMany({});
+    repoIndexer.unwatchAll(); // Repo indexes went with the projects
     
     // 2. Clean old agents (keep only evo_*)
     // We delete non-evo agents
@@ -14,7 +14,7 @@ const router = Router();
 router.get('/', async (req, res) => {
   try {
     const { projectId } = req.query;
-    const gates = approvalGates.getPendingGates(projectId as string);
+    const gates = await approvalGates.getPendingGates(projectId as string);
     res.json(gates);
   } catch (error: any) {
     console.error('[Approvals API] Error:', error);
@@ -29,7 +29,7 @@ router.get('/', async (req, res) => {
 router.get('/:gateId', async (req, res) => {
   try {
     const { gateId } = req.params;
-    const gate = approvalGates.getGate(gateId);
+    const gate = await approvalGates.getGate(gateId);
     
     if (!gate) {
       return res.status(404).json({ error: 'Gate not found' });
@@ -42,6 +42,27 @@ router.get('/:gateId', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/approvals/:gateId/decisions
+ * Get the decision history of a gate
+ */
+router.get('/:gateId/decisions', async (req, res) => {
+  try {
+    const { gateId } = req.params;
+    const gate = await approvalGates.getGate(gateId);
+
+    if (!gate) {
+      return res.status(404).json({ error: 'Gate not found' });
+    }
+
+    const decisions = await approvalGates.getGateDecisions(gateId);
+    res.json(decisions);
+  } catch (error: any) {
+    console.error('[Approvals API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * POST /api/approvals/:gateId/approve
  * Approve a gate
@@ -129,7 +150,7 @@ router.post('/configure', async (req, res) => {
       return res.status(400).json({ error: 'projectId and enabledGates are required' });
     }
     
-    approvalGates.configureGates(projectId, enabledGates);
+    await approvalGates.configureGates(projectId, enabledGates);
     
     res.json({ success: true, enabledGates });
   } catch (error: any) {
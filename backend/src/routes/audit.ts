@@ -1,47 +1,97 @@
 import { Router } from "express";
-import { prisma } from "../lib/prisma";
-import { createHash } from "crypto";
+import { traceImmutability, ChainRange } from "../services/traceImmutability";
 
 const router = Router();
 
-// Mock Data Store (until AuditEntry model is added to schema)
-const MOCK_AUDIT_LOGS: any[] = [
-  {
-    id: "audit-1",
-    proposalId: "prop-123",
-    type: "PROPOSAL_GENERATED",
-    payload: JSON.stringify({ summary: "Bold new architecture", cost: 500 }),
-    hash: "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855", // Empty hash for demo
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: "audit-2",
-    proposalId: "prop-123",
-    type: "HUMAN_REVIEW",
-    payload: JSON.stringify({ decision: "APPROVE", reviewer: "admin" }),
-    hash: "valid-hash-2",
-    createdAt: new Date().toISOString(),
-  },
-];
+function parseRange(query: any): ChainRange {
+  const range: ChainRange = {};
+  if (query.from !== undefined) range.from = Number(query.from);
+  if (query.to !== undefined) range.to = Number(query.to);
+  if (Object.values(range).some((v) => !Number.isInteger(v) || v < 0)) {
+    throw Object.assign(new Error("from/to must be non-negative integers"), { status: 400 });
+  }
+  return range;
+}
+
+// GET /api/audit/chain
+// Length and head of the persisted trace chain
+router.get("/chain", async (req, res) => {
+  try {
+    res.json(await traceImmutability.getChainStats());
+  } catch (error: any) {
+    console.error("[Audit] Error reading chain stats:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/audit/chain/verify?from=&to=
+// Re-verify links, chain hashes and stored traces over a range (default: all)
+router.get("/chain/verify", async (req, res) => {
+  try {
+    const result = await traceImmutability.verifyChainIntegrity(parseRange(req.query));
+    res.json({ ...result, verifiedAt: new Date() });
+  } catch (error: any) {
+    console.error("[Audit] Error verifying chain:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Internal server error" });
+  }
+});
+
+// GET /api/audit/chain/entries?from=&to=
+router.get("/chain/entries", async (req, res) => {
+  try {
+    res.json(await traceImmutability.exportChain(parseRange(req.query), req.query.payloads !== "false"));
+  } catch (error: any) {
+    console.error("[Audit] Error exporting chain:", error);
+    res.status(error.status || 400).json({ error: error.message });
+  }
+});
+
+// GET /api/audit/chain/snapshot?from=&to=&payloads=false
+// Ed25519-signed snapshot for external auditors (src/scripts/verify_trace_snapshot.ts)
+router.get("/chain/snapshot", async (req, res) => {
+  try {
+    const snapshot = await traceImmutability.createSnapshot(parseRange(req.query), req.query.payloads !== "false");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="trace-snapshot-${snapshot.range.from}-${snapshot.range.to}.json"`
+    );
+    res.json(snapshot);
+  } catch (error: any) {
+    console.error("[Audit] Error creating snapshot:", error);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// GET /api/audit/chain/public-key
+router.get("/chain/public-key", async (req, res) => {
+  try {
+    res.json(traceImmutability.getSigningPublicKey());
+  } catch (error: any) {
+    console.error("[Audit] Error reading signing key:", error);
+    res.status(500).json({ error: error.message });
+  }
+});
 
 // GET /api/audit/:proposalId
+// Chained traces for a proposal (also accepts a task id or logical trace id)
 router.get("/:proposalId", async (req, res) => {
   const { proposalId } = req.params;
 
   try {
-    // Real implementation:
-    /*
-    const entries = await prisma.auditEntry.findMany({
-      where: { proposalId },
-      orderBy: { createdAt: 'desc' }
-    });
-    */
-
-    // Mock implementation:
-    const entries = MOCK_AUDIT_LOGS.filter(
-      (e) => e.proposalId === proposalId || proposalId === "demo"
+    const entries = await traceImmutability.findEntries(proposalId);
+    res.json(
+      entries.map(({ entry, payload }) => ({
+        id: entry.traceRowId,
+        index: entry.index,
+        proposalId,
+        type: payload?.event ?? "UNKNOWN",
+        payload: JSON.stringify(payload),
+        hash: entry.chainHash,
+        eventHash: entry.eventHash,
+        previousHash: entry.previousHash,
+        createdAt: entry.timestamp,
+      }))
     );
-    res.json(entries);
   } catch (error: any) {
     console.error("[Audit] Error fetching logs:", error);
     res.status(500).json({ error: "Internal server error" });
@@ -53,21 +103,11 @@ router.get("/entry/:entryId/verify", async (req, res) => {
   const { entryId } = req.params;
 
   try {
-    // Real implementation:
-    /*
-    const entry = await prisma.auditEntry.findUnique({ where: { id: entryId }});
-    if (!entry) return res.status(404).json({ error: 'not found' });
-    const computed = createHash('sha256').update(entry.payload).digest('hex');
-    res.json({ ok: computed === entry.hash });
-    */
-
-    // Mock implementation:
-    const entry = MOCK_AUDIT_LOGS.find((e) => e.id === entryId);
-    if (!entry) return res.status(404).json({ error: "not found" });
-
-    // Simulate verification
-    // For demo, we'll say it's valid if it exists
-    res.json({ ok: true, verifiedAt: new Date() });
+    const result = await traceImmutability.verifyTraceRow(entryId);
+    if (result.error === "Entry not found in chain") {
+      return res.status(404).json({ error: "not found" });
+    }
+    res.json({ ok: result.valid, index: result.index, error: result.error, verifiedAt: new Date() });
   } catch (error: any) {
     console.error("[Audit] Error verifying log:", error);
     res.status(500).json({ error: "Internal server error" });
@@ -0,0 +1,173 @@
+/**
+ * Budget & Cost Ledger API Routes
+ */
+
+import { Router } from 'express';
+import { budgetLimiter, BudgetConfig, SpendDimension } from '../services/budgetLimiter';
+
+const router = Router();
+
+const DIMENSIONS: SpendDimension[] = ['day', 'project', 'agent', 'model'];
+const LIMIT_FIELDS = ['dailyLimit', 'projectLimit', 'taskLimit', 'warningThreshold'] as const;
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value as string);
+  if (typeof value !== 'string' || isNaN(date.getTime())) {
+    throw Object.assign(new Error(`${name} must be a date`), { status: 400 });
+  }
+  return date;
+}
+
+/**
+ * Limits from a PUT body: each one optional, a non-negative number, and
+ * warningThreshold a fraction
+ */
+function parseLimits(body: any): Partial<BudgetConfig> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw Object.assign(new Error('Body must be an object'), { status: 400 });
+  }
+  const issues: string[] = [];
+  const limits: Partial<BudgetConfig> = {};
+  for (const field of LIMIT_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      issues.push(`${field} must be a non-negative number`);
+    } else if (field === 'warningThreshold' && value > 1) {
+      issues.push('warningThreshold must be between 0 and 1');
+    } else {
+      limits[field] = value;
+    }
+  }
+  if (issues.length > 0) {
+    throw Object.assign(new Error(issues.join('; ')), { status: 400, issues });
+  }
+  return limits;
+}
+
+function sendError(res: any, error: any) {
+  if (error.status === 400) {
+    return res.status(400).json({ error: error.message, issues: error.issues });
+  }
+  console.error('[Budget API] Error:', error);
+  res.status(500).json({ error: error.message });
+}
+
+/**
+ * GET /api/budget/stats
+ * Current daily (and optionally project) spend against limits
+ */
+router.get('/stats', async (req, res) => {
+  try {
+    const { projectId } = req.query;
+    const stats = await budgetLimiter.getSpendStats(projectId as string | undefined);
+    res.json(stats);
+  } catch (error: any) {
+    console.error('[Budget API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/budget/breakdown?by=day|project|agent|model&projectId=&from=&to=
+ * Aggregate spend from the ledger
+ */
+router.get('/breakdown', async (req, res) => {
+  try {
+    const by = (req.query.by as SpendDimension) || 'day';
+    if (!DIMENSIONS.includes(by)) {
+      return res.status(400).json({ error: `by must be one of ${DIMENSIONS.join(', ')}` });
+    }
+
+    const { projectId, from, to } = req.query;
+    const buckets = await budgetLimiter.getSpendBreakdown(by, {
+      projectId: projectId as string | undefined,
+      from: parseDate(from, 'from'),
+      to: parseDate(to, 'to'),
+    });
+    res.json({ by, buckets });
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * GET /api/budget/ledger?projectId=&taskId=&limit=
+ * Raw cost events, newest first
+ */
+router.get('/ledger', async (req, res) => {
+  try {
+    const { projectId, taskId, limit } = req.query;
+    if (limit !== undefined && !(Number.isInteger(Number(limit)) && Number(limit) > 0)) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+    const entries = await budgetLimiter.getLedger({
+      projectId: projectId as string | undefined,
+      taskId: taskId as string | undefined,
+      limit: limit ? Math.min(Number(limit), 1000) : undefined,
+    });
+    res.json(entries);
+  } catch (error: any) {
+    console.error('[Budget API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/budget/projects/:projectId
+ * Effective budget config for a project
+ */
+router.get('/projects/:projectId', async (req, res) => {
+  try {
+    const config = await budgetLimiter.getProjectBudget(req.params.projectId);
+    res.json(config);
+  } catch (error: any) {
+    console.error('[Budget API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * PUT /api/budget/projects/:projectId
+ * Override budget limits for a project
+ */
+router.put('/projects/:projectId', async (req, res) => {
+  try {
+    await budgetLimiter.setProjectBudget(req.params.projectId, parseLimits(req.body));
+    const config = await budgetLimiter.getProjectBudget(req.params.projectId);
+    res.json(config);
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+/**
+ * POST /api/budget/projects/:projectId/resume
+ * Resume a project paused by the budget limiter
+ */
+router.post('/projects/:projectId/resume', async (req, res) => {
+  try {
+    await budgetLimiter.resumeProject(req.params.projectId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[Budget API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/budget/resume-all
+ * Clear every budget pause, including the fleet-wide one
+ */
+router.post('/resume-all', async (req, res) => {
+  try {
+    await budgetLimiter.resumeAllProjects();
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[Budget API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -451,6 +451,13 @@ router.get("/governance", async (req, res) => {
             id: true,
           },
         },
+        ruleSet: {
+          select: {
+            id: true,
+            projectId: true,
+            version: true,
+          },
+        },
       },
       orderBy: { createdAt: "desc" },
       take: 100,
@@ -2,11 +2,32 @@ import { Router } from 'express';
 import { EvolutionHistoryService } from '../services/evolution/EvolutionHistoryService';
 import { populationManager } from '../services/evolution/PopulationManager';
 import { evolutionCycleService } from '../services/evolution/EvolutionCycleService';
+import { genomeBenchmarkService } from '../services/evolution/GenomeBenchmarkService';
+import { genomeRegistry } from '../services/evolution/GenomeRegistry';
+import { populationService } from '../services/evolution/PopulationService';
+import { AgentGenome } from '../services/evolution/EvolutionService';
 import { prisma } from '../lib/prisma';
 
 const router = Router();
 const historyService = new EvolutionHistoryService();
 
+/**
+ * { agentId } resolves to that agent's genome and role; { genome } is used as given
+ */
+async function resolveGenome(input: any): Promise<{ genome: AgentGenome; agentId?: string; role?: string }> {
+  if (input?.agentId) {
+    const agent = await prisma.agent.findUnique({ where: { id: input.agentId } });
+    if (!agent?.genome) {
+      throw Object.assign(new Error(`Agent ${input.agentId} not found or has no genome`), { status: 404 });
+    }
+    return { genome: agent.genome as AgentGenome, agentId: agent.id, role: agent.role };
+  }
+  if (input?.genome?.id && typeof input.genome.system_prompt === 'string') {
+    return { genome: input.genome };
+  }
+  throw Object.assign(new Error('agentId or genome (with id and system_prompt) is required'), { status: 400 });
+}
+
 // GET /api/evolution/stats - Simple live stats from agents
 router.get('/stats', async (req, res) => {
   try {
@@ -41,7 +62,7 @@ router.get('/stats', async (req, res) => {
     const successRate = totalTasks > 0 ? (successfulTasks / totalTasks) * 100 : 0;
 
     res.json({
-      totalGenerations: evolutionCycleService.getGeneration(),
+      totalGenerations: await evolutionCycleService.getGeneration(),
       activePopulation: activeAgents.length,
       avgFitness: avgScore,
       maxFitness: Math.max(...activeAgents.map(a => a.score || 0), 0),
@@ -80,14 +101,29 @@ router.get('/:projectId/family-tree', async (req, res) => {
   }
 });
 
+// GET /api/evolution/:projectId/generations/diff?from=N&to=M
+router.get('/:projectId/generations/diff', async (req, res) => {
+  try {
+    const from = parseInt(req.query.from as string);
+    const to = parseInt(req.query.to as string);
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return res.status(400).json({ success: false, error: 'from and to generation numbers are required' });
+    }
+    const roles = await genomeRegistry.diffGenerations(req.params.projectId, from, to);
+    res.json({ success: true, from, to, roles });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
 // =================================================
 // Population Management Endpoints
 // =================================================
 
-// GET /api/evolution/population/stats
+// GET /api/evolution/population/stats?populationId=
 router.get('/population/stats', async (req, res) => {
   try {
-    const stats = await populationManager.getPopulationStats();
+    const stats = await populationManager.getPopulationStats(req.query.populationId as string | undefined);
     res.json({ success: true, data: stats });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
@@ -95,16 +131,17 @@ router.get('/population/stats', async (req, res) => {
 });
 
 // POST /api/evolution/population/initialize
+// Body: { populationId? } - a population id or a project id (defaults to global)
 router.post('/population/initialize', async (req, res) => {
   try {
-    const count = await populationManager.initializePopulation();
+    const count = await populationManager.initializePopulation(req.body?.populationId);
     res.json({ 
       success: true, 
       message: `Population initialized with ${count} agents`,
       count 
     });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    res.status(error.status || 500).json({ success: false, error: error.message });
   }
 });
 
@@ -113,31 +150,35 @@ router.post('/population/initialize', async (req, res) => {
 // =================================================
 
 // POST /api/evolution/cycle/run
+// Body: { populationId | projectId, dryRun?, benchmarkGate? } - evolves only that population
 router.post('/cycle/run', async (req, res) => {
   try {
-    const { projectId = 'global', dryRun = true } = req.body;
+    const { populationId, projectId, dryRun = true, benchmarkGate } = req.body;
     
     // Set dry-run mode before running cycle
     evolutionCycleService.setDryRunMode(dryRun);
+    if (typeof benchmarkGate === 'boolean') {
+      evolutionCycleService.setBenchmarkGate(benchmarkGate);
+    }
     
-    const result = await evolutionCycleService.runCycle(projectId);
+    const result = await evolutionCycleService.runCycle(populationId || projectId || 'global');
     res.json({ 
       success: true, 
       dryRun,
       result 
     });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    res.status(error.status || 500).json({ success: false, error: error.message });
   }
 });
 
-// GET /api/evolution/cycle/generation
+// GET /api/evolution/cycle/generation?populationId=
 router.get('/cycle/generation', async (req, res) => {
   try {
-    const generation = evolutionCycleService.getGeneration();
+    const generation = await evolutionCycleService.getGeneration(req.query.populationId as string | undefined);
     res.json({ success: true, generation });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    res.status(error.status || 500).json({ success: false, error: error.message });
   }
 });
 
@@ -157,9 +198,10 @@ router.post('/settings/dry-run', async (req, res) => {
 });
 
 // POST /api/evolution/population/scale
+// Body: { populationId? }
 router.post('/population/scale', async (req, res) => {
   try {
-    const result = await populationManager.scalePopulation();
+    const result = await populationManager.scalePopulation(req.body?.populationId);
     res.json({ 
       success: true, 
       ...result,
@@ -167,10 +209,218 @@ router.post('/population/scale', async (req, res) => {
         ? `Scaled population: ${result.action}` 
         : `No scaling needed (current: ${result.currentSize}, target: ${result.targetSize})`
     });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// =================================================
+// Population Isolation Endpoints
+// Population ids: global, project:<projectId>, domain:<DOMAIN>
+// =================================================
+
+// GET /api/evolution/populations
+router.get('/populations', async (req, res) => {
+  try {
+    const populations = await populationService.list();
+    res.json({ success: true, populations });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/evolution/populations
+// Body: { scope: 'PROJECT', projectId } or { scope: 'DOMAIN', domain }, optional config overrides
+router.post('/populations', async (req, res) => {
+  try {
+    const { scope, projectId, domain, config } = req.body;
+    if (!['PROJECT', 'DOMAIN'].includes(scope)) {
+      return res.status(400).json({ success: false, error: 'scope must be PROJECT or DOMAIN' });
+    }
+    const population = await populationService.create({ scope, projectId, domain, config });
+    res.json({ success: true, population });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/evolution/populations/:id
+router.get('/populations/:id', async (req, res) => {
+  try {
+    const population = await populationService.get(req.params.id);
+    const stats = await populationManager.getPopulationStats(population.id);
+    res.json({ success: true, population, settings: populationService.getSettings(population), stats });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// PATCH /api/evolution/populations/:id/config
+router.patch('/populations/:id/config', async (req, res) => {
+  try {
+    const population = await populationService.updateSettings(req.params.id, req.body || {});
+    res.json({ success: true, population, settings: populationService.getSettings(population) });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/evolution/populations/:id/migrate
+// Body: { to, count?, role? } - copies the elite into another population
+router.post('/populations/:id/migrate', async (req, res) => {
+  try {
+    const { to, count, role } = req.body;
+    if (!to) {
+      return res.status(400).json({ success: false, error: 'to (target population id) is required' });
+    }
+    const immigrants = await populationManager.migrateElite(req.params.id, to, { count, role });
+    res.json({ success: true, migrated: immigrants.map(a => a.id) });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// =================================================
+// Genome Benchmark Endpoints
+// =================================================
+
+// GET /api/evolution/benchmark/corpus
+router.get('/benchmark/corpus', (req, res) => {
+  const corpus = genomeBenchmarkService.getCorpus();
+  res.json({
+    success: true,
+    version: corpus.version,
+    tasks: corpus.tasks.map(({ id, title, difficulty, prompt, tests }) => ({ id, title, difficulty, prompt, tests: tests.length })),
+  });
+});
+
+// POST /api/evolution/benchmark/run
+// Body: { agentId } or { genome }, optional role and taskIds (subsets are not stored)
+router.post('/benchmark/run', async (req, res) => {
+  try {
+    const { genome, agentId, role } = await resolveGenome(req.body);
+    const result = await genomeBenchmarkService.evaluate(genome, {
+      role: req.body.role || role,
+      agentId,
+      taskIds: req.body.taskIds,
+    });
+    res.json({ success: true, result });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/evolution/benchmark/compare
+// Body: { a: { agentId } | { genome }, b: ..., role?, taskIds? }
+router.post('/benchmark/compare', async (req, res) => {
+  try {
+    const a = await resolveGenome(req.body.a);
+    const b = await resolveGenome(req.body.b);
+    const comparison = await genomeBenchmarkService.compare(a.genome, b.genome, {
+      role: req.body.role || a.role || b.role,
+      taskIds: req.body.taskIds,
+    });
+    res.json({ success: true, comparison });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/evolution/benchmark/results/:genomeId
+router.get('/benchmark/results/:genomeId', async (req, res) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const runs = await genomeBenchmarkService.listRuns(req.params.genomeId, limit);
+    res.json({ success: true, runs });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// =================================================
+// Genome Registry Endpoints
+// Genome refs: a version hash (or 8+ char prefix), agent:<agentId>, snapshot:<agentGenerationId>
+// =================================================
+
+// GET /api/evolution/genomes?role=&limit=
+router.get('/genomes', async (req, res) => {
+  try {
+    const versions = await genomeRegistry.listVersions({
+      role: req.query.role as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+    });
+    res.json({ success: true, versions });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/evolution/genomes/diff?from=<ref>&to=<ref>
+// Without from, `to` is compared with the genome it descends from
+router.get('/genomes/diff', async (req, res) => {
+  try {
+    const diff = await genomeRegistry.compare(req.query.from as string | undefined, req.query.to as string);
+    res.json({ success: true, diff });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// GET /api/evolution/genomes/pins
+router.get('/genomes/pins', async (req, res) => {
+  try {
+    const pins = await genomeRegistry.getPins();
+    res.json({ success: true, pins });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// PUT /api/evolution/genomes/pins/:role
+// Body: { ref, reason?, pinnedBy?, apply? } - apply rolls live agents back to the pinned genome
+router.put('/genomes/pins/:role', async (req, res) => {
+  try {
+    const { ref, reason, pinnedBy, apply = false } = req.body;
+    const result = await genomeRegistry.pin(req.params.role, ref, { reason, pinnedBy, apply });
+    res.json({ success: true, ...result });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// DELETE /api/evolution/genomes/pins/:role
+router.delete('/genomes/pins/:role', async (req, res) => {
+  try {
+    const removed = await genomeRegistry.unpin(req.params.role);
+    if (!removed) {
+      return res.status(404).json({ success: false, error: `Role ${req.params.role} is not pinned` });
+    }
+    res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ success: false, error: error.message });
   }
 });
 
+// GET /api/evolution/genomes/:ref
+router.get('/genomes/:ref', async (req, res) => {
+  try {
+    const resolved = await genomeRegistry.resolve(req.params.ref);
+    const version = await genomeRegistry.getVersion(resolved.hash);
+    res.json({ success: true, genome: resolved, version });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
+// POST /api/evolution/agents/:agentId/resurrect
+router.post('/agents/:agentId/resurrect', async (req, res) => {
+  try {
+    const agent = await populationManager.resurrectAgent(req.params.agentId);
+    res.json({ success: true, agent });
+  } catch (error: any) {
+    res.status(error.status || 500).json({ success: false, error: error.message });
+  }
+});
+
 export default router;
 
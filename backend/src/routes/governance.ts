@@ -0,0 +1,132 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma";
+import {
+  GLOBAL_RULES_SCOPE,
+  getActiveRuleSet,
+  getRuleSetVersion,
+  listRuleSetHistory,
+  restoreRuleSet,
+  saveRuleSet,
+} from "../governance/governanceRuleStore";
+import { DEFAULT_GOVERNANCE_RULES } from "../governance/governanceConfig";
+import { simulateGovernance } from "../governance/governanceSimulation";
+
+const router = Router();
+
+async function scopeExists(scope: string): Promise<boolean> {
+  if (scope === GLOBAL_RULES_SCOPE) return true;
+  return (await prisma.project.count({ where: { id: scope } })) > 0;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw Object.assign(new Error(`Invalid date "${value}"`), { status: 400 });
+  }
+  return date;
+}
+
+function parseVersion(value: unknown): number {
+  const version = Number(value);
+  if (typeof value === "boolean" || !Number.isInteger(version) || version < 1) {
+    throw Object.assign(new Error(`Invalid version "${value}"`), { status: 400 });
+  }
+  return version;
+}
+
+function sendError(res: any, error: any, context: string) {
+  if (error.status === 400 || error.status === 404) {
+    return res.status(error.status).json({ error: error.message, issues: error.issues });
+  }
+  console.error(`[Governance] Error ${context}:`, error);
+  res.status(500).json({ error: "Internal server error" });
+}
+
+// GET /api/governance/defaults
+// Builtin rules, the starting point of the global rule set
+router.get("/defaults", (req, res) => {
+  res.json(DEFAULT_GOVERNANCE_RULES);
+});
+
+// GET /api/governance/rules/:scope  (scope: projectId or "global")
+// Rules in force; a project without its own versions gets the global ones
+router.get("/rules/:scope", async (req, res) => {
+  const { scope } = req.params;
+  try {
+    if (!(await scopeExists(scope))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    res.json(await getActiveRuleSet(scope === GLOBAL_RULES_SCOPE ? null : scope));
+  } catch (error: any) {
+    sendError(res, error, "reading rules");
+  }
+});
+
+// PUT /api/governance/rules/:scope
+// Body: { rules: {...partial GovernanceRules}, createdBy?, note? } -> next version
+router.put("/rules/:scope", async (req, res) => {
+  const { rules, createdBy, note } = req.body || {};
+  if (rules === undefined) {
+    return res.status(400).json({ error: "rules is required" });
+  }
+  try {
+    res.json(await saveRuleSet(req.params.scope, rules, { createdBy, note }));
+  } catch (error: any) {
+    sendError(res, error, "saving rules");
+  }
+});
+
+// GET /api/governance/rules/:scope/history
+router.get("/rules/:scope/history", async (req, res) => {
+  try {
+    res.json(await listRuleSetHistory(req.params.scope));
+  } catch (error: any) {
+    sendError(res, error, "listing rule history");
+  }
+});
+
+// GET /api/governance/rules/:scope/versions/:version
+router.get("/rules/:scope/versions/:version", async (req, res) => {
+  try {
+    res.json(await getRuleSetVersion(req.params.scope, parseVersion(req.params.version)));
+  } catch (error: any) {
+    sendError(res, error, "reading rule version");
+  }
+});
+
+// POST /api/governance/rules/:scope/versions/:version/restore
+// Saves a copy of an earlier version as the next version
+router.post("/rules/:scope/versions/:version/restore", async (req, res) => {
+  try {
+    res.json(
+      await restoreRuleSet(req.params.scope, parseVersion(req.params.version), {
+        createdBy: req.body?.createdBy,
+      })
+    );
+  } catch (error: any) {
+    sendError(res, error, "restoring rules");
+  }
+});
+
+// POST /api/governance/projects/:projectId/simulate
+// What-if: { rules?: {...partial}, version?: n, since?, until? }
+// Replays the project's performance logs through the candidate rules and the
+// rules in force, and reports promotions, demotions and terminations of each
+router.post("/projects/:projectId/simulate", async (req, res) => {
+  const { rules, version, since, until } = req.body || {};
+  try {
+    res.json(
+      await simulateGovernance(req.params.projectId, {
+        rules,
+        version: version !== undefined ? parseVersion(version) : undefined,
+        since: parseDate(since),
+        until: parseDate(until),
+      })
+    );
+  } catch (error: any) {
+    sendError(res, error, "simulating rules");
+  }
+});
+
+export default router;
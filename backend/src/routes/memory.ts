@@ -13,7 +13,7 @@ const router = Router();
  */
 router.get('/stats', async (req, res) => {
   try {
-    const stats = agentMemory.getMemoryStats();
+    const stats = await agentMemory.getMemoryStats();
     res.json(stats);
   } catch (error: any) {
     console.error('[Memory API] Error:', error);
@@ -28,7 +28,7 @@ router.get('/stats', async (req, res) => {
 router.get('/agent/:agentId', async (req, res) => {
   try {
     const { agentId } = req.params;
-    const memories = agentMemory.getAgentMemories(agentId);
+    const memories = await agentMemory.getAgentMemories(agentId);
     res.json(memories);
   } catch (error: any) {
     console.error('[Memory API] Error:', error);
@@ -43,7 +43,7 @@ router.get('/agent/:agentId', async (req, res) => {
 router.get('/category/:category', async (req, res) => {
   try {
     const { category } = req.params;
-    const memories = agentMemory.getMemoriesByCategory(category);
+    const memories = await agentMemory.getMemoriesByCategory(category);
     res.json(memories);
   } catch (error: any) {
     console.error('[Memory API] Error:', error);
@@ -57,7 +57,7 @@ router.get('/category/:category', async (req, res) => {
  */
 router.post('/search', async (req, res) => {
   try {
-    const { context, agentRole, limit } = req.body;
+    const { context, agentRole, limit, categories, roles, types, minScore } = req.body;
     
     if (!context) {
       return res.status(400).json({ error: 'context is required' });
@@ -66,7 +66,7 @@ router.post('/search', async (req, res) => {
     const memories = await agentMemory.retrieveRelevantMemories(
       context,
       agentRole || 'MidDev',
-      limit || 5
+      { limit: limit || 5, categories, roles, types, minScore }
     );
     
     res.json(memories);
@@ -133,7 +133,7 @@ router.post('/feedback', async (req, res) => {
       return res.status(400).json({ error: 'memoryId and wasSuccessful are required' });
     }
     
-    agentMemory.updateMemoryOutcome(memoryId, wasSuccessful);
+    await agentMemory.updateMemoryOutcome(memoryId, wasSuccessful);
     res.json({ success: true });
   } catch (error: any) {
     console.error('[Memory API] Error:', error);
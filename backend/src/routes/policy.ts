@@ -0,0 +1,118 @@
+import { Router } from "express";
+import { prisma } from "../lib/prisma";
+import { policyEngine, GLOBAL_SCOPE, PolicyAction } from "../services/policy";
+
+const router = Router();
+
+const ACTIONS: PolicyAction[] = ["package", "command", "path", "network"];
+
+async function scopeExists(scope: string): Promise<boolean> {
+  if (scope === GLOBAL_SCOPE) return true;
+  return (await prisma.project.count({ where: { id: scope } })) > 0;
+}
+
+// GET /api/policy
+// Base policy plus the global override
+router.get("/", async (req, res) => {
+  try {
+    res.json({
+      base: policyEngine.getBasePolicy(),
+      baseSource: process.env.SAFETY_POLICY_PATH || "builtin",
+      global: await policyEngine.getOverride(GLOBAL_SCOPE),
+    });
+  } catch (error: any) {
+    console.error("[Policy] Error reading policy:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/policy/overrides/:scope  (scope: projectId or "global")
+router.get("/overrides/:scope", async (req, res) => {
+  try {
+    const override = await policyEngine.getOverride(req.params.scope);
+    if (!override) {
+      return res.status(404).json({ error: "No override for this scope" });
+    }
+    res.json(override);
+  } catch (error: any) {
+    console.error("[Policy] Error reading override:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// PUT /api/policy/overrides/:scope
+// Body: { source: "<YAML or JSON text>" } or { document: {...} }, optional updatedBy
+router.put("/overrides/:scope", async (req, res) => {
+  const { scope } = req.params;
+  const { source, document, updatedBy } = req.body || {};
+
+  if (source === undefined && document === undefined) {
+    return res.status(400).json({ error: "source or document is required" });
+  }
+
+  try {
+    if (!(await scopeExists(scope))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+    res.json(await policyEngine.setOverride(scope, source ?? document, updatedBy));
+  } catch (error: any) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
+    console.error("[Policy] Error saving override:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// DELETE /api/policy/overrides/:scope
+router.delete("/overrides/:scope", async (req, res) => {
+  try {
+    const deleted = await policyEngine.deleteOverride(req.params.scope);
+    if (!deleted) {
+      return res.status(404).json({ error: "No override for this scope" });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error("[Policy] Error deleting override:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// POST /api/policy/evaluate
+// Dry run: { action, subject, agentRole?, projectId?, environment?, draft? }
+// `draft` (YAML/JSON text or object) stands in for the project's override
+router.post("/evaluate", async (req, res) => {
+  const { action, subject, agentRole, projectId, environment, draft } = req.body || {};
+
+  if (!ACTIONS.includes(action) || typeof subject !== "string" || !subject) {
+    return res.status(400).json({ error: `action (${ACTIONS.join(" | ")}) and subject are required` });
+  }
+
+  try {
+    res.json(await policyEngine.dryRun({ action, subject, agentRole, projectId, environment }, draft));
+  } catch (error: any) {
+    if (error.status === 400) {
+      return res.status(400).json({ error: error.message, issues: error.issues });
+    }
+    console.error("[Policy] Error evaluating request:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/policy/decisions?projectId=&effect=&limit=
+router.get("/decisions", async (req, res) => {
+  try {
+    res.json(
+      await policyEngine.listDecisions({
+        projectId: req.query.projectId as string | undefined,
+        effect: req.query.effect as any,
+        limit: req.query.limit ? Number(req.query.limit) : undefined,
+      })
+    );
+  } catch (error: any) {
+    console.error("[Policy] Error listing decisions:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
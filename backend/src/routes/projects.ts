@@ -7,6 +7,7 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma";
 import { workspaceManager } from "../services/workspaceManager";
+import { repoIndexer } from "../services/repoIndexer";
 import { planProject, planProjectSimple } from "../services/projectPlanner";
 import {
   emitProjectCreated,
@@ -332,7 +333,10 @@ router.delete("/:id", async (req, res) => {
       });
     }
 
-    // 8. Finally delete the project
+    // 8. Stop watching the workspace and drop the repo index
+    await repoIndexer.dropIndex(id);
+
+    // 9. Finally delete the project
     await prisma.project.delete({
       where: { id },
     });
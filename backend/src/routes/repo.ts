@@ -0,0 +1,127 @@
+/**
+ * Repo Index & Cross-Reference API Routes
+ */
+
+import { Router } from 'express';
+import { repoIndexer } from '../services/repoIndexer';
+import { repoQuery } from '../services/repoQuery';
+
+const router = Router();
+
+/**
+ * POST /api/repo/:projectId/index
+ * Run an incremental index of the project workspace
+ */
+router.post('/:projectId/index', async (req, res) => {
+  try {
+    const stats = await repoIndexer.indexRepo(req.params.projectId);
+    res.json(stats);
+  } catch (error: any) {
+    console.error('[Repo API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * DELETE /api/repo/:projectId/index
+ * Drop the project's index and stop watching its workspace
+ */
+router.delete('/:projectId/index', async (req, res) => {
+  try {
+    await repoIndexer.dropIndex(req.params.projectId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[Repo API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/repo/:projectId/symbols/:name/callers?file=
+ * Call sites, JSX usages and type references of a symbol
+ */
+router.get('/:projectId/symbols/:name/callers', async (req, res) => {
+  try {
+    const { projectId, name } = req.params;
+    const callers = await repoQuery.findCallers(projectId, name, req.query.file as string | undefined);
+    res.json(callers);
+  } catch (error: any) {
+    console.error('[Repo API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/repo/:projectId/symbols/:name/callees?file=
+ * What a symbol calls, renders or references
+ */
+router.get('/:projectId/symbols/:name/callees', async (req, res) => {
+  try {
+    const { projectId, name } = req.params;
+    const callees = await repoQuery.findCallees(projectId, name, req.query.file as string | undefined);
+    res.json(callees);
+  } catch (error: any) {
+    console.error('[Repo API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/repo/:projectId/files/imports?path=
+ * Modules imported by a file
+ */
+router.get('/:projectId/files/imports', async (req, res) => {
+  try {
+    const filePath = req.query.path as string;
+    if (!filePath) {
+      return res.status(400).json({ error: 'path is required' });
+    }
+    const imports = await repoQuery.getImports(req.params.projectId, filePath);
+    res.json(imports);
+  } catch (error: any) {
+    console.error('[Repo API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/repo/:projectId/files/dependents?path=
+ * Files importing a file
+ */
+router.get('/:projectId/files/dependents', async (req, res) => {
+  try {
+    const filePath = req.query.path as string;
+    if (!filePath) {
+      return res.status(400).json({ error: 'path is required' });
+    }
+    const dependents = await repoQuery.findDependents(req.params.projectId, filePath);
+    res.json(dependents);
+  } catch (error: any) {
+    console.error('[Repo API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/repo/:projectId/impact?symbol=&file=&depth=
+ * Blast radius of changing a symbol and/or file
+ */
+router.get('/:projectId/impact', async (req, res) => {
+  try {
+    const { symbol, file, depth } = req.query;
+    if (!symbol && !file) {
+      return res.status(400).json({ error: 'symbol or file is required' });
+    }
+    const report = await repoQuery.impactRadius(
+      req.params.projectId,
+      { symbol: symbol as string | undefined, filePath: file as string | undefined },
+      depth ? Math.min(Number(depth), 6) : undefined
+    );
+    res.json(report);
+  } catch (error: any) {
+    console.error('[Repo API] Error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { truthChainService } from "../services/verification";
+
+const router = Router();
+
+// GET /api/truth-chain/stats
+router.get("/stats", async (req, res) => {
+  try {
+    res.json(await truthChainService.getStats());
+  } catch (error: any) {
+    console.error("[TruthChain] Error reading stats:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/truth-chain/verify
+// Re-check every block's Merkle root, hash and link
+router.get("/verify", async (req, res) => {
+  try {
+    const result = await truthChainService.verifyChainIntegrity();
+    res.json({ ...result, verifiedAt: new Date() });
+  } catch (error: any) {
+    console.error("[TruthChain] Error verifying chain:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/truth-chain/blocks/:index
+// Header of a block, for pinning its hash before checking proofs offline
+router.get("/blocks/:index", async (req, res) => {
+  const index = Number(req.params.index);
+  if (!Number.isInteger(index) || index < 0) {
+    return res.status(400).json({ error: "index must be a non-negative integer" });
+  }
+
+  try {
+    const header = await truthChainService.getBlockHeader(index);
+    if (!header) {
+      return res.status(404).json({ error: "not found" });
+    }
+    res.json(header);
+  } catch (error: any) {
+    console.error("[TruthChain] Error reading block:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// GET /api/truth-chain/proof/:ref
+// Merkle inclusion proof for a statement id, contentHash or artifact (file) SHA-256.
+// Verify offline with src/scripts/verify_truth_proof.ts
+router.get("/proof/:ref", async (req, res) => {
+  try {
+    res.json(await truthChainService.getInclusionProof(req.params.ref));
+  } catch (error: any) {
+    if (!error.status) console.error("[TruthChain] Error building proof:", error);
+    res.status(error.status || 500).json({ error: error.status ? error.message : "Internal server error" });
+  }
+});
+
+export default router;
@@ -4,7 +4,13 @@
  */
 
 import { Router } from 'express';
+import type { RequireAuthProp } from '@clerk/clerk-sdk-node';
 import { workspaceManager } from '../services/workspaceManager';
+import { sandbox } from '../services/sandbox';
+import { sideEffects, isPolicyBlock } from '../services/sideEffects';
+import { stubRegistry } from '../services/sandboxStubs';
+import { testRunner } from '../services/testRunner';
+import { requireAuth } from '../middleware/auth';
 import { prisma } from '../server';
 
 const router = Router();
@@ -175,9 +181,12 @@ router.post('/:projectId/file', async (req, res) => {
       return res.status(400).json({ error: 'Content must be a string' });
     }
     
-    await workspaceManager.writeFile(projectId, filePath, content);
+    await sideEffects.writeFile({ projectId, actor: 'user' }, filePath, content);
     res.json({ success: true });
   } catch (error: any) {
+    if (isPolicyBlock(error)) {
+      return res.status(403).json({ error: error.message, decision: error.decision });
+    }
     console.error(`[Workspace] Failed to write file:`, error.message);
     res.status(500).json({ error: error.message });
   }
@@ -198,4 +207,177 @@ router.get('/:projectId/logs', (req, res) => {
   }
 });
 
+// Sandbox sessions, test runs and stubs run project code (on the host with
+// the local backend): signed-in users only
+router.use(['/:projectId/sandbox', '/:projectId/tests'], requireAuth);
+
+/**
+ * GET /api/workspace/:projectId/sandbox
+ * Current sandbox session (backend, container, running commands)
+ */
+router.get('/:projectId/sandbox', (req, res) => {
+  const session = sandbox.getSessionForProject(req.params.projectId);
+  res.json({ session: session || null });
+});
+
+/**
+ * POST /api/workspace/:projectId/sandbox
+ * Create (or reuse) the project's long-lived sandbox session
+ */
+router.post('/:projectId/sandbox', async (req, res) => {
+  try {
+    await sandbox.getOrCreateSession(req.params.projectId);
+    res.json({ success: true, session: sandbox.getSessionForProject(req.params.projectId) });
+  } catch (error: any) {
+    console.error('[API] Sandbox session error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/workspace/:projectId/sandbox/exec
+ * Run a command in the project's sandbox session
+ */
+router.post('/:projectId/sandbox/exec', async (req, res) => {
+  try {
+    const { command, timeoutMs } = req.body;
+    if (!command) {
+      return res.status(400).json({ error: 'command is required' });
+    }
+    const { auth } = req as RequireAuthProp<typeof req>;
+    const sessionId = await sandbox.getOrCreateSession(req.params.projectId);
+    const result = await sideEffects.exec(
+      { projectId: req.params.projectId, actor: auth.userId },
+      sessionId,
+      command,
+      timeoutMs ? Math.min(Number(timeoutMs), 600000) : undefined
+    );
+    res.json(result);
+  } catch (error: any) {
+    if (isPolicyBlock(error)) {
+      return res.status(403).json({ error: error.message, decision: error.decision });
+    }
+    console.error('[API] Sandbox exec error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * DELETE /api/workspace/:projectId/sandbox
+ * Tear down the project's sandbox session
+ */
+router.delete('/:projectId/sandbox', async (req, res) => {
+  try {
+    const session = sandbox.getSessionForProject(req.params.projectId);
+    if (session) {
+      await sandbox.destroySession(session.id);
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('[API] Sandbox destroy error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/workspace/:projectId/tests/run
+ * Run the project's Jest/Vitest suite in its sandbox ({ files?, coverage? })
+ */
+router.post('/:projectId/tests/run', async (req, res) => {
+  try {
+    const { files, coverage } = req.body || {};
+    const result = await testRunner.run(req.params.projectId, {
+      files: Array.isArray(files) ? files : undefined,
+      coverage: coverage !== false,
+    });
+    res.json(result);
+  } catch (error: any) {
+    console.error('[API] Test run error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/workspace/:projectId/tests
+ * Result of the project's most recent test run
+ */
+router.get('/:projectId/tests', (req, res) => {
+  res.json({ result: testRunner.getLastRun(req.params.projectId) });
+});
+
+/**
+ * GET /api/workspace/:projectId/sandbox/stubs
+ * Package stubs selected for the project, all registered stubs and node_modules caches
+ */
+router.get('/:projectId/sandbox/stubs', async (req, res) => {
+  try {
+    const config = await stubRegistry.getProjectConfig(req.params.projectId);
+    res.json({
+      config,
+      active: stubRegistry.resolve(config.stubs).map(m => `${m.name}@${m.version}`),
+      available: stubRegistry.list(),
+      caches: stubRegistry.listNodeModulesCaches(),
+    });
+  } catch (error: any) {
+    console.error('[API] Sandbox stubs error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * PUT /api/workspace/:projectId/sandbox/stubs
+ * Select the project's stubs ({ stubs: ["lodash@4", ...] }, null for the builtins)
+ * and/or a pre-built node_modules cache ({ nodeModulesCache: "<key>" })
+ */
+router.put('/:projectId/sandbox/stubs', async (req, res) => {
+  try {
+    const { stubs, nodeModulesCache } = req.body;
+    if (stubs != null && (!Array.isArray(stubs) || stubs.some((s: unknown) => typeof s !== 'string'))) {
+      return res.status(400).json({ error: 'stubs must be an array of package specs' });
+    }
+    const config = await stubRegistry.setProjectConfig(req.params.projectId, {
+      ...(stubs != null && { stubs }),
+      ...(nodeModulesCache && { nodeModulesCache }),
+    });
+    res.json({ success: true, config });
+  } catch (error: any) {
+    console.error('[API] Sandbox stubs error:', error);
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/workspace/:projectId/sandbox/stubs/generate
+ * Generate a stub from the .d.ts installed in the project's workspace and select it
+ */
+router.post('/:projectId/sandbox/stubs/generate', async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { package: packageName, version } = req.body;
+    if (!packageName) {
+      return res.status(400).json({ error: 'package is required' });
+    }
+
+    const project = await prisma.project.findUnique({ where: { id: projectId } });
+    if (!project?.workspacePath) {
+      return res.status(404).json({ error: 'Project workspace not found' });
+    }
+
+    const stub = stubRegistry.generate(packageName, project.workspacePath, version);
+
+    const config = await stubRegistry.getProjectConfig(projectId);
+    const selected = (config.stubs || stubRegistry.resolve().map(m => m.name))
+      .filter(spec => !spec.startsWith(`${packageName}@`) && spec !== packageName);
+    await stubRegistry.setProjectConfig(projectId, {
+      ...config,
+      stubs: [...selected, `${stub.name}@${stub.version}`],
+    });
+
+    res.json({ success: true, stub });
+  } catch (error: any) {
+    console.error('[API] Stub generation error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,47 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { execFileSync } from 'child_process';
+import { stubRegistry } from '../services/sandboxStubs';
+
+/**
+ * Builds a node_modules cache that one-shot sandbox runs can mount offline.
+ *
+ * Usage: npx tsx src/scripts/build_sandbox_cache.ts <key> <workspace-or-package.json>
+ * Then select it with PUT /api/workspace/:projectId/sandbox/stubs { nodeModulesCache: "<key>" }
+ */
+const CACHE_ROOT = process.env.SANDBOX_NODE_MODULES_CACHE_DIR || path.join(process.cwd(), '.sandbox_cache');
+
+function main() {
+  const [key, source] = process.argv.slice(2);
+  if (!key || !source || !/^[\w.-]+$/.test(key)) {
+    console.error('Usage: build_sandbox_cache.ts <key> <workspace-or-package.json>');
+    process.exit(1);
+  }
+
+  const sourceDir = source.endsWith('package.json') ? path.dirname(source) : source;
+  const cacheDir = path.join(CACHE_ROOT, key);
+  console.log(`📦 Building sandbox cache "${key}" from ${sourceDir}`);
+
+  fs.mkdirSync(cacheDir, { recursive: true });
+  for (const file of ['package.json', 'package-lock.json']) {
+    if (fs.existsSync(path.join(sourceDir, file))) {
+      fs.copyFileSync(path.join(sourceDir, file), path.join(cacheDir, file));
+    }
+  }
+  if (!fs.existsSync(path.join(cacheDir, 'package.json'))) {
+    console.error(`❌ No package.json in ${sourceDir}`);
+    process.exit(1);
+  }
+
+  // Install scripts never run: the cache is mounted into untrusted code's sandbox
+  const lockfile = fs.existsSync(path.join(cacheDir, 'package-lock.json'));
+  execFileSync('npm', [lockfile ? 'ci' : 'install', '--ignore-scripts', '--no-audit', '--no-fund'], {
+    cwd: cacheDir,
+    stdio: 'inherit',
+  });
+
+  const cache = stubRegistry.listNodeModulesCaches().find(c => c.key === key);
+  console.log(`✅ Cache ready: ${cache?.path} (${cache?.packages ?? 0} packages)`);
+}
+
+main();
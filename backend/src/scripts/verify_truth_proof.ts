@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+/**
+ * Verifies a truth-chain inclusion proof (GET /api/truth-chain/proof/:ref)
+ * without access to the platform: only Node's crypto, no project imports,
+ * so clients can prove a delivered file passed verification.
+ *
+ * Usage: npx tsx src/scripts/verify_truth_proof.ts <proof.json> [--file <path>] [--block-hash <hash>]
+ *
+ * --file checks that the proof is about that exact file (its SHA-256 must be
+ * the statement's artifactHash, which the Merkle leaf commits to). --block-hash pins the
+ * block hash obtained out of band (GET /api/truth-chain/blocks/:index at
+ * delivery time); without it the proof is only shown to be self-consistent.
+ */
+
+const POW_PREFIX = '00'; // TruthChainService DIFFICULTY
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+const isHash = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{64}$/i.test(value);
+
+// Must match MerkleTree in services/verification/MerkleTree.ts
+const hashLeaf = (contentHash: string, artifactHash?: string | null) =>
+  sha256(Buffer.concat([
+    Buffer.from([0x00]),
+    Buffer.from(contentHash, 'hex'),
+    ...(artifactHash ? [Buffer.from(artifactHash, 'hex')] : []),
+  ]));
+const hashNode = (left: string, right: string) =>
+  sha256(Buffer.concat([Buffer.from([0x01]), Buffer.from(left, 'hex'), Buffer.from(right, 'hex')]));
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] ?? '' : undefined;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const file = flagValue(args, '--file');
+  const pinnedHash = flagValue(args, '--block-hash');
+  const flagArgs = new Set(['--file', '--block-hash'].flatMap(f => (args.includes(f) ? [args.indexOf(f), args.indexOf(f) + 1] : [])));
+  const proofFile = args.find((arg, i) => !arg.startsWith('--') && !flagArgs.has(i));
+
+  if (!proofFile || file === '' || pinnedHash === '') {
+    console.error('Usage: verify_truth_proof.ts <proof.json> [--file <path>] [--block-hash <hash>]');
+    process.exit(1);
+  }
+
+  const proof = JSON.parse(fs.readFileSync(proofFile, 'utf-8'));
+  const { statement, block } = proof;
+  const errors: string[] = [];
+
+  // 0. Every hash is 64 hex characters (Buffer.from would silently truncate anything else)
+  const hashes: Array<[string, unknown]> = [
+    ['statement.contentHash', statement?.contentHash],
+    ['block.merkleRoot', block?.merkleRoot],
+    ['block.hash', block?.hash],
+    ...(statement?.artifactHash != null ? [['statement.artifactHash', statement.artifactHash] as [string, unknown]] : []),
+    ...(pinnedHash ? [['--block-hash', pinnedHash] as [string, unknown]] : []),
+    ...(proof.path || []).map((step: any, i: number) => [`path[${i}].hash`, step?.hash] as [string, unknown]),
+  ];
+  const malformed = hashes.filter(([, value]) => !isHash(value)).map(([name]) => name);
+  if (malformed.length > 0) {
+    console.error(`❌ Not hex SHA-256 hashes: ${malformed.join(', ')}`);
+    process.exit(1);
+  }
+
+  // 1. The statement's leaf (contentHash and artifactHash) folds up to the block's Merkle root
+  const root = (proof.path || []).reduce(
+    (node: string, step: { position: string; hash: string }) =>
+      step.position === 'left' ? hashNode(step.hash, node) : hashNode(node, step.hash),
+    hashLeaf(statement.contentHash, statement.artifactHash)
+  );
+  if (root !== block.merkleRoot) {
+    errors.push('Merkle path does not lead to the block\'s merkleRoot');
+  }
+
+  // 2. The block hash commits to that root
+  if (sha256(`${block?.index}${block?.previousHash}${block?.merkleRoot}${block?.nonce}`) !== block?.hash) {
+    errors.push('Block hash does not recompute from its header');
+  }
+  if (!block?.hash?.startsWith(POW_PREFIX)) {
+    errors.push(`Block hash lacks the ${POW_PREFIX} proof-of-work prefix`);
+  }
+
+  // 3. The block is the one the client pinned
+  if (pinnedHash) {
+    if (block?.hash !== pinnedHash) errors.push(`Block hash ${block?.hash} is not the pinned ${pinnedHash}`);
+  } else {
+    console.warn('⚠️  No --block-hash given: the proof is only checked against itself');
+  }
+
+  // 4. The proof is about the file in hand: the artifactHash committed in the
+  // leaf must be the file's SHA-256 (the symbolic contentHash abstracts names
+  // away, so different files can share it and it proves nothing about a file)
+  let fileMatch = '';
+  if (file) {
+    const content = fs.readFileSync(file);
+    if (!statement.artifactHash) {
+      errors.push('The statement has no artifactHash, so no file can be matched against it');
+    } else if (sha256(content) === statement.artifactHash.toLowerCase()) {
+      fileMatch = 'byte-for-byte';
+    } else {
+      errors.push(`${file} does not match the proven statement`);
+    }
+  }
+
+  console.log(`📄 ${proofFile}: statement ${statement?.id} (${statement?.contentType}, agent ${statement?.agentId})`);
+  console.log(`   leaf ${proof.leafIndex + 1} of ${proof.leafCount} in block #${block?.index}, ${proof.path?.length ?? 0} path steps`);
+  if (fileMatch) console.log(`   ${file} matches ${fileMatch}`);
+
+  if (errors.length > 0) {
+    for (const error of errors) console.error(`❌ ${error}`);
+    process.exit(1);
+  }
+  console.log(`✅ Inclusion verified: block #${block.index} ${block.hash}`);
+}
+
+main();
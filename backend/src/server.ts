@@ -14,11 +14,16 @@ import approvalsRouter from "./routes/approvals";
 import adminRoutes from "./routes/admin";
 import reviewsRouter from "./routes/reviews";
 import auditRouter from "./routes/audit";
+import truthChainRouter from "./routes/truthChain";
+import policyRouter from "./routes/policy";
+import governanceRouter from "./routes/governance";
 import evolutionRouter from "./routes/evolutionRoutes";
 import plansRouter from "./routes/plans";
 import messagesRouter from "./routes/messages";
 import phasesRouter from "./routes/phases";
 import deploymentRouter from "./routes/deployment";
+import budgetRouter from "./routes/budget";
+import repoRouter from "./routes/repo";
 import { initializeWebSocket } from "./websocket/socketServer";
 import { memoryRetention } from "./services/memoryRetention";
 import { createProxyMiddleware } from "http-proxy-middleware";
@@ -135,7 +140,12 @@ app.use("/api/approvals", approvalsRouter);
 app.use("/api/admin", adminRoutes);
 app.use("/api/reviews", reviewsRouter);
 app.use("/api/audit", auditRouter);
+app.use("/api/truth-chain", truthChainRouter);
+app.use("/api/policy", policyRouter);
+app.use("/api/governance", governanceRouter);
 app.use("/api/evolution", evolutionRouter);
+app.use("/api/budget", budgetRouter);
+app.use("/api/repo", repoRouter);
 // Enterprise Workflow Routes
 app.use("/api/projects", plansRouter); // Plan management nested under projects
 app.use("/api/projects", messagesRouter); // Client messages nested under projects
@@ -148,6 +158,7 @@ app.get("/health", (req, res) => {
 
 import { startGovernanceLoop } from "./governance/governanceLoop";
 import { taskQueue } from "./services/taskQueue";
+import { repoIndexer } from "./services/repoIndexer";
 import "./agents/runner"; // Start Autonomous Agents Loop
 
 // Create HTTP server and initialize WebSocket
@@ -182,16 +193,13 @@ runMigrations().then(() => {
     console.log(`🧠 Starting Governance Loop...`);
     startGovernanceLoop();
 
-    console.log(`📨 Starting Task Queue Processor...`);
-    // Simple polling for prototype (in production, use a worker process)
-    setInterval(async () => {
-      const taskId = await taskQueue.pop();
-      if (taskId) {
-        // In a real app, we would call the Dispatcher here
-        // For now, we just log it to prove the queue works
-        console.log(`[Worker] Processing Task ${taskId} from Redis`);
-      }
-    }, 1000);
+    console.log(`📨 Starting Task Queue Lease Reaper...`);
+    // Re-delivers tasks whose worker stopped heartbeating
+    taskQueue.startReaper();
+
+    console.log(`🗂️ Starting Repo Indexer...`);
+    // Reindexes workspace files as agents write them
+    repoIndexer.start();
 
     // Start Memory Retention Scheduler
     console.log(`🧹 Starting Memory Retention Scheduler...`);
@@ -6,9 +6,9 @@
  */
 
 import { prisma } from "../lib/prisma";
-import { createHash } from "crypto";
 import { invokeModel, ModelConfig } from "./llmClient";
 import { emitLog } from "../websocket/socketServer";
+import { cosineSimilarity, getEmbeddingProvider } from "../llm/embeddings";
 
 export async function extractMemory(
   taskId: string,
@@ -46,50 +46,84 @@ export interface MemoryEntry {
   embedding?: number[]; // Vector embedding for similarity search
   useCount: number; // How many times this memory was retrieved
   successRate: number; // When applied, how often it led to success
+  outcomeCount: number; // Outcomes behind successRate; 0 means it is still the prior
+  curated: boolean; // Kept by a human, never auto-purged
   createdAt: Date;
   updatedAt: Date;
 }
 
-// In-memory store (in production, use vector DB like Pinecone)
-const memoryStore = new Map<string, MemoryEntry>();
-
-// Agent-specific memory index
-const agentMemoryIndex = new Map<string, Set<string>>();
+type MemoryRow = {
+  id: string;
+  agentId: string | null;
+  agentRole: string;
+  type: string;
+  category: string;
+  title: string;
+  content: string;
+  context: any;
+  embedding: number[];
+  useCount: number;
+  successRate: number;
+  outcomeCount: number;
+  curated: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
 
-// Category index for fast lookup
-const categoryIndex = new Map<string, Set<string>>();
+function toEntry(row: MemoryRow): MemoryEntry {
+  return {
+    id: row.id,
+    agentId: row.agentId ?? undefined,
+    agentRole: row.agentRole,
+    type: row.type as MemoryEntry["type"],
+    category: row.category,
+    title: row.title,
+    content: row.content,
+    context: row.context,
+    embedding: row.embedding,
+    useCount: row.useCount,
+    successRate: row.successRate,
+    outcomeCount: row.outcomeCount,
+    curated: row.curated,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
 
-/**
- * Generate a simple embedding (in production, use OpenAI/Cohere embeddings)
- */
-async function generateEmbedding(text: string): Promise<number[]> {
-  // Simple hash-based pseudo-embedding for demo
-  // In production, call OpenAI embeddings API
-  const hash = createHash("sha256").update(text).digest();
-  const embedding: number[] = [];
-  for (let i = 0; i < 64; i++) {
-    embedding.push((hash[i % hash.length] - 128) / 128);
-  }
-  return embedding;
+export interface MemoryQueryOptions {
+  limit?: number;
+  categories?: string[];
+  roles?: string[];
+  types?: MemoryEntry["type"][];
+  minScore?: number; // Minimum raw cosine similarity to be considered relevant
 }
 
+// Success rate of a memory no outcome has been recorded for yet
+const NEUTRAL_SUCCESS_RATE = 0.5;
+
+// Upper bound on candidate rows scored per query (most recently updated first)
+const MAX_CANDIDATES = 5000;
+
 /**
- * Calculate cosine similarity between two embeddings
+ * Text used both when embedding a memory and a query, so both sides
+ * share the same vocabulary.
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
+function memoryText(title: string, content: string, category: string): string {
+  return `${title}\n${category}\n${content}`;
+}
 
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
+function queryText(taskContext: any): string {
+  if (typeof taskContext === "string") return taskContext;
 
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
+  const parts = [
+    taskContext.title,
+    taskContext.summary,
+    taskContext.description,
+    taskContext.category,
+  ].filter((p) => typeof p === "string" && p.length > 0);
 
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  // Fall back to the raw context when no descriptive fields exist
+  return parts.length > 0 ? parts.join("\n") : JSON.stringify(taskContext);
 }
 
 /**
@@ -167,39 +201,24 @@ export async function storeMemory(
   content: string,
   context: any
 ): Promise<MemoryEntry> {
-  const id = `mem-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  const embedding = await generateEmbedding(`${title} ${content} ${category}`);
-
-  const entry: MemoryEntry = {
-    id,
-    agentId,
-    agentRole,
-    type,
-    category,
-    title,
-    content,
-    context,
-    embedding,
-    useCount: 0,
-    successRate: type === "SUCCESS_PATTERN" ? 1.0 : 0.0,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  };
+  const provider = getEmbeddingProvider();
+  const [embedding] = await provider.embed([memoryText(title, content, category)]);
 
-  memoryStore.set(id, entry);
-
-  // Update indexes
-  if (agentId) {
-    if (!agentMemoryIndex.has(agentId)) {
-      agentMemoryIndex.set(agentId, new Set());
-    }
-    agentMemoryIndex.get(agentId)!.add(id);
-  }
-
-  if (!categoryIndex.has(category)) {
-    categoryIndex.set(category, new Set());
-  }
-  categoryIndex.get(category)!.add(id);
+  const row = await prisma.agentMemoryEntry.create({
+    data: {
+      agentId,
+      agentRole,
+      type,
+      category,
+      title,
+      content,
+      context: context ?? undefined,
+      embedding,
+      embeddingModel: provider.id,
+      successRate: type === "SUCCESS_PATTERN" ? 1.0 : NEUTRAL_SUCCESS_RATE,
+    },
+  });
+  const entry = toEntry(row as MemoryRow);
 
   emitLog(`[AgentMemory] 🧠 Stored ${type}: ${title}`);
 
@@ -241,41 +260,59 @@ export async function learnFromTask(
 }
 
 /**
- * Retrieve relevant memories for a task
+ * Retrieve relevant memories for a task.
+ *
+ * Ranks stored memories by cosine similarity between the task and memory
+ * embeddings (same embedding model only), then applies role / type /
+ * success-rate boosts and returns the top-k.
  */
 export async function retrieveRelevantMemories(
   taskContext: any,
   agentRole: string,
-  limit: number = 5
+  limitOrOptions: number | MemoryQueryOptions = 5
 ): Promise<MemoryEntry[]> {
-  // Generate embedding for the query
-  const queryText = `${taskContext.summary || ""} ${
-    taskContext.description || ""
-  } ${JSON.stringify(taskContext)}`;
-  const queryEmbedding = await generateEmbedding(queryText);
-
-  // Score all memories
+  const options: MemoryQueryOptions =
+    typeof limitOrOptions === "number" ? { limit: limitOrOptions } : limitOrOptions;
+  const limit = options.limit ?? 5;
+  const minScore = options.minScore ?? 0.05;
+
+  const provider = getEmbeddingProvider();
+  const [queryEmbedding] = await provider.embed([queryText(taskContext)]);
+
+  const rows = await prisma.agentMemoryEntry.findMany({
+    where: {
+      embeddingModel: provider.id,
+      ...(options.categories?.length && { category: { in: options.categories } }),
+      ...(options.roles?.length && { agentRole: { in: options.roles } }),
+      ...(options.types?.length && { type: { in: options.types } }),
+    },
+    orderBy: { updatedAt: "desc" },
+    take: MAX_CANDIDATES,
+  });
+
+  // Score all candidates
   const scored: Array<{ entry: MemoryEntry; score: number }> = [];
 
-  for (const entry of memoryStore.values()) {
-    if (!entry.embedding) continue;
+  for (const row of rows) {
+    const similarity = cosineSimilarity(queryEmbedding, row.embedding);
+    if (similarity < minScore) continue;
 
-    let score = cosineSimilarity(queryEmbedding, entry.embedding);
+    let score = similarity;
 
     // Boost score for same role
-    if (entry.agentRole === agentRole) {
+    if (row.agentRole === agentRole) {
       score *= 1.2;
     }
 
     // Boost score for success patterns
-    if (entry.type === "SUCCESS_PATTERN") {
+    if (row.type === "SUCCESS_PATTERN") {
       score *= 1.1;
     }
 
     // Boost score based on success rate
-    score *= 0.5 + entry.successRate * 0.5;
+    score *= 0.5 + row.successRate * 0.5;
 
-    scored.push({ entry, score });
+    scored.push({ entry: toEntry(row as MemoryRow), score });
   }
 
   // Sort by score and return top N
@@ -284,13 +321,13 @@ export async function retrieveRelevantMemories(
   const results = scored.slice(0, limit).map((s) => s.entry);
 
   // Update use counts
-  for (const entry of results) {
-    entry.useCount++;
-    entry.updatedAt = new Date();
-    memoryStore.set(entry.id, entry);
-  }
-
   if (results.length > 0) {
+    await prisma.agentMemoryEntry.updateMany({
+      where: { id: { in: results.map((r) => r.id) } },
+      data: { useCount: { increment: 1 } },
+    });
+    for (const entry of results) entry.useCount++;
+
     emitLog(`[AgentMemory] 🔍 Retrieved ${results.length} relevant memories`);
   }
 
@@ -300,44 +337,72 @@ export async function retrieveRelevantMemories(
 /**
  * Get memories for a specific agent
  */
-export function getAgentMemories(agentId: string): MemoryEntry[] {
-  const memoryIds = agentMemoryIndex.get(agentId);
-  if (!memoryIds) return [];
-
-  return Array.from(memoryIds)
-    .map((id) => memoryStore.get(id))
-    .filter((m): m is MemoryEntry => m !== undefined);
+export async function getAgentMemories(agentId: string): Promise<MemoryEntry[]> {
+  const rows = await prisma.agentMemoryEntry.findMany({
+    where: { agentId },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map((row) => toEntry(row as MemoryRow));
 }
 
 /**
  * Get memories by category
  */
-export function getMemoriesByCategory(category: string): MemoryEntry[] {
-  const memoryIds = categoryIndex.get(category);
-  if (!memoryIds) return [];
-
-  return Array.from(memoryIds)
-    .map((id) => memoryStore.get(id))
-    .filter((m): m is MemoryEntry => m !== undefined);
+export async function getMemoriesByCategory(category: string): Promise<MemoryEntry[]> {
+  const rows = await prisma.agentMemoryEntry.findMany({
+    where: { category },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map((row) => toEntry(row as MemoryRow));
 }
 
 /**
  * Update memory success rate based on outcome
  */
-export function updateMemoryOutcome(
+export async function updateMemoryOutcome(
   memoryId: string,
   wasSuccessful: boolean
-): void {
-  const entry = memoryStore.get(memoryId);
+): Promise<void> {
+  const entry = await prisma.agentMemoryEntry.findUnique({
+    where: { id: memoryId },
+  });
   if (!entry) return;
 
   // Exponential moving average
   const alpha = 0.3;
-  entry.successRate =
-    alpha * (wasSuccessful ? 1 : 0) + (1 - alpha) * entry.successRate;
-  entry.updatedAt = new Date();
+  await prisma.agentMemoryEntry.update({
+    where: { id: memoryId },
+    data: {
+      successRate:
+        alpha * (wasSuccessful ? 1 : 0) + (1 - alpha) * entry.successRate,
+      outcomeCount: { increment: 1 },
+    },
+  });
+}
+
+/**
+ * Delete a memory entry
+ */
+export async function deleteMemory(memoryId: string): Promise<boolean> {
+  const { count } = await prisma.agentMemoryEntry.deleteMany({
+    where: { id: memoryId },
+  });
+  return count > 0;
+}
 
-  memoryStore.set(memoryId, entry);
+/**
+ * Protect a memory from auto-purge (or lift the protection)
+ */
+export async function setMemoryCurated(memoryId: string, curated: boolean): Promise<boolean> {
+  const { count } = await prisma.agentMemoryEntry.updateMany({
+    where: { id: memoryId },
+    data: { curated },
+  });
+  return count > 0;
+}
+
+export async function countCuratedMemories(): Promise<number> {
+  return prisma.agentMemoryEntry.count({ where: { curated: true } });
 }
 
 /**
@@ -363,30 +428,32 @@ export function formatMemoriesForPrompt(memories: MemoryEntry[]): string {
 /**
  * Get memory statistics
  */
-export function getMemoryStats(): {
+export async function getMemoryStats(): Promise<{
   totalMemories: number;
   byType: Record<string, number>;
   byCategory: Record<string, number>;
   avgSuccessRate: number;
-} {
-  const memories = Array.from(memoryStore.values());
+}> {
+  const [total, byTypeRows, byCategoryRows] = await Promise.all([
+    prisma.agentMemoryEntry.aggregate({
+      _count: { _all: true },
+      _avg: { successRate: true },
+    }),
+    prisma.agentMemoryEntry.groupBy({ by: ["type"], _count: { _all: true } }),
+    prisma.agentMemoryEntry.groupBy({ by: ["category"], _count: { _all: true } }),
+  ]);
 
   const byType: Record<string, number> = {};
   const byCategory: Record<string, number> = {};
-  let totalSuccessRate = 0;
 
-  for (const mem of memories) {
-    byType[mem.type] = (byType[mem.type] || 0) + 1;
-    byCategory[mem.category] = (byCategory[mem.category] || 0) + 1;
-    totalSuccessRate += mem.successRate;
-  }
+  for (const row of byTypeRows) byType[row.type] = row._count._all;
+  for (const row of byCategoryRows) byCategory[row.category] = row._count._all;
 
   return {
-    totalMemories: memories.length,
+    totalMemories: total._count._all,
     byType,
     byCategory,
-    avgSuccessRate:
-      memories.length > 0 ? totalSuccessRate / memories.length : 0,
+    avgSuccessRate: total._avg.successRate ?? 0,
   };
 }
 
@@ -436,6 +503,9 @@ export const agentMemory = {
   getAgentMemories,
   getMemoriesByCategory,
   updateMemoryOutcome,
+  deleteMemory,
+  setMemoryCurated,
+  countCuratedMemories,
   formatMemoriesForPrompt,
   getMemoryStats,
   storeBestPractice,
@@ -5,6 +5,7 @@
  * Supports approval, rejection, and modification of agent outputs.
  */
 
+import { EventEmitter } from "events";
 import { prisma } from "../lib/prisma";
 import { emitLog } from "../websocket/socketServer";
 import { getIO } from "../websocket/socketServer";
@@ -36,17 +37,55 @@ export interface ApprovalGate {
   resolvedBy?: string;
 }
 
-// In-memory store (in production, use Redis or DB)
-const pendingGates = new Map<string, ApprovalGate>();
+type GateRow = {
+  id: string;
+  projectId: string;
+  taskId: string | null;
+  gateType: string;
+  status: GateStatus;
+  title: string;
+  description: string;
+  payload: any;
+  modifiedPayload: any;
+  reviewerNotes: string | null;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+  createdAt: Date;
+};
+
+function toGate(row: GateRow): ApprovalGate {
+  return {
+    id: row.id,
+    projectId: row.projectId,
+    taskId: row.taskId ?? undefined,
+    gateType: row.gateType as GateType,
+    status: row.status,
+    title: row.title,
+    description: row.description,
+    payload: row.payload,
+    modifiedPayload: row.modifiedPayload ?? undefined,
+    reviewerNotes: row.reviewerNotes ?? undefined,
+    createdAt: row.createdAt,
+    resolvedAt: row.resolvedAt ?? undefined,
+    resolvedBy: row.resolvedBy ?? undefined,
+  };
+}
+
+// Wakes same-process waiters immediately; other instances pick the change up by polling
+const gateEvents = new EventEmitter();
+gateEvents.setMaxListeners(0);
 
-// Gate configuration per project
-const projectGateConfig = new Map<string, Set<GateType>>();
+const WAIT_POLL_INTERVAL_MS = 2000;
 
 /**
  * Configure which gates are enabled for a project
  */
-export function configureGates(projectId: string, enabledGates: GateType[]) {
-  projectGateConfig.set(projectId, new Set(enabledGates));
+export async function configureGates(projectId: string, enabledGates: GateType[]) {
+  await prisma.approvalGateConfig.upsert({
+    where: { projectId },
+    create: { projectId, enabledGates },
+    update: { enabledGates },
+  });
   emitLog(
     `[ApprovalGates] Configured gates for project ${projectId}: ${enabledGates.join(
       ", "
@@ -64,19 +103,37 @@ export function getDefaultGates(): GateType[] {
 /**
  * Check if a gate type is enabled for a project
  */
-export function isGateEnabled(projectId: string, gateType: GateType): boolean {
-  const config = projectGateConfig.get(projectId);
+export async function isGateEnabled(projectId: string, gateType: GateType): Promise<boolean> {
+  const config = await prisma.approvalGateConfig.findUnique({
+    where: { projectId },
+  });
   if (!config) {
     // Default: enable critical gates
     return ["PRE_COMMIT", "SECURITY", "WAR_ROOM_EXIT", "ARCHITECTURE"].includes(
       gateType
     );
   }
-  return config.has(gateType);
+  return config.enabledGates.includes(gateType);
+}
+
+function emitResolved(gate: ApprovalGate) {
+  gateEvents.emit(gate.id, gate);
+
+  // Emit to frontend
+  try {
+    const io = getIO();
+    io.emit("approval:resolved", gate);
+  } catch (e) {
+    // Socket not initialized (e.g. in tests), ignore
+  }
 }
 
 /**
- * Create an approval gate and wait for human decision
+ * Create an approval gate and wait for human decision.
+ *
+ * If the same task already has a PENDING gate of this type (e.g. the task is
+ * being re-run after a restart), that gate is returned instead of a duplicate
+ * so the earlier review request stays the one reviewers act on.
  */
 export async function createGate(
   projectId: string,
@@ -87,7 +144,7 @@ export async function createGate(
   taskId?: string
 ): Promise<ApprovalGate> {
   // Check if gate is enabled
-  if (!isGateEnabled(projectId, gateType)) {
+  if (!(await isGateEnabled(projectId, gateType))) {
     // Auto-approve if gate is disabled
     return {
       id: `auto-${Date.now()}`,
@@ -103,19 +160,29 @@ export async function createGate(
     };
   }
 
-  const gate: ApprovalGate = {
-    id: `gate-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    projectId,
-    taskId,
-    gateType,
-    status: "PENDING",
-    title,
-    description,
-    payload,
-    createdAt: new Date(),
-  };
+  if (taskId) {
+    const existing = await prisma.approvalGate.findFirst({
+      where: { projectId, taskId, gateType, status: "PENDING" },
+      orderBy: { createdAt: "desc" },
+    });
+    if (existing) {
+      emitLog(`[ApprovalGates] ♻️ Resuming pending gate: ${gateType} - ${existing.title}`);
+      return toGate(existing as GateRow);
+    }
+  }
 
-  pendingGates.set(gate.id, gate);
+  const row = await prisma.approvalGate.create({
+    data: {
+      projectId,
+      taskId,
+      gateType,
+      status: "PENDING",
+      title,
+      description,
+      payload: payload ?? {},
+    },
+  });
+  const gate = toGate(row as GateRow);
 
   // Emit to frontend
   try {
@@ -131,7 +198,11 @@ export async function createGate(
 }
 
 /**
- * Wait for gate resolution (with timeout)
+ * Wait for gate resolution (with timeout).
+ *
+ * The gate lives in Postgres, so this works for gates created before a
+ * restart or by another instance: resolutions on this process wake the
+ * waiter immediately, anything else is picked up by polling.
  */
 export async function waitForApproval(
   gateId: string,
@@ -140,28 +211,102 @@ export async function waitForApproval(
   const startTime = Date.now();
 
   return new Promise((resolve, reject) => {
-    const checkInterval = setInterval(() => {
-      const gate = pendingGates.get(gateId);
+    let settled = false;
+    let pollTimer: NodeJS.Timeout | null = null;
+
+    const finish = (err: Error | null, gate?: ApprovalGate) => {
+      if (settled) return;
+      settled = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      gateEvents.removeListener(gateId, onResolved);
+      if (err) reject(err);
+      else resolve(gate!);
+    };
 
-      if (!gate) {
-        clearInterval(checkInterval);
-        reject(new Error(`Gate ${gateId} not found`));
-        return;
+    const onResolved = (gate: ApprovalGate) => finish(null, gate);
+    gateEvents.on(gateId, onResolved);
+
+    const poll = async () => {
+      try {
+        const gate = await getGate(gateId);
+
+        if (!gate) {
+          finish(new Error(`Gate ${gateId} not found`));
+          return;
+        }
+
+        if (gate.status !== "PENDING") {
+          finish(null, gate);
+          return;
+        }
+      } catch (error) {
+        // Transient DB error - keep waiting until the timeout
+        console.warn(`[ApprovalGates] Poll failed for ${gateId}:`, error);
       }
 
-      if (gate.status !== "PENDING") {
-        clearInterval(checkInterval);
-        resolve(gate);
+      if (Date.now() - startTime > timeoutMs) {
+        finish(new Error(`Gate ${gateId} timed out after ${timeoutMs}ms`));
         return;
       }
 
-      if (Date.now() - startTime > timeoutMs) {
-        clearInterval(checkInterval);
-        reject(new Error(`Gate ${gateId} timed out after ${timeoutMs}ms`));
-        return;
+      if (!settled) {
+        pollTimer = setTimeout(poll, WAIT_POLL_INTERVAL_MS);
+      }
+    };
+
+    poll();
+  });
+}
+
+/**
+ * Resolve a PENDING gate and record the decision in one transaction.
+ * The status guard makes concurrent reviewers race safely: only the
+ * first decision wins, later ones get an "already resolved" error.
+ */
+async function resolveGate(
+  gateId: string,
+  reviewerId: string,
+  decision: Exclude<GateStatus, "PENDING">,
+  notes?: string,
+  modifiedPayload?: any
+): Promise<ApprovalGate> {
+  const row = await prisma.$transaction(async (tx) => {
+    const resolvedAt = new Date();
+    const { count } = await tx.approvalGate.updateMany({
+      where: { id: gateId, status: "PENDING" },
+      data: {
+        status: decision,
+        resolvedAt,
+        resolvedBy: reviewerId,
+        reviewerNotes: notes ?? null,
+        ...(modifiedPayload !== undefined && { modifiedPayload }),
+      },
+    });
+
+    if (count === 0) {
+      const existing = await tx.approvalGate.findUnique({ where: { id: gateId } });
+      if (!existing) {
+        throw new Error(`Gate ${gateId} not found`);
       }
-    }, 1000); // Check every second
+      throw new Error(`Gate ${gateId} is already ${existing.status}`);
+    }
+
+    await tx.approvalGateDecision.create({
+      data: {
+        gateId,
+        decision,
+        reviewerId,
+        notes,
+        modifiedPayload,
+      },
+    });
+
+    return tx.approvalGate.findUniqueOrThrow({ where: { id: gateId } });
   });
+
+  const gate = toGate(row as GateRow);
+  emitResolved(gate);
+  return gate;
 }
 
 /**
@@ -172,25 +317,7 @@ export async function approveGate(
   reviewerId: string,
   notes?: string
 ): Promise<ApprovalGate> {
-  const gate = pendingGates.get(gateId);
-  if (!gate) {
-    throw new Error(`Gate ${gateId} not found`);
-  }
-
-  gate.status = "APPROVED";
-  gate.resolvedAt = new Date();
-  gate.resolvedBy = reviewerId;
-  gate.reviewerNotes = notes;
-
-  pendingGates.set(gateId, gate);
-
-  // Emit to frontend
-  try {
-    const io = getIO();
-    io.emit("approval:resolved", gate);
-  } catch (e) {
-    // Socket not initialized (e.g. in tests), ignore
-  }
+  const gate = await resolveGate(gateId, reviewerId, "APPROVED", notes);
 
   emitLog(`[ApprovalGates] ✅ Gate approved: ${gate.title}`);
 
@@ -205,25 +332,7 @@ export async function rejectGate(
   reviewerId: string,
   reason: string
 ): Promise<ApprovalGate> {
-  const gate = pendingGates.get(gateId);
-  if (!gate) {
-    throw new Error(`Gate ${gateId} not found`);
-  }
-
-  gate.status = "REJECTED";
-  gate.resolvedAt = new Date();
-  gate.resolvedBy = reviewerId;
-  gate.reviewerNotes = reason;
-
-  pendingGates.set(gateId, gate);
-
-  // Emit to frontend
-  try {
-    const io = getIO();
-    io.emit("approval:resolved", gate);
-  } catch (e) {
-    // Socket not initialized (e.g. in tests), ignore
-  }
+  const gate = await resolveGate(gateId, reviewerId, "REJECTED", reason);
 
   emitLog(`[ApprovalGates] ❌ Gate rejected: ${gate.title} - ${reason}`);
 
@@ -239,26 +348,13 @@ export async function modifyAndApprove(
   modifiedPayload: any,
   notes?: string
 ): Promise<ApprovalGate> {
-  const gate = pendingGates.get(gateId);
-  if (!gate) {
-    throw new Error(`Gate ${gateId} not found`);
-  }
-
-  gate.status = "MODIFIED";
-  gate.modifiedPayload = modifiedPayload;
-  gate.resolvedAt = new Date();
-  gate.resolvedBy = reviewerId;
-  gate.reviewerNotes = notes;
-
-  pendingGates.set(gateId, gate);
-
-  // Emit to frontend
-  try {
-    const io = getIO();
-    io.emit("approval:resolved", gate);
-  } catch (e) {
-    // Socket not initialized (e.g. in tests), ignore
-  }
+  const gate = await resolveGate(
+    gateId,
+    reviewerId,
+    "MODIFIED",
+    notes,
+    modifiedPayload
+  );
 
   emitLog(`[ApprovalGates] ✏️ Gate modified & approved: ${gate.title}`);
 
@@ -268,21 +364,30 @@ export async function modifyAndApprove(
 /**
  * Get all pending gates for a project
  */
-export function getPendingGates(projectId?: string): ApprovalGate[] {
-  const gates = Array.from(pendingGates.values());
-  if (projectId) {
-    return gates.filter(
-      (g) => g.projectId === projectId && g.status === "PENDING"
-    );
-  }
-  return gates.filter((g) => g.status === "PENDING");
+export async function getPendingGates(projectId?: string): Promise<ApprovalGate[]> {
+  const rows = await prisma.approvalGate.findMany({
+    where: { status: "PENDING", ...(projectId && { projectId }) },
+    orderBy: { createdAt: "asc" },
+  });
+  return rows.map((row) => toGate(row as GateRow));
 }
 
 /**
  * Get gate by ID
  */
-export function getGate(gateId: string): ApprovalGate | undefined {
-  return pendingGates.get(gateId);
+export async function getGate(gateId: string): Promise<ApprovalGate | undefined> {
+  const row = await prisma.approvalGate.findUnique({ where: { id: gateId } });
+  return row ? toGate(row as GateRow) : undefined;
+}
+
+/**
+ * Get the decision history of a gate (oldest first)
+ */
+export async function getGateDecisions(gateId: string) {
+  return prisma.approvalGateDecision.findMany({
+    where: { gateId },
+    orderBy: { createdAt: "asc" },
+  });
 }
 
 /**
@@ -350,6 +455,7 @@ export const approvalGates = {
   modifyAndApprove,
   getPendingGates,
   getGate,
+  getGateDecisions,
   createPreCommitGate,
   createArchitectureGate,
   createCostGate,
@@ -8,9 +8,10 @@
 import { prisma } from "../lib/prisma";
 import { emitLog, getIO } from "../websocket/socketServer";
 import { approvalGates } from "./approvalGates";
+import { newCostTotals, withCostTotals } from "../llm/costTracker";
 
 // Budget configuration
-interface BudgetConfig {
+export interface BudgetConfig {
   dailyLimit: number; // USD per day
   projectLimit: number; // USD per project
   taskLimit: number; // USD per task
@@ -24,13 +25,33 @@ const DEFAULT_CONFIG: BudgetConfig = {
   warningThreshold: 0.8,
 };
 
-// In-memory tracking (in production, use Redis)
-const dailySpend = new Map<string, number>(); // date -> spend
-const projectSpend = new Map<string, number>(); // projectId -> spend
-const pausedProjects = new Set<string>();
+// Details attached to a ledger entry (all optional for legacy callers)
+export interface CostDetails {
+  agentId?: string;
+  agentRole?: string;
+  provider?: string;
+  model?: string;
+  tokensIn?: number;
+  tokensOut?: number;
+}
+
+export type SpendDimension = "day" | "project" | "agent" | "model";
+
+export interface SpendBucket {
+  key: string | null;
+  costUsd: number;
+  tokensIn: number;
+  tokensOut: number;
+  events: number;
+}
+
+// ProjectBudget row that holds the fleet-wide pause flag
+const GLOBAL_BUDGET_KEY = "global";
 
-// Budget configs per project
-const projectConfigs = new Map<string, Partial<BudgetConfig>>();
+// Reason of the pause a daily limit sets (fleet-wide, or on a project with a
+// daily limit of its own); it lifts at the next (UTC) day, when the daily
+// spend starts over
+const DAILY_LIMIT_REASON = "Daily budget limit exceeded";
 
 /**
  * Get today's date key
@@ -42,43 +63,152 @@ function getTodayKey(): string {
 /**
  * Get effective config for a project
  */
-function getConfig(projectId?: string): BudgetConfig {
-  if (projectId && projectConfigs.has(projectId)) {
-    return { ...DEFAULT_CONFIG, ...projectConfigs.get(projectId) };
+async function getConfig(projectId?: string): Promise<BudgetConfig> {
+  if (!projectId) return DEFAULT_CONFIG;
+
+  const row = await prisma.projectBudget.findUnique({ where: { projectId } });
+  if (!row) return DEFAULT_CONFIG;
+
+  return {
+    dailyLimit: row.dailyLimit ?? DEFAULT_CONFIG.dailyLimit,
+    projectLimit: row.projectLimit ?? DEFAULT_CONFIG.projectLimit,
+    taskLimit: row.taskLimit ?? DEFAULT_CONFIG.taskLimit,
+    warningThreshold: row.warningThreshold ?? DEFAULT_CONFIG.warningThreshold,
+  };
+}
+
+async function getDailySpent(day: string = getTodayKey(), projectId?: string): Promise<number> {
+  const agg = await prisma.costLedgerEntry.aggregate({
+    where: { day, ...(projectId && { projectId }) },
+    _sum: { costUsd: true },
+  });
+  return agg._sum.costUsd || 0;
+}
+
+interface DailyUsage {
+  spent: number;
+  limit: number;
+}
+
+/**
+ * Today's spend against the daily limits: the global one caps the whole
+ * fleet, a project's own daily limit (when set) caps that project alone
+ */
+async function getDailyUsage(
+  projectId?: string,
+  day: string = getTodayKey()
+): Promise<{ fleet: DailyUsage; project?: DailyUsage }> {
+  const [globalConfig, own, fleetSpent] = await Promise.all([
+    getConfig(GLOBAL_BUDGET_KEY),
+    projectId
+      ? prisma.projectBudget.findUnique({ where: { projectId }, select: { dailyLimit: true } })
+      : null,
+    getDailySpent(day),
+  ]);
+  const fleet = { spent: fleetSpent, limit: globalConfig.dailyLimit };
+  if (!projectId || projectId === GLOBAL_BUDGET_KEY || own?.dailyLimit == null) {
+    return { fleet };
+  }
+  return { fleet, project: { spent: await getDailySpent(day, projectId), limit: own.dailyLimit } };
+}
+
+async function getProjectSpent(projectId: string): Promise<number> {
+  const agg = await prisma.costLedgerEntry.aggregate({
+    where: { projectId },
+    _sum: { costUsd: true },
+  });
+  return agg._sum.costUsd || 0;
+}
+
+async function isPaused(projectId: string): Promise<boolean> {
+  const rows = await prisma.projectBudget.findMany({
+    where: { projectId: { in: [projectId, GLOBAL_BUDGET_KEY] }, paused: true },
+    select: { projectId: true, pausedReason: true, pausedAt: true },
+  });
+  for (const row of rows) {
+    if (!(await liftExpiredDailyPause(row))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Lift a daily-limit pause (fleet-wide or a project's) once its day is
+ * over. Only that exact pause is cleared, so a manual pause set since then
+ * stays.
+ */
+async function liftExpiredDailyPause(row: {
+  projectId: string;
+  pausedReason: string | null;
+  pausedAt: Date | null;
+}): Promise<boolean> {
+  if (row.pausedReason !== DAILY_LIMIT_REASON || !row.pausedAt) return false;
+  if (row.pausedAt.toISOString().split("T")[0] === getTodayKey()) return false;
+
+  const { count } = await prisma.projectBudget.updateMany({
+    where: { projectId: row.projectId, paused: true, pausedReason: DAILY_LIMIT_REASON, pausedAt: row.pausedAt },
+    data: { paused: false, pausedReason: null, pausedAt: null },
+  });
+  if (count > 0) {
+    const fleetWide = row.projectId === GLOBAL_BUDGET_KEY;
+    emitLog(`[Budget] 🔄 New day: daily limit pause lifted${fleetWide ? "" : ` for project ${row.projectId}`}`);
+    try {
+      if (fleetWide) getIO().emit("budget:all-resumed", {});
+      else getIO().emit("budget:project-resumed", { projectId: row.projectId });
+    } catch (e) {
+      // Socket not initialized (e.g. in tests), ignore
+    }
   }
-  return DEFAULT_CONFIG;
+  return true;
 }
 
 /**
- * Record cost for a task
+ * Record cost for a task.
+ *
+ * Every call appends a ledger row, so spend survives restarts and is
+ * consistent across instances; limits are then checked against the
+ * ledger totals rather than process-local counters. Spend is recorded
+ * even while paused: the money is gone either way.
  */
 export async function recordCost(
   projectId: string,
-  taskId: string,
-  costUsd: number
+  taskId: string | null,
+  costUsd: number,
+  details: CostDetails = {}
 ): Promise<{ allowed: boolean; reason?: string }> {
-  const config = getConfig(projectId);
+  const config = await getConfig(projectId);
   const today = getTodayKey();
 
-  // Check if project is paused
-  if (pausedProjects.has(projectId)) {
+  await prisma.costLedgerEntry.create({
+    data: {
+      projectId,
+      taskId,
+      agentId: details.agentId,
+      agentRole: details.agentRole,
+      provider: details.provider,
+      model: details.model,
+      tokensIn: details.tokensIn || 0,
+      tokensOut: details.tokensOut || 0,
+      costUsd,
+      day: today,
+    },
+  });
+
+  // Already paused: the limits below have fired before
+  if (await isPaused(projectId)) {
     return { allowed: false, reason: "Project is paused due to budget limits" };
   }
 
-  // Update daily spend
-  const currentDaily = dailySpend.get(today) || 0;
-  const newDaily = currentDaily + costUsd;
-  dailySpend.set(today, newDaily);
-
-  // Update project spend
-  const currentProject = projectSpend.get(projectId) || 0;
-  const newProject = currentProject + costUsd;
-  projectSpend.set(projectId, newProject);
+  const [daily, newProject] = await Promise.all([
+    getDailyUsage(projectId, today),
+    getProjectSpent(projectId),
+  ]);
 
   // Check task limit
   if (costUsd > config.taskLimit) {
     emitLog(
-      `[Budget] ⚠️ Task ${taskId} exceeded task limit: $${costUsd.toFixed(
+      `[Budget] ⚠️ Task ${taskId ?? "(none)"} exceeded task limit: $${costUsd.toFixed(
         4
       )} > $${config.taskLimit}`
     );
@@ -92,18 +222,32 @@ export async function recordCost(
     );
   }
 
-  // Check daily limit
-  if (newDaily > config.dailyLimit) {
+  // Check the project's own daily limit
+  if (daily.project && daily.project.spent > daily.project.limit) {
+    emitLog(
+      `[Budget] 🚨 PROJECT DAILY LIMIT EXCEEDED: $${daily.project.spent.toFixed(2)} > $${
+        daily.project.limit
+      }`
+    );
+    emitBudgetAlert("DAILY_LIMIT_EXCEEDED", daily.project.spent, daily.project.limit, projectId);
+
+    // Pause this project until the day is over
+    await pauseProject(projectId, DAILY_LIMIT_REASON);
+    return { allowed: false, reason: DAILY_LIMIT_REASON };
+  }
+
+  // Check the global daily limit
+  if (daily.fleet.spent > daily.fleet.limit) {
     emitLog(
-      `[Budget] 🚨 DAILY LIMIT EXCEEDED: $${newDaily.toFixed(2)} > $${
-        config.dailyLimit
+      `[Budget] 🚨 DAILY LIMIT EXCEEDED: $${daily.fleet.spent.toFixed(2)} > $${
+        daily.fleet.limit
       }`
     );
-    emitBudgetAlert("DAILY_LIMIT_EXCEEDED", newDaily, config.dailyLimit);
+    emitBudgetAlert("DAILY_LIMIT_EXCEEDED", daily.fleet.spent, daily.fleet.limit);
 
-    // Pause all projects
-    pauseAllProjects("Daily budget limit exceeded");
-    return { allowed: false, reason: "Daily budget limit exceeded" };
+    // Pause all projects until the day is over
+    await pauseAllProjects(DAILY_LIMIT_REASON);
+    return { allowed: false, reason: DAILY_LIMIT_REASON };
   }
 
   // Check project limit
@@ -121,19 +265,29 @@ export async function recordCost(
     );
 
     // Pause this project
-    pauseProject(projectId, "Project budget limit exceeded");
+    await pauseProject(projectId, "Project budget limit exceeded");
     return { allowed: false, reason: "Project budget limit exceeded" };
   }
 
   // Check warning thresholds
-  const dailyPercent = newDaily / config.dailyLimit;
+  const dailyPercent = daily.fleet.spent / daily.fleet.limit;
   const projectPercent = newProject / config.projectLimit;
 
   if (dailyPercent >= config.warningThreshold && dailyPercent < 1) {
     emitLog(
       `[Budget] ⚠️ Daily spend at ${(dailyPercent * 100).toFixed(0)}% of limit`
     );
-    emitBudgetAlert("DAILY_WARNING", newDaily, config.dailyLimit);
+    emitBudgetAlert("DAILY_WARNING", daily.fleet.spent, daily.fleet.limit);
+  }
+
+  if (daily.project) {
+    const projectDailyPercent = daily.project.spent / daily.project.limit;
+    if (projectDailyPercent >= config.warningThreshold && projectDailyPercent < 1) {
+      emitLog(
+        `[Budget] ⚠️ Project daily spend at ${(projectDailyPercent * 100).toFixed(0)}% of limit`
+      );
+      emitBudgetAlert("DAILY_WARNING", daily.project.spent, daily.project.limit, projectId);
+    }
   }
 
   if (projectPercent >= config.warningThreshold && projectPercent < 1) {
@@ -154,24 +308,69 @@ export async function recordCost(
 }
 
 /**
- * Check if a task can proceed (pre-check)
+ * Run one step of an agent's work on a task and write the LLM spend of every
+ * call made inside it (see llm/costTracker) to the ledger as one entry, also
+ * when the step throws. The project is looked up from the task if not given.
+ */
+export async function trackTaskCost<T>(
+  context: { projectId?: string | null; taskId?: string | null; agentId?: string | null; agentRole: string },
+  fn: () => Promise<T>
+): Promise<T> {
+  const totals = newCostTotals();
+  try {
+    return await withCostTotals(totals, fn);
+  } finally {
+    if (totals.calls > 0 && totals.costUsd > 0) {
+      try {
+        const projectId =
+          context.projectId ||
+          (context.taskId &&
+            (
+              await prisma.task.findUnique({
+                where: { id: context.taskId },
+                select: { module: { select: { projectId: true } } },
+              })
+            )?.module?.projectId);
+        if (projectId) {
+          await recordCost(projectId, context.taskId ?? null, totals.costUsd, {
+            agentId: context.agentId || undefined,
+            agentRole: context.agentRole,
+            provider: totals.provider,
+            model: totals.model,
+            tokensIn: totals.tokensIn,
+            tokensOut: totals.tokensOut,
+          });
+        }
+      } catch (err) {
+        console.error(`[Budget] Failed to record ${context.agentRole} cost:`, err);
+      }
+    }
+  }
+}
+
+/**
+ * Check if a task can proceed (pre-check against the ledger)
  */
-export function canProceed(
+export async function canProceed(
   projectId: string,
   estimatedCost: number = 0
-): boolean {
-  if (pausedProjects.has(projectId)) {
+): Promise<boolean> {
+  if (await isPaused(projectId)) {
     return false;
   }
 
-  const config = getConfig(projectId);
-  const today = getTodayKey();
-
-  const currentDaily = dailySpend.get(today) || 0;
-  const currentProject = projectSpend.get(projectId) || 0;
+  const config = await getConfig(projectId);
+  const [daily, currentProject] = await Promise.all([
+    getDailyUsage(projectId),
+    getProjectSpent(projectId),
+  ]);
 
   // Check if adding estimated cost would exceed limits
-  if (currentDaily + estimatedCost > config.dailyLimit) {
+  if (daily.fleet.spent + estimatedCost > daily.fleet.limit) {
+    return false;
+  }
+
+  if (daily.project && daily.project.spent + estimatedCost > daily.project.limit) {
     return false;
   }
 
@@ -182,11 +381,28 @@ export function canProceed(
   return true;
 }
 
+async function setPaused(projectId: string, paused: boolean, reason?: string) {
+  await prisma.projectBudget.upsert({
+    where: { projectId },
+    create: {
+      projectId,
+      paused,
+      pausedReason: paused ? reason : null,
+      pausedAt: paused ? new Date() : null,
+    },
+    update: {
+      paused,
+      pausedReason: paused ? reason : null,
+      pausedAt: paused ? new Date() : null,
+    },
+  });
+}
+
 /**
  * Pause a project
  */
-export function pauseProject(projectId: string, reason: string): void {
-  pausedProjects.add(projectId);
+export async function pauseProject(projectId: string, reason: string): Promise<void> {
+  await setPaused(projectId, true, reason);
   emitLog(`[Budget] ⏸️ Project ${projectId} paused: ${reason}`);
 
   try {
@@ -200,8 +416,8 @@ export function pauseProject(projectId: string, reason: string): void {
 /**
  * Resume a project
  */
-export function resumeProject(projectId: string): void {
-  pausedProjects.delete(projectId);
+export async function resumeProject(projectId: string): Promise<void> {
+  await setPaused(projectId, false);
   emitLog(`[Budget] ▶️ Project ${projectId} resumed`);
 
   try {
@@ -215,8 +431,8 @@ export function resumeProject(projectId: string): void {
 /**
  * Pause all projects
  */
-export function pauseAllProjects(reason: string): void {
-  // Get all active projects and pause them
+export async function pauseAllProjects(reason: string): Promise<void> {
+  await setPaused(GLOBAL_BUDGET_KEY, true, reason);
   emitLog(`[Budget] ⏸️ ALL PROJECTS PAUSED: ${reason}`);
 
   try {
@@ -230,8 +446,11 @@ export function pauseAllProjects(reason: string): void {
 /**
  * Resume all projects
  */
-export function resumeAllProjects(): void {
-  pausedProjects.clear();
+export async function resumeAllProjects(): Promise<void> {
+  await prisma.projectBudget.updateMany({
+    where: { paused: true },
+    data: { paused: false, pausedReason: null, pausedAt: null },
+  });
   emitLog(`[Budget] ▶️ All projects resumed`);
 
   try {
@@ -245,37 +464,55 @@ export function resumeAllProjects(): void {
 /**
  * Set budget config for a project
  */
-export function setProjectBudget(
+export async function setProjectBudget(
   projectId: string,
   config: Partial<BudgetConfig>
-): void {
-  projectConfigs.set(projectId, config);
+): Promise<void> {
+  const data = {
+    dailyLimit: config.dailyLimit,
+    projectLimit: config.projectLimit,
+    taskLimit: config.taskLimit,
+    warningThreshold: config.warningThreshold,
+  };
+  await prisma.projectBudget.upsert({
+    where: { projectId },
+    create: { projectId, ...data },
+    update: data,
+  });
   emitLog(`[Budget] 📊 Updated budget config for project ${projectId}`);
 }
 
+/**
+ * Get the effective budget config for a project
+ */
+export async function getProjectBudget(projectId: string): Promise<BudgetConfig> {
+  return getConfig(projectId);
+}
+
 /**
  * Get current spend stats
  */
-export function getSpendStats(projectId?: string): {
+export async function getSpendStats(projectId?: string): Promise<{
   daily: { spent: number; limit: number; percent: number };
   project?: { spent: number; limit: number; percent: number };
   isPaused: boolean;
-} {
-  const config = getConfig(projectId);
-  const today = getTodayKey();
-  const dailySpent = dailySpend.get(today) || 0;
+}> {
+  const config = await getConfig(projectId);
+  // A project with its own daily limit reports its own daily spend
+  const usage = await getDailyUsage(projectId);
+  const daily = usage.project || usage.fleet;
 
   const result: any = {
     daily: {
-      spent: dailySpent,
-      limit: config.dailyLimit,
-      percent: dailySpent / config.dailyLimit,
+      spent: daily.spent,
+      limit: daily.limit,
+      percent: daily.spent / daily.limit,
     },
-    isPaused: projectId ? pausedProjects.has(projectId) : false,
+    isPaused: projectId ? await isPaused(projectId) : false,
   };
 
   if (projectId) {
-    const projectSpent = projectSpend.get(projectId) || 0;
+    const projectSpent = await getProjectSpent(projectId);
     result.project = {
       spent: projectSpent,
       limit: config.projectLimit,
@@ -287,12 +524,64 @@ export function getSpendStats(projectId?: string): {
 }
 
 /**
- * Reset daily spend (call at midnight)
+ * Aggregate the ledger by day, project, agent or model.
+ * Optionally scoped to one project and a [from, to) time window.
  */
-export function resetDailySpend(): void {
-  const yesterday = getTodayKey();
-  dailySpend.delete(yesterday);
-  emitLog(`[Budget] 🔄 Daily spend reset`);
+export async function getSpendBreakdown(
+  by: SpendDimension,
+  filter: { projectId?: string; from?: Date; to?: Date } = {}
+): Promise<SpendBucket[]> {
+  const field = ({
+    day: "day",
+    project: "projectId",
+    agent: "agentId",
+    model: "model",
+  } as const)[by];
+
+  const rows = await prisma.costLedgerEntry.groupBy({
+    by: [field],
+    where: {
+      ...(filter.projectId && { projectId: filter.projectId }),
+      ...((filter.from || filter.to) && {
+        createdAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lt: filter.to }),
+        },
+      }),
+    },
+    _sum: { costUsd: true, tokensIn: true, tokensOut: true },
+    _count: { _all: true },
+  });
+
+  return rows
+    .map((row: any) => ({
+      key: row[field] ?? null,
+      costUsd: row._sum.costUsd || 0,
+      tokensIn: row._sum.tokensIn || 0,
+      tokensOut: row._sum.tokensOut || 0,
+      events: row._count._all,
+    }))
+    .sort((a, b) =>
+      by === "day"
+        ? String(a.key).localeCompare(String(b.key))
+        : b.costUsd - a.costUsd
+    );
+}
+
+/**
+ * Raw ledger entries, newest first (for audit export)
+ */
+export async function getLedger(
+  filter: { projectId?: string; taskId?: string; limit?: number } = {}
+) {
+  return prisma.costLedgerEntry.findMany({
+    where: {
+      ...(filter.projectId && { projectId: filter.projectId }),
+      ...(filter.taskId && { taskId: filter.taskId }),
+    },
+    orderBy: { createdAt: "desc" },
+    take: filter.limit || 100,
+  });
 }
 
 /**
@@ -319,32 +608,17 @@ function emitBudgetAlert(
   }
 }
 
-// Schedule daily reset at midnight
-const scheduleReset = () => {
-  const now = new Date();
-  const tomorrow = new Date(now);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(0, 0, 0, 0);
-
-  const msUntilMidnight = tomorrow.getTime() - now.getTime();
-
-  setTimeout(() => {
-    resetDailySpend();
-    scheduleReset(); // Schedule next reset
-  }, msUntilMidnight);
-};
-
-// Start the reset scheduler
-scheduleReset();
-
 export const budgetLimiter = {
   recordCost,
+  trackTaskCost,
   canProceed,
   pauseProject,
   resumeProject,
   pauseAllProjects,
   resumeAllProjects,
   setProjectBudget,
+  getProjectBudget,
   getSpendStats,
-  resetDailySpend,
+  getSpendBreakdown,
+  getLedger,
 };
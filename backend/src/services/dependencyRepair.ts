@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { sandbox } from './sandbox';
+import { sideEffects, isPolicyBlock } from './sideEffects';
 
 export class DependencyRepairService {
   
@@ -25,28 +26,27 @@ export class DependencyRepairService {
 
   /**
    * Attempt to fix the missing dependency by installing it in the sandbox.
+   * The install goes through the safety policy; packages it denies or that
+   * await approval are reported as a failed fix.
    */
-  async fixDependency(projectId: string, packageName: string): Promise<{ success: boolean; logs: string }> {
+  async fixDependency(projectId: string, packageName: string, taskId?: string): Promise<{ success: boolean; logs: string }> {
+    // 'lodash/fp' -> 'lodash', '@scope/pkg/sub' -> '@scope/pkg'
+    packageName = packageName.split('/').slice(0, packageName.startsWith('@') ? 2 : 1).join('/');
     console.log(`[DependencyRepair] 🛠️ Attempting to install missing package: ${packageName}`);
     
     try {
-      // We use the sandbox to run npm install.
-      // We assume the sandbox session might already exist or we create a new one.
-      // For simplicity, we'll just use sandbox.exec which handles session creation if we pass projectId as session ID?
-      // Wait, sandbox.exec takes a sessionId. We need to find or create one.
-      
-      // We'll use the projectId as the sessionId for simplicity in this context, 
-      // or we should really be passing the active sessionId from the agent.
-      // But since this is a service, maybe we should accept sessionId?
-      // For now, let's assume projectId maps to a session.
-      
-      // We'll use the projectId to find or create the session.
-      const containerId = await sandbox.getOrCreateSession(projectId);
+      // Installs into the project's long-lived sandbox session, so the
+      // package is visible to the runtime monitor's running process too
+      const sessionId = await sandbox.getOrCreateSession(projectId);
 
-      const cmd = `npm install ${packageName}`;
-      console.log(`[DependencyRepair] Running: ${cmd}`);
+      console.log(`[DependencyRepair] Running: npm install ${packageName}`);
       
-      const result = await sandbox.exec(containerId, cmd, 120000); // 120s timeout for install
+      const result = await sideEffects.installPackage(
+        { projectId, taskId, agentRole: 'DependencyRepair' },
+        sessionId,
+        packageName,
+        120000 // 120s timeout for install
+      );
       
       if (result.exitCode === 0) {
         console.log(`[DependencyRepair] ✅ Successfully installed ${packageName}`);
@@ -57,6 +57,10 @@ export class DependencyRepairService {
         return { success: false, logs: result.output };
       }
     } catch (error: any) {
+      if (isPolicyBlock(error)) {
+        console.warn(`[DependencyRepair] 🚫 ${error.message}`);
+        return { success: false, logs: error.message };
+      }
       console.error(`[DependencyRepair] Error installing package:`, error);
       return { success: false, logs: error.message };
     }
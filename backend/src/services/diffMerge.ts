@@ -0,0 +1,441 @@
+/**
+ * Unified Diff & Three-Way Merge
+ *
+ * Line-based helpers behind PatchEngine's `apply_diff`: parse unified diffs
+ * (tolerating the sloppy hunk headers LLMs produce), apply hunks with
+ * offset/whitespace/context fuzz, and merge two descendants of a common base
+ * (diff3), reporting the regions both sides changed differently.
+ */
+
+export interface DiffLine {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart?: number;       // 1-based; missing when the header had no numbers ("@@ @@")
+  newStart?: number;
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  oldPath?: string;
+  newPath?: string;
+  hunks: DiffHunk[];
+}
+
+export interface HunkApplication {
+  hunk: number;            // Index into the hunk list
+  status: 'applied' | 'fuzzy' | 'failed';
+  line?: number;           // 1-based line the hunk landed on
+  offset?: number;         // Lines away from where the header said
+  fuzz?: number;           // Context lines ignored at each end
+}
+
+export interface ConflictHunk {
+  reason: 'context_mismatch' | 'conflict';
+  header?: string;
+  line: number;            // 1-based line in the current file
+  base: string[];          // What the change was written against
+  ours: string[];          // What the file has now
+  theirs: string[];        // What the change wants
+}
+
+export interface ApplyDiffResult {
+  code: string;
+  hunks: HunkApplication[];
+  failed: ConflictHunk[];
+}
+
+export interface MergeResult {
+  code: string;            // Conflicting regions keep "ours"
+  conflicts: ConflictHunk[];
+}
+
+const MAX_FUZZ = 2;
+// Diagonals the diff may walk before giving up on very different files
+const MAX_DIFF_WORK = 50_000_000;
+
+const HUNK_HEADER = /^@@\s*(?:-(\d+)(?:,\d+)?\s+\+(\d+)(?:,\d+)?)?\s*@@/;
+
+function stripPathPrefix(file: string | undefined): string | undefined {
+  if (!file || file === '/dev/null') return undefined;
+  return file.split('\t')[0].trim().replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a (possibly multi-file) unified diff. Hunk line counts are ignored:
+ * a hunk runs until the next header, which survives miscounted LLM output.
+ */
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      file = null;
+      hunk = null;
+      continue;
+    }
+    if (line.startsWith('--- ') && (lines[i + 1]?.startsWith('+++ ') ?? false)) {
+      file = { oldPath: stripPathPrefix(line.slice(4)), newPath: stripPathPrefix(lines[i + 1].slice(4)), hunks: [] };
+      files.push(file);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      if (!file) {
+        file = { hunks: [] };
+        files.push(file);
+      }
+      hunk = {
+        oldStart: header[1] !== undefined ? Number(header[1]) : undefined,
+        newStart: header[2] !== undefined ? Number(header[2]) : undefined,
+        header: line,
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) continue; // preamble: index lines, mode changes, commentary
+    if (line.startsWith('\\')) continue; // "\ No newline at end of file"
+
+    const op = line[0];
+    if (op === '-' || op === '+' || op === ' ') {
+      hunk.lines.push({ op, text: line.slice(1) });
+    } else {
+      // Editors and LLMs strip the leading space from blank context lines
+      hunk.lines.push({ op: ' ', text: line });
+    }
+  }
+
+  return files.filter(f => f.hunks.length > 0);
+}
+
+/**
+ * The section of a multi-file diff that targets `filePath` (or the only one)
+ */
+export function selectFileDiff(files: FileDiff[], filePath: string): FileDiff | undefined {
+  if (files.length === 1) return files[0];
+  const normalized = filePath.replace(/^\.?\//, '');
+  return files.find(f => {
+    const target = f.newPath || f.oldPath;
+    return !!target && (target === normalized || normalized.endsWith(`/${target}`) || target.endsWith(`/${normalized}`));
+  });
+}
+
+const exactly = (a: string, b: string) => a === b;
+const looselyEqual = (a: string, b: string) => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+
+function matchesAt(lines: string[], at: number, expected: string[], equal: (a: string, b: string) => boolean): boolean {
+  if (at < 0 || at + expected.length > lines.length) return false;
+  for (let i = 0; i < expected.length; i++) {
+    if (!equal(lines[at + i], expected[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Nearest position to `expected` (not before `from`) where `block` matches
+ */
+function locate(
+  lines: string[],
+  block: string[],
+  expected: number,
+  from: number,
+  equal: (a: string, b: string) => boolean
+): number | undefined {
+  const last = lines.length - block.length;
+  const start = Math.min(Math.max(expected, from), Math.max(last, from));
+  for (let distance = 0; start - distance >= from || start + distance <= last; distance++) {
+    if (start + distance <= last && matchesAt(lines, start + distance, block, equal)) return start + distance;
+    if (distance > 0 && start - distance >= from && matchesAt(lines, start - distance, block, equal)) return start - distance;
+  }
+  return undefined;
+}
+
+function trimContext(hunkLines: DiffLine[], fuzz: number): DiffLine[] {
+  let lead = 0;
+  while (lead < fuzz && hunkLines[lead]?.op === ' ') lead++;
+  let trail = 0;
+  while (trail < fuzz && hunkLines[hunkLines.length - 1 - trail]?.op === ' ' && hunkLines.length - trail > lead) trail++;
+  return hunkLines.slice(lead, hunkLines.length - trail);
+}
+
+/**
+ * Apply hunks in order. Each one is tried at its stated line, then at the
+ * nearest offset, then ignoring whitespace, then with up to MAX_FUZZ context
+ * lines dropped from each end. Hunks that still don't fit are returned as
+ * `context_mismatch` entries and leave the file untouched at that spot.
+ */
+export function applyUnifiedDiff(source: string, hunks: DiffHunk[]): ApplyDiffResult {
+  const lines = source.split('\n');
+  const applications: HunkApplication[] = [];
+  const failed: ConflictHunk[] = [];
+  let delta = 0;      // Line shift caused by earlier hunks
+  let floor = 0;      // Hunks apply in order; never before the previous one
+
+  hunks.forEach((hunk, index) => {
+    const expected = hunk.oldStart !== undefined ? Math.max(hunk.oldStart - 1 + delta, 0) : floor;
+    let placed: { at: number; body: DiffLine[]; equal: (a: string, b: string) => boolean; fuzz: number } | undefined;
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ && !placed; fuzz++) {
+      const body = trimContext(hunk.lines, fuzz);
+      if (fuzz > 0 && body.length === trimContext(hunk.lines, fuzz - 1).length) break;
+      const oldBlock = body.filter(l => l.op !== '+').map(l => l.text);
+
+      if (oldBlock.length === 0) {
+        // Pure insertion: the header line is all we have ("-0,0" means the top)
+        const at = hunk.oldStart !== undefined ? Math.min(Math.max(hunk.oldStart + delta, 0), lines.length) : floor;
+        placed = { at: Math.max(at, floor), body, equal: exactly, fuzz };
+        break;
+      }
+      for (const equal of [exactly, looselyEqual]) {
+        const at = locate(lines, oldBlock, expected, floor, equal);
+        if (at !== undefined) {
+          placed = { at, body, equal, fuzz };
+          break;
+        }
+      }
+    }
+
+    if (!placed) {
+      failed.push({
+        reason: 'context_mismatch',
+        header: hunk.header,
+        line: Math.min(expected + 1, lines.length),
+        base: hunk.lines.filter(l => l.op !== '+').map(l => l.text),
+        ours: lines.slice(expected, expected + hunk.lines.filter(l => l.op !== '+').length),
+        theirs: hunk.lines.filter(l => l.op !== '-').map(l => l.text),
+      });
+      applications.push({ hunk: index, status: 'failed' });
+      return;
+    }
+
+    // Context lines keep the file's own text (whitespace included)
+    const replacement: string[] = [];
+    let cursor = placed.at;
+    for (const line of placed.body) {
+      if (line.op === ' ') replacement.push(lines[cursor++]);
+      else if (line.op === '-') cursor++;
+      else replacement.push(line.text);
+    }
+    const removed = cursor - placed.at;
+    lines.splice(placed.at, removed, ...replacement);
+
+    const offset = placed.at - expected;
+    applications.push({
+      hunk: index,
+      status: offset === 0 && placed.fuzz === 0 && placed.equal === exactly ? 'applied' : 'fuzzy',
+      line: placed.at + 1,
+      offset,
+      fuzz: placed.fuzz,
+    });
+    delta += replacement.length - removed + offset;
+    floor = placed.at + replacement.length;
+  });
+
+  return { code: lines.join('\n'), hunks: applications, failed };
+}
+
+/**
+ * Middle of an optimal edit path through a[aLo..aHi) x b[bLo..bHi): Myers'
+ * bisection, searching forward from the start and backward from the end
+ * until the two meet. Returns the split point, or undefined when nothing in
+ * the ranges matches. Needs O(n + m) memory, and the diagonals walked are
+ * charged to `work`.
+ */
+function bisect(
+  a: Int32Array, aLo: number, aHi: number,
+  b: Int32Array, bLo: number, bHi: number,
+  work: { left: number }
+): [number, number] | undefined {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  // v[offset + k] = furthest x reached on diagonal k (x - y = k), from each end
+  const forward = new Int32Array(2 * offset + 1).fill(-1);
+  const backward = new Int32Array(2 * offset + 1).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths meet on a forward step, otherwise on a backward one
+  const meetForward = delta % 2 !== 0;
+  // Diagonals that ran off the edit graph are skipped from then on
+  let kForwardStart = 0;
+  let kForwardEnd = 0;
+  let kBackwardStart = 0;
+  let kBackwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    work.left -= 2 * (d + 1);
+    if (work.left < 0) throw new Error(`Files too different to merge (${n}x${m} changed lines)`);
+
+    for (let k = -d + kForwardStart; k <= d - kForwardEnd; k += 2) {
+      const at = offset + k;
+      let x = k === -d || (k !== d && forward[at - 1] < forward[at + 1]) ? forward[at + 1] : forward[at - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[at] = x;
+      if (x > n) {
+        kForwardEnd += 2;
+      } else if (y > m) {
+        kForwardStart += 2;
+      } else if (meetForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < backward.length && backward[other] !== -1 && x >= n - backward[other]) {
+          return [aLo + x, bLo + y];
+        }
+      }
+    }
+
+    for (let k = -d + kBackwardStart; k <= d - kBackwardEnd; k += 2) {
+      const at = offset + k;
+      let x = k === -d || (k !== d && backward[at - 1] < backward[at + 1]) ? backward[at + 1] : backward[at - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[at] = x;
+      if (x > n) {
+        kBackwardEnd += 2;
+      } else if (y > m) {
+        kBackwardStart += 2;
+      } else if (!meetForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < forward.length && forward[other] !== -1) {
+          const forwardX = forward[other];
+          if (forwardX >= n - x) return [aLo + forwardX, bLo + forwardX - (other - offset)];
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Longest common subsequence of two line arrays as a map a-index -> b-index
+ */
+function matchLines(a: string[], b: string[]): Int32Array {
+  const matches = new Int32Array(a.length).fill(-1);
+
+  // Compare small integers instead of strings
+  const ids = new Map<string, number>();
+  const toIds = (lines: string[]) => Int32Array.from(lines, line => {
+    let id = ids.get(line);
+    if (id === undefined) ids.set(line, (id = ids.size));
+    return id;
+  });
+  const aIds = toIds(a);
+  const bIds = toIds(b);
+
+  const work = { left: MAX_DIFF_WORK };
+  const ranges: Array<[number, number, number, number]> = [[0, a.length, 0, b.length]];
+  while (ranges.length > 0) {
+    let [aLo, aHi, bLo, bHi] = ranges.pop()!;
+
+    // Common prefix/suffix are matched outright
+    while (aLo < aHi && bLo < bHi && aIds[aLo] === bIds[bLo]) matches[aLo++] = bLo++;
+    while (aLo < aHi && bLo < bHi && aIds[aHi - 1] === bIds[bHi - 1]) matches[--aHi] = --bHi;
+    if (aLo === aHi || bLo === bHi) continue;
+
+    const split = bisect(aIds, aLo, aHi, bIds, bLo, bHi, work);
+    if (!split) continue;
+    ranges.push([aLo, split[0], bLo, split[1]], [split[0], aHi, split[1], bHi]);
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Edit script turning `a` into `b` (lines, or any tokens), from their LCS
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  const matches = matchLines(a, b);
+  const script: DiffLine[] = [];
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (matches[i] === -1) {
+      script.push({ op: '-', text: a[i] });
+      continue;
+    }
+    while (j < matches[i]) script.push({ op: '+', text: b[j++] });
+    script.push({ op: ' ', text: a[i] });
+    j++;
+  }
+  while (j < b.length) script.push({ op: '+', text: b[j++] });
+  return script;
+}
+
+/**
+ * diff3: walk the base, copying regions both sides kept, taking whichever
+ * side changed an unstable region, and reporting regions both changed.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n');
+  const ourLines = ours.split('\n');
+  const theirLines = theirs.split('\n');
+  const toOurs = matchLines(baseLines, ourLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const merged: string[] = [];
+  const conflicts: ConflictHunk[] = [];
+  let i = 0;
+  let a = 0;
+  let b = 0;
+
+  while (i < baseLines.length || a < ourLines.length || b < theirLines.length) {
+    // Stable: the base line survives in both, right where we are
+    if (i < baseLines.length && toOurs[i] === a && toTheirs[i] === b) {
+      merged.push(baseLines[i]);
+      i++;
+      a++;
+      b++;
+      continue;
+    }
+
+    // Unstable region: up to the next base line both sides kept
+    let j = i;
+    while (j < baseLines.length && !(toOurs[j] >= a && toTheirs[j] >= b)) j++;
+    const aEnd = j < baseLines.length ? toOurs[j] : ourLines.length;
+    const bEnd = j < baseLines.length ? toTheirs[j] : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, j);
+    const ourChunk = ourLines.slice(a, aEnd);
+    const theirChunk = theirLines.slice(b, bEnd);
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      merged.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      merged.push(...ourChunk);
+    } else {
+      conflicts.push({ reason: 'conflict', line: merged.length + 1, base: baseChunk, ours: ourChunk, theirs: theirChunk });
+      merged.push(...ourChunk);
+    }
+
+    i = j;
+    a = aEnd;
+    b = bEnd;
+  }
+
+  return { code: merged.join('\n'), conflicts };
+}
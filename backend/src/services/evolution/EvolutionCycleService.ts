@@ -1,10 +1,15 @@
 /**
  * Evolution Cycle Service
  * 
- * Runs periodic evolution cycles to:
+ * Runs periodic evolution cycles, one population at a time (agents in other
+ * populations are never read, terminated or bred), to:
  * 1. Terminate low-E agents (harvest knowledge first)
  * 2. Calculate fitness for survivors
- * 3. Breed new offspring from elite parents
+ * 3. Breed new offspring from elite parents, chosen by NSGA-II ranking over
+ *    success rate, cost, QA rejections and latency (or the weighted-sum
+ *    fitness, per population settings), optionally gated on their
+ *    offline benchmark score, see GenomeBenchmarkService)
+ *    Roles pinned in the GenomeRegistry are not bred.
  * 4. Record generation stats for visualization
  */
 
@@ -15,18 +20,31 @@ import { ExistenceService } from './ExistenceService';
 import { KnowledgeHarvester } from './KnowledgeHarvester';
 import { EvolutionHistoryService } from './EvolutionHistoryService';
 import { populationManager } from './PopulationManager';
+import { genomeBenchmarkService } from './GenomeBenchmarkService';
+import { genomeRegistry } from './GenomeRegistry';
+import { populationService, PopulationSettings, GLOBAL_POPULATION_ID } from './PopulationService';
+import { rankPopulation, crowdedTournament, ObjectiveVector, ParetoPoint, RankedIndividual } from './ParetoSelection';
 import { emitLog } from '../../websocket/socketServer';
 import { v4 as uuidv4 } from 'uuid';
 
+// Elite share, termination threshold, breeding pairs and mutation rate are
+// per population (PopulationSettings)
 export interface EvolutionCycleConfig {
-    elitePercentage: number;     // Top % to keep unchanged
-    terminationThreshold: number; // E value below which agents die
-    breedingPairs: number;        // Number of breeding pairs per cycle
-    mutationRate: number;         // Probability of mutation
     dryRunMode: boolean;          // Log only, don't actually change
+    benchmarkGate: boolean;       // Only promote offspring that pass the benchmark
+    benchmarkMinScore: number;    // Absolute floor for an offspring's score
+    benchmarkTolerance: number;   // How far below its best parent an offspring may score
+}
+
+export interface RejectedOffspring {
+    genomeId: string;
+    parents: string[];
+    score: number;
+    required: number;
 }
 
 export interface CycleResult {
+    populationId: string;
     generationNumber: number;
     terminated: string[];
     bred: string[];
@@ -34,40 +52,62 @@ export interface CycleResult {
     avgFitness: number;
     maxFitness: number;
     innovations: string[];
+    rejected: RejectedOffspring[]; // Offspring the benchmark gate held back
+    paretoFront: ParetoPoint[];    // Non-dominated survivors
 }
 
 const DEFAULT_CONFIG: EvolutionCycleConfig = {
-    elitePercentage: 0.2,
-    terminationThreshold: 10,
-    breedingPairs: 3,
-    mutationRate: 0.1,
-    dryRunMode: false  // PRODUCTION: Real evolution enabled
+    dryRunMode: false,  // PRODUCTION: Real evolution enabled
+    benchmarkGate: process.env.EVOLUTION_BENCHMARK_GATE === 'true',
+    benchmarkMinScore: Number(process.env.EVOLUTION_BENCHMARK_MIN_SCORE ?? 0.5),
+    benchmarkTolerance: Number(process.env.EVOLUTION_BENCHMARK_TOLERANCE ?? 0.05)
 };
 
 class EvolutionCycleServiceClass {
     private config: EvolutionCycleConfig;
-    private evolutionService: EvolutionService;
     private existenceService: ExistenceService;
     private knowledgeHarvester: KnowledgeHarvester;
-    private currentGeneration: number = 0;
+    private running = new Set<string>(); // Populations with a cycle in progress
 
     constructor(config?: Partial<EvolutionCycleConfig>) {
         this.config = { ...DEFAULT_CONFIG, ...config };
-        this.evolutionService = new EvolutionService({ mutation_rate: this.config.mutationRate });
         this.existenceService = new ExistenceService();
         this.knowledgeHarvester = new KnowledgeHarvester();
     }
 
     /**
-     * Run one evolution cycle
+     * Run one evolution cycle for a population (by id, or the population
+     * serving a project). Cycles of different populations may overlap; a
+     * second cycle of the same population is refused.
      */
-    async runCycle(projectId: string = 'global'): Promise<CycleResult> {
-        console.log(`[EvolutionCycle] 🧬 Starting evolution cycle for ${projectId}...`);
-        emitLog(`[Evolution] 🧬 Starting generation ${this.currentGeneration + 1} cycle...`);
+    async runCycle(populationRef: string = GLOBAL_POPULATION_ID): Promise<CycleResult> {
+        const population = await populationService.resolve(populationRef);
+        if (this.running.has(population.id)) {
+            throw Object.assign(new Error(`An evolution cycle is already running for ${population.id}`), { status: 409 });
+        }
+        this.running.add(population.id);
+        try {
+            return await this.runPopulationCycle(population.id, population.projectId, populationService.getSettings(population), population.generation);
+        } finally {
+            this.running.delete(population.id);
+        }
+    }
+
+    private async runPopulationCycle(
+        populationId: string,
+        projectId: string | null,
+        settings: PopulationSettings,
+        lastGeneration: number
+    ): Promise<CycleResult> {
+        console.log(`[EvolutionCycle] 🧬 Starting evolution cycle for ${populationId}...`);
+        emitLog(`[Evolution] 🧬 Starting generation ${lastGeneration + 1} cycle (${populationId})...`);
 
-        // Get all alive agents
+        const evolutionService = new EvolutionService({ mutation_rate: settings.mutationRate });
+
+        // Get all alive agents of the population
         const agents = await prisma.agent.findMany({
             where: {
+                populationId,
                 status: { not: 'OFFLINE' },
                 existencePotential: { gt: 0 }
             },
@@ -80,15 +120,18 @@ class EvolutionCycleServiceClass {
         });
 
         if (agents.length === 0) {
-            console.log(`[EvolutionCycle] No agents to evolve. Run population bootstrap first.`);
+            console.log(`[EvolutionCycle] No agents to evolve in ${populationId}. Run population bootstrap first.`);
             return {
-                generationNumber: this.currentGeneration,
+                populationId,
+                generationNumber: lastGeneration,
                 terminated: [],
                 bred: [],
                 survivors: [],
                 avgFitness: 0,
                 maxFitness: 0,
-                innovations: []
+                innovations: [],
+                rejected: [],
+                paretoFront: []
             };
         }
 
@@ -97,16 +140,18 @@ class EvolutionCycleServiceClass {
         
         for (const agent of agents) {
             const outcomes = this.convertMetricsToOutcomes(agent.taskMetrics);
-            const fitness = this.evolutionService.calculateFitness(outcomes, []);
+            const fitness = evolutionService.calculateFitness(outcomes, []);
             agentFitness.push({ agent, fitness, outcomes });
         }
 
         // Sort by fitness (descending)
         agentFitness.sort((a, b) => b.fitness - a.fitness);
 
+        const objectives = await this.measureObjectives(agents);
+
         // Step 2: Identify agents to terminate (low E)
         const toTerminate = agentFitness.filter(
-            af => af.agent.existencePotential <= this.config.terminationThreshold
+            af => af.agent.existencePotential <= settings.terminationThreshold
         );
 
         const terminated: string[] = [];
@@ -126,26 +171,57 @@ class EvolutionCycleServiceClass {
 
         // Step 3: Identify survivors and elite
         const survivors = agentFitness.filter(
-            af => af.agent.existencePotential > this.config.terminationThreshold
+            af => af.agent.existencePotential > settings.terminationThreshold
         );
         
-        const eliteCount = Math.max(1, Math.floor(survivors.length * this.config.elitePercentage));
-        const elite = survivors.slice(0, eliteCount);
+        // Non-dominated fronts are recorded whichever selection the population uses
+        type Scored = typeof survivors[number];
+        const ranked: RankedIndividual<Scored>[] = rankPopulation(survivors, s => objectives.get(s.agent.id) || {});
+        const paretoFront: ParetoPoint[] = ranked
+            .filter(r => r.rank === 0)
+            .map(r => ({
+                agentId: r.item.agent.id,
+                role: r.item.agent.role,
+                genomeId: (r.item.agent.genome as any)?.id,
+                objectives: r.objectives,
+                crowding: Number.isFinite(r.crowding) ? r.crowding : null,
+                fitness: r.item.fitness
+            }));
+
+        const pareto = settings.selection === 'pareto';
+        const eliteCount = Math.max(1, Math.floor(survivors.length * settings.elitePercentage));
+        const eliteRanked = ranked.slice(0, eliteCount);
+        const elite = pareto ? eliteRanked.map(r => r.item) : survivors.slice(0, eliteCount);
 
-        console.log(`[EvolutionCycle] 👑 Elite agents (top ${eliteCount}):`, elite.map(e => e.agent.id));
+        console.log(`[EvolutionCycle] 👑 Elite agents (top ${eliteCount}, ${settings.selection}):`, elite.map(e => e.agent.id));
+
+        // Agents from before the genome registry get their version recorded once
+        if (!this.config.dryRunMode) {
+            for (const { agent } of survivors) {
+                if (!agent.genomeVersion) await genomeRegistry.registerAgent(agent);
+            }
+        }
 
         // Step 4: Breed new offspring
         const bred: string[] = [];
         const innovations: string[] = [];
+        const rejected: RejectedOffspring[] = [];
 
-        for (let i = 0; i < this.config.breedingPairs && elite.length >= 2; i++) {
-            // Select two parents via tournament
-            const parent1 = this.evolutionService.tournamentSelection(
-                elite.map(e => ({ genome: e.agent.genome as AgentGenome, fitness: e.fitness }))
-            );
-            const parent2 = this.evolutionService.tournamentSelection(
-                elite.map(e => ({ genome: e.agent.genome as AgentGenome, fitness: e.fitness }))
-            );
+        const role = elite[0]?.agent.role; // Inherit role from top parent
+        const pinned = role ? await genomeRegistry.getPinnedGenome(role) : null;
+        if (pinned) {
+            console.log(`[EvolutionCycle] 📌 ${role} is pinned to ${pinned.hash.slice(0, 12)}; skipping breeding`);
+        }
+
+        for (let i = 0; i < settings.breedingPairs && elite.length >= 2 && !pinned; i++) {
+            // Select two parents via tournament (crowded comparison under Pareto selection)
+            const selectParent = () => pareto
+                ? crowdedTournament(eliteRanked).item.agent.genome as AgentGenome
+                : evolutionService.tournamentSelection(
+                    elite.map(e => ({ genome: e.agent.genome as AgentGenome, fitness: e.fitness }))
+                );
+            const parent1 = selectParent();
+            const parent2 = selectParent();
 
             if (parent1.id === parent2.id) continue; // Skip self-breeding
 
@@ -154,80 +230,174 @@ class EvolutionCycleServiceClass {
             const p2Fitness = elite.find(e => (e.agent.genome as any)?.id === parent2.id)?.fitness || 0.5;
 
             // Crossover
-            const childGenome = this.evolutionService.crossover(parent1, parent2, p1Fitness, p2Fitness);
-            const mutatedGenome = this.evolutionService.mutate(childGenome);
+            const childGenome = evolutionService.crossover(parent1, parent2, p1Fitness, p2Fitness);
+            const mutatedGenome = evolutionService.mutate(childGenome);
 
             if (this.config.dryRunMode) {
                 console.log(`[EvolutionCycle] 🔮 DRY-RUN: Would breed child from ${parent1.id} x ${parent2.id}`);
                 bred.push(`dry-run-child-${i}`);
             } else {
+                let benchmarkRunId: string | undefined;
+                if (this.config.benchmarkGate) {
+                    const gate = await this.benchmarkOffspring(mutatedGenome, [parent1, parent2], elite.map(e => e.agent), role);
+                    if (!gate.promoted) {
+                        console.log(`[EvolutionCycle] 🚧 Held back offspring of ${parent1.id} x ${parent2.id}: benchmark ${gate.score.toFixed(3)} < ${gate.required.toFixed(3)}`);
+                        rejected.push({ genomeId: mutatedGenome.id, parents: [parent1.id, parent2.id], score: gate.score, required: gate.required });
+                        continue;
+                    }
+                    benchmarkRunId = gate.runId;
+                }
+
                 // Create new agent
-                const role = elite[0].agent.role; // Inherit role from top parent
+                const newAgentId = `evo_${role.toLowerCase()}_gen${mutatedGenome.generation}_${uuidv4().slice(0, 6)}`;
+                const genomeVersion = await genomeRegistry.register(mutatedGenome, {
+                    role,
+                    agentId: newAgentId,
+                    parents: [parent1, parent2]
+                });
                 const newAgent = await prisma.agent.create({
                     data: {
-                        id: `evo_${role.toLowerCase()}_gen${mutatedGenome.generation}_${uuidv4().slice(0, 6)}`,
+                        id: newAgentId,
                         role: role,
                         specialization: role,
                         status: 'IDLE',
                         existencePotential: 80.0, // Start with slightly less E than parents
                         generation: mutatedGenome.generation,
                         genome: mutatedGenome as any,
+                        genomeVersion,
+                        populationId,
                         parentId: parent1.id,
                         lastActiveAt: new Date()
                     }
                 });
 
+                if (benchmarkRunId) {
+                    await prisma.genomeBenchmarkRun.update({ where: { id: benchmarkRunId }, data: { agentId: newAgent.id } });
+                }
+
                 console.log(`[EvolutionCycle] 🐣 Bred: ${newAgent.id} (Gen ${mutatedGenome.generation})`);
                 bred.push(newAgent.id);
                 innovations.push(`Gen ${mutatedGenome.generation} ${role} born`);
             }
         }
 
-        // Step 5: Record generation stats
-        this.currentGeneration++;
+        // Step 5: Record generation stats (dry runs leave the counter and history untouched)
+        const generationNumber = this.config.dryRunMode
+            ? lastGeneration + 1
+            : await populationService.nextGeneration(populationId);
         
         const avgFitness = agentFitness.reduce((sum, af) => sum + af.fitness, 0) / agentFitness.length;
         const maxFitness = agentFitness[0]?.fitness || 0;
 
         // Try to record to history service
-        try {
-            const historyService = new EvolutionHistoryService();
-            await historyService.recordGeneration({
-                projectId,
-                generationNumber: this.currentGeneration,
-                agents: agentFitness.map(af => ({
-                    id: af.agent.id,
-                    fitness: af.fitness,
-                    tasksCompleted: af.agent.successCount + af.agent.failCount,
-                    tasksSucceeded: af.agent.successCount,
-                    tokensUsed: af.outcomes.reduce((sum, o) => sum + 1000, 0), // Placeholder
-                    existencePotential: af.agent.existencePotential,
-                    genome: af.agent.genome,
-                    parentId: af.agent.parentId || undefined,
-                    status: terminated.includes(af.agent.id) ? 'TERMINATED_LOW_E' : 'ALIVE',
-                    causeOfDeath: terminated.includes(af.agent.id) ? 'Low E' : undefined
-                })),
-                innovations,
-                mutationRate: this.config.mutationRate,
-                crossoverRate: this.config.breedingPairs / Math.max(1, elite.length)
-            });
-        } catch (err) {
-            console.error(`[EvolutionCycle] Failed to record generation:`, err);
+        if (!this.config.dryRunMode) {
+            try {
+                const historyService = new EvolutionHistoryService();
+                await historyService.recordGeneration({
+                    projectId: projectId || undefined,
+                    populationId,
+                    generationNumber,
+                    agents: agentFitness.map(af => ({
+                        id: af.agent.id,
+                        fitness: af.fitness,
+                        tasksCompleted: af.agent.successCount + af.agent.failCount,
+                        tasksSucceeded: af.agent.successCount,
+                        tokensUsed: af.outcomes.reduce((sum, o) => sum + 1000, 0), // Placeholder
+                        existencePotential: af.agent.existencePotential,
+                        genome: af.agent.genome,
+                        parentId: af.agent.parentId || undefined,
+                        status: terminated.includes(af.agent.id) ? 'TERMINATED_LOW_E' : 'ALIVE',
+                        causeOfDeath: terminated.includes(af.agent.id) ? 'Low E' : undefined
+                    })),
+                    innovations,
+                    paretoFront,
+                    mutationRate: settings.mutationRate,
+                    crossoverRate: settings.breedingPairs / Math.max(1, elite.length)
+                });
+            } catch (err) {
+                console.error(`[EvolutionCycle] Failed to record generation:`, err);
+            }
         }
 
-        emitLog(`[Evolution] ✅ Gen ${this.currentGeneration}: ${terminated.length} died, ${bred.length} born, avg fitness ${avgFitness.toFixed(3)}`);
+        emitLog(`[Evolution] ✅ ${populationId} gen ${generationNumber}: ${terminated.length} died, ${bred.length} born${rejected.length ? `, ${rejected.length} held back by benchmark` : ''}, avg fitness ${avgFitness.toFixed(3)}`);
 
         return {
-            generationNumber: this.currentGeneration,
+            populationId,
+            generationNumber,
             terminated,
             bred,
             survivors: survivors.map(s => s.agent.id),
             avgFitness,
             maxFitness,
-            innovations
+            innovations,
+            rejected,
+            paretoFront
         };
     }
 
+    /**
+     * Benchmark an offspring against its parents' stored scores (parents
+     * without one are benchmarked first). It is promoted when it clears the
+     * absolute floor and scores within the tolerance of its best parent.
+     */
+    private async benchmarkOffspring(
+        child: AgentGenome,
+        parents: AgentGenome[],
+        parentAgents: Agent[],
+        role: string
+    ): Promise<{ promoted: boolean; score: number; required: number; runId?: string }> {
+        const parentScores: number[] = [];
+        for (const parent of parents) {
+            const agent = parentAgents.find(a => (a.genome as any)?.id === parent.id);
+            parentScores.push(await genomeBenchmarkService.getOrEvaluateScore(parent, { role, agentId: agent?.id }));
+        }
+
+        const result = await genomeBenchmarkService.evaluate(child, { role });
+        const required = Math.max(this.config.benchmarkMinScore, Math.max(...parentScores) - this.config.benchmarkTolerance);
+        return { promoted: result.score >= required, score: result.score, required, runId: result.id };
+    }
+
+    /**
+     * Selection objectives per agent from its record: success rate (task
+     * counters), cost per task and latency (recent TaskMetrics) and QA
+     * rejection rate (QA_REJECT traces that sent work back to it). Missing
+     * data is left out and imputed by the ranking.
+     */
+    private async measureObjectives(
+        agents: Array<Agent & { taskMetrics: Array<{ costUsd: number | null; executionTimeMs: number | null }> }>
+    ): Promise<Map<string, Partial<ObjectiveVector>>> {
+        const rejections = await prisma.trace.findMany({
+            where: {
+                event: 'QA_REJECT',
+                OR: agents.map(a => ({ metadata: { path: ['targetAgentId'], equals: a.id } }))
+            },
+            select: { metadata: true }
+        });
+        const rejectionCounts = new Map<string, number>();
+        for (const { metadata } of rejections) {
+            const agentId = (metadata as any)?.targetAgentId;
+            rejectionCounts.set(agentId, (rejectionCounts.get(agentId) || 0) + 1);
+        }
+
+        const mean = (values: Array<number | null>) => {
+            const known = values.filter((v): v is number => typeof v === 'number');
+            return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : undefined;
+        };
+
+        const objectives = new Map<string, Partial<ObjectiveVector>>();
+        for (const agent of agents) {
+            const tasks = agent.successCount + agent.failCount;
+            const rejected = rejectionCounts.get(agent.id) || 0;
+            objectives.set(agent.id, {
+                successRate: tasks > 0 ? agent.successCount / tasks : undefined,
+                costPerTask: mean(agent.taskMetrics.map(m => m.costUsd)),
+                qaRejectionRate: tasks + rejected > 0 ? rejected / Math.max(tasks, rejected) : undefined,
+                latencyMs: mean(agent.taskMetrics.map(m => m.executionTimeMs))
+            });
+        }
+        return objectives;
+    }
+
     /**
      * Convert TaskMetrics to TaskOutcome format
      */
@@ -251,10 +421,18 @@ class EvolutionCycleServiceClass {
     }
 
     /**
-     * Get current generation number
+     * Enable or disable benchmark gating of offspring
+     */
+    setBenchmarkGate(enabled: boolean): void {
+        this.config.benchmarkGate = enabled;
+        console.log(`[EvolutionCycle] Benchmark gate: ${enabled ? 'ENABLED' : 'DISABLED'}`);
+    }
+
+    /**
+     * Get a population's last completed generation number
      */
-    getGeneration(): number {
-        return this.currentGeneration;
+    async getGeneration(populationId: string = GLOBAL_POPULATION_ID): Promise<number> {
+        return (await populationService.resolve(populationId)).generation;
     }
 }
 
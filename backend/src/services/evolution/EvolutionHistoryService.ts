@@ -1,5 +1,7 @@
 import { PrismaClient, Generation, AgentGeneration, Agent } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
+import { populationService } from './PopulationService';
+import { ParetoPoint } from './ParetoSelection';
 
 interface TimelineDataPoint {
   generationNumber: number;
@@ -12,6 +14,7 @@ interface TimelineDataPoint {
   specializationDistribution: Record<string, number>;
   keyInnovations: string[];
   topAgentName: string;
+  paretoFront: ParetoPoint[]; // Non-dominated agents: success rate, cost, QA rejections, latency
 }
 
 interface FamilyTreeNode {
@@ -32,7 +35,8 @@ export class EvolutionHistoryService {
    * Record a new generation's metrics after evolution cycle completes
    */
   async recordGeneration(data: {
-    projectId: string;
+    projectId?: string;
+    populationId?: string;
     generationNumber: number;
     agents: Array<{
       id: string;
@@ -47,10 +51,11 @@ export class EvolutionHistoryService {
       causeOfDeath?: string;
     }>;
     innovations: string[];
+    paretoFront?: ParetoPoint[];
     mutationRate: number;
     crossoverRate: number;
   }): Promise<Generation> {
-    const { projectId, generationNumber, agents, innovations, mutationRate, crossoverRate } = data;
+    const { projectId, populationId, generationNumber, agents, innovations, paretoFront, mutationRate, crossoverRate } = data;
 
     // Calculate aggregate metrics
     const fitnessValues = agents.map(a => a.fitness);
@@ -75,6 +80,7 @@ export class EvolutionHistoryService {
     const generation = await prisma.generation.create({
       data: {
         projectId,
+        populationId,
         generationNumber,
         avgFitness,
         maxFitness,
@@ -89,6 +95,7 @@ export class EvolutionHistoryService {
         elitePreserved: Math.floor(agents.length * 0.1), // Top 10%
         specializationDistribution,
         keyInnovations: innovations,
+        paretoFront: paretoFront as any,
         topAgentId: topAgent.id,
         startedAt: new Date(),
         completedAt: new Date(),
@@ -117,11 +124,11 @@ export class EvolutionHistoryService {
   }
 
   /**
-   * Get timeline data for visualization
+   * Get timeline data for visualization (projectId may also be a population id)
    */
   async getTimelineData(projectId: string, limit = 100): Promise<TimelineDataPoint[]> {
     const generations = await prisma.generation.findMany({
-      where: { projectId },
+      where: await populationService.generationWhere(projectId),
       orderBy: { generationNumber: 'asc' },
       take: limit,
       include: {
@@ -140,6 +147,7 @@ export class EvolutionHistoryService {
       specializationDistribution: gen.specializationDistribution as Record<string, number>,
       keyInnovations: gen.keyInnovations,
       topAgentName: gen.topAgent?.role || 'Unknown', // Using role as name for now
+      paretoFront: (gen.paretoFront as unknown as ParetoPoint[]) || [],
     }));
   }
 
@@ -151,7 +159,7 @@ export class EvolutionHistoryService {
     const agentGenerations = await prisma.agentGeneration.findMany({
       where: {
         generation: {
-          projectId,
+          ...await populationService.generationWhere(projectId),
           generationNumber: { gte: rootGeneration },
         },
       },
@@ -0,0 +1,424 @@
+/**
+ * Genome Benchmark Service
+ *
+ * Evaluates agent genomes offline, before they touch project tasks. A fixed
+ * corpus of coding tasks (benchmarkCorpus.json) is solved with the genome's
+ * system prompt and temperature, each solution runs against the task's
+ * acceptance tests in the code sandbox, and the resulting fitness is stored
+ * per genome (GenomeBenchmarkRun). The evolution cycle uses these scores to
+ * decide whether offspring are promoted into the population.
+ */
+
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma';
+import { callLLM } from '../../llm/llmClient';
+import { getAgentConfig } from '../../llm/modelRegistry';
+import { executeInSandbox } from '../sandbox';
+import { AgentGenome } from './EvolutionService';
+import corpus from './benchmarkCorpus.json';
+
+export interface BenchmarkTest {
+    name: string;
+    code: string;                // Runs in an async function with `assert` in scope
+}
+
+export interface BenchmarkTask {
+    id: string;
+    title: string;
+    difficulty: number;          // 0-1, weights the task in the score
+    entryPoint: string;
+    prompt: string;
+    referenceSolution: string;   // Known-good solution; keeps the corpus honest
+    tests: BenchmarkTest[];
+}
+
+export interface BenchmarkCorpus {
+    version: string;
+    language: 'javascript';
+    tasks: BenchmarkTask[];
+}
+
+export interface BenchmarkTestResult {
+    name: string;
+    passed: boolean;
+    error?: string;
+}
+
+export interface BenchmarkTaskResult {
+    taskId: string;
+    score: number;               // Fraction of acceptance tests passed
+    passed: boolean;             // Every acceptance test passed
+    tests: BenchmarkTestResult[];
+    error?: string;              // Generation or execution failure
+    costUsd: number;
+    durationMs: number;
+}
+
+export interface BenchmarkResult {
+    id?: string;                 // GenomeBenchmarkRun id when persisted
+    genomeId: string;
+    agentId?: string;
+    role: string;
+    corpusVersion: string;
+    score: number;               // Difficulty-weighted mean of task scores, 0-1
+    tasksPassed: number;
+    tasksTotal: number;
+    testsPassed: number;
+    testsTotal: number;
+    model: string;
+    costUsd: number;
+    durationMs: number;
+    tasks: BenchmarkTaskResult[];
+}
+
+export interface BenchmarkOptions {
+    role?: string;               // Model config to use; defaults to MidDev
+    agentId?: string;
+    taskIds?: string[];          // Subset of the corpus (not comparable across subsets)
+    persist?: boolean;           // Store the run (default true)
+}
+
+export interface BenchmarkComparison {
+    a: BenchmarkResult;
+    b: BenchmarkResult;
+    tasks: Array<{ taskId: string; a: number; b: number; winner: 'a' | 'b' | 'tie' }>;
+    winner: 'a' | 'b' | 'tie';
+    margin: number;              // a.score - b.score
+}
+
+const DEFAULT_ROLE = 'MidDev';
+const RESULT_MARKER = '__BENCHMARK_RESULTS__';
+const ERROR_CHARS = 300;
+const HARNESS_TIMEOUT_MS = 8000;   // Inside the sandbox's own 10s limit
+
+/**
+ * First fenced code block of a response, or the whole response
+ */
+export function extractCode(content: string): string {
+    const fenced = content.match(/```(?:[a-z]*)\n([\s\S]*?)```/i);
+    return (fenced ? fenced[1] : content).trim();
+}
+
+/**
+ * Test runner module, executed in a child process. It captures `assert` and
+ * the IPC channel, waits for the nonce, and only then loads the solution
+ * from its own module, so the solution can neither see the nonce nor shadow
+ * the runner's state. Results go back over IPC, never through stdout.
+ */
+function buildRunner(entryPoint: string, tests: BenchmarkTest[]): string {
+    const cases = tests
+        .map(test => `  [${JSON.stringify(test.name)}, async (assert) => {\n${test.code}\n  }]`)
+        .join(',\n');
+
+    return `'use strict';
+const __realAssert = require('assert');
+const __ok = __realAssert.ok;
+const __assert = Object.freeze(Object.assign((...args) => __ok(...args), __realAssert));
+const __send = process.send.bind(process);
+let ${entryPoint};
+const __tests = [
+${cases}
+];
+process.once('message', async ({ nonce }) => {
+  ({ ${entryPoint} } = require('./solution.js'));
+  const results = [];
+  for (let i = 0; i < __tests.length; i++) {
+    try {
+      await __tests[i][1](__assert);
+      results[i] = { name: __tests[i][0], passed: true };
+    } catch (error) {
+      results[i] = { name: __tests[i][0], passed: false, error: String((error && error.message) || error).slice(0, ${ERROR_CHARS}) };
+    }
+  }
+  __send({ nonce, results });
+});
+`;
+}
+
+/**
+ * Script run in the sandbox. It never loads the solution itself: it writes
+ * the solution and the test runner as separate modules, forks the runner,
+ * accepts results only over IPC tagged with a nonce generated at run time,
+ * kills the runner's process group and prints the results as the last stdout
+ * line, tagged with RESULT_MARKER and the caller's nonce. It deletes its own
+ * file first so the solution cannot read that nonce back.
+ */
+export function buildHarness(solution: string, task: Pick<BenchmarkTask, 'entryPoint' | 'tests'>, nonce: string): string {
+    if (!/^[A-Za-z_$][\w$]*$/.test(task.entryPoint)) {
+        throw new Error(`Invalid benchmark entry point: ${task.entryPoint}`);
+    }
+    const exported = `${solution}
+;module.exports = { ${task.entryPoint}: typeof ${task.entryPoint} === 'undefined' ? undefined : ${task.entryPoint} };
+`;
+
+    return `'use strict';
+const { fork } = require('child_process');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+try { fs.unlinkSync(__filename); } catch {}
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'benchmark-'));
+fs.writeFileSync(path.join(dir, 'solution.js'), ${JSON.stringify(exported)});
+fs.writeFileSync(path.join(dir, 'runner.js'), ${JSON.stringify(buildRunner(task.entryPoint, task.tests))});
+
+const channelNonce = crypto.randomBytes(16).toString('hex');
+const child = fork(path.join(dir, 'runner.js'), [], { stdio: ['ignore', 'pipe', 'pipe', 'ipc'], detached: true });
+let stderr = '';
+child.stdout.resume();
+child.stderr.on('data', chunk => { if (stderr.length < 4096) stderr += chunk; });
+
+let done = false;
+const finish = (results, reason) => {
+  if (done) return;
+  done = true;
+  clearTimeout(timer);
+  try { process.kill(-child.pid, 'SIGKILL'); } catch {}
+  try { fs.rmSync(dir, { recursive: true, force: true }); } catch {}
+  if (results) {
+    process.stdout.write(${JSON.stringify(RESULT_MARKER + nonce)} + JSON.stringify(results) + '\\n', () => process.exit(0));
+  } else {
+    process.stderr.write((stderr || reason) + '\\n', () => process.exit(1));
+  }
+};
+const timer = setTimeout(() => finish(null, 'Tests timed out after ${HARNESS_TIMEOUT_MS}ms'), ${HARNESS_TIMEOUT_MS});
+child.on('message', message => {
+  if (message && message.nonce === channelNonce && Array.isArray(message.results)) finish(message.results);
+});
+child.on('close', () => finish(null, 'No test results reported'));
+child.on('error', error => finish(null, error.message));
+child.send({ nonce: channelNonce });
+`;
+}
+
+/**
+ * Per-test results from harness output. Only the last stdout line counts,
+ * and only if it carries the run's nonce and reports exactly the declared
+ * tests in order; otherwise every test fails (solution threw on load, timed
+ * out, tampered with the output, ...)
+ */
+export function parseHarnessOutput(stdout: string, stderr: string, tests: BenchmarkTest[], nonce: string): BenchmarkTestResult[] {
+    const lines = stdout.trimEnd().split('\n');
+    const last = lines[lines.length - 1];
+    const prefix = RESULT_MARKER + nonce;
+    let error = (stderr || stdout || 'No test results reported').trim().slice(0, ERROR_CHARS);
+
+    if (last.startsWith(prefix)) {
+        try {
+            const reported = JSON.parse(last.slice(prefix.length));
+            if (
+                Array.isArray(reported) &&
+                reported.length === tests.length &&
+                reported.every((r, i) => r && r.name === tests[i].name && typeof r.passed === 'boolean')
+            ) {
+                return reported.map((r: BenchmarkTestResult) => ({
+                    name: r.name,
+                    passed: r.passed,
+                    ...(typeof r.error === 'string' ? { error: r.error.slice(0, ERROR_CHARS) } : {}),
+                }));
+            }
+            error = 'Reported test results do not match the declared tests';
+        } catch {
+            // Fall through: treated as a crash
+        }
+    }
+    return tests.map(test => ({ name: test.name, passed: false, error }));
+}
+
+/**
+ * Difficulty-weighted mean, the same weighting EvolutionService uses for
+ * task complexity
+ */
+export function scoreTasks(tasks: Array<{ taskId: string; score: number }>, corpusTasks: BenchmarkTask[]): number {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const result of tasks) {
+        const difficulty = corpusTasks.find(t => t.id === result.taskId)?.difficulty ?? 0.5;
+        weighted += result.score * (1 + difficulty);
+        totalWeight += 1 + difficulty;
+    }
+    return totalWeight > 0 ? weighted / totalWeight : 0;
+}
+
+class GenomeBenchmarkServiceClass {
+    private corpus: BenchmarkCorpus = corpus as BenchmarkCorpus;
+
+    getCorpus(): BenchmarkCorpus {
+        return this.corpus;
+    }
+
+    /**
+     * Solve the corpus with the genome and score it
+     */
+    async evaluate(genome: AgentGenome, options: BenchmarkOptions = {}): Promise<BenchmarkResult> {
+        const role = options.role || DEFAULT_ROLE;
+        const tasks = this.selectTasks(options.taskIds);
+        const startedAt = Date.now();
+
+        const baseConfig = await getAgentConfig(role);
+        const modelConfig = {
+            ...baseConfig,
+            temperature: typeof genome.temperature === 'number' ? genome.temperature : baseConfig.temperature,
+        };
+
+        console.log(`[Benchmark] 🏋️ Evaluating genome ${genome.id} on ${tasks.length} tasks (${modelConfig.model})`);
+
+        const results: BenchmarkTaskResult[] = [];
+        for (const task of tasks) {
+            results.push(await this.runTask(task, genome, modelConfig));
+        }
+
+        const result: BenchmarkResult = {
+            genomeId: genome.id,
+            agentId: options.agentId,
+            role,
+            corpusVersion: this.corpus.version,
+            score: scoreTasks(results, this.corpus.tasks),
+            tasksPassed: results.filter(r => r.passed).length,
+            tasksTotal: results.length,
+            testsPassed: results.reduce((sum, r) => sum + r.tests.filter(t => t.passed).length, 0),
+            testsTotal: results.reduce((sum, r) => sum + r.tests.length, 0),
+            model: modelConfig.model,
+            costUsd: results.reduce((sum, r) => sum + r.costUsd, 0),
+            durationMs: Date.now() - startedAt,
+            tasks: results,
+        };
+
+        console.log(`[Benchmark] ${result.tasksPassed === result.tasksTotal ? '✅' : '📊'} Genome ${genome.id}: score ${result.score.toFixed(3)} (${result.tasksPassed}/${result.tasksTotal} tasks, $${result.costUsd.toFixed(4)})`);
+
+        if (options.persist !== false && !options.taskIds) {
+            const run = await prisma.genomeBenchmarkRun.create({
+                data: {
+                    genomeId: result.genomeId,
+                    agentId: result.agentId,
+                    role: result.role,
+                    corpusVersion: result.corpusVersion,
+                    score: result.score,
+                    tasksPassed: result.tasksPassed,
+                    tasksTotal: result.tasksTotal,
+                    testsPassed: result.testsPassed,
+                    testsTotal: result.testsTotal,
+                    model: result.model,
+                    costUsd: result.costUsd,
+                    durationMs: result.durationMs,
+                    results: result.tasks as any,
+                },
+            });
+            result.id = run.id;
+        }
+        return result;
+    }
+
+    /**
+     * Evaluate two genomes on the same tasks, head to head
+     */
+    async compare(a: AgentGenome, b: AgentGenome, options: BenchmarkOptions = {}): Promise<BenchmarkComparison> {
+        const resultA = await this.evaluate(a, options);
+        const resultB = await this.evaluate(b, options);
+
+        const tasks = resultA.tasks.map(taskA => {
+            const scoreB = resultB.tasks.find(t => t.taskId === taskA.taskId)?.score ?? 0;
+            return {
+                taskId: taskA.taskId,
+                a: taskA.score,
+                b: scoreB,
+                winner: taskA.score > scoreB ? 'a' as const : taskA.score < scoreB ? 'b' as const : 'tie' as const,
+            };
+        });
+
+        const margin = resultA.score - resultB.score;
+        return {
+            a: resultA,
+            b: resultB,
+            tasks,
+            winner: margin > 0 ? 'a' : margin < 0 ? 'b' : 'tie',
+            margin,
+        };
+    }
+
+    /**
+     * Latest full-corpus score for a genome on the current corpus version
+     */
+    async getLatestScore(genomeId: string): Promise<number | null> {
+        const run = await prisma.genomeBenchmarkRun.findFirst({
+            where: { genomeId, corpusVersion: this.corpus.version },
+            orderBy: { createdAt: 'desc' },
+            select: { score: true },
+        });
+        return run ? run.score : null;
+    }
+
+    /**
+     * Stored score for the genome, benchmarking it first when it has none
+     */
+    async getOrEvaluateScore(genome: AgentGenome, options: BenchmarkOptions = {}): Promise<number> {
+        const stored = await this.getLatestScore(genome.id);
+        if (stored !== null) return stored;
+        return (await this.evaluate(genome, options)).score;
+    }
+
+    async listRuns(genomeId: string, limit: number = 20) {
+        return prisma.genomeBenchmarkRun.findMany({
+            where: { genomeId },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+        });
+    }
+
+    private selectTasks(taskIds?: string[]): BenchmarkTask[] {
+        if (!taskIds) return this.corpus.tasks;
+        const unknown = taskIds.filter(id => !this.corpus.tasks.some(t => t.id === id));
+        if (unknown.length > 0) {
+            throw Object.assign(new Error(`Unknown benchmark tasks: ${unknown.join(', ')}`), { status: 400 });
+        }
+        return this.corpus.tasks.filter(t => taskIds.includes(t.id));
+    }
+
+    private async runTask(task: BenchmarkTask, genome: AgentGenome, modelConfig: any): Promise<BenchmarkTaskResult> {
+        const startedAt = Date.now();
+        let costUsd = 0;
+        try {
+            const response = await callLLM(modelConfig, [
+                { role: 'system', content: genome.system_prompt || 'You are a software engineer.' },
+                {
+                    role: 'user',
+                    content: `${task.prompt}
+
+Write plain JavaScript for Node.js 20 (CommonJS, no dependencies). Define \`${task.entryPoint}\` at the top level of the file.
+Return only the code in a single \`\`\`javascript block.`,
+                },
+            ]);
+            costUsd = response.costUsd || 0;
+
+            const nonce = crypto.randomBytes(16).toString('hex');
+            const harness = buildHarness(extractCode(response.content), task, nonce);
+            const execution = await executeInSandbox(harness, 'javascript');
+            const tests = parseHarnessOutput(execution.stdout, execution.stderr, task.tests, nonce);
+            const passedCount = tests.filter(t => t.passed).length;
+
+            return {
+                taskId: task.id,
+                score: tests.length > 0 ? passedCount / tests.length : 0,
+                passed: passedCount === task.tests.length,
+                tests,
+                costUsd,
+                durationMs: Date.now() - startedAt,
+            };
+        } catch (error: any) {
+            console.error(`[Benchmark] ❌ Task ${task.id} failed for genome ${genome.id}:`, error.message);
+            return {
+                taskId: task.id,
+                score: 0,
+                passed: false,
+                tests: task.tests.map(t => ({ name: t.name, passed: false })),
+                error: error.message,
+                costUsd,
+                durationMs: Date.now() - startedAt,
+            };
+        }
+    }
+}
+
+// Singleton instance
+export const genomeBenchmarkService = new GenomeBenchmarkServiceClass();
@@ -0,0 +1,449 @@
+/**
+ * Genome Registry
+ *
+ * Content-addressed versions of agent genomes. Every genome id is unique per
+ * individual, but most offspring share their heritable content (prompt,
+ * temperature, traits, specialization) with an ancestor, so versions are
+ * keyed by a hash of that content alone. The registry diffs any two genomes
+ * or generations, pins a role to a known-good version (spawning and breeding
+ * then use it verbatim) and rolls live agents back to a pinned version.
+ */
+
+import { createHash } from 'crypto';
+import { Agent } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { diffLines } from '../diffMerge';
+import { AgentGenome } from './EvolutionService';
+import { populationService } from './PopulationService';
+import { emitAgentUpdate, emitLog } from '../../websocket/socketServer';
+import { v4 as uuidv4 } from 'uuid';
+
+export type GenomeContent = Omit<AgentGenome, 'id' | 'generation' | 'parents' | 'fitness_history'>;
+
+export interface ResolvedGenome {
+    ref: string;
+    hash: string;
+    genome: AgentGenome | GenomeContent;
+    role?: string;
+    agentId?: string;
+    genomeId?: string;
+    snapshotParentId?: string;   // AgentGeneration lineage, for snapshot refs
+}
+
+export interface GenomeFieldChange {
+    field: string;
+    from: any;
+    to: any;
+    delta?: number;              // to - from, for numeric fields
+}
+
+export interface PromptSegment {
+    op: ' ' | '-' | '+';
+    text: string;
+}
+
+export interface GenomeDiff {
+    identical: boolean;
+    fields: GenomeFieldChange[];
+    specialization: GenomeFieldChange[];
+    prompt: {
+        changed: boolean;
+        added: number;           // Words added / removed
+        removed: number;
+        segments: PromptSegment[];
+    };
+}
+
+export interface GenomeComparison extends GenomeDiff {
+    from: Omit<ResolvedGenome, 'genome'>;
+    to: Omit<ResolvedGenome, 'genome'>;
+}
+
+export interface GenerationRoleDiff {
+    role: string;
+    added: string[];             // Version hashes present only in the later generation
+    removed: string[];
+    retained: string[];
+    fieldMeans: GenomeFieldChange[];
+}
+
+export interface PinOptions {
+    pinnedBy?: string;
+    reason?: string;
+    apply?: boolean;             // Roll live agents of the role back to the pinned version
+}
+
+const LINEAGE_FIELDS = new Set(['id', 'generation', 'parents', 'fitness_history']);
+const NUMERIC_PRECISION = 6;
+const MIN_PREFIX = 8;
+
+function canonicalValue(value: any): any {
+    if (typeof value === 'number') return Number(value.toFixed(NUMERIC_PRECISION));
+    if (Array.isArray(value)) return value.map(canonicalValue);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.keys(value).sort().map(key => [key, canonicalValue(value[key])])
+        );
+    }
+    return value;
+}
+
+/**
+ * Heritable content of a genome with sorted keys and rounded numbers, so
+ * equal content always serializes the same way
+ */
+export function canonicalGenome(genome: Partial<AgentGenome>): GenomeContent {
+    const content: Record<string, any> = {};
+    for (const key of Object.keys(genome).sort()) {
+        if (LINEAGE_FIELDS.has(key) || genome[key] === undefined) continue;
+        content[key] = canonicalValue(genome[key]);
+    }
+    if (!content.specialization) content.specialization = {};
+    return content as GenomeContent;
+}
+
+export function hashGenome(genome: Partial<AgentGenome>): string {
+    return createHash('sha256').update(JSON.stringify(canonicalGenome(genome))).digest('hex');
+}
+
+/**
+ * Field-level and word-level differences between two genomes; lineage
+ * fields never count as changes
+ */
+export function diffGenomes(a: Partial<AgentGenome>, b: Partial<AgentGenome>): GenomeDiff {
+    const from = canonicalGenome(a);
+    const to = canonicalGenome(b);
+
+    const fields: GenomeFieldChange[] = [];
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+    for (const field of keys) {
+        if (field === 'system_prompt' || field === 'specialization') continue;
+        if (JSON.stringify(from[field]) === JSON.stringify(to[field])) continue;
+        fields.push(describeChange(field, from[field], to[field]));
+    }
+
+    const specialization: GenomeFieldChange[] = [];
+    const specKeys = [...new Set([...Object.keys(from.specialization), ...Object.keys(to.specialization)])].sort();
+    for (const skill of specKeys) {
+        const before = from.specialization[skill] ?? 0;
+        const after = to.specialization[skill] ?? 0;
+        if (before !== after) specialization.push(describeChange(skill, before, after));
+    }
+
+    const tokenize = (text: string | undefined) => (text || '').split(/(\s+)/).filter(Boolean);
+    const segments: PromptSegment[] = [];
+    let added = 0;
+    let removed = 0;
+    for (const { op, text } of diffLines(tokenize(from.system_prompt), tokenize(to.system_prompt))) {
+        const isWord = text.trim().length > 0;
+        if (op === '+' && isWord) added++;
+        if (op === '-' && isWord) removed++;
+        const last = segments[segments.length - 1];
+        if (last && last.op === op) last.text += text;
+        else segments.push({ op, text });
+    }
+
+    return {
+        identical: fields.length === 0 && specialization.length === 0 && added === 0 && removed === 0,
+        fields,
+        specialization,
+        prompt: { changed: from.system_prompt !== to.system_prompt, added, removed, segments },
+    };
+}
+
+function describeChange(field: string, from: any, to: any): GenomeFieldChange {
+    const change: GenomeFieldChange = { field, from: from ?? null, to: to ?? null };
+    if (typeof from === 'number' && typeof to === 'number') {
+        change.delta = Number((to - from).toFixed(NUMERIC_PRECISION));
+    }
+    return change;
+}
+
+function notFound(message: string): Error {
+    return Object.assign(new Error(message), { status: 404 });
+}
+
+class GenomeRegistryClass {
+    /**
+     * Record a genome's content version (idempotent) and return its hash
+     */
+    async register(
+        genome: AgentGenome,
+        options: { role?: string; agentId?: string; parents?: Array<Partial<AgentGenome>> } = {}
+    ): Promise<string> {
+        const hash = hashGenome(genome);
+        await prisma.genomeVersion.upsert({
+            where: { hash },
+            create: {
+                hash,
+                genome: canonicalGenome(genome) as any,
+                role: options.role,
+                firstGenomeId: genome.id,
+                firstAgentId: options.agentId,
+                parentHashes: [...new Set((options.parents || []).map(hashGenome))].filter(h => h !== hash),
+            },
+            update: {},
+        });
+        return hash;
+    }
+
+    /**
+     * Register an existing agent's genome and link the agent to its version
+     */
+    async registerAgent(agent: Agent): Promise<string | null> {
+        if (!agent.genome) return null;
+        const hash = await this.register(agent.genome as AgentGenome, { role: agent.role, agentId: agent.id });
+        if (agent.genomeVersion !== hash) {
+            await prisma.agent.update({ where: { id: agent.id }, data: { genomeVersion: hash } });
+        }
+        return hash;
+    }
+
+    /**
+     * A fresh individual carrying a version's content
+     */
+    materialize(content: GenomeContent, lineage: { generation: number; parents: string[] }): AgentGenome {
+        return {
+            ...canonicalGenome(content),
+            id: uuidv4(),
+            generation: lineage.generation,
+            parents: lineage.parents,
+            fitness_history: [],
+        } as AgentGenome;
+    }
+
+    /**
+     * Resolve a genome reference: a version hash (or an unambiguous prefix),
+     * `agent:<agentId>` for an agent's current genome, or
+     * `snapshot:<agentGenerationId>` for a genome recorded in a generation
+     */
+    async resolve(ref: string): Promise<ResolvedGenome> {
+        if (!ref) throw Object.assign(new Error('Genome reference is required'), { status: 400 });
+
+        if (ref.startsWith('agent:')) {
+            const agentId = ref.slice('agent:'.length);
+            const agent = await prisma.agent.findUnique({ where: { id: agentId } });
+            if (!agent?.genome) throw notFound(`Agent ${agentId} not found or has no genome`);
+            const genome = agent.genome as AgentGenome;
+            return { ref, hash: hashGenome(genome), genome, role: agent.role, agentId: agent.id, genomeId: genome.id };
+        }
+
+        if (ref.startsWith('snapshot:')) {
+            const snapshotId = ref.slice('snapshot:'.length);
+            const snapshot = await prisma.agentGeneration.findUnique({
+                where: { id: snapshotId },
+                include: { agent: { select: { role: true } } },
+            });
+            if (!snapshot) throw notFound(`Generation snapshot ${snapshotId} not found`);
+            const genome = snapshot.genomeSnapshot as AgentGenome;
+            return {
+                ref,
+                hash: hashGenome(genome),
+                genome,
+                role: snapshot.agent?.role,
+                agentId: snapshot.agentId,
+                genomeId: genome?.id,
+                snapshotParentId: snapshot.parentId || undefined,
+            };
+        }
+
+        if (!/^[0-9a-f]+$/i.test(ref) || ref.length < MIN_PREFIX) {
+            throw Object.assign(new Error(`Invalid genome reference "${ref}": use a version hash (${MIN_PREFIX}+ hex chars), agent:<id> or snapshot:<id>`), { status: 400 });
+        }
+        const versions = await prisma.genomeVersion.findMany({
+            where: { hash: { startsWith: ref.toLowerCase() } },
+            take: 2,
+        });
+        if (versions.length === 0) throw notFound(`Genome version ${ref} not found`);
+        if (versions.length > 1) {
+            throw Object.assign(new Error(`Genome version prefix ${ref} is ambiguous`), { status: 400 });
+        }
+        const version = versions[0];
+        return {
+            ref,
+            hash: version.hash,
+            genome: version.genome as GenomeContent,
+            role: version.role || undefined,
+            agentId: version.firstAgentId || undefined,
+            genomeId: version.firstGenomeId,
+        };
+    }
+
+    /**
+     * Reference to the genome a resolved genome descends from: its recorded
+     * parent snapshot, else the registered parent version, else the agent
+     * currently carrying its first parent genome id
+     */
+    async parentRef(resolved: ResolvedGenome): Promise<string | null> {
+        if (resolved.snapshotParentId) return `snapshot:${resolved.snapshotParentId}`;
+
+        const version = await prisma.genomeVersion.findUnique({ where: { hash: resolved.hash } });
+        if (version?.parentHashes.length) return version.parentHashes[0];
+
+        const parentGenomeId = (resolved.genome as AgentGenome).parents?.[0];
+        if (!parentGenomeId) return null;
+        const parentAgent = await prisma.agent.findFirst({
+            where: { genome: { path: ['id'], equals: parentGenomeId } },
+            select: { id: true },
+        });
+        return parentAgent ? `agent:${parentAgent.id}` : null;
+    }
+
+    /**
+     * Diff two references; without `fromRef` the genome is compared with its parent
+     */
+    async compare(fromRef: string | undefined, toRef: string): Promise<GenomeComparison> {
+        const to = await this.resolve(toRef);
+        const parent = fromRef || await this.parentRef(to);
+        if (!parent) {
+            throw Object.assign(new Error(`Genome ${toRef} has no recorded parent; pass "from" explicitly`), { status: 404 });
+        }
+        const from = await this.resolve(parent);
+
+        const { genome: _fromGenome, ...fromMeta } = from;
+        const { genome: _toGenome, ...toMeta } = to;
+        return { from: fromMeta, to: toMeta, ...diffGenomes(from.genome, to.genome) };
+    }
+
+    /**
+     * Per-role version churn between two recorded generations of a project
+     * (or population)
+     */
+    async diffGenerations(projectId: string, fromNumber: number, toNumber: number): Promise<GenerationRoleDiff[]> {
+        const scope = await populationService.generationWhere(projectId);
+        const load = async (generationNumber: number) => {
+            const generation = await prisma.generation.findFirst({
+                where: { ...scope, generationNumber },
+                orderBy: { createdAt: 'desc' },
+                include: { agents: { include: { agent: { select: { role: true } } } } },
+            });
+            if (!generation) throw notFound(`Generation ${generationNumber} not found for project ${projectId}`);
+            return generation.agents.map(ag => ({
+                role: ag.agent?.role || 'Unknown',
+                genome: ag.genomeSnapshot as AgentGenome,
+                hash: hashGenome(ag.genomeSnapshot as AgentGenome),
+            }));
+        };
+        const before = await load(fromNumber);
+        const after = await load(toNumber);
+
+        const roles = [...new Set([...before, ...after].map(entry => entry.role))].sort();
+        return roles.map(role => {
+            const beforeRole = before.filter(entry => entry.role === role);
+            const afterRole = after.filter(entry => entry.role === role);
+            const beforeHashes = new Set(beforeRole.map(entry => entry.hash));
+            const afterHashes = new Set(afterRole.map(entry => entry.hash));
+
+            const mean = (entries: typeof before, field: string) => {
+                const values = entries.map(entry => entry.genome?.[field]).filter(v => typeof v === 'number');
+                return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+            };
+            const fieldMeans = ['temperature', 'risk_tolerance', 'collaboration_preference']
+                .map(field => ({ field, from: mean(beforeRole, field), to: mean(afterRole, field) }))
+                .filter(({ from, to }) => from !== undefined && to !== undefined && from !== to)
+                .map(({ field, from, to }) => describeChange(field, from, to));
+
+            return {
+                role,
+                added: [...afterHashes].filter(hash => !beforeHashes.has(hash)),
+                removed: [...beforeHashes].filter(hash => !afterHashes.has(hash)),
+                retained: [...afterHashes].filter(hash => beforeHashes.has(hash)),
+                fieldMeans,
+            };
+        });
+    }
+
+    async listVersions(options: { role?: string; limit?: number } = {}) {
+        const versions = await prisma.genomeVersion.findMany({
+            where: options.role ? { role: options.role } : {},
+            orderBy: { createdAt: 'desc' },
+            take: options.limit ?? 50,
+        });
+        const carriers = await prisma.agent.groupBy({
+            by: ['genomeVersion'],
+            where: { genomeVersion: { in: versions.map(v => v.hash) }, status: { not: 'OFFLINE' } },
+            _count: { _all: true },
+        });
+        return versions.map(version => ({
+            ...version,
+            liveAgents: carriers.find(c => c.genomeVersion === version.hash)?._count._all ?? 0,
+        }));
+    }
+
+    async getVersion(hash: string) {
+        return prisma.genomeVersion.findUnique({ where: { hash } });
+    }
+
+    async getPins() {
+        return prisma.genomePin.findMany({ include: { version: true }, orderBy: { role: 'asc' } });
+    }
+
+    /**
+     * Pinned content for a role, or null when the role evolves freely
+     */
+    async getPinnedGenome(role: string): Promise<{ hash: string; genome: GenomeContent } | null> {
+        const pin = await prisma.genomePin.findUnique({ where: { role }, include: { version: true } });
+        return pin ? { hash: pin.versionHash, genome: pin.version.genome as GenomeContent } : null;
+    }
+
+    /**
+     * Pin a role to a genome version. With `apply`, live agents of the role
+     * carrying other content are rolled back to it (keeping their lineage).
+     */
+    async pin(role: string, ref: string, options: PinOptions = {}) {
+        const resolved = await this.resolve(ref);
+        const hash = await this.register(resolved.genome as AgentGenome, {
+            role: resolved.role || role,
+            agentId: resolved.agentId,
+        });
+
+        const pin = await prisma.genomePin.upsert({
+            where: { role },
+            create: { role, versionHash: hash, pinnedBy: options.pinnedBy, reason: options.reason },
+            update: { versionHash: hash, pinnedBy: options.pinnedBy, reason: options.reason },
+        });
+
+        console.log(`[GenomeRegistry] 📌 Pinned ${role} to ${hash.slice(0, 12)}${options.reason ? ` (${options.reason})` : ''}`);
+        emitLog(`[Evolution] 📌 ${role} pinned to genome ${hash.slice(0, 12)}`);
+
+        const rolledBack: string[] = [];
+        if (options.apply) {
+            const agents = await prisma.agent.findMany({
+                where: { role, status: { not: 'OFFLINE' }, existencePotential: { gt: 0 } },
+            });
+            for (const agent of agents) {
+                const current = agent.genome as AgentGenome | null;
+                if (current && hashGenome(current) === hash) continue;
+
+                const genome = this.materialize(resolved.genome, {
+                    generation: agent.generation,
+                    parents: current?.id ? [current.id] : [],
+                });
+                const updated = await prisma.agent.update({
+                    where: { id: agent.id },
+                    data: { genome: genome as any, genomeVersion: hash },
+                });
+                emitAgentUpdate(updated);
+                rolledBack.push(agent.id);
+            }
+            if (rolledBack.length > 0) {
+                console.log(`[GenomeRegistry] ⏪ Rolled back ${rolledBack.length} ${role} agents to ${hash.slice(0, 12)}`);
+                emitLog(`[Evolution] ⏪ Rolled back ${rolledBack.length} ${role} agents to pinned genome`);
+            }
+        }
+
+        return { pin, rolledBack };
+    }
+
+    async unpin(role: string): Promise<boolean> {
+        const { count } = await prisma.genomePin.deleteMany({ where: { role } });
+        if (count > 0) {
+            console.log(`[GenomeRegistry] 📍 Unpinned ${role}`);
+            emitLog(`[Evolution] 📍 ${role} genome unpinned, evolving freely`);
+        }
+        return count > 0;
+    }
+}
+
+// Singleton instance
+export const genomeRegistry = new GenomeRegistryClass();
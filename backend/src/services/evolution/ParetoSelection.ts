@@ -0,0 +1,168 @@
+/**
+ * Pareto Selection (NSGA-II)
+ *
+ * Multi-objective ranking for the evolution cycle. Instead of collapsing an
+ * agent's record into one weighted fitness (where cheap-but-sloppy agents can
+ * win), agents are sorted into non-dominated fronts over success rate, cost
+ * per task, QA rejection rate and latency, with crowding distance breaking
+ * ties inside a front so the selected elite spreads along the trade-offs.
+ */
+
+export type ObjectiveKey = 'successRate' | 'costPerTask' | 'qaRejectionRate' | 'latencyMs';
+
+export type ObjectiveVector = Record<ObjectiveKey, number>;
+
+export interface Objective {
+    key: ObjectiveKey;
+    direction: 'max' | 'min';
+}
+
+export const OBJECTIVES: Objective[] = [
+    { key: 'successRate', direction: 'max' },
+    { key: 'costPerTask', direction: 'min' },
+    { key: 'qaRejectionRate', direction: 'min' },
+    { key: 'latencyMs', direction: 'min' },
+];
+
+// Used when no agent in the population has data for an objective
+const NEUTRAL: ObjectiveVector = {
+    successRate: 0.5,
+    costPerTask: 0,
+    qaRejectionRate: 0,
+    latencyMs: 0,
+};
+
+export interface RankedIndividual<T> {
+    item: T;
+    objectives: ObjectiveVector;
+    rank: number;                // 0 = Pareto front
+    crowding: number;            // Infinity at the edges of a front
+}
+
+// A Pareto-front member as recorded per generation
+export interface ParetoPoint {
+    agentId: string;
+    role: string;
+    genomeId?: string;
+    objectives: ObjectiveVector;
+    crowding: number | null;     // null at the edges of the front (Infinity)
+    fitness: number;             // Weighted-sum fitness, for reference
+}
+
+/**
+ * a dominates b: no worse on every objective and better on at least one
+ */
+export function dominates(a: ObjectiveVector, b: ObjectiveVector, objectives: Objective[] = OBJECTIVES): boolean {
+    let better = false;
+    for (const { key, direction } of objectives) {
+        const diff = direction === 'max' ? a[key] - b[key] : b[key] - a[key];
+        if (diff < 0) return false;
+        if (diff > 0) better = true;
+    }
+    return better;
+}
+
+/**
+ * Fast non-dominated sort: fronts of indices, best front first
+ */
+export function nonDominatedSort(vectors: ObjectiveVector[], objectives: Objective[] = OBJECTIVES): number[][] {
+    const dominatedBy: number[][] = vectors.map(() => []);
+    const dominationCount = new Array(vectors.length).fill(0);
+    const fronts: number[][] = [[]];
+
+    for (let p = 0; p < vectors.length; p++) {
+        for (let q = 0; q < vectors.length; q++) {
+            if (p === q) continue;
+            if (dominates(vectors[p], vectors[q], objectives)) dominatedBy[p].push(q);
+            else if (dominates(vectors[q], vectors[p], objectives)) dominationCount[p]++;
+        }
+        if (dominationCount[p] === 0) fronts[0].push(p);
+    }
+
+    for (let i = 0; fronts[i].length > 0; i++) {
+        const next: number[] = [];
+        for (const p of fronts[i]) {
+            for (const q of dominatedBy[p]) {
+                if (--dominationCount[q] === 0) next.push(q);
+            }
+        }
+        fronts.push(next);
+    }
+    return fronts.filter(front => front.length > 0);
+}
+
+/**
+ * Crowding distance of each member of a front (same order as `front`)
+ */
+export function crowdingDistance(front: number[], vectors: ObjectiveVector[], objectives: Objective[] = OBJECTIVES): number[] {
+    const distance = new Map<number, number>(front.map(i => [i, 0]));
+    if (front.length <= 2) return front.map(() => Infinity);
+
+    for (const { key } of objectives) {
+        const sorted = [...front].sort((a, b) => vectors[a][key] - vectors[b][key]);
+        const min = vectors[sorted[0]][key];
+        const max = vectors[sorted[sorted.length - 1]][key];
+        distance.set(sorted[0], Infinity);
+        distance.set(sorted[sorted.length - 1], Infinity);
+        if (max === min) continue;
+        for (let i = 1; i < sorted.length - 1; i++) {
+            const gap = (vectors[sorted[i + 1]][key] - vectors[sorted[i - 1]][key]) / (max - min);
+            distance.set(sorted[i], distance.get(sorted[i])! + gap);
+        }
+    }
+    return front.map(i => distance.get(i)!);
+}
+
+/**
+ * Fill objectives an agent has no data for with the population mean (or a
+ * neutral value), so newcomers are neither favoured nor punished
+ */
+export function imputeObjectives(partials: Array<Partial<ObjectiveVector>>): ObjectiveVector[] {
+    const means = {} as ObjectiveVector;
+    for (const { key } of OBJECTIVES) {
+        const known = partials.map(p => p[key]).filter((v): v is number => typeof v === 'number' && Number.isFinite(v));
+        means[key] = known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : NEUTRAL[key];
+    }
+    return partials.map(partial => {
+        const vector = { ...means };
+        for (const { key } of OBJECTIVES) {
+            const value = partial[key];
+            if (typeof value === 'number' && Number.isFinite(value)) vector[key] = value;
+        }
+        return vector;
+    });
+}
+
+/**
+ * Crowded-comparison order: lower rank first, then larger crowding distance
+ */
+export function crowdedCompare<T>(a: RankedIndividual<T>, b: RankedIndividual<T>): number {
+    if (a.rank !== b.rank) return a.rank - b.rank;
+    if (a.crowding === b.crowding) return 0;
+    return b.crowding > a.crowding ? 1 : -1;
+}
+
+/**
+ * Rank items by non-dominated front and crowding distance, best first
+ */
+export function rankPopulation<T>(items: T[], objectivesOf: (item: T) => Partial<ObjectiveVector>): RankedIndividual<T>[] {
+    const vectors = imputeObjectives(items.map(objectivesOf));
+    const ranked: RankedIndividual<T>[] = [];
+
+    nonDominatedSort(vectors).forEach((front, rank) => {
+        const crowding = crowdingDistance(front, vectors);
+        front.forEach((index, i) => {
+            ranked.push({ item: items[index], objectives: vectors[index], rank, crowding: crowding[i] });
+        });
+    });
+    return ranked.sort(crowdedCompare);
+}
+
+/**
+ * Binary tournament under the crowded-comparison operator
+ */
+export function crowdedTournament<T>(ranked: RankedIndividual<T>[]): RankedIndividual<T> {
+    const a = ranked[Math.floor(Math.random() * ranked.length)];
+    const b = ranked[Math.floor(Math.random() * ranked.length)];
+    return crowdedCompare(a, b) <= 0 ? a : b;
+}
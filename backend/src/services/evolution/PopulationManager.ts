@@ -1,9 +1,10 @@
 /**
  * Population Manager Service
  * 
- * Manages the global agent population for evolutionary dynamics.
+ * Manages agent populations for evolutionary dynamics.
  * Instead of creating disposable per-project agents, this service
- * maintains a persistent pool of agents that evolve over time.
+ * maintains persistent pools of agents that evolve over time, one per
+ * population (global, per project or per domain; see PopulationService).
  */
 
 import { Agent, AgentStatus } from '@prisma/client';
@@ -11,19 +12,19 @@ import { prisma } from '../../lib/prisma';
 import { EvolutionService, AgentGenome } from './EvolutionService';
 import { ExistenceService } from './ExistenceService';
 import { KnowledgeHarvester } from './KnowledgeHarvester';
+import { genomeRegistry } from './GenomeRegistry';
+import { populationService, GLOBAL_POPULATION_ID } from './PopulationService';
 import { getAgentConfig } from '../../llm/modelRegistry';
 import { emitAgentUpdate, emitLog } from '../../websocket/socketServer';
 import { v4 as uuidv4 } from 'uuid';
 
+// Sizes, elite share and bootstrap mix are per population (PopulationSettings)
 export interface PopulationConfig {
-    targetPopulationSize: number;
-    minPopulationSize: number;
-    elitePercentage: number;
-    breedingRate: number;
     dryRunMode: boolean; // If true, log but don't actually terminate/breed
 }
 
 export interface PopulationStats {
+    populationId?: string;
     totalAgents: number;
     aliveAgents: number;
     busyAgents: number;
@@ -35,10 +36,6 @@ export interface PopulationStats {
 }
 
 const DEFAULT_CONFIG: PopulationConfig = {
-    targetPopulationSize: 20,
-    minPopulationSize: 10,
-    elitePercentage: 0.2, // Top 20% are elite
-    breedingRate: 0.3,    // 30% of population breeds each cycle
     dryRunMode: false     // PRODUCTION: Real evolution enabled
 };
 
@@ -92,37 +89,32 @@ class PopulationManagerClass {
     /**
      * Initialize population if empty (Gen 0 bootstrap)
      */
-    async initializePopulation(): Promise<number> {
+    async initializePopulation(populationId: string = GLOBAL_POPULATION_ID): Promise<number> {
+        const population = await populationService.resolve(populationId);
+        const settings = populationService.getSettings(population);
+
         const existingCount = await prisma.agent.count({
             where: { 
+                populationId: population.id,
                 status: { not: 'OFFLINE' },
                 // Only count agents with evolutionary fields
                 existencePotential: { gt: 0 }
             }
         });
 
-        if (existingCount >= this.config.minPopulationSize) {
-            console.log(`[PopulationManager] Population already has ${existingCount} agents. Skipping bootstrap.`);
+        if (existingCount >= settings.minPopulationSize) {
+            console.log(`[PopulationManager] Population ${population.id} already has ${existingCount} agents. Skipping bootstrap.`);
             return existingCount;
         }
 
-        console.log(`[PopulationManager] Bootstrapping Gen 0 population...`);
-        emitLog(`[Evolution] 🌱 Bootstrapping Gen 0 population...`);
-
-        const roleCounts: Record<string, number> = {
-            'MidDev': 8,
-            'SeniorDev': 4,
-            'QA': 3,
-            'Architect': 2,
-            'TeamLead': 2,
-            'Designer': 1
-        };
+        console.log(`[PopulationManager] Bootstrapping Gen 0 population ${population.id}...`);
+        emitLog(`[Evolution] 🌱 Bootstrapping Gen 0 population (${population.id})...`);
 
         let created = 0;
-        for (const [role, count] of Object.entries(roleCounts)) {
+        for (const [role, count] of Object.entries(settings.roleCounts)) {
             for (let i = 0; i < count; i++) {
                 try {
-                    await this.spawnGenesisAgent(role);
+                    await this.spawnGenesisAgent(role, population.id);
                     created++;
                 } catch (err) {
                     console.error(`[PopulationManager] Failed to spawn ${role}:`, err);
@@ -136,52 +128,66 @@ class PopulationManagerClass {
     }
 
     /**
-     * Create a Gen 0 agent with default genome
+     * Create a Gen 0 agent with default genome (or the role's pinned genome)
      */
-    async spawnGenesisAgent(role: string): Promise<Agent> {
+    async spawnGenesisAgent(role: string, populationId: string = GLOBAL_POPULATION_ID): Promise<Agent> {
         const roleGenome = ROLE_GENOMES[role] || ROLE_GENOMES['MidDev'];
+        const pinned = await genomeRegistry.getPinnedGenome(role);
         
-        const genome: AgentGenome = {
-            id: uuidv4(),
-            generation: 0,
-            parents: [],
-            system_prompt: roleGenome.system_prompt || `You are a ${role}.`,
-            temperature: roleGenome.temperature || 0.7,
-            risk_tolerance: roleGenome.risk_tolerance || 0.5,
-            collaboration_preference: roleGenome.collaboration_preference || 0.5,
-            specialization: {},
-            fitness_history: []
-        };
+        const genome: AgentGenome = pinned
+            ? genomeRegistry.materialize(pinned.genome, { generation: 0, parents: [] })
+            : {
+                id: uuidv4(),
+                generation: 0,
+                parents: [],
+                system_prompt: roleGenome.system_prompt || `You are a ${role}.`,
+                temperature: roleGenome.temperature || 0.7,
+                risk_tolerance: roleGenome.risk_tolerance || 0.5,
+                collaboration_preference: roleGenome.collaboration_preference || 0.5,
+                specialization: {},
+                fitness_history: []
+            };
 
         const modelConfig = await getAgentConfig(role);
+        const agentId = `evo_${role.toLowerCase()}_${uuidv4().slice(0, 8)}`;
+        const genomeVersion = await genomeRegistry.register(genome, { role, agentId });
 
         const agent = await prisma.agent.create({
             data: {
-                id: `evo_${role.toLowerCase()}_${uuidv4().slice(0, 8)}`,
+                id: agentId,
                 role: role,
                 specialization: role,
                 status: 'IDLE',
                 existencePotential: 100.0, // Starting E
                 generation: 0,
                 genome: genome as any,
+                genomeVersion,
+                populationId,
                 modelConfig: modelConfig as any,
                 lastActiveAt: new Date()
             }
         });
 
         emitAgentUpdate(agent);
-        console.log(`[PopulationManager] 🐣 Spawned Gen 0 ${role}: ${agent.id}`);
+        console.log(`[PopulationManager] 🐣 Spawned Gen 0 ${role} in ${populationId}: ${agent.id}`);
         return agent;
     }
 
     /**
      * Request an agent from the pool for a task
-     * Selects the best available agent by E-value and role match
+     * Selects the best available agent by E-value and role match, only from
+     * the population serving the task's project (the global pool without one).
+     * Isolated populations grow on demand up to their maximum size.
      */
-    async requestAgent(role: string): Promise<Agent | null> {
+    async requestAgent(role: string, projectId?: string): Promise<Agent | null> {
+        const population = projectId
+            ? await populationService.resolveForProject(projectId)
+            : await populationService.resolve(GLOBAL_POPULATION_ID);
+
         // Find all IDLE agents that match the role (or can handle it)
         const candidates = await prisma.agent.findMany({
             where: {
+                populationId: population.id,
                 status: 'IDLE',
                 existencePotential: { gt: 0 },
                 OR: [
@@ -200,8 +206,17 @@ class PopulationManagerClass {
             take: 1
         });
 
+        if (candidates.length === 0 && population.scope !== 'GLOBAL') {
+            const alive = await prisma.agent.count({
+                where: { populationId: population.id, status: { not: 'OFFLINE' }, existencePotential: { gt: 0 } }
+            });
+            if (alive < populationService.getSettings(population).maxPopulationSize) {
+                candidates.push(await this.spawnGenesisAgent(role, population.id));
+            }
+        }
+
         if (candidates.length === 0) {
-            console.log(`[PopulationManager] No available agents for role ${role}`);
+            console.log(`[PopulationManager] No available agents for role ${role} in ${population.id}`);
             return null;
         }
 
@@ -279,11 +294,11 @@ class PopulationManagerClass {
     }
 
     /**
-     * Get population statistics
+     * Get population statistics (across all populations without an id)
      */
-    async getPopulationStats(): Promise<PopulationStats> {
+    async getPopulationStats(populationId?: string): Promise<PopulationStats> {
         const agents = await prisma.agent.findMany({
-            where: { existencePotential: { gt: 0 } }
+            where: { existencePotential: { gt: 0 }, ...(populationId ? { populationId } : {}) }
         });
 
         const aliveAgents = agents.filter(a => a.status !== 'OFFLINE');
@@ -305,6 +320,7 @@ class PopulationManagerClass {
         }
 
         return {
+            populationId,
             totalAgents: agents.length,
             aliveAgents: aliveAgents.length,
             busyAgents: busyAgents.length,
@@ -326,24 +342,30 @@ class PopulationManagerClass {
 
     /**
      * Dynamic Population Scaling
-     * Automatically adjusts population size based on workload
+     * Automatically adjusts population size based on the workload of the
+     * projects the population serves
      */
-    async scalePopulation(): Promise<{ scaled: boolean; targetSize: number; currentSize: number; action: string }> {
+    async scalePopulation(populationId: string = GLOBAL_POPULATION_ID): Promise<{ scaled: boolean; targetSize: number; currentSize: number; action: string }> {
+        const population = await populationService.resolve(populationId);
+        const settings = populationService.getSettings(population);
+
         // Count pending/in-progress tasks
         const pendingTasks = await prisma.task.count({
-            where: { status: { in: ['QUEUED', 'ASSIGNED', 'IN_PROGRESS'] } }
+            where: { status: { in: ['QUEUED', 'ASSIGNED', 'IN_PROGRESS'] }, ...populationService.taskWhere(population) }
         });
 
         // Calculate target size based on workload
-        // Rule: 1 agent per 2 pending tasks, min 10, max 50
-        const MIN_AGENTS = 10;
-        const MAX_AGENTS = 50;
+        // Rule: 1 agent per 2 pending tasks, within the population's min/max
         const TASKS_PER_AGENT = 2;
 
-        const targetSize = Math.min(MAX_AGENTS, Math.max(MIN_AGENTS, Math.ceil(pendingTasks / TASKS_PER_AGENT)));
+        const targetSize = Math.min(
+            settings.maxPopulationSize,
+            Math.max(settings.minPopulationSize, Math.ceil(pendingTasks / TASKS_PER_AGENT))
+        );
 
         const currentSize = await prisma.agent.count({
             where: { 
+                populationId: population.id,
                 status: { not: 'OFFLINE' },
                 existencePotential: { gt: 0 }
             }
@@ -361,6 +383,7 @@ class PopulationManagerClass {
             // Breed new agents from elite
             const eliteAgents = await prisma.agent.findMany({
                 where: { 
+                    populationId: population.id,
                     status: { not: 'OFFLINE' },
                     existencePotential: { gt: 50 }
                 },
@@ -379,7 +402,7 @@ class PopulationManagerClass {
                 // Not enough elite, spawn genesis agents
                 const roles = ['MidDev', 'SeniorDev', 'QA'];
                 for (let i = 0; i < toCreate; i++) {
-                    await this.spawnGenesisAgent(roles[i % roles.length]);
+                    await this.spawnGenesisAgent(roles[i % roles.length], population.id);
                 }
                 action = `SCALE_UP_SPAWNED_${toCreate}`;
             }
@@ -395,35 +418,50 @@ class PopulationManagerClass {
     }
 
     /**
-     * Breed a new offspring from a parent agent
+     * Breed a new offspring from a parent agent. Pinned roles breed the
+     * pinned genome unmutated.
      */
     async breedOffspring(parent: Agent): Promise<Agent> {
         const parentGenome = parent.genome as any as AgentGenome || ROLE_GENOMES[parent.role];
+        const pinned = await genomeRegistry.getPinnedGenome(parent.role);
         
         // Mutate the parent genome
-        const childGenome: AgentGenome = {
-            id: uuidv4(),
-            generation: (parent.generation || 0) + 1,
-            parents: [parentGenome?.id || parent.id],
-            system_prompt: parentGenome?.system_prompt || `You are a ${parent.role}.`,
-            temperature: this.mutateValue(parentGenome?.temperature || 0.7, 0.1),
-            risk_tolerance: this.mutateValue(parentGenome?.risk_tolerance || 0.5, 0.1),
-            collaboration_preference: this.mutateValue(parentGenome?.collaboration_preference || 0.5, 0.1),
-            specialization: parentGenome?.specialization || {},
-            fitness_history: []
-        };
+        const childGenome: AgentGenome = pinned
+            ? genomeRegistry.materialize(pinned.genome, {
+                generation: (parent.generation || 0) + 1,
+                parents: [parentGenome?.id || parent.id]
+            })
+            : {
+                id: uuidv4(),
+                generation: (parent.generation || 0) + 1,
+                parents: [parentGenome?.id || parent.id],
+                system_prompt: parentGenome?.system_prompt || `You are a ${parent.role}.`,
+                temperature: this.mutateValue(parentGenome?.temperature || 0.7, 0.1),
+                risk_tolerance: this.mutateValue(parentGenome?.risk_tolerance || 0.5, 0.1),
+                collaboration_preference: this.mutateValue(parentGenome?.collaboration_preference || 0.5, 0.1),
+                specialization: parentGenome?.specialization || {},
+                fitness_history: []
+            };
 
         const modelConfig = await getAgentConfig(parent.role);
+        const childId = `evo_${parent.role.toLowerCase()}_gen${childGenome.generation}_${uuidv4().slice(0, 6)}`;
+        const genomeVersion = await genomeRegistry.register(childGenome, {
+            role: parent.role,
+            agentId: childId,
+            parents: parentGenome ? [parentGenome] : []
+        });
 
         const child = await prisma.agent.create({
             data: {
-                id: `evo_${parent.role.toLowerCase()}_gen${childGenome.generation}_${uuidv4().slice(0, 6)}`,
+                id: childId,
                 role: parent.role,
                 specialization: parent.role,
                 status: 'IDLE',
                 existencePotential: 80.0, // Start with slightly less E than parents
                 generation: childGenome.generation,
                 genome: childGenome as any,
+                genomeVersion,
+                populationId: parent.populationId,
                 parentId: parent.id,
                 modelConfig: modelConfig as any,
                 lastActiveAt: new Date()
@@ -435,6 +473,123 @@ class PopulationManagerClass {
         return child;
     }
 
+    /**
+     * Bring a terminated agent's genome back as a new agent. The content is
+     * identical (same genome version); the individual, E and history are new.
+     */
+    async resurrectAgent(agentId: string, populationId?: string): Promise<Agent> {
+        const dead = await prisma.agent.findUnique({ where: { id: agentId } });
+        if (!dead) {
+            throw Object.assign(new Error(`Agent ${agentId} not found`), { status: 404 });
+        }
+        if (dead.status !== 'OFFLINE' && dead.existencePotential > 0) {
+            throw Object.assign(new Error(`Agent ${agentId} is still alive`), { status: 409 });
+        }
+        const deadGenome = dead.genome as any as AgentGenome;
+        if (!deadGenome) {
+            throw Object.assign(new Error(`Agent ${agentId} has no genome to resurrect`), { status: 422 });
+        }
+
+        const genome = genomeRegistry.materialize(deadGenome, {
+            generation: dead.generation,
+            parents: [deadGenome.id]
+        });
+        const modelConfig = await getAgentConfig(dead.role);
+        const newId = `evo_${dead.role.toLowerCase()}_res_${uuidv4().slice(0, 6)}`;
+        const genomeVersion = await genomeRegistry.register(genome, { role: dead.role, agentId: newId });
+
+        const agent = await prisma.agent.create({
+            data: {
+                id: newId,
+                role: dead.role,
+                specialization: dead.specialization,
+                status: 'IDLE',
+                existencePotential: 80.0,
+                generation: dead.generation,
+                genome: genome as any,
+                genomeVersion,
+                populationId: populationId || dead.populationId,
+                parentId: dead.id,
+                modelConfig: modelConfig as any,
+                lastActiveAt: new Date()
+            }
+        });
+
+        console.log(`[PopulationManager] 🧟 Resurrected ${dead.id} as ${agent.id} (genome ${genomeVersion.slice(0, 12)})`);
+        emitLog(`[Evolution] 🧟 ${dead.role} genome resurrected from ${dead.id}`);
+        emitAgentUpdate(agent);
+        return agent;
+    }
+
+    /**
+     * Seed another population with copies of a population's elite. The source
+     * keeps its agents; immigrants start with fresh E and history in the
+     * target, within its maximum size.
+     */
+    async migrateElite(
+        fromPopulationId: string,
+        toPopulationId: string,
+        options: { count?: number; role?: string } = {}
+    ): Promise<Agent[]> {
+        const source = await populationService.get(fromPopulationId);
+        const target = await populationService.get(toPopulationId);
+        if (source.id === target.id) {
+            throw Object.assign(new Error('Source and target populations must differ'), { status: 400 });
+        }
+
+        const alive = { status: { not: 'OFFLINE' as AgentStatus }, existencePotential: { gt: 0 } };
+        const targetSize = await prisma.agent.count({ where: { populationId: target.id, ...alive } });
+        const room = populationService.getSettings(target).maxPopulationSize - targetSize;
+        if (room <= 0) {
+            throw Object.assign(new Error(`Population ${target.id} is full`), { status: 409 });
+        }
+
+        const elite = await prisma.agent.findMany({
+            where: {
+                populationId: source.id,
+                ...alive,
+                genome: { not: null },
+                ...(options.role ? { role: options.role } : {})
+            },
+            orderBy: [{ score: 'desc' }, { existencePotential: 'desc' }],
+            take: Math.min(options.count ?? 2, room)
+        });
+
+        const immigrants: Agent[] = [];
+        for (const agent of elite) {
+            const sourceGenome = agent.genome as any as AgentGenome;
+            const genome = genomeRegistry.materialize(sourceGenome, {
+                generation: agent.generation,
+                parents: [sourceGenome.id]
+            });
+            const id = `evo_${agent.role.toLowerCase()}_mig_${uuidv4().slice(0, 6)}`;
+            const genomeVersion = await genomeRegistry.register(genome, { role: agent.role, agentId: id });
+
+            const immigrant = await prisma.agent.create({
+                data: {
+                    id,
+                    role: agent.role,
+                    specialization: agent.specialization,
+                    status: 'IDLE',
+                    existencePotential: 80.0,
+                    generation: agent.generation,
+                    genome: genome as any,
+                    genomeVersion,
+                    populationId: target.id,
+                    parentId: agent.id,
+                    modelConfig: agent.modelConfig ?? undefined,
+                    lastActiveAt: new Date()
+                }
+            });
+            emitAgentUpdate(immigrant);
+            immigrants.push(immigrant);
+        }
+
+        console.log(`[PopulationManager] 🛶 Migrated ${immigrants.length} elite agents ${source.id} → ${target.id}`);
+        emitLog(`[Evolution] 🛶 ${immigrants.length} elite agents migrated from ${source.id} to ${target.id}`);
+        return immigrants;
+    }
+
     /**
      * Mutate a numeric value slightly
      */
@@ -0,0 +1,244 @@
+/**
+ * Population Service
+ *
+ * Isolated evolution populations. Every evolutionary agent belongs to one
+ * population: the shared "global" pool, one project ("project:<id>") or every
+ * project of a domain ("domain:<DOMAIN>", see Project.domain). Agents are only
+ * assigned tasks, penalized, terminated and bred within their population, so
+ * a failing banking project cannot kill the agents of a landing page. Each
+ * population has its own settings and persisted generation counter.
+ */
+
+import { Population, Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+
+export type PopulationScope = 'GLOBAL' | 'PROJECT' | 'DOMAIN';
+
+export interface PopulationSettings {
+    targetPopulationSize: number;
+    minPopulationSize: number;      // Bootstrap tops up to this size
+    maxPopulationSize: number;      // Hard cap for spawning, scaling and migration
+    elitePercentage: number;        // Top % that breeds
+    breedingPairs: number;          // Breeding attempts per cycle
+    mutationRate: number;
+    terminationThreshold: number;   // E value at or below which agents die
+    selection: 'pareto' | 'weighted'; // NSGA-II fronts, or the weighted-sum fitness
+    roleCounts: Record<string, number>; // Gen 0 bootstrap mix
+}
+
+export const GLOBAL_POPULATION_ID = 'global';
+
+const DEFAULT_SETTINGS: PopulationSettings = {
+    targetPopulationSize: 20,
+    minPopulationSize: 10,
+    maxPopulationSize: 50,
+    elitePercentage: 0.2,
+    breedingPairs: 3,
+    mutationRate: 0.1,
+    terminationThreshold: 10,
+    selection: 'pareto',
+    roleCounts: {
+        'MidDev': 8,
+        'SeniorDev': 4,
+        'QA': 3,
+        'Architect': 2,
+        'TeamLead': 2,
+        'Designer': 1
+    }
+};
+
+// Scope for projects without a population: 'project', 'domain' (falls back to
+// project when the project has no domain) or 'global'
+const DEFAULT_SCOPE = (process.env.EVOLUTION_POPULATION_SCOPE || 'project').toLowerCase();
+
+function notFound(message: string): Error {
+    return Object.assign(new Error(message), { status: 404 });
+}
+
+class PopulationServiceClass {
+    /**
+     * A population by id, or the population serving a project (created on
+     * first use according to EVOLUTION_POPULATION_SCOPE)
+     */
+    async resolve(ref: string = GLOBAL_POPULATION_ID): Promise<Population> {
+        if (ref === GLOBAL_POPULATION_ID) return this.ensureGlobal();
+
+        const population = await prisma.population.findUnique({ where: { id: ref } });
+        if (population) return population;
+
+        const project = await prisma.project.findUnique({ where: { id: ref }, select: { id: true } });
+        if (!project) throw notFound(`No population or project "${ref}"`);
+        return this.resolveForProject(project.id);
+    }
+
+    /**
+     * Population serving a project: its own, else its domain's, else a new
+     * one in the default scope
+     */
+    async resolveForProject(projectId: string): Promise<Population> {
+        const existing = await this.findForProject(projectId);
+        if (existing) return existing;
+
+        const project = await prisma.project.findUnique({ where: { id: projectId }, select: { domain: true } });
+        if (!project) throw notFound(`Project ${projectId} not found`);
+
+        if (DEFAULT_SCOPE === 'global') return this.ensureGlobal();
+        if (DEFAULT_SCOPE === 'domain' && project.domain) {
+            return this.create({ scope: 'DOMAIN', domain: project.domain });
+        }
+        return this.create({ scope: 'PROJECT', projectId });
+    }
+
+    /**
+     * Existing population serving a project, without creating one
+     */
+    async findForProject(projectId: string): Promise<Population | null> {
+        const own = await prisma.population.findUnique({ where: { projectId } });
+        if (own) return own;
+
+        const project = await prisma.project.findUnique({ where: { id: projectId }, select: { domain: true } });
+        if (!project?.domain) return null;
+        return prisma.population.findUnique({ where: { domain: project.domain } });
+    }
+
+    async create(input: {
+        scope: PopulationScope;
+        projectId?: string;
+        domain?: string;
+        config?: Partial<PopulationSettings>;
+    }): Promise<Population> {
+        let id: string;
+        if (input.scope === 'PROJECT') {
+            if (!input.projectId) throw Object.assign(new Error('projectId is required for a PROJECT population'), { status: 400 });
+            const project = await prisma.project.findUnique({ where: { id: input.projectId }, select: { id: true } });
+            if (!project) throw notFound(`Project ${input.projectId} not found`);
+            id = `project:${input.projectId}`;
+        } else if (input.scope === 'DOMAIN') {
+            if (!input.domain) throw Object.assign(new Error('domain is required for a DOMAIN population'), { status: 400 });
+            id = `domain:${input.domain}`;
+        } else {
+            return this.ensureGlobal();
+        }
+
+        const population = await prisma.population.upsert({
+            where: { id },
+            create: {
+                id,
+                scope: input.scope,
+                projectId: input.scope === 'PROJECT' ? input.projectId : null,
+                domain: input.scope === 'DOMAIN' ? input.domain : null,
+                config: this.validateSettings(input.config || {}) as any,
+            },
+            update: {},
+        });
+        console.log(`[PopulationService] 🏝️ Population ${population.id} ready`);
+        return population;
+    }
+
+    async get(id: string): Promise<Population> {
+        if (id === GLOBAL_POPULATION_ID) return this.ensureGlobal();
+        const population = await prisma.population.findUnique({ where: { id } });
+        if (!population) throw notFound(`Population ${id} not found`);
+        return population;
+    }
+
+    async list(): Promise<Array<Population & { aliveAgents: number }>> {
+        await this.ensureGlobal();
+        const populations = await prisma.population.findMany({ orderBy: { createdAt: 'asc' } });
+        const counts = await prisma.agent.groupBy({
+            by: ['populationId'],
+            where: { status: { not: 'OFFLINE' }, existencePotential: { gt: 0 } },
+            _count: { _all: true },
+        });
+        return populations.map(population => ({
+            ...population,
+            aliveAgents: counts.find(c => c.populationId === population.id)?._count._all ?? 0,
+        }));
+    }
+
+    /**
+     * Effective settings: the population's overrides on top of the defaults
+     */
+    getSettings(population: Population): PopulationSettings {
+        const overrides = (population.config || {}) as Partial<PopulationSettings>;
+        return {
+            ...DEFAULT_SETTINGS,
+            ...overrides,
+            roleCounts: overrides.roleCounts || DEFAULT_SETTINGS.roleCounts,
+        };
+    }
+
+    async updateSettings(id: string, changes: Partial<PopulationSettings>): Promise<Population> {
+        const population = await this.get(id);
+        const config = this.validateSettings({
+            ...(population.config as Partial<PopulationSettings>),
+            ...changes,
+        });
+        return prisma.population.update({ where: { id: population.id }, data: { config: config as any } });
+    }
+
+    /**
+     * Advance the persisted generation counter and return the new generation
+     */
+    async nextGeneration(id: string): Promise<number> {
+        const population = await prisma.population.update({
+            where: { id },
+            data: { generation: { increment: 1 } },
+            select: { generation: true },
+        });
+        return population.generation;
+    }
+
+    /**
+     * Task filter for the projects a population serves
+     */
+    taskWhere(population: Population): Prisma.TaskWhereInput {
+        if (population.scope === 'PROJECT') return { module: { projectId: population.projectId! } };
+        if (population.scope === 'DOMAIN') return { module: { project: { domain: population.domain } } };
+        return {};
+    }
+
+    /**
+     * Generation filter for a population id or a project: the population
+     * serving it plus generations recorded against the project before
+     * populations existed
+     */
+    async generationWhere(ref: string): Promise<Prisma.GenerationWhereInput> {
+        const population = await prisma.population.findUnique({ where: { id: ref } })
+            || await this.findForProject(ref);
+        if (!population) return { projectId: ref };
+        if (population.projectId) {
+            return { OR: [{ populationId: population.id }, { projectId: population.projectId }] };
+        }
+        return { populationId: population.id };
+    }
+
+    private async ensureGlobal(): Promise<Population> {
+        return prisma.population.upsert({
+            where: { id: GLOBAL_POPULATION_ID },
+            create: { id: GLOBAL_POPULATION_ID, scope: 'GLOBAL' },
+            update: {},
+        });
+    }
+
+    private validateSettings(config: Partial<PopulationSettings>): Partial<PopulationSettings> {
+        const unknown = Object.keys(config).filter(key => !(key in DEFAULT_SETTINGS));
+        if (unknown.length > 0) {
+            throw Object.assign(new Error(`Unknown population settings: ${unknown.join(', ')}`), { status: 400 });
+        }
+        const merged = { ...DEFAULT_SETTINGS, ...config };
+        if (merged.minPopulationSize > merged.maxPopulationSize || merged.targetPopulationSize > merged.maxPopulationSize) {
+            throw Object.assign(new Error('minPopulationSize and targetPopulationSize must not exceed maxPopulationSize'), { status: 400 });
+        }
+        if (!['pareto', 'weighted'].includes(merged.selection)) {
+            throw Object.assign(new Error('selection must be pareto or weighted'), { status: 400 });
+        }
+        if (merged.elitePercentage <= 0 || merged.elitePercentage > 1) {
+            throw Object.assign(new Error('elitePercentage must be in (0, 1]'), { status: 400 });
+        }
+        return config;
+    }
+}
+
+// Singleton instance
+export const populationService = new PopulationServiceClass();
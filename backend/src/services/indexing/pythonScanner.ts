@@ -0,0 +1,121 @@
+/**
+ * Python Source Scanner
+ *
+ * Line classification shared by the symbol extractor and PatchEngine:
+ * which lines are code, which only continue the previous statement (inside
+ * brackets, a triple-quoted string, or after "\"), and where an indented
+ * block ends.
+ */
+
+export interface PythonLine {
+  text: string;
+  indent: number;
+  kind: "blank" | "comment" | "code" | "continuation";
+}
+
+/**
+ * Classify each physical line: blank, comment, code, or a continuation
+ * whose indentation means nothing. Also returns a copy of the source with
+ * strings and comments blanked out (same length, newlines kept).
+ */
+export function scanPython(source: string): { lines: PythonLine[]; masked: string } {
+  const lines: PythonLine[] = [];
+  let masked = "";
+  let depth = 0;
+  let quote: string | null = null;
+  let lineStart = 0;
+  let continuation = false;
+
+  for (let i = 0; i <= source.length; i++) {
+    const ch = source[i];
+
+    if (ch === "\n" || i === source.length) {
+      const text = source.slice(lineStart, i);
+      const trimmed = text.trim();
+      lines.push({
+        text,
+        indent: text.length - text.trimStart().length,
+        kind: continuation ? "continuation" : !trimmed ? "blank" : trimmed.startsWith("#") ? "comment" : "code",
+      });
+      if (i < source.length) masked += "\n";
+      // A line ending inside brackets, a triple-quoted string or after "\" continues
+      continuation = depth > 0 || (quote !== null && quote.length === 3) || text.endsWith("\\");
+      if (quote && quote.length === 1) quote = null; // unterminated single-quoted string
+      lineStart = i + 1;
+      continue;
+    }
+
+    if (quote) {
+      if (ch === "\\") {
+        masked += " ";
+        if (source[i + 1] !== "\n") {
+          masked += " ";
+          i++;
+        }
+        continue;
+      }
+      if (source.startsWith(quote, i)) {
+        masked += quote;
+        i += quote.length - 1;
+        quote = null;
+      } else {
+        masked += " ";
+      }
+      continue;
+    }
+
+    if (ch === "#") {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      masked += " ".repeat(stop - i);
+      i = stop - 1;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = source.startsWith(ch.repeat(3), i) ? ch.repeat(3) : ch;
+      masked += quote;
+      i += quote.length - 1;
+      continue;
+    }
+    if ("([{".includes(ch)) depth++;
+    if (")]}".includes(ch)) depth = Math.max(0, depth - 1);
+    masked += ch;
+  }
+
+  return { lines, masked };
+}
+
+/**
+ * Last line of the statement starting at `line` (multi-line headers and
+ * signatures run over their continuation lines).
+ */
+export function pythonStatementEnd(lines: PythonLine[], line: number): number {
+  let end = line;
+  while (end + 1 < lines.length && lines[end + 1].kind === "continuation") end++;
+  return end;
+}
+
+/**
+ * Last line of the block opened by the header at `headerLine`: everything
+ * more indented (plus continuations) until the next statement at the same
+ * or lower indent. Trailing blanks are excluded; a dedented comment does
+ * not end the block.
+ */
+export function pythonBlockEnd(lines: PythonLine[], headerLine: number): number {
+  const indent = lines[headerLine].indent;
+  let end = pythonStatementEnd(lines, headerLine);
+  for (let i = end + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.kind === "continuation") {
+      end = i;
+      continue;
+    }
+    if (line.kind === "blank") continue;
+    if (line.indent <= indent) {
+      if (line.kind === "comment") continue; // a dedented comment may still sit inside the body
+      break;
+    }
+    end = i;
+  }
+  return end;
+}
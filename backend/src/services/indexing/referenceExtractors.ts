@@ -0,0 +1,290 @@
+/**
+ * Reference Extractors
+ *
+ * Edges for the cross-reference graph: import edges, call edges, JSX
+ * component usage and type references. Each edge records the innermost
+ * enclosing definition so "who calls X" can be answered per symbol.
+ */
+
+import path from "path";
+import { visit } from "ast-types";
+import { ExtractedSymbol, isScriptFile, parseScript } from "./symbolExtractors";
+
+export type ReferenceKind = "import" | "call" | "jsx" | "type_ref";
+
+export interface ExtractedReference {
+  kind: ReferenceKind;
+  fromSymbol?: string;
+  toName: string;
+  toModule?: string;
+  line: number;
+}
+
+// Member calls on these globals are noise in a call graph
+const IGNORED_CALL_OBJECTS = new Set(["console", "Math", "JSON", "Object", "Array", "Promise", "Number", "String", "Date"]);
+
+const PYTHON_KEYWORDS = new Set([
+  "if", "elif", "while", "for", "with", "return", "print", "not", "and", "or",
+  "in", "is", "lambda", "assert", "yield", "await", "del", "except", "raise",
+  "def", "class", "super",
+]);
+
+const RESOLVE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".json", ".css", ".scss"];
+const INDEX_FILES = ["index.ts", "index.tsx", "index.js", "index.jsx", "__init__.py"];
+
+/**
+ * Innermost definition whose line range contains `line`.
+ */
+function enclosingSymbol(symbols: ExtractedSymbol[], line: number): string | undefined {
+  let best: ExtractedSymbol | undefined;
+  for (const sym of symbols) {
+    if (sym.startLine <= line && sym.endLine >= line) {
+      if (!best || sym.endLine - sym.startLine < best.endLine - best.startLine) {
+        best = sym;
+      }
+    }
+  }
+  return best?.name;
+}
+
+// --- JavaScript / TypeScript ---
+
+function extractScriptReferences(source: string, symbols: ExtractedSymbol[]): ExtractedReference[] {
+  const ast = parseScript(source);
+  if (!ast) return [];
+
+  const refs: ExtractedReference[] = [];
+  // local binding -> where it was imported from
+  const imports = new Map<string, { name: string; module: string }>();
+
+  const add = (kind: ReferenceKind, node: any, toName: string, toModule?: string) => {
+    const line = node.loc?.start.line;
+    if (!line || !toName) return;
+    refs.push({ kind, fromSymbol: enclosingSymbol(symbols, line), toName, toModule, line });
+  };
+
+  // Imported names resolve to their module (and original name, for aliases)
+  const target = (local: string) => {
+    const imported = imports.get(local);
+    return imported ? { name: imported.name, module: imported.module } : { name: local, module: undefined };
+  };
+
+  // Imports first so usages earlier in the file than the import still resolve
+  visit(ast, {
+    visitImportDeclaration(p: any) {
+      const module = p.node.source.value;
+      if (p.node.specifiers.length === 0) {
+        add("import", p.node, "*", module);
+      }
+      for (const spec of p.node.specifiers) {
+        const local = spec.local.name;
+        let name = local;
+        if (spec.type === "ImportSpecifier") {
+          name = spec.imported.name ?? spec.imported.value;
+        } else if (spec.type === "ImportNamespaceSpecifier") {
+          name = "*";
+        }
+        imports.set(local, { name, module });
+        add("import", p.node, name, module);
+      }
+      return false;
+    },
+    visitExportNamedDeclaration(p: any) {
+      if (p.node.source) {
+        for (const spec of p.node.specifiers || []) {
+          add("import", p.node, spec.local?.name ?? "*", p.node.source.value);
+        }
+      }
+      this.traverse(p);
+    },
+    visitExportAllDeclaration(p: any) {
+      add("import", p.node, "*", p.node.source.value);
+      return false;
+    },
+  });
+
+  visit(ast, {
+    visitCallExpression(p: any) {
+      const { callee, arguments: args } = p.node;
+      const firstArg = args[0];
+
+      if (callee.type === "Import" && firstArg?.type === "StringLiteral") {
+        add("import", p.node, "*", firstArg.value);
+      } else if (callee.type === "Identifier" && callee.name === "require" && firstArg?.type === "StringLiteral") {
+        add("import", p.node, "*", firstArg.value);
+      } else if (callee.type === "Identifier") {
+        const t = target(callee.name);
+        add("call", p.node, t.name, t.module);
+      } else if (callee.type === "MemberExpression" && callee.property.type === "Identifier") {
+        const object = callee.object;
+        if (object.type === "Identifier" && IGNORED_CALL_OBJECTS.has(object.name)) {
+          // skip
+        } else {
+          // `service.method()` where `service` is imported: the method lives in that module
+          const module = object.type === "Identifier" ? imports.get(object.name)?.module : undefined;
+          add("call", p.node, callee.property.name, module);
+        }
+      }
+      this.traverse(p);
+    },
+    visitNewExpression(p: any) {
+      if (p.node.callee.type === "Identifier") {
+        const t = target(p.node.callee.name);
+        add("call", p.node, t.name, t.module);
+      }
+      this.traverse(p);
+    },
+    visitJSXOpeningElement(p: any) {
+      const name = p.node.name;
+      if (name.type === "JSXIdentifier" && /^[A-Z]/.test(name.name)) {
+        const t = target(name.name);
+        add("jsx", p.node, t.name, t.module);
+      } else if (name.type === "JSXMemberExpression") {
+        const module = name.object.type === "JSXIdentifier" ? imports.get(name.object.name)?.module : undefined;
+        add("jsx", p.node, name.property.name, module);
+      }
+      this.traverse(p);
+    },
+    visitTSTypeReference(p: any) {
+      const typeName = p.node.typeName;
+      if (typeName.type === "Identifier") {
+        const t = target(typeName.name);
+        add("type_ref", p.node, t.name, t.module);
+      } else if (typeName.type === "TSQualifiedName") {
+        const module = typeName.left.type === "Identifier" ? imports.get(typeName.left.name)?.module : undefined;
+        add("type_ref", p.node, typeName.right.name, module);
+      }
+      this.traverse(p);
+    },
+  });
+
+  return refs;
+}
+
+// --- Python ---
+
+const PY_IMPORT = /^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/;
+const PY_FROM_IMPORT = /^\s*from\s+([.\w]+)\s+import\s+\(?([^)#]+)\)?/;
+const PY_CALL = /(?:\b([A-Za-z_]\w*)\.)?\b([A-Za-z_]\w*)\s*\(/g;
+
+function extractPythonReferences(source: string, symbols: ExtractedSymbol[]): ExtractedReference[] {
+  const refs: ExtractedReference[] = [];
+  const imports = new Map<string, { name: string; module: string }>();
+  const lines = source.split("\n");
+
+  lines.forEach((text, i) => {
+    const line = i + 1;
+    const code = text.replace(/#.*$/, "");
+    const fromSymbol = enclosingSymbol(symbols, line);
+
+    const fromImport = PY_FROM_IMPORT.exec(code);
+    if (fromImport) {
+      const module = fromImport[1];
+      for (const part of fromImport[2].split(",")) {
+        const [name, alias] = part.trim().split(/\s+as\s+/);
+        if (!name) continue;
+        imports.set(alias || name, { name, module });
+        refs.push({ kind: "import", fromSymbol, toName: name, toModule: module, line });
+      }
+      return;
+    }
+
+    const plainImport = PY_IMPORT.exec(code);
+    if (plainImport) {
+      for (const part of plainImport[1].split(",")) {
+        const [module, alias] = part.trim().split(/\s+as\s+/);
+        imports.set(alias || module, { name: "*", module });
+        refs.push({ kind: "import", fromSymbol, toName: "*", toModule: module, line });
+      }
+      return;
+    }
+
+    if (/^\s*(?:async\s+)?(?:def|class)\s/.test(code)) return;
+
+    for (const m of code.matchAll(PY_CALL)) {
+      const [, object, name] = m;
+      if (PYTHON_KEYWORDS.has(name)) continue;
+      const imported = object ? imports.get(object) : imports.get(name);
+      refs.push({
+        kind: "call",
+        fromSymbol,
+        toName: object ? name : imported?.name ?? name,
+        toModule: imported?.module,
+        line,
+      });
+    }
+  });
+
+  return refs;
+}
+
+/**
+ * Extract reference edges from a file. Languages without a reference
+ * extractor (CSS, JSON, Prisma) yield none.
+ */
+export function extractReferences(
+  relativePath: string,
+  source: string,
+  symbols: ExtractedSymbol[]
+): ExtractedReference[] {
+  try {
+    let refs: ExtractedReference[] = [];
+    if (isScriptFile(relativePath)) {
+      refs = extractScriptReferences(source, symbols);
+    } else if (path.extname(relativePath) === ".py") {
+      refs = extractPythonReferences(source, symbols);
+    }
+
+    // Drop exact duplicates (e.g. the same call twice on one line)
+    const seen = new Set<string>();
+    return refs.filter((r) => {
+      const key = `${r.kind}|${r.fromSymbol}|${r.toName}|${r.toModule}|${r.line}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  } catch (e) {
+    console.error(`[ReferenceExtractors] Failed to extract ${relativePath}:`, e);
+    return [];
+  }
+}
+
+/**
+ * Repo-relative paths an import specifier may resolve to, most specific
+ * first. Bare package imports (react, express, ...) have no candidates.
+ */
+export function importCandidates(fromPath: string, specifier: string): string[] {
+  const fromDir = path.posix.dirname(fromPath);
+  let bases: string[] = [];
+
+  if (specifier.startsWith("./") || specifier.startsWith("../")) {
+    bases = [path.posix.join(fromDir, specifier)];
+  } else if (specifier.startsWith("@/") || specifier.startsWith("~/")) {
+    // Common tsconfig path aliases
+    const rest = specifier.slice(2);
+    bases = [path.posix.join("src", rest), rest];
+  } else if (path.extname(fromPath) === ".py") {
+    // from .mod import x / from ..pkg import y / from pkg.mod import z
+    const dots = /^\.*/.exec(specifier)![0].length;
+    const modulePath = specifier.slice(dots).split(".").filter(Boolean).join("/");
+    if (dots > 0) {
+      let dir = fromDir;
+      for (let i = 1; i < dots; i++) dir = path.posix.dirname(dir);
+      bases = [path.posix.join(dir, modulePath)];
+    } else {
+      bases = [modulePath, path.posix.join(fromDir, modulePath)];
+    }
+  } else {
+    return [];
+  }
+
+  const candidates: string[] = [];
+  for (const base of bases) {
+    const normalized = path.posix.normalize(base).replace(/^\.\//, "");
+    if (normalized.startsWith("..")) continue;
+    if (path.posix.extname(normalized)) candidates.push(normalized);
+    for (const ext of RESOLVE_EXTENSIONS) candidates.push(normalized + ext);
+    for (const index of INDEX_FILES) candidates.push(path.posix.join(normalized, index));
+  }
+  return candidates;
+}
@@ -0,0 +1,352 @@
+/**
+ * Symbol Extractors
+ *
+ * Per-language definition extraction for the repo indexer. Every extractor
+ * returns 1-based, inclusive line ranges so chunks can be cut straight
+ * from the source.
+ */
+
+import path from "path";
+import * as recast from "recast";
+import * as parser from "@babel/parser";
+import { visit } from "ast-types";
+import { pythonBlockEnd, pythonStatementEnd, scanPython } from "./pythonScanner";
+
+export interface ExtractedSymbol {
+  name: string;
+  kind: string; // function, class, method, interface, type, enum, css_class, config_key, model, ...
+  startLine: number;
+  endLine: number;
+  signature?: string;
+}
+
+type Extractor = (source: string) => ExtractedSymbol[];
+
+const SCRIPT_EXTENSIONS = [".js", ".ts", ".jsx", ".tsx", ".mjs", ".cjs"];
+
+export function isScriptFile(relativePath: string): boolean {
+  return SCRIPT_EXTENSIONS.includes(path.extname(relativePath));
+}
+
+function lineAt(source: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset && i < source.length; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+/**
+ * Parse JS/TS (including JSX and decorators) with the same babel setup
+ * used elsewhere in the indexer. Returns null on syntax errors.
+ */
+export function parseScript(source: string): any | null {
+  try {
+    return recast.parse(source, {
+      parser: {
+        parse(code: string) {
+          return parser.parse(code, {
+            sourceType: "module",
+            plugins: ["typescript", "jsx", "decorators-legacy", "classProperties"],
+            tokens: true,
+          });
+        },
+      },
+    });
+  } catch (e) {
+    return null;
+  }
+}
+
+// --- JavaScript / TypeScript ---
+
+const extractScriptSymbols: Extractor = (source) => {
+  const ast = parseScript(source);
+  if (!ast) return [];
+
+  const symbols: ExtractedSymbol[] = [];
+  const push = (node: any, name: string, kind: string) => {
+    symbols.push({
+      name,
+      kind,
+      startLine: node.loc?.start.line ?? lineAt(source, node.start),
+      endLine: node.loc?.end.line ?? lineAt(source, node.end),
+    });
+  };
+
+  visit(ast, {
+    visitFunctionDeclaration(p) {
+      if (p.node.id) push(p.node, (p.node.id as any).name, "function");
+      this.traverse(p);
+    },
+    visitClassDeclaration(p) {
+      if (p.node.id) push(p.node, (p.node.id as any).name, "class");
+      this.traverse(p);
+    },
+    visitClassMethod(p: any) {
+      const key = p.node.key;
+      if (key?.type === "Identifier") push(p.node, key.name, "method");
+      this.traverse(p);
+    },
+    visitVariableDeclarator(p) {
+      // Handle const foo = () => {}
+      const init: any = p.node.init;
+      if (
+        p.node.id.type === "Identifier" &&
+        init &&
+        (init.type === "ArrowFunctionExpression" || init.type === "FunctionExpression")
+      ) {
+        push(p.node, p.node.id.name, "function");
+      }
+      this.traverse(p);
+    },
+    visitTSInterfaceDeclaration(p: any) {
+      push(p.node, p.node.id.name, "interface");
+      this.traverse(p);
+    },
+    visitTSTypeAliasDeclaration(p: any) {
+      push(p.node, p.node.id.name, "type");
+      this.traverse(p);
+    },
+    visitTSEnumDeclaration(p: any) {
+      push(p.node, p.node.id.name, "enum");
+      this.traverse(p);
+    },
+  });
+
+  return symbols;
+};
+
+// --- Python ---
+
+const PY_DEF = /^(\s*)(?:async\s+)?def\s+([A-Za-z_]\w*)\s*\(([^)]*)\)?/;
+const PY_CLASS = /^(\s*)class\s+([A-Za-z_]\w*)/;
+
+const extractPythonSymbols: Extractor = (source) => {
+  const { lines } = scanPython(source);
+  const symbols: ExtractedSymbol[] = [];
+  // Enclosing class blocks, to tell methods from functions
+  const classStack: Array<{ indent: number }> = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].kind !== "code") continue;
+    const line = lines[i].text;
+    const defMatch = PY_DEF.exec(line);
+    const classMatch = defMatch ? null : PY_CLASS.exec(line);
+    const match = defMatch || classMatch;
+    if (!match) continue;
+
+    const indent = match[1].length;
+    while (classStack.length && classStack[classStack.length - 1].indent >= indent) {
+      classStack.pop();
+    }
+
+    const end = pythonBlockEnd(lines, i);
+
+    if (classMatch) {
+      symbols.push({ name: match[2], kind: "class", startLine: i + 1, endLine: end + 1 });
+      classStack.push({ indent });
+    } else {
+      const header = lines
+        .slice(i, pythonStatementEnd(lines, i) + 1)
+        .map((l) => l.text.trim())
+        .join(" ")
+        .replace(/([(\[])\s+/g, "$1")
+        .replace(/,?\s+([)\]])/g, "$1");
+      symbols.push({
+        name: match[2],
+        kind: classStack.length ? "method" : "function",
+        startLine: i + 1,
+        endLine: end + 1,
+        signature: header.replace(/:\s*$/, ""),
+      });
+    }
+  }
+
+  return symbols;
+};
+
+// --- CSS / CSS modules ---
+
+/**
+ * Line index of the brace that closes the block opened on `startLine`
+ * (comments and strings are not special-cased; good enough for CSS/Prisma).
+ */
+function closingLine(lines: string[], startLine: number): number {
+  let depth = 0;
+  let opened = false;
+  for (let i = startLine; i < lines.length; i++) {
+    for (const ch of lines[i]) {
+      if (ch === "{") {
+        depth++;
+        opened = true;
+      } else if (ch === "}") {
+        depth--;
+        if (opened && depth === 0) return i;
+      }
+    }
+  }
+  return lines.length - 1;
+}
+
+const extractCssSymbols: Extractor = (source) => {
+  // Blank out comments, keeping newlines so line numbers stay intact
+  const cleaned = source.replace(/\/\*[\s\S]*?\*\//g, (c) => c.replace(/[^\n]/g, " "));
+  const lines = cleaned.split("\n");
+  const symbols: ExtractedSymbol[] = [];
+  const seen = new Set<string>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.includes("{")) continue;
+    const selector = line.slice(0, line.indexOf("{")).trim();
+    if (!selector) continue;
+
+    const endLine = closingLine(lines, i) + 1;
+
+    const keyframes = /^@keyframes\s+([\w-]+)/.exec(selector);
+    if (keyframes) {
+      symbols.push({ name: keyframes[1], kind: "keyframes", startLine: i + 1, endLine });
+      continue;
+    }
+
+    for (const m of selector.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g)) {
+      const key = `${m[1]}:${i}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      symbols.push({
+        name: m[1],
+        kind: "css_class",
+        startLine: i + 1,
+        endLine,
+        signature: selector,
+      });
+    }
+  }
+
+  return symbols;
+};
+
+// --- JSON configs ---
+
+/**
+ * Top-level keys of a JSON object with the line range of their values.
+ */
+const extractJsonSymbols: Extractor = (source) => {
+  try {
+    JSON.parse(source);
+  } catch {
+    return [];
+  }
+
+  const symbols: ExtractedSymbol[] = [];
+  let depth = 0;
+  let line = 1;
+  let inString = false;
+  let stringStart = 0;
+  let stringStartLine = 1;
+  let lastString: { text: string; line: number } | null = null;
+  let current: ExtractedSymbol | null = null;
+  let lastContentLine = 1;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\n") line++;
+
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') {
+        inString = false;
+        lastString = { text: source.slice(stringStart + 1, i), line: stringStartLine };
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      stringStart = i;
+      stringStartLine = line;
+    } else if (ch === "{" || ch === "[") {
+      depth++;
+    } else if (ch === "}" || ch === "]") {
+      depth--;
+      if (depth === 0 && current) current.endLine = lastContentLine;
+    } else if (ch === ":" && depth === 1 && lastString) {
+      if (current) symbols.push(current);
+      current = {
+        name: lastString.text,
+        kind: "config_key",
+        startLine: lastString.line,
+        endLine: lastString.line,
+      };
+    } else if (ch === "," && depth === 1 && current) {
+      current.endLine = line;
+    }
+
+    if (depth > 0 && ch.trim()) lastContentLine = line;
+  }
+  if (current) symbols.push(current);
+
+  return symbols;
+};
+
+// --- Prisma schema ---
+
+const PRISMA_BLOCK = /^\s*(model|enum|type|view|datasource|generator)\s+(\w+)\s*\{/;
+
+const extractPrismaSymbols: Extractor = (source) => {
+  const lines = source.split("\n");
+  const symbols: ExtractedSymbol[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = PRISMA_BLOCK.exec(lines[i]);
+    if (!match) continue;
+    symbols.push({
+      name: match[2],
+      kind: match[1],
+      startLine: i + 1,
+      endLine: closingLine(lines, i) + 1,
+    });
+  }
+
+  return symbols;
+};
+
+const EXTRACTORS: Record<string, Extractor> = {
+  ".js": extractScriptSymbols,
+  ".ts": extractScriptSymbols,
+  ".jsx": extractScriptSymbols,
+  ".tsx": extractScriptSymbols,
+  ".mjs": extractScriptSymbols,
+  ".cjs": extractScriptSymbols,
+  ".py": extractPythonSymbols,
+  ".css": extractCssSymbols,
+  ".scss": extractCssSymbols,
+  ".json": extractJsonSymbols,
+  ".prisma": extractPrismaSymbols,
+};
+
+// Lockfiles and similar generated JSON are large and carry no useful symbols
+const IGNORED_FILES = new Set(["package-lock.json", "yarn.lock", "pnpm-lock.yaml"]);
+
+export const INDEXED_EXTENSIONS = Object.keys(EXTRACTORS);
+
+export function isIndexable(relativePath: string): boolean {
+  if (IGNORED_FILES.has(path.basename(relativePath))) return false;
+  return path.extname(relativePath) in EXTRACTORS;
+}
+
+/**
+ * Extract definitions from a file, picking the extractor by extension.
+ * Never throws: unparsable files simply yield no symbols.
+ */
+export function extractSymbols(relativePath: string, source: string): ExtractedSymbol[] {
+  const extractor = EXTRACTORS[path.extname(relativePath)];
+  if (!extractor) return [];
+  try {
+    return extractor(source);
+  } catch (e) {
+    console.error(`[SymbolExtractors] Failed to extract ${relativePath}:`, e);
+    return [];
+  }
+}
@@ -1,4 +1,7 @@
 import { BedrockRuntimeClient, InvokeModelCommand } from "@aws-sdk/client-bedrock-runtime";
+import { addCallCost } from "../llm/costTracker";
+import { llmCassette } from "../llm/cassette";
+import { LLMMessage } from "../llm/types";
 
 // Initialize Clients Lazily by Region
 const bedrockClients: Record<string, BedrockRuntimeClient> = {};
@@ -42,13 +45,29 @@ export function estimateCost(tokensIn: number, tokensOut: number, costPer1k: num
 }
 
 /**
- * Invokes the LLM using AWS Bedrock.
+ * Invokes the LLM using AWS Bedrock. Goes through the LLM cassette like
+ * callLLM does, so replayed runs never reach Bedrock.
  */
 export async function invokeModel(
   config: ModelConfig,
   systemPrompt: string,
   userPrompt: string
 ): Promise<LLMResult> {
+  const messages: LLMMessage[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+
+  if (llmCassette.mode === "replay") {
+    const recorded = llmCassette.replay(config, messages);
+    return {
+      text: recorded.content,
+      tokensIn: recorded.usage?.promptTokens ?? 0,
+      tokensOut: recorded.usage?.completionTokens ?? 0,
+      costUsd: recorded.costUsd ?? 0,
+    };
+  }
+
   const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
   const tokensIn = estimateTokens(fullPrompt);
 
@@ -58,6 +77,15 @@ export async function invokeModel(
     const text = await invokeBedrock(config, systemPrompt, userPrompt);
     const tokensOut = estimateTokens(text); // Bedrock often doesn't return usage in simple response
     const costUsd = estimateCost(tokensIn, tokensOut, config.estimated_cost_per_1k_tokens_usd);
+    addCallCost({ provider: config.provider, model: config.model, costUsd, tokensIn, tokensOut });
+
+    if (llmCassette.mode === "record") {
+      llmCassette.record(config, messages, {
+        content: text,
+        usage: { promptTokens: tokensIn, completionTokens: tokensOut, totalTokens: tokensIn + tokensOut },
+        costUsd,
+      });
+    }
 
     return {
       text,
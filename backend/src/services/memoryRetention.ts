@@ -28,9 +28,6 @@ const DEFAULT_CONFIG: RetentionConfig = {
   purgeIntervalMs: 60 * 60 * 1000 // 1 hour
 };
 
-// Curated memories (protected from auto-purge)
-const curatedMemories = new Set<string>();
-
 // Flagged for review
 const flaggedForReview = new Map<string, { reason: string; flaggedAt: Date }>();
 
@@ -65,12 +62,12 @@ function calculateRetentionScore(memory: MemoryEntry): number {
 /**
  * Check if a memory should be purged
  */
-function shouldPurge(memory: MemoryEntry, config: RetentionConfig): {
+function shouldPurge(memory: MemoryEntry, config: RetentionConfig = DEFAULT_CONFIG): {
   purge: boolean;
   reason?: string;
 } {
   // Never purge curated memories
-  if (curatedMemories.has(memory.id)) {
+  if (memory.curated) {
     return { purge: false };
   }
   
@@ -86,8 +83,8 @@ function shouldPurge(memory: MemoryEntry, config: RetentionConfig): {
     return { purge: true, reason: 'Exceeded max age' };
   }
   
-  // Check success rate (only after some usage)
-  if (memory.useCount >= config.minUseCount && memory.successRate < config.minSuccessRate) {
+  // Check success rate (only once outcomes, not just retrievals, back it)
+  if (memory.outcomeCount >= config.minUseCount && memory.successRate < config.minSuccessRate) {
     return { purge: true, reason: `Low success rate: ${(memory.successRate * 100).toFixed(0)}%` };
   }
   
@@ -110,14 +107,14 @@ export async function runPurgeCycle(config: RetentionConfig = DEFAULT_CONFIG): P
 }> {
   emitLog('[MemoryRetention] 🧹 Running purge cycle...');
   
-  const stats = agentMemory.getMemoryStats();
+  const stats = await agentMemory.getMemoryStats();
   let purged = 0;
   let flagged = 0;
   let kept = 0;
   
   // Get all memories by category and check each
   for (const category of Object.keys(stats.byCategory)) {
-    const memories = agentMemory.getMemoriesByCategory(category);
+    const memories = await agentMemory.getMemoriesByCategory(category);
     
     for (const memory of memories) {
       const result = shouldPurge(memory, config);
@@ -133,7 +130,7 @@ export async function runPurgeCycle(config: RetentionConfig = DEFAULT_CONFIG): P
           flagged++;
           emitLog(`[MemoryRetention] 🚩 Flagged high-impact memory: ${memory.title}`);
         } else {
-          // Actually purge (in real implementation, would delete from store)
+          await agentMemory.deleteMemory(memory.id);
           purged++;
           emitLog(`[MemoryRetention] 🗑️ Purged: ${memory.title} (${result.reason})`);
         }
@@ -151,8 +148,8 @@ export async function runPurgeCycle(config: RetentionConfig = DEFAULT_CONFIG): P
 /**
  * Mark a memory as curated (protected from auto-purge)
  */
-export function curateMemory(memoryId: string): void {
-  curatedMemories.add(memoryId);
+export async function curateMemory(memoryId: string): Promise<void> {
+  await agentMemory.setMemoryCurated(memoryId, true);
   flaggedForReview.delete(memoryId); // Remove from review queue
   emitLog(`[MemoryRetention] ⭐ Memory curated: ${memoryId}`);
 }
@@ -160,8 +157,8 @@ export function curateMemory(memoryId: string): void {
 /**
  * Remove curation from a memory
  */
-export function uncurateMemory(memoryId: string): void {
-  curatedMemories.delete(memoryId);
+export async function uncurateMemory(memoryId: string): Promise<void> {
+  await agentMemory.setMemoryCurated(memoryId, false);
   emitLog(`[MemoryRetention] ❌ Memory uncurated: ${memoryId}`);
 }
 
@@ -182,10 +179,10 @@ export function getFlaggedMemories(): Array<{
 /**
  * Approve a flagged memory (keep it)
  */
-export function approveFlaggedMemory(memoryId: string, curate: boolean = false): void {
+export async function approveFlaggedMemory(memoryId: string, curate: boolean = false): Promise<void> {
   flaggedForReview.delete(memoryId);
   if (curate) {
-    curateMemory(memoryId);
+    await curateMemory(memoryId);
   }
   emitLog(`[MemoryRetention] ✅ Approved flagged memory: ${memoryId}`);
 }
@@ -193,22 +190,22 @@ export function approveFlaggedMemory(memoryId: string, curate: boolean = false):
 /**
  * Reject a flagged memory (purge it)
  */
-export function rejectFlaggedMemory(memoryId: string): void {
+export async function rejectFlaggedMemory(memoryId: string): Promise<void> {
   flaggedForReview.delete(memoryId);
-  // In real implementation, would delete from memory store
+  await agentMemory.deleteMemory(memoryId);
   emitLog(`[MemoryRetention] 🗑️ Rejected flagged memory: ${memoryId}`);
 }
 
 /**
  * Get retention statistics
  */
-export function getRetentionStats(): {
+export async function getRetentionStats(): Promise<{
   totalCurated: number;
   totalFlagged: number;
   config: RetentionConfig;
-} {
+}> {
   return {
-    totalCurated: curatedMemories.size,
+    totalCurated: await agentMemory.countCuratedMemories(),
     totalFlagged: flaggedForReview.size,
     config: DEFAULT_CONFIG
   };
@@ -234,5 +231,6 @@ export const memoryRetention = {
   rejectFlaggedMemory,
   getRetentionStats,
   startPurgeScheduler,
-  calculateRetentionScore
+  calculateRetentionScore,
+  shouldPurge
 };
@@ -2,28 +2,148 @@ import * as recast from 'recast';
 import * as parser from '@babel/parser';
 import { visit } from 'ast-types';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { ConflictHunk, applyUnifiedDiff, mergeThreeWay, parseUnifiedDiff, selectFileDiff } from './diffMerge';
+import { PythonLine, pythonBlockEnd, scanPython } from './indexing/pythonScanner';
 
-export type PatchOperation = 
+export type PatchOperation =
   | { type: 'replace_function'; name: string; newCode: string }
+  | { type: 'replace_class'; name: string; newCode: string }
+  | { type: 'replace_method'; className: string; name: string; newCode: string }
+  | { type: 'remove_symbol'; name: string; className?: string }
+  | { type: 'insert_after_symbol'; name: string; code: string; className?: string }
+  | { type: 'rename_symbol'; name: string; newName: string }
+  | { type: 'replace_rule'; selector: string; newCode: string } // CSS
   | { type: 'add_import'; code: string }
+  | { type: 'apply_diff'; diff: string; base?: string; baseSha256?: string } // Unified diff; base enables three-way merge
   | { type: 'replace_file'; code: string }; // Fallback
 
+export interface PatchOperationResult {
+  type: PatchOperation['type'];
+  target?: string;          // Symbol, Class.method or selector the operation aimed at
+  matched: boolean;
+  occurrences?: number;     // rename_symbol / CSS: how many sites were touched
+  skipped?: boolean;        // Superseded by an earlier replace_file
+  strategy?: 'exact' | 'fuzzy' | 'three_way'; // apply_diff: how the hunks landed
+  conflicts?: ConflictHunk[];                 // apply_diff: hunks that could not be placed or merged
+  error?: string;
+}
+
+export interface PatchReport {
+  code: string;
+  changed: boolean;
+  results: PatchOperationResult[];
+}
+
+// Handlers throw when their target isn't found; a number reports how many sites matched
+type OperationHandler = (op: PatchOperation) => number | void;
+
+const JS_PARSER = {
+  parse(code: string) {
+    return parser.parse(code, {
+      sourceType: 'module',
+      plugins: ['typescript', 'jsx', 'decorators-legacy', 'classProperties', 'estree'],
+      tokens: true // Recast needs tokens
+    });
+  }
+};
+
+const JS_DECLARATION_TYPES = [
+  'FunctionDeclaration', 'ClassDeclaration', 'TSInterfaceDeclaration', 'TSTypeAliasDeclaration',
+  'TSEnumDeclaration', 'TSDeclareFunction'
+];
+
+const JS_CLASS_MEMBER_TYPES = [
+  'MethodDefinition', 'ClassMethod', 'ClassPrivateMethod', 'TSDeclareMethod',
+  'ClassProperty', 'ClassPrivateProperty', 'PropertyDefinition', 'TSAbstractMethodDefinition'
+];
+
+function describeTarget(op: PatchOperation): string | undefined {
+  switch (op.type) {
+    case 'replace_method':
+      return `${op.className}.${op.name}`;
+    case 'remove_symbol':
+    case 'insert_after_symbol':
+      return op.className ? `${op.className}.${op.name}` : op.name;
+    case 'replace_function':
+    case 'replace_class':
+    case 'rename_symbol':
+      return op.name;
+    case 'replace_rule':
+      return op.selector;
+    default:
+      return undefined;
+  }
+}
+
 export class PatchEngine {
   /**
-   * Apply a list of patch operations to a file
+   * Apply a list of patch operations to a file.
+   * Throws if any operation failed to match, naming each one.
    */
   applyPatchesToFile(filePath: string, sourceCode: string, operations: PatchOperation[]): string {
+    const report = this.applyPatchesWithReport(filePath, sourceCode, operations);
+    const failures = report.results.filter(r => !r.matched && !r.skipped);
+    if (failures.length > 0) {
+      throw new Error(
+        `Patch failed for ${filePath}: ` +
+        failures.map(f => `${f.type}${f.target ? ` "${f.target}"` : ''}: ${f.error}`).join('; ')
+      );
+    }
+    return report.code;
+  }
+
+  /**
+   * Apply operations and report, per operation, whether it matched.
+   * Unmatched operations leave the file untouched and carry the reason.
+   */
+  applyPatchesWithReport(filePath: string, sourceCode: string, operations: PatchOperation[]): PatchReport {
+    // Diffs are line-based and language-agnostic; structural runs go between them
+    let code = sourceCode;
+    const results: PatchOperationResult[] = [];
+    let batch: PatchOperation[] = [];
+
+    const flush = () => {
+      if (batch.length === 0) return;
+      const report = this.applyLanguagePatches(filePath, code, batch);
+      code = report.code;
+      results.push(...report.results);
+      batch = [];
+    };
+
+    for (const op of operations) {
+      if (op.type !== 'apply_diff') {
+        batch.push(op);
+        continue;
+      }
+      flush();
+      if (results.some(r => r.type === 'replace_file' && r.matched)) {
+        results.push({ type: op.type, target: filePath, matched: false, skipped: true, error: 'Superseded by replace_file' });
+        continue;
+      }
+      const applied = this.applyDiff(filePath, code, op);
+      code = applied.code;
+      results.push(applied.result);
+    }
+    flush();
+
+    return { code, changed: code !== sourceCode, results };
+  }
+
+  private applyLanguagePatches(filePath: string, sourceCode: string, operations: PatchOperation[]): PatchReport {
     const ext = path.extname(filePath);
-    
+
     // Route to language-specific handler
     if (['.js', '.ts', '.jsx', '.tsx', '.mjs', '.cjs'].includes(ext)) {
       return this.applyJSPatches(sourceCode, operations);
     } else if (ext === '.py') {
       return this.applyPythonPatches(sourceCode, operations);
+    } else if (['.css', '.scss', '.less'].includes(ext)) {
+      return this.applyCSSPatches(sourceCode, operations, ext !== '.css');
     } else if (['.sh', '.bash'].includes(ext)) {
       return this.applyBashPatches(sourceCode, operations);
     }
-    
+
     // Fallback: text-based replacement
     return this.applyTextPatches(sourceCode, operations);
   }
@@ -32,75 +152,109 @@ export class PatchEngine {
    * Legacy method for backward compatibility (assumes JS/TS)
    */
   applyPatches(sourceCode: string, operations: PatchOperation[]): string {
-    return this.applyJSPatches(sourceCode, operations);
+    return this.applyPatchesToFile('legacy.ts', sourceCode, operations);
+  }
+
+  /**
+   * Run handlers in order, recording a result for every operation.
+   * replace_file wins over everything and skips what follows it.
+   */
+  private runOperations(
+    language: string,
+    operations: PatchOperation[],
+    handler: OperationHandler
+  ): { results: PatchOperationResult[]; replacement?: string } {
+    const results: PatchOperationResult[] = [];
+    let replacement: string | undefined;
+
+    for (const op of operations) {
+      const result: PatchOperationResult = { type: op.type, target: describeTarget(op), matched: false };
+      results.push(result);
+
+      if (replacement !== undefined) {
+        result.skipped = true;
+        result.error = 'Superseded by replace_file';
+        continue;
+      }
+      if (op.type === 'replace_file') {
+        replacement = op.code;
+        result.matched = true;
+        continue;
+      }
+
+      try {
+        const occurrences = handler(op);
+        result.matched = true;
+        if (typeof occurrences === 'number') result.occurrences = occurrences;
+      } catch (err: any) {
+        console.warn(`[PatchEngine] ⚠️ ${language} ${op.type}${result.target ? ` "${result.target}"` : ''} did not apply: ${err.message}`);
+        result.error = err.message;
+      }
+    }
+
+    return { results, replacement };
+  }
+
+  private unsupported(language: string, op: PatchOperation): never {
+    throw new Error(`${op.type} is not supported for ${language}`);
   }
 
   // ============================================
-  // JavaScript/TypeScript Support (existing)
+  // JavaScript/TypeScript Support (recast)
   // ============================================
 
-  private applyJSPatches(sourceCode: string, operations: PatchOperation[]): string {
+  private parseJS(code: string): any {
+    return recast.parse(code, { parser: JS_PARSER });
+  }
+
+  private applyJSPatches(sourceCode: string, operations: PatchOperation[]): PatchReport {
     let ast: any;
-    
+
     try {
-      ast = recast.parse(sourceCode, {
-        parser: {
-          parse(code: string) {
-            return parser.parse(code, {
-              sourceType: 'module',
-              plugins: ['typescript', 'jsx', 'decorators-legacy', 'classProperties', 'estree'],
-              tokens: true // Recast needs tokens
-            });
-          }
-        }
-      });
-    } catch (e) {
+      ast = this.parseJS(sourceCode);
+    } catch (e: any) {
       console.error('Failed to parse JS/TS AST:', e);
-      // Fallback: if we can't parse, check if there's a full replace
-      const fullReplace = operations.find(op => op.type === 'replace_file');
-      if (fullReplace && fullReplace.type === 'replace_file') {
-        return fullReplace.code;
-      }
-      throw new Error('AST Parse Failed and no full replace fallback provided.');
+      // Fallback: if we can't parse, only a full replace can still apply
+      const { results, replacement } = this.runOperations('JS/TS', operations, () => {
+        throw new Error(`Source could not be parsed: ${e.message}`);
+      });
+      const code = replacement ?? sourceCode;
+      return { code, changed: code !== sourceCode, results };
     }
 
-    // Apply operations
-    for (const op of operations) {
-      try {
-        switch (op.type) {
-          case 'replace_function':
-            this.replaceFunctionJS(ast, op.name, op.newCode);
-            break;
-          case 'add_import':
-            this.addImportJS(ast, op.code);
-            break;
-          case 'replace_file':
-            // If mixed with others, this overrides everything
-            return op.code;
-        }
-      } catch (err) {
-        console.error(`Failed to apply JS patch ${op.type}:`, err);
-        throw err;
+    const { results, replacement } = this.runOperations('JS/TS', operations, (op) => {
+      switch (op.type) {
+        case 'replace_function':
+          return this.replaceFunctionJS(ast, op.name, op.newCode);
+        case 'replace_class':
+          return this.replaceClassJS(ast, op.name, op.newCode);
+        case 'replace_method':
+          return this.replaceMethodJS(ast, op.className, op.name, op.newCode);
+        case 'remove_symbol':
+          return op.className
+            ? this.removeMethodJS(ast, op.className, op.name)
+            : this.removeSymbolJS(ast, op.name);
+        case 'insert_after_symbol':
+          return op.className
+            ? this.insertAfterMethodJS(ast, op.className, op.name, op.code)
+            : this.insertAfterSymbolJS(ast, op.name, op.code);
+        case 'rename_symbol':
+          return this.renameSymbolJS(ast, op.name, op.newName);
+        case 'add_import':
+          return this.addImportJS(ast, op.code);
+        default:
+          return this.unsupported('JS/TS', op);
       }
-    }
+    });
 
-    return recast.print(ast).code;
+    const code = replacement ?? recast.print(ast).code;
+    return { code, changed: code !== sourceCode, results };
   }
 
   private replaceFunctionJS(ast: any, functionName: string, newCode: string) {
     // Parse new code to get the node
-    const newAst = recast.parse(newCode, {
-      parser: {
-        parse(code: string) {
-          return parser.parse(code, {
-            sourceType: 'module',
-            plugins: ['typescript', 'jsx', 'decorators-legacy', 'classProperties', 'estree'],
-            tokens: true
-          });
-        }
-      }
-    });
-    
+    const newAst = this.parseJS(newCode);
+
     // Extract the function node from newAst
     let newNode: any = null;
     visit(newAst, {
@@ -110,7 +264,7 @@ export class PatchEngine {
       },
       visitVariableDeclarator(path) {
          // Handle const foo = () => {}
-         if (path.node.id.type === 'Identifier' && path.node.init && 
+         if (path.node.id.type === 'Identifier' && path.node.init &&
             (path.node.init.type === 'ArrowFunctionExpression' || path.node.init.type === 'FunctionExpression')) {
              newNode = path.parent.node; // The VariableDeclaration
              return false;
@@ -124,7 +278,7 @@ export class PatchEngine {
     }
 
     let found = false;
-    
+
     // Find and replace in original AST
     visit(ast, {
       visitFunctionDeclaration(path) {
@@ -151,87 +305,560 @@ export class PatchEngine {
     }
   }
 
-  private addImportJS(ast: any, importCode: string) {
-    const newAst = recast.parse(importCode, {
-        parser: {
-            parse(code: string) {
-                return parser.parse(code, {
-                    sourceType: 'module',
-                    plugins: ['typescript', 'jsx', 'decorators-legacy', 'classProperties', 'estree'],
-                    tokens: true
-                });
-            }
+  private replaceClassJS(ast: any, className: string, newCode: string) {
+    const classPath = this.findClassJS(ast, className);
+    const newClass = this.parseJS(newCode).program.body
+      .map((node: any) => node.declaration || node)
+      .find((node: any) => node.type === 'ClassDeclaration');
+
+    if (!newClass) {
+      throw new Error(`Could not parse new class code for ${className}`);
+    }
+
+    if (classPath.node.type === 'ClassDeclaration') {
+      classPath.replace(newClass);
+    } else {
+      // const Foo = class { ... }: keep the binding, swap the class
+      classPath.replace({ ...newClass, type: 'ClassExpression' });
+    }
+  }
+
+  private replaceMethodJS(ast: any, className: string, methodName: string, newCode: string) {
+    const members = this.findClassMembersJS(ast, className, methodName);
+    const newMembers = this.parseClassMembersJS(newCode);
+
+    if (newMembers.length === 0) {
+      throw new Error(`Could not parse new method code for ${className}.${methodName}`);
+    }
+
+    // Overloads and get/set pairs share a name; all of them give way to the new code
+    members[0].replace(...newMembers);
+    for (const member of members.slice(1)) member.prune();
+  }
+
+  private removeSymbolJS(ast: any, name: string) {
+    const declaration = this.findDeclarationJS(ast, name);
+
+    // const a = 1, b = 2: drop the declarator only (prune cleans up empty parents)
+    if (declaration.node.type === 'VariableDeclarator' && declaration.parent.node.declarations.length > 1) {
+      declaration.prune();
+      return;
+    }
+    this.statementPathJS(declaration).prune();
+  }
+
+  private removeMethodJS(ast: any, className: string, memberName: string) {
+    for (const member of this.findClassMembersJS(ast, className, memberName)) {
+      member.prune();
+    }
+  }
+
+  private insertAfterSymbolJS(ast: any, name: string, code: string) {
+    const statement = this.statementPathJS(this.findDeclarationJS(ast, name));
+    const newNodes = this.parseJS(code).program.body;
+
+    if (newNodes.length === 0) {
+      throw new Error('Nothing to insert: code parsed to no statements');
+    }
+    statement.insertAfter(...newNodes);
+  }
+
+  private insertAfterMethodJS(ast: any, className: string, memberName: string, code: string) {
+    const members = this.findClassMembersJS(ast, className, memberName);
+    const newMembers = this.parseClassMembersJS(code);
+
+    if (newMembers.length === 0) {
+      throw new Error('Nothing to insert: code parsed to no class members');
+    }
+    members[members.length - 1].insertAfter(...newMembers);
+  }
+
+  /**
+   * Rename a binding and every reference that resolves to it. Shadowing
+   * bindings in inner scopes and member accesses (`obj.name`) are left alone.
+   */
+  private renameSymbolJS(ast: any, name: string, newName: string): number {
+    const declaration = this.findDeclarationJS(ast, name);
+    // Compare scope nodes: each visit() builds fresh paths and Scope objects
+    const bindingScope = (declaration.scope?.lookup(name) || declaration.scope)?.node;
+    let occurrences = 0;
+
+    const resolvesToBinding = (path: any) => {
+      const scope = path.scope?.lookup(name);
+      return !scope || !bindingScope || scope.node === bindingScope;
+    };
+
+    visit(ast, {
+      visitIdentifier(path) {
+        const node: any = path.node;
+        const parent: any = path.parent?.node;
+        if (node.name !== name) return false;
+
+        if (path.name === 'key' && parent?.shorthand) {
+          // { name } -> { name: newName }; the value side gets renamed next
+          if (resolvesToBinding(path)) parent.shorthand = false;
+          return false;
+        }
+        if ((path.name === 'key' || path.name === 'property') && !parent?.computed) {
+          return false; // obj.name, { name: x }, class members: not the binding
+        }
+        if (parent?.type === 'ImportSpecifier' && path.name === 'imported') {
+          return false; // import { name as newName }
+        }
+        if (!resolvesToBinding(path)) return false;
+
+        node.name = newName;
+        occurrences++;
+        return false;
+      },
+      visitJSXIdentifier(path) {
+        const node: any = path.node;
+        const isAttribute = path.parent?.node.type === 'JSXAttribute';
+        if (node.name === name && path.name !== 'property' && !isAttribute && resolvesToBinding(path)) {
+          node.name = newName;
+          occurrences++;
         }
+        return false;
+      }
     });
-    const newImport = newAst.program.body[0];
+
+    return occurrences;
+  }
+
+  private addImportJS(ast: any, importCode: string) {
+    const newImport = this.parseJS(importCode).program.body[0];
 
     // Prepend to body
     ast.program.body.unshift(newImport);
   }
 
+  /**
+   * Shallowest declaration of `name`: function, class, variable, or TS type/enum
+   */
+  private findDeclarationJS(ast: any, name: string): any {
+    let best: any = null;
+    let bestDepth = Infinity;
+
+    visit(ast, {
+      visitNode(path) {
+        const node: any = path.node;
+        const declared =
+          (JS_DECLARATION_TYPES.includes(node.type) && node.id?.name === name) ||
+          (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.id.name === name);
+
+        if (declared) {
+          let depth = 0;
+          for (let p = path.parentPath; p; p = p.parentPath) depth++;
+          if (depth < bestDepth) {
+            best = path;
+            bestDepth = depth;
+          }
+        }
+        this.traverse(path);
+      }
+    });
+
+    if (!best) {
+      throw new Error(`Symbol ${name} not found in source.`);
+    }
+    return best;
+  }
+
+  /**
+   * The statement a declaration lives in, including any `export` wrapper
+   */
+  private statementPathJS(declaration: any): any {
+    let statement = declaration.node.type === 'VariableDeclarator' ? declaration.parent : declaration;
+    const parentType = statement.parent?.node?.type;
+    if (parentType === 'ExportNamedDeclaration' || parentType === 'ExportDefaultDeclaration') {
+      statement = statement.parent;
+    }
+    return statement;
+  }
+
+  private findClassJS(ast: any, className: string): any {
+    const declaration = this.findDeclarationJS(ast, className);
+
+    if (declaration.node.type === 'ClassDeclaration') return declaration;
+    if (declaration.node.type === 'VariableDeclarator' && declaration.node.init?.type === 'ClassExpression') {
+      return declaration.get('init');
+    }
+    throw new Error(`${className} is not a class.`);
+  }
+
+  private findClassMembersJS(ast: any, className: string, memberName: string): any[] {
+    const body = this.findClassJS(ast, className).get('body', 'body');
+    const members: any[] = [];
+
+    for (let i = 0; i < body.value.length; i++) {
+      const member = body.get(i);
+      const key = member.node.key;
+      const keyName = key?.name ?? key?.value ?? key?.id?.name;
+      if (JS_CLASS_MEMBER_TYPES.includes(member.node.type) && keyName === memberName) {
+        members.push(member);
+      }
+    }
+
+    if (members.length === 0) {
+      throw new Error(`Member ${className}.${memberName} not found in source.`);
+    }
+    return members;
+  }
+
+  private parseClassMembersJS(code: string): any[] {
+    const wrapper = this.parseJS(`class __Patch__ {\n${code}\n}`);
+    return wrapper.program.body[0].body.body;
+  }
+
   // ============================================
-  // Python Support
+  // Python Support (indentation-aware blocks)
   // ============================================
 
-  private applyPythonPatches(sourceCode: string, operations: PatchOperation[]): string {
-    // For MVP, use text-based approach for Python
-    // Future: Use python-ast-parser or similar
-    
+  private applyPythonPatches(sourceCode: string, operations: PatchOperation[]): PatchReport {
     let result = sourceCode;
-    
-    for (const op of operations) {
-      try {
-        switch (op.type) {
-          case 'replace_function':
-            result = this.replaceFunctionPython(result, op.name, op.newCode);
-            break;
-          case 'add_import':
-            result = this.addImportPython(result, op.code);
-            break;
-          case 'replace_file':
-            return op.code;
+
+    const { results, replacement } = this.runOperations('Python', operations, (op) => {
+      switch (op.type) {
+        case 'replace_function':
+          result = this.replaceBlockPython(result, this.findPythonBlock(result, op.name, undefined, 'def'), op.newCode);
+          return;
+        case 'replace_class':
+          result = this.replaceBlockPython(result, this.findPythonBlock(result, op.name, undefined, 'class'), op.newCode);
+          return;
+        case 'replace_method':
+          result = this.replaceBlockPython(result, this.findPythonBlock(result, op.name, op.className, 'def'), op.newCode);
+          return;
+        case 'remove_symbol':
+          result = this.removeBlockPython(result, this.findPythonBlock(result, op.name, op.className));
+          return;
+        case 'insert_after_symbol':
+          result = this.insertAfterBlockPython(result, this.findPythonBlock(result, op.name, op.className), op.code);
+          return;
+        case 'rename_symbol': {
+          const renamed = this.renameSymbolPython(result, op.name, op.newName);
+          result = renamed.code;
+          return renamed.occurrences;
         }
-      } catch (err) {
-        console.error(`Failed to apply Python patch ${op.type}:`, err);
-        throw err;
+        case 'add_import':
+          result = this.addImportPython(result, op.code);
+          return;
+        default:
+          return this.unsupported('Python', op);
+      }
+    });
+
+    const code = replacement ?? result;
+    return { code, changed: code !== sourceCode, results };
+  }
+
+  /**
+   * Locate `def`/`class`/assignment `name` (inside `className` if given) and
+   * return its line range, decorators included and trailing blanks excluded.
+   */
+  private findPythonBlock(sourceCode: string, name: string, className?: string, kind?: 'def' | 'class'): PythonBlock {
+    const { lines } = scanPython(sourceCode);
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const patterns = {
+      def: new RegExp(`^(?:async\\s+)?def\\s+${escaped}\\s*[(\\[]`),
+      class: new RegExp(`^class\\s+${escaped}\\b\\s*[(:\\[]`),
+      assign: new RegExp(`^${escaped}\\s*(?::[^=]*)?=(?!=)`),
+    };
+    const matchers = kind ? [patterns[kind]] : [patterns.def, patterns.class, patterns.assign];
+
+    let from = 0;
+    let to = lines.length;
+    let bodyIndent: number | null = 0;
+
+    if (className) {
+      const owner = this.findPythonBlock(sourceCode, className, undefined, 'class');
+      from = owner.headerLine + 1;
+      to = owner.end + 1;
+      bodyIndent = null; // first code line of the class body sets it
+    }
+
+    for (let i = from; i < to; i++) {
+      const line = lines[i];
+      if (line.kind !== 'code') continue;
+      if (bodyIndent === null) bodyIndent = line.indent;
+      // Top-level search (no class) accepts any depth, preferring the shallowest
+      if (className && line.indent !== bodyIndent) continue;
+
+      const statement = line.text.trim();
+      if (!matchers.some(m => m.test(statement))) continue;
+      if (!className && this.shallowerPythonMatch(lines, matchers, line.indent, i, to)) continue;
+
+      return this.pythonBlockAt(lines, i);
+    }
+
+    const kindLabel = kind === 'class' ? 'Class' : kind === 'def' ? (className ? 'Method' : 'Function') : 'Symbol';
+    throw new Error(`${kindLabel} ${className ? `${className}.` : ''}${name} not found in Python source.`);
+  }
+
+  private shallowerPythonMatch(lines: PythonLine[], matchers: RegExp[], indent: number, index: number, to: number): boolean {
+    for (let j = index + 1; j < to; j++) {
+      if (lines[j].kind === 'code' && lines[j].indent < indent && matchers.some(m => m.test(lines[j].text.trim()))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private pythonBlockAt(lines: PythonLine[], headerLine: number): PythonBlock {
+    const indent = lines[headerLine].indent;
+
+    // Decorators directly above at the same indentation belong to the block
+    let start = headerLine;
+    while (start > 0 && lines[start - 1].kind === 'code' && lines[start - 1].indent === indent &&
+      lines[start - 1].text.trim().startsWith('@')) {
+      start--;
+    }
+
+    const end = pythonBlockEnd(lines, headerLine);
+    return { start, headerLine, end, indent: lines[headerLine].text.slice(0, indent) };
+  }
+
+  private reindentPython(code: string, indent: string): string[] {
+    const lines = code.replace(/\s+$/, '').split('\n');
+    while (lines.length && !lines[0].trim()) lines.shift();
+    const common = Math.min(...lines.filter(l => l.trim()).map(l => l.length - l.trimStart().length));
+    return lines.map(l => (l.trim() ? indent + l.slice(common) : ''));
+  }
+
+  private replaceBlockPython(sourceCode: string, block: PythonBlock, newCode: string): string {
+    const lines = sourceCode.split('\n');
+    lines.splice(block.start, block.end - block.start + 1, ...this.reindentPython(newCode, block.indent));
+    return lines.join('\n');
+  }
+
+  private removeBlockPython(sourceCode: string, block: PythonBlock): string {
+    const lines = sourceCode.split('\n');
+    let start = block.start;
+    let end = block.end;
+
+    if (!lines.slice(end + 1).some(l => l.trim())) {
+      // Last in the file: take the blank lines above it, keep the final newline
+      while (start > 0 && !lines[start - 1].trim()) start--;
+      lines.splice(start);
+      return lines.join('\n') + (sourceCode.endsWith('\n') ? '\n' : '');
+    }
+
+    // Take the blank lines that separated it from the next statement with it
+    while (end + 1 < lines.length && !lines[end + 1].trim() && (start === 0 || !lines[start - 1].trim())) {
+      end++;
+    }
+    lines.splice(start, end - start + 1);
+    return lines.join('\n');
+  }
+
+  private insertAfterBlockPython(sourceCode: string, block: PythonBlock, code: string): string {
+    const lines = sourceCode.split('\n');
+    // PEP 8: two blank lines between top-level definitions, one inside classes
+    const spacing = block.indent ? [''] : ['', ''];
+    lines.splice(block.end + 1, 0, ...spacing, ...this.reindentPython(code, block.indent));
+    return lines.join('\n');
+  }
+
+  /**
+   * Rename identifier tokens outside strings and comments. Attribute access
+   * (`obj.name`) and keyword arguments (`f(name=...)`) are left alone.
+   * Text matching cannot tell scopes apart, so the rename is refused when a
+   * def or class rebinds the name and the name is also used outside it.
+   */
+  private renameSymbolPython(sourceCode: string, name: string, newName: string): { code: string; occurrences: number } {
+    const { lines, masked } = scanPython(sourceCode);
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(?<![\\w.])${escaped}(?!\\w)`, 'g');
+
+    const sites: number[] = [];
+    for (const match of masked.matchAll(pattern)) {
+      const after = masked.slice(match.index! + name.length);
+      const before = masked.slice(0, match.index!);
+      const isKeywordArg = /^\s*=(?!=)/.test(after) && this.insideCallPython(before);
+      if (!isKeywordArg) sites.push(match.index!);
+    }
+
+    if (sites.length === 0) {
+      throw new Error(`Symbol ${name} not found in Python source.`);
+    }
+
+    const shadow = this.findShadowingScopePython(lines, masked, name, sites);
+    if (shadow) {
+      throw new Error(
+        `${name} is rebound inside ${shadow} and also used outside it; ` +
+        'a text rename cannot tell the two apart, so replace the affected blocks instead'
+      );
+    }
+
+    let code = sourceCode;
+    for (const index of sites.reverse()) {
+      code = code.slice(0, index) + newName + code.slice(index + name.length);
+    }
+    return { code, occurrences: sites.length };
+  }
+
+  /**
+   * First def or class (as "def f (line 3)") that binds `name` in its own
+   * scope while one of `sites` lies outside it; null when the rename is safe.
+   */
+  private findShadowingScopePython(lines: PythonLine[], masked: string, name: string, sites: number[]): string | null {
+    const maskedLines = masked.split('\n');
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const lineStarts: number[] = [];
+    let offset = 0;
+    for (const line of maskedLines) {
+      lineStarts.push(offset);
+      offset += line.length + 1;
+    }
+    // Sites come in source order, so one pass assigns each its line
+    const siteLines: number[] = [];
+    let line = 0;
+    for (const site of sites) {
+      while (line + 1 < lineStarts.length && lineStarts[line + 1] <= site) line++;
+      siteLines.push(line);
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].kind !== 'code') continue;
+      const header = /^(?:async\s+)?(def|class)\s+(\w+)/.exec(lines[i].text.trim());
+      if (!header) continue;
+
+      const block = this.pythonBlockAt(lines, i);
+      const statements = this.pythonStatements(lines, maskedLines, i, block.end);
+      if (header[1] === 'def' && statements.some(st => new RegExp(`^(?:global|nonlocal)\\b.*\\b${escaped}\\b`).test(st))) {
+        continue;
+      }
+      const bound =
+        (header[1] === 'def' && this.pythonParameters(statements[0]).includes(name)) ||
+        statements.slice(1).some(statement => this.bindsNamePython(statement, name));
+      if (!bound) continue;
+
+      // The def/class name itself is bound in the enclosing scope
+      const ownName = header[2] === name ? lineStarts[i] + lines[i].indent + header[0].length - name.length : -1;
+      const usedOutside = sites.some((site, k) => siteLines[k] < i || siteLines[k] > block.end || site === ownName);
+      if (usedOutside) return `${header[1]} ${header[2]} (line ${i + 1})`;
+    }
+    return null;
+  }
+
+  /**
+   * Logical statements of lines from..to (continuation lines joined), trimmed.
+   */
+  private pythonStatements(lines: PythonLine[], maskedLines: string[], from: number, to: number): string[] {
+    const statements: string[] = [];
+    for (let i = from; i <= to; i++) {
+      if (lines[i].kind === 'continuation' && statements.length > 0) {
+        statements[statements.length - 1] += ' ' + maskedLines[i].trim();
+      } else if (lines[i].kind === 'code') {
+        statements.push(maskedLines[i].trim());
       }
     }
-    
-    return result;
-  }
-
-  private replaceFunctionPython(sourceCode: string, functionName: string, newCode: string): string {
-    // Match Python function definition: "def functionName(...):
-    // This is a simplified regex-based approach
-    
-    // Pattern: def functionName(...):\n    body (with proper indentation)
-    const functionRegex = new RegExp(
-      `^([ \\t]*)def ${functionName}\\([^)]*\\):.*?(?=^\\1(?:def |class |$)|\\Z)`,
-      'gms'
-    );
-    
-    const match = sourceCode.match(functionRegex);
-    
-    if (!match) {
-      throw new Error(`Function ${functionName} not found in Python source.`);
-    }
-    
-    // Extract indentation from original
-    const indentation = match[1];
-    
-    // Apply same indentation to new code
-    const indentedNewCode = newCode.split('\n')
-      .map(line => line ? indentation + line : line)
-      .join('\n');
-    
-    // Replace
-    return sourceCode.replace(functionRegex, indentedNewCode);
+    return statements;
+  }
+
+  /**
+   * Parameter names of a `def` header statement.
+   */
+  private pythonParameters(header: string): string[] {
+    const open = header.indexOf('(');
+    if (open === -1) return [];
+    const names: string[] = [];
+    let depth = 0;
+    let piece = '';
+    for (const ch of header.slice(open + 1)) {
+      if (depth === 0 && (ch === ',' || ch === ')')) {
+        const param = /^\**\s*(\w+)/.exec(piece.trim());
+        if (param) names.push(param[1]);
+        piece = '';
+        if (ch === ')') break;
+        continue;
+      }
+      if ('([{'.includes(ch)) depth++;
+      if (')]}'.includes(ch)) depth--;
+      piece += ch;
+    }
+    return names;
+  }
+
+  /**
+   * Whether a statement binds `name` in the current scope: assignment or
+   * for/with/except/import target, walrus, or a nested def/class.
+   */
+  private bindsNamePython(statement: string, name: string): boolean {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const token = `(?<![\\w.])${escaped}(?!\\w)`;
+    const isTarget = (targets: string) =>
+      this.splitTopLevelPython(targets).some(t => t.replace(/[*()[\]\s]/g, '').replace(/:.*$/, '') === name);
+
+    if (new RegExp(`^(?:async\\s+)?(?:def|class)\\s+${escaped}\\b`).test(statement)) return true;
+    if (new RegExp(`\\bas\\s+${escaped}(?!\\w)`).test(statement)) return true;
+    if (new RegExp(`${token}\\s*:=`).test(statement)) return true;
+    if (/^(?:import|from)\b/.test(statement)) {
+      const imported = statement.replace(/^from\s+\S+\s+/, '').replace(/^import\s+/, '');
+      return this.splitTopLevelPython(imported).some(t => t.replace(/[()\s]/g, '').split('.')[0] === name);
+    }
+    const loop = /^(?:async\s+)?for\s+(.+?)\s+in\b/.exec(statement);
+    if (loop) return isTarget(loop[1]);
+
+    // Target of the first top-level `=` or augmented assignment, or a bare annotation
+    let depth = 0;
+    for (let i = 0; i < statement.length; i++) {
+      const ch = statement[i];
+      if ('([{'.includes(ch)) depth++;
+      else if (')]}'.includes(ch)) depth--;
+      else if (depth === 0 && ch === '=' && statement[i + 1] !== '=' && this.isAssignmentPython(statement, i)) {
+        return isTarget(statement.slice(0, i).replace(/(?:\*\*|\/\/|>>|<<|[-+*/%&|^@])$/, ''));
+      }
+    }
+    return new RegExp(`^${escaped}\\s*:`).test(statement);
+  }
+
+  // `=` at index is an assignment (plain, augmented, or `>>=`/`<<=`), not part of a comparison or walrus
+  private isAssignmentPython(statement: string, index: number): boolean {
+    const prev = statement[index - 1] || '';
+    if (prev && '=!:'.includes(prev)) return false;
+    if (prev && '<>'.includes(prev)) return statement[index - 2] === prev;
+    return true;
+  }
+
+  private splitTopLevelPython(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let piece = '';
+    for (const ch of text) {
+      if ('([{'.includes(ch)) depth++;
+      if (')]}'.includes(ch)) depth--;
+      if (ch === ',' && depth === 0) {
+        parts.push(piece);
+        piece = '';
+      } else {
+        piece += ch;
+      }
+    }
+    parts.push(piece);
+    return parts;
+  }
+
+  /**
+   * Whether the innermost open bracket before this point is a call's `(`;
+   * a def's parameter list is not a call, so `name=default` there is a parameter.
+   */
+  private insideCallPython(before: string): boolean {
+    let depth = 0;
+    for (let i = before.length - 1; i >= 0; i--) {
+      const ch = before[i];
+      if (')]}'.includes(ch)) depth++;
+      else if ('([{'.includes(ch)) {
+        if (depth === 0) return ch === '(' && !/\bdef\s+\w+\s*(?:\[[^\]]*\])?\s*$/.test(before.slice(0, i));
+        depth--;
+      }
+    }
+    return false;
   }
 
   private addImportPython(sourceCode: string, importCode: string): string {
     // Add import at the top, after any existing imports
     const lines = sourceCode.split('\n');
-    
+
     // Find the last import line
     let lastImportIndex = -1;
     for (let i = 0; i < lines.length; i++) {
@@ -243,89 +870,345 @@ export class PatchEngine {
         break;
       }
     }
-    
+
     // Insert after last import, or at the top if no imports
     const insertIndex = lastImportIndex === -1 ? 0 : lastImportIndex + 1;
     lines.splice(insertIndex, 0, importCode);
-    
+
     return lines.join('\n');
   }
 
   // ============================================
-  // Bash Support
+  // CSS Support (rule-level)
   // ============================================
 
-  private applyBashPatches(sourceCode: string, operations: PatchOperation[]): string {
+  private applyCSSPatches(sourceCode: string, operations: PatchOperation[], lineComments: boolean): PatchReport {
     let result = sourceCode;
-    
-    for (const op of operations) {
-      try {
-        switch (op.type) {
-          case 'replace_function':
-            result = this.replaceFunctionBash(result, op.name, op.newCode);
-            break;
-          case 'add_import':
-            // Bash doesn't have imports, but we can add source statements
-            result = this.addSourceBash(result, op.code);
-            break;
-          case 'replace_file':
-            return op.code;
+
+    const { results, replacement } = this.runOperations('CSS', operations, (op) => {
+      switch (op.type) {
+        case 'replace_rule': {
+          const rule = this.findCSSRule(result, op.selector, lineComments);
+          result = result.slice(0, rule.start) + op.newCode.trim() + result.slice(rule.end);
+          return 1;
+        }
+        case 'remove_symbol': {
+          const rule = this.findCSSRule(result, op.name, lineComments);
+          const lineStart = result.lastIndexOf('\n', rule.start - 1) + 1;
+          const ownsLine = !result.slice(lineStart, rule.start).trim();
+          const newline = result.indexOf('\n', rule.end);
+          const removeTo = ownsLine && newline !== -1 && !result.slice(rule.end, newline).trim() ? newline + 1 : rule.end;
+          result = result.slice(0, ownsLine ? lineStart : rule.start) + result.slice(removeTo);
+          return;
         }
-      } catch (err) {
-        console.error(`Failed to apply Bash patch ${op.type}:`, err);
-        throw err;
+        case 'insert_after_symbol': {
+          const rule = this.findCSSRule(result, op.name, lineComments);
+          const lineStart = result.lastIndexOf('\n', rule.start - 1) + 1;
+          const indent = result.slice(lineStart, rule.start).match(/^[ \t]*/)![0];
+          const inserted = op.code.trim().split('\n').map(l => (l.trim() ? indent + l.trim() : l)).join('\n');
+          result = result.slice(0, rule.end) + '\n\n' + inserted + result.slice(rule.end);
+          return;
+        }
+        case 'rename_symbol':
+          return this.renameSelectorCSS(result, op.name, op.newName, lineComments, (code) => { result = code; });
+        case 'add_import':
+          result = this.addImportCSS(result, op.code);
+          return;
+        default:
+          return this.unsupported('CSS', op);
       }
+    });
+
+    const code = replacement ?? result;
+    return { code, changed: code !== sourceCode, results };
+  }
+
+  /**
+   * Every rule (including those nested in @media/@supports) as selector + span
+   */
+  private parseCSSRules(sourceCode: string, lineComments: boolean): CSSRule[] {
+    const rules: CSSRule[] = [];
+    const open: { selector: string; start: number }[] = [];
+    let segmentStart = 0;
+
+    for (let i = 0; i < sourceCode.length; i++) {
+      const ch = sourceCode[i];
+
+      if (ch === '/' && sourceCode[i + 1] === '*') {
+        const end = sourceCode.indexOf('*/', i + 2);
+        // A comment before any selector text isn't part of the next rule's prelude
+        const leadsSegment = !sourceCode.slice(segmentStart, i).trim();
+        i = end === -1 ? sourceCode.length : end + 1;
+        if (leadsSegment) segmentStart = i + 1;
+        continue;
+      }
+      if (lineComments && ch === '/' && sourceCode[i + 1] === '/' && sourceCode[i - 1] !== ':') {
+        const end = sourceCode.indexOf('\n', i);
+        i = end === -1 ? sourceCode.length : end;
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        for (i++; i < sourceCode.length && sourceCode[i] !== ch; i++) {
+          if (sourceCode[i] === '\\') i++;
+        }
+        continue;
+      }
+
+      if (ch === '{') {
+        const raw = sourceCode.slice(segmentStart, i);
+        const leading = raw.length - raw.trimStart().length;
+        open.push({ selector: raw.trim(), start: segmentStart + leading });
+        segmentStart = i + 1;
+      } else if (ch === '}') {
+        const rule = open.pop();
+        if (rule) rules.push({ selector: rule.selector, start: rule.start, end: i + 1, depth: open.length });
+        segmentStart = i + 1;
+      } else if (ch === ';') {
+        segmentStart = i + 1;
+      }
+    }
+
+    return rules.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Whitespace and comments dropped, and a selector list sorted, so
+   * ".c, .b" and ".b,.c" name the same rule
+   */
+  private normalizeSelector(selector: string): string {
+    const compact = selector
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/\s*([,>+~])\s*/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+    return this.splitSelectorList(compact).sort().join(',');
+  }
+
+  /**
+   * Split on top-level commas only: not inside :is(...) or [attr="a,b"]
+   */
+  private splitSelectorList(selector: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote = '';
+    let start = 0;
+    for (let i = 0; i < selector.length; i++) {
+      const ch = selector[i];
+      if (quote) {
+        if (ch === '\\') i++;
+        else if (ch === quote) quote = '';
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === '(' || ch === '[') {
+        depth++;
+      } else if (ch === ')' || ch === ']') {
+        depth--;
+      } else if (ch === ',' && depth === 0) {
+        parts.push(selector.slice(start, i));
+        start = i + 1;
+      }
+    }
+    parts.push(selector.slice(start));
+    return parts;
+  }
+
+  /**
+   * The one rule with this selector. A selector used by several rules (e.g.
+   * again inside @media) is refused rather than guessed at.
+   */
+  private findCSSRule(sourceCode: string, selector: string, lineComments: boolean): CSSRule {
+    const wanted = this.normalizeSelector(selector);
+    const rules = this.parseCSSRules(sourceCode, lineComments)
+      .filter(rule => this.normalizeSelector(rule.selector) === wanted);
+
+    if (rules.length === 0) {
+      throw new Error(`Rule "${selector}" not found in stylesheet.`);
+    }
+    if (rules.length > 1) {
+      const lines = rules.map(rule => sourceCode.slice(0, rule.start).split('\n').length);
+      throw new Error(
+        `Rule "${selector}" is ambiguous: ${rules.length} rules match (lines ${lines.join(', ')}); use apply_diff to change one.`
+      );
     }
-    
-    return result;
+    return rules[0];
+  }
+
+  /**
+   * Rename a class/id/element token (".btn" -> ".button") inside selectors only
+   */
+  private renameSelectorCSS(
+    sourceCode: string,
+    name: string,
+    newName: string,
+    lineComments: boolean,
+    update: (code: string) => void
+  ): number {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'g');
+    const rules = this.parseCSSRules(sourceCode, lineComments).filter(rule => !rule.selector.startsWith('@'));
+
+    let code = sourceCode;
+    let occurrences = 0;
+    for (const rule of [...rules].reverse()) {
+      const renamed = rule.selector.replace(pattern, () => { occurrences++; return newName; });
+      if (renamed !== rule.selector) {
+        code = code.slice(0, rule.start) + renamed + code.slice(rule.start + rule.selector.length);
+      }
+    }
+
+    if (occurrences === 0) {
+      throw new Error(`Selector token "${name}" not found in stylesheet.`);
+    }
+    update(code);
+    return occurrences;
+  }
+
+  private addImportCSS(sourceCode: string, importCode: string): string {
+    // @import must precede every rule except @charset
+    const lines = sourceCode.split('\n');
+    let insertIndex = 0;
+    for (let i = 0; i < lines.length; i++) {
+      if (/^\s*@(import|charset|use|forward)\b/.test(lines[i])) insertIndex = i + 1;
+    }
+    lines.splice(insertIndex, 0, importCode);
+    return lines.join('\n');
+  }
+
+  // ============================================
+  // Bash Support
+  // ============================================
+
+  private applyBashPatches(sourceCode: string, operations: PatchOperation[]): PatchReport {
+    let result = sourceCode;
+
+    const { results, replacement } = this.runOperations('Bash', operations, (op) => {
+      switch (op.type) {
+        case 'replace_function':
+          result = this.replaceFunctionBash(result, op.name, op.newCode);
+          return;
+        case 'add_import':
+          // Bash doesn't have imports, but we can add source statements
+          result = this.addSourceBash(result, op.code);
+          return;
+        default:
+          return this.unsupported('Bash', op);
+      }
+    });
+
+    const code = replacement ?? result;
+    return { code, changed: code !== sourceCode, results };
   }
 
   private replaceFunctionBash(sourceCode: string, functionName: string, newCode: string): string {
     // Match Bash function: functionName() { ... }
     // Two patterns: function name() {} or name() {}
-    
+
     const patterns = [
       new RegExp(`^function ${functionName}\\s*\\(\\)\\s*\\{[^}]*\\}`, 'gm'),
       new RegExp(`^${functionName}\\s*\\(\\)\\s*\\{[^}]*\\}`, 'gm')
     ];
-    
+
     for (const pattern of patterns) {
       if (pattern.test(sourceCode)) {
         return sourceCode.replace(pattern, newCode);
       }
     }
-    
+
     throw new Error(`Function ${functionName} not found in Bash source.`);
   }
 
   private addSourceBash(sourceCode: string, sourceStatement: string): string {
     // Add source/import at the top
     const lines = sourceCode.split('\n');
-    
+
     // Skip shebang if present
     let insertIndex = 0;
     if (lines[0]?.startsWith('#!')) {
       insertIndex = 1;
     }
-    
+
     lines.splice(insertIndex, 0, sourceStatement);
     return lines.join('\n');
   }
 
+  // ============================================
+  // Unified Diffs (any language)
+  // ============================================
+
+  /**
+   * Apply a unified diff with fuzzy context matching. If hunks don't fit the
+   * current file and the base it was written against is known, apply it to
+   * the base instead and three-way merge that with the current file.
+   */
+  private applyDiff(
+    filePath: string,
+    sourceCode: string,
+    op: Extract<PatchOperation, { type: 'apply_diff' }>
+  ): { code: string; result: PatchOperationResult } {
+    const result: PatchOperationResult = { type: op.type, target: filePath, matched: false };
+    const fail = (error: string, conflicts?: ConflictHunk[]) => {
+      console.warn(`[PatchEngine] ⚠️ apply_diff "${filePath}" did not apply: ${error}`);
+      return { code: sourceCode, result: { ...result, error, conflicts } };
+    };
+
+    const fileDiff = selectFileDiff(parseUnifiedDiff(op.diff), filePath);
+    if (!fileDiff) {
+      return fail('Diff has no hunks for this file');
+    }
+
+    const direct = applyUnifiedDiff(sourceCode, fileDiff.hunks);
+    if (direct.failed.length === 0) {
+      const strategy = direct.hunks.every(h => h.status === 'applied') ? 'exact' : 'fuzzy';
+      return { code: direct.code, result: { ...result, matched: true, strategy } };
+    }
+
+    if (op.base === undefined) {
+      return fail(`${direct.failed.length} of ${fileDiff.hunks.length} hunks did not match and no base is available to merge against`, direct.failed);
+    }
+    if (op.baseSha256 && createHash('sha256').update(op.base).digest('hex') !== op.baseSha256) {
+      return fail('Base content does not match its recorded sha256', direct.failed);
+    }
+
+    const onBase = applyUnifiedDiff(op.base, fileDiff.hunks);
+    if (onBase.failed.length > 0) {
+      return fail(`${onBase.failed.length} of ${fileDiff.hunks.length} hunks do not match the base either`, onBase.failed);
+    }
+
+    try {
+      const merge = mergeThreeWay(op.base, sourceCode, onBase.code);
+      if (merge.conflicts.length > 0) {
+        return fail(`${merge.conflicts.length} hunks conflict with changes made since the base`, merge.conflicts);
+      }
+      return { code: merge.code, result: { ...result, matched: true, strategy: 'three_way' } };
+    } catch (err: any) {
+      return fail(err.message, direct.failed);
+    }
+  }
+
   // ============================================
   // Text-based Fallback
   // ============================================
 
-  private applyTextPatches(sourceCode: string, operations: PatchOperation[]): string {
+  private applyTextPatches(sourceCode: string, operations: PatchOperation[]): PatchReport {
     // For unsupported languages, only support replace_file
-    const fullReplace = operations.find(op => op.type === 'replace_file');
-    if (fullReplace && fullReplace.type === 'replace_file') {
-      return fullReplace.code;
-    }
-    
-    console.warn('Text-based patching only supports replace_file operations');
-    return sourceCode;
+    const { results, replacement } = this.runOperations('text', operations, (op) => this.unsupported('plain text', op));
+    const code = replacement ?? sourceCode;
+    return { code, changed: code !== sourceCode, results };
   }
 }
 
+interface PythonBlock {
+  start: number;        // First line (decorators included)
+  headerLine: number;   // The def/class/assignment line
+  end: number;          // Last line of the body
+  indent: string;
+}
+
+interface CSSRule {
+  selector: string;     // Prelude text, e.g. ".btn:hover" or "@media (max-width: 600px)"
+  start: number;
+  end: number;          // Just past the closing brace
+  depth: number;
+}
+
 export const patchEngine = new PatchEngine();
@@ -0,0 +1,10 @@
+/**
+ * Safety Policy: Module Index
+ */
+
+export { PolicyEngine, policyEngine, GLOBAL_SCOPE } from './policyEngine';
+export { parsePolicyDocument, compileLayer, evaluatePolicy } from './policyDocument';
+export type { CompiledLayer, CompiledRule, PolicyEvaluation } from './policyDocument';
+
+// Re-export types
+export * from '../../types/policy';
@@ -0,0 +1,246 @@
+/**
+ * Policy documents: parsing, validation and evaluation.
+ *
+ * Pure functions with no database access, so drafts can be validated and
+ * dry-run exactly like stored policies.
+ */
+
+import * as yaml from 'js-yaml';
+import {
+  PolicyAction,
+  PolicyDocument,
+  PolicyEffect,
+  PolicyMatch,
+  PolicyRequest,
+  PolicyRule,
+  PolicySeverity,
+  PolicyDecision,
+} from '../../types/policy';
+
+const ACTIONS: PolicyAction[] = ['package', 'command', 'path', 'network'];
+const EFFECTS: PolicyEffect[] = ['allow', 'deny', 'require_approval'];
+const SEVERITIES: PolicySeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const MATCH_KEYS: Array<keyof PolicyMatch> = ['package', 'command', 'path', 'network', 'agentRole', 'project', 'environment'];
+const REGEX_KEYS: Array<keyof PolicyMatch> = ['command', 'path', 'network'];
+
+// Most restrictive first when priorities tie
+const EFFECT_RANK: Record<PolicyEffect, number> = { deny: 2, require_approval: 1, allow: 0 };
+
+const DEFAULT_SEVERITY: Record<PolicyEffect, PolicySeverity> = {
+  deny: 'HIGH',
+  require_approval: 'MEDIUM',
+  allow: 'LOW',
+};
+
+// Used when no layer declares a default for the action
+const FALLBACK_DEFAULTS: Record<PolicyAction, PolicyEffect> = {
+  package: 'require_approval',
+  command: 'allow',
+  path: 'allow',
+  network: 'allow',
+};
+
+export interface CompiledRule extends PolicyRule {
+  source: 'global' | 'project';
+  matchers: Partial<Record<keyof PolicyMatch, RegExp[]>>;
+}
+
+export interface CompiledLayer {
+  source: 'global' | 'project';
+  document: PolicyDocument;
+  rules: CompiledRule[];
+}
+
+export type PolicyEvaluation = Omit<PolicyDecision, 'dryRun' | 'gateId' | 'gateStatus'>;
+
+function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  return pattern.startsWith('(?i)') ? new RegExp(pattern.slice(4), 'i') : new RegExp(pattern);
+}
+
+function invalid(issues: string[]): Error {
+  return Object.assign(new Error(`Invalid policy: ${issues.join('; ')}`), { status: 400, issues });
+}
+
+/**
+ * Parse a YAML or JSON policy (JSON is valid YAML) and validate it.
+ * Throws an error with `status: 400` and the list of `issues`.
+ */
+export function parsePolicyDocument(input: string | object, scope: 'global' | 'project' = 'project'): PolicyDocument {
+  let raw: any = input;
+  if (typeof input === 'string') {
+    try {
+      raw = yaml.load(input);
+    } catch (error: any) {
+      throw invalid([`not valid YAML/JSON: ${error.message}`]);
+    }
+  }
+
+  const issues: string[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw invalid(['document must be an object with version and rules']);
+  }
+  if (raw.version !== 1) issues.push('version must be 1');
+  if (!Array.isArray(raw.rules)) issues.push('rules must be a list');
+
+  const defaults: PolicyDocument['defaults'] = {};
+  for (const [action, effect] of Object.entries(raw.defaults || {})) {
+    if (!ACTIONS.includes(action as PolicyAction)) issues.push(`defaults.${action}: unknown action`);
+    else if (!EFFECTS.includes(effect as PolicyEffect)) issues.push(`defaults.${action}: unknown effect "${effect}"`);
+    else defaults[action as PolicyAction] = effect as PolicyEffect;
+  }
+
+  const seen = new Set<string>();
+  const rules: PolicyRule[] = (Array.isArray(raw.rules) ? raw.rules : []).map((rule: any, i: number) => {
+    const label = `rules[${i}]${rule?.id ? ` (${rule.id})` : ''}`;
+    if (!rule || typeof rule !== 'object') {
+      issues.push(`${label}: must be an object`);
+      return null;
+    }
+    if (typeof rule.id !== 'string' || !rule.id.trim()) issues.push(`${label}: id is required`);
+    else if (seen.has(rule.id)) issues.push(`${label}: duplicate id`);
+    seen.add(rule.id);
+
+    if (!EFFECTS.includes(rule.effect)) issues.push(`${label}: effect must be one of ${EFFECTS.join(', ')}`);
+    if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity)) {
+      issues.push(`${label}: severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    if (rule.priority !== undefined && !Number.isFinite(rule.priority)) issues.push(`${label}: priority must be a number`);
+    if (rule.locked && scope !== 'global') issues.push(`${label}: locked is only honoured in the global policy`);
+
+    const match: PolicyMatch = {};
+    if (!rule.match || typeof rule.match !== 'object' || Object.keys(rule.match).length === 0) {
+      issues.push(`${label}: match needs at least one condition`);
+    }
+    for (const [key, value] of Object.entries(rule.match || {})) {
+      if (!MATCH_KEYS.includes(key as keyof PolicyMatch)) {
+        issues.push(`${label}: unknown match condition "${key}"`);
+        continue;
+      }
+      const patterns = (Array.isArray(value) ? value : [value]).map(String);
+      if (patterns.length === 0 || patterns.some(p => !p)) {
+        issues.push(`${label}: match.${key} must list non-empty patterns`);
+        continue;
+      }
+      if (REGEX_KEYS.includes(key as keyof PolicyMatch)) {
+        for (const pattern of patterns) {
+          try {
+            patternToRegExp(pattern);
+          } catch (error: any) {
+            issues.push(`${label}: match.${key} "${pattern}" is not a valid regex (${error.message})`);
+          }
+        }
+      }
+      match[key as keyof PolicyMatch] = patterns;
+    }
+
+    return {
+      id: rule.id,
+      ...(rule.description ? { description: String(rule.description) } : {}),
+      effect: rule.effect,
+      ...(rule.severity ? { severity: rule.severity } : {}),
+      ...(rule.priority !== undefined ? { priority: rule.priority } : {}),
+      ...(rule.locked ? { locked: true } : {}),
+      match,
+    };
+  });
+
+  if (issues.length > 0) throw invalid(issues);
+
+  return {
+    version: 1,
+    ...(raw.name ? { name: String(raw.name) } : {}),
+    ...(Object.keys(defaults).length > 0 ? { defaults } : {}),
+    rules,
+  };
+}
+
+/**
+ * Pre-compile a validated document's patterns
+ */
+export function compileLayer(document: PolicyDocument, source: 'global' | 'project'): CompiledLayer {
+  return {
+    source,
+    document,
+    rules: document.rules.map(rule => {
+      const matchers: CompiledRule['matchers'] = {};
+      for (const [key, patterns] of Object.entries(rule.match) as Array<[keyof PolicyMatch, string[]]>) {
+        matchers[key] = patterns.map(REGEX_KEYS.includes(key) ? patternToRegExp : globToRegExp);
+      }
+      return { ...rule, source, matchers };
+    }),
+  };
+}
+
+function ruleMatches(rule: CompiledRule, request: PolicyRequest, environment: string): boolean {
+  const subjectMatchers = rule.matchers[request.action];
+  const targetsOtherAction = ACTIONS.some(action => action !== request.action && rule.matchers[action]);
+  if (!subjectMatchers && targetsOtherAction) return false;
+  if (subjectMatchers && !subjectMatchers.some(m => m.test(request.subject))) return false;
+
+  const context: Array<[keyof PolicyMatch, string | undefined]> = [
+    ['agentRole', request.agentRole],
+    ['project', request.projectId],
+    ['environment', environment],
+  ];
+  return context.every(([key, value]) => {
+    const matchers = rule.matchers[key];
+    return !matchers || (value !== undefined && matchers.some(m => m.test(value)));
+  });
+}
+
+function pick(rules: CompiledRule[]): CompiledRule | undefined {
+  return [...rules].sort(
+    (a, b) => (b.priority ?? 0) - (a.priority ?? 0) || EFFECT_RANK[b.effect] - EFFECT_RANK[a.effect]
+  )[0];
+}
+
+/**
+ * Decide a request against layers ordered global first, project last.
+ *
+ * Locked global rules always win; otherwise a matching project rule beats
+ * any global one. Within a layer the highest priority wins, ties going to
+ * the most restrictive effect. With no match, the most specific layer's
+ * default for the action applies.
+ */
+export function evaluatePolicy(layers: CompiledLayer[], request: PolicyRequest, environment: string): PolicyEvaluation {
+  const matched = layers.flatMap(layer => layer.rules.filter(rule => ruleMatches(rule, request, environment)));
+  const winner =
+    pick(matched.filter(rule => rule.locked && rule.source === 'global')) ??
+    pick(matched.filter(rule => rule.source === 'project')) ??
+    pick(matched.filter(rule => rule.source === 'global'));
+
+  const base = {
+    action: request.action,
+    subject: request.subject,
+    matchedRules: matched.map(rule => ({ id: rule.id, effect: rule.effect, source: rule.source })),
+    environment,
+  };
+
+  if (winner) {
+    return {
+      ...base,
+      effect: winner.effect,
+      allowed: winner.effect === 'allow',
+      severity: winner.severity ?? DEFAULT_SEVERITY[winner.effect],
+      source: winner.source,
+      ruleId: winner.id,
+      reason: `${winner.effect} by rule "${winner.id}"${winner.description ? `: ${winner.description}` : ''}`,
+    };
+  }
+
+  const layerDefault = [...layers].reverse().find(layer => layer.document.defaults?.[request.action]);
+  const effect = layerDefault?.document.defaults[request.action] ?? FALLBACK_DEFAULTS[request.action];
+  return {
+    ...base,
+    effect,
+    allowed: effect === 'allow',
+    severity: DEFAULT_SEVERITY[effect],
+    source: 'default',
+    reason: `No rule matched; the ${layerDefault?.source ?? 'fallback'} default for ${request.action} is ${effect}`,
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Safety Policy Engine
+ *
+ * Evaluates agent actions against the builtin policy (or the file named by
+ * SAFETY_POLICY_PATH), global additions and per-project overrides stored in
+ * PolicyOverride. Every decision is written to PolicyDecisionLog;
+ * require_approval opens a SECURITY approval gate for the project, and an
+ * approved gate lets the same task repeat the request until it expires.
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { prisma } from '../../lib/prisma';
+import { emitLog } from '../../websocket/socketServer';
+import { approvalGates } from '../approvalGates';
+import { PolicyDecision, PolicyDocument, PolicyEffect, PolicyRequest, PolicyRule } from '../../types/policy';
+import { CompiledLayer, compileLayer, evaluatePolicy, parsePolicyDocument } from './policyDocument';
+import builtinPolicy from './defaultPolicy.json';
+
+export const GLOBAL_SCOPE = 'global';
+
+const OVERRIDE_CACHE_TTL_MS = 10_000;
+
+// How long a resolved approval keeps answering repeats of its request
+const APPROVAL_TTL_MS = Number(process.env.POLICY_APPROVAL_TTL_MS) || 60 * 60 * 1000;
+
+export class PolicyEngine {
+  private base: CompiledLayer | undefined;
+  private overrides = new Map<string, { layer: CompiledLayer | null; loadedAt: number }>();
+
+  /**
+   * The policy every project starts from
+   */
+  getBasePolicy(): PolicyDocument {
+    return this.baseLayer().document;
+  }
+
+  /**
+   * Decide a request: logs it and, for require_approval, opens (or reuses)
+   * an approval gate when the request names a project.
+   */
+  async check(request: PolicyRequest): Promise<PolicyDecision> {
+    return this.evaluate(request, false);
+  }
+
+  /**
+   * Decide a request without side effects other than the log entry.
+   * `draft` replaces the project's stored override, to try a policy out.
+   */
+  async dryRun(request: PolicyRequest, draft?: string | object): Promise<PolicyDecision> {
+    const draftLayer = draft !== undefined ? compileLayer(parsePolicyDocument(draft, 'project'), 'project') : undefined;
+    return this.evaluate(request, true, draftLayer);
+  }
+
+  async getOverride(scope: string) {
+    return prisma.policyOverride.findUnique({ where: { scope } });
+  }
+
+  /**
+   * Validate and store an override (YAML/JSON text or an object)
+   */
+  async setOverride(scope: string, input: string | object, updatedBy?: string) {
+    const document = parsePolicyDocument(input, scope === GLOBAL_SCOPE ? 'global' : 'project');
+    const source = typeof input === 'string' ? input : yaml.dump(document);
+
+    const row = await prisma.policyOverride.upsert({
+      where: { scope },
+      create: { scope, source, document: document as any, updatedBy },
+      update: { source, document: document as any, updatedBy, version: { increment: 1 } },
+    });
+    this.overrides.delete(scope);
+    emitLog(`[Policy] 📝 ${scope} policy updated to v${row.version} (${document.rules.length} rules)`);
+    return row;
+  }
+
+  async deleteOverride(scope: string): Promise<boolean> {
+    const { count } = await prisma.policyOverride.deleteMany({ where: { scope } });
+    this.overrides.delete(scope);
+    if (count > 0) emitLog(`[Policy] 🗑️ ${scope} policy override removed`);
+    return count > 0;
+  }
+
+  /**
+   * Add or replace one rule in an override, creating the override if needed
+   */
+  async upsertRule(scope: string, rule: PolicyRule, updatedBy?: string) {
+    const existing = await this.getOverride(scope);
+    const document: PolicyDocument = (existing?.document as unknown as PolicyDocument) || { version: 1, rules: [] };
+    return this.setOverride(
+      scope,
+      { ...document, rules: [...document.rules.filter(r => r.id !== rule.id), rule] },
+      updatedBy
+    );
+  }
+
+  async removeRule(scope: string, ruleId: string, updatedBy?: string) {
+    const existing = await this.getOverride(scope);
+    const document = existing?.document as unknown as PolicyDocument | undefined;
+    if (!document?.rules.some(r => r.id === ruleId)) return existing;
+    return this.setOverride(scope, { ...document, rules: document.rules.filter(r => r.id !== ruleId) }, updatedBy);
+  }
+
+  /**
+   * Global rules (builtin plus global override) and the project's rules
+   */
+  async getEffectiveRules(projectId?: string): Promise<Array<PolicyRule & { source: 'global' | 'project' }>> {
+    const layers = await this.layersFor(projectId);
+    return layers.flatMap(layer => layer.rules.map(({ matchers, ...rule }) => rule));
+  }
+
+  async listDecisions(filter: { projectId?: string; effect?: PolicyEffect; limit?: number } = {}) {
+    return prisma.policyDecisionLog.findMany({
+      where: {
+        ...(filter.projectId ? { projectId: filter.projectId } : {}),
+        ...(filter.effect ? { effect: filter.effect } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(filter.limit || 100, 1000),
+    });
+  }
+
+  private async evaluate(request: PolicyRequest, dryRun: boolean, draftLayer?: CompiledLayer): Promise<PolicyDecision> {
+    const environment = request.environment || process.env.POLICY_ENVIRONMENT || process.env.NODE_ENV || 'development';
+    const layers = await this.layersFor(request.projectId);
+    if (draftLayer) {
+      layers.splice(0, layers.length, ...layers.filter(layer => layer.source !== 'project'), draftLayer);
+    }
+
+    const decision: PolicyDecision = { ...evaluatePolicy(layers, request, environment), dryRun };
+
+    if (decision.effect === 'require_approval' && !dryRun && request.projectId) {
+      try {
+        const gate = await this.requestApproval(request, decision);
+        decision.gateId = gate.id;
+        decision.gateStatus = gate.status;
+        decision.allowed = gate.status === 'APPROVED' || gate.status === 'MODIFIED';
+      } catch (error) {
+        console.error('[Policy] Failed to open approval gate:', error);
+      }
+    }
+
+    await this.logDecision(request, decision);
+    return decision;
+  }
+
+  /**
+   * A pending gate for the same project, action and subject is reused. A
+   * resolved one decides only for the task that asked for it and only until
+   * it expires; after that a new SECURITY gate is opened.
+   */
+  private async requestApproval(request: PolicyRequest, decision: PolicyDecision): Promise<{ id: string; status: string }> {
+    const sameRequest = [
+      { payload: { path: ['policy', 'action'], equals: request.action } },
+      { payload: { path: ['policy', 'subject'], equals: request.subject } },
+    ];
+    const pending = await prisma.approvalGate.findFirst({
+      where: { projectId: request.projectId, gateType: 'SECURITY', status: 'PENDING', AND: sameRequest },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, status: true },
+    });
+    if (pending) return pending;
+
+    const resolved = await prisma.approvalGate.findFirst({
+      where: {
+        projectId: request.projectId,
+        gateType: 'SECURITY',
+        status: { not: 'PENDING' },
+        resolvedAt: { gte: new Date(Date.now() - APPROVAL_TTL_MS) },
+        AND: [
+          ...sameRequest,
+          ...(request.taskId ? [{ payload: { path: ['policy', 'taskId'], equals: request.taskId } }] : []),
+        ],
+      },
+      orderBy: { resolvedAt: 'desc' },
+      select: { id: true, status: true },
+    });
+    if (resolved) return resolved;
+
+    // createGate reuses any pending SECURITY gate of the task, which may be about another subject
+    const taskHasPendingGate = request.taskId
+      ? (await prisma.approvalGate.count({ where: { taskId: request.taskId, gateType: 'SECURITY', status: 'PENDING' } })) > 0
+      : false;
+
+    return approvalGates.createGate(
+      request.projectId,
+      'SECURITY',
+      `Policy approval: ${request.action} "${request.subject.slice(0, 80)}"`,
+      decision.reason,
+      {
+        policy: {
+          action: request.action,
+          subject: request.subject,
+          agentRole: request.agentRole,
+          environment: decision.environment,
+          ruleId: decision.ruleId,
+          taskId: request.taskId,
+        },
+      },
+      taskHasPendingGate ? undefined : request.taskId
+    );
+  }
+
+  private async logDecision(request: PolicyRequest, decision: PolicyDecision) {
+    const label = `${request.action} "${request.subject.slice(0, 80)}"${decision.dryRun ? ' (dry run)' : ''}`;
+    if (decision.effect === 'deny') {
+      emitLog(`[Safety] 🚫 BLOCKED: ${label} - ${decision.reason}`);
+    } else if (decision.effect === 'require_approval' && !decision.allowed) {
+      emitLog(`[Safety] ⚠️ ${label} requires approval${decision.gateId ? ` (gate ${decision.gateId})` : ''}`);
+    }
+
+    try {
+      await prisma.policyDecisionLog.create({
+        data: {
+          projectId: request.projectId,
+          taskId: request.taskId,
+          agentRole: request.agentRole,
+          environment: decision.environment,
+          action: request.action,
+          subject: request.subject,
+          effect: decision.effect,
+          source: decision.source,
+          ruleId: decision.ruleId,
+          dryRun: decision.dryRun,
+          gateId: decision.gateId,
+        },
+      });
+    } catch (error) {
+      console.error('[Policy] Failed to log decision:', error);
+    }
+  }
+
+  private baseLayer(): CompiledLayer {
+    if (!this.base) {
+      const policyPath = process.env.SAFETY_POLICY_PATH;
+      const document = policyPath
+        ? parsePolicyDocument(fs.readFileSync(policyPath, 'utf-8'), 'global')
+        : parsePolicyDocument(builtinPolicy, 'global');
+      this.base = compileLayer(document, 'global');
+      console.log(`[Policy] ✅ Loaded ${policyPath || 'builtin'} policy (${document.rules.length} rules)`);
+    }
+    return this.base;
+  }
+
+  private async overrideLayer(scope: string): Promise<CompiledLayer | null> {
+    const cached = this.overrides.get(scope);
+    if (cached && Date.now() - cached.loadedAt < OVERRIDE_CACHE_TTL_MS) return cached.layer;
+
+    const row = await this.getOverride(scope);
+    let layer: CompiledLayer | null = null;
+    if (row) {
+      try {
+        const isGlobal = scope === GLOBAL_SCOPE;
+        layer = compileLayer(parsePolicyDocument(row.document as object, isGlobal ? 'global' : 'project'), isGlobal ? 'global' : 'project');
+      } catch (error) {
+        console.error(`[Policy] 🚨 Stored ${scope} policy is invalid, ignoring it:`, error);
+      }
+    }
+    this.overrides.set(scope, { layer, loadedAt: Date.now() });
+    return layer;
+  }
+
+  private async layersFor(projectId?: string): Promise<CompiledLayer[]> {
+    const layers = [this.baseLayer(), await this.overrideLayer(GLOBAL_SCOPE)];
+    if (projectId) layers.push(await this.overrideLayer(projectId));
+    return layers.filter(Boolean);
+  }
+}
+
+export const policyEngine = new PolicyEngine();
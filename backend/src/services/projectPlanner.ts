@@ -22,7 +22,7 @@ import {
   getTotalAgentCount,
   AgentAllocation,
 } from "./agentAllocator";
-import { queryVectorDB } from "./ragService";
+import { queryVectorDB, formatDocsForPrompt } from "./ragService";
 import { ModelConfig } from "./llmClient";
 import {
   emitLog,
@@ -556,9 +556,11 @@ export async function planProject(
 
     // RAG Retrieval
     const ragResult = await queryVectorDB(
-      "Initial Design Direction " + finalDescription
+      "Initial Design Direction " + finalDescription,
+      3,
+      { projectId }
     );
-    const ragContext = ragResult.docs.map((d) => d.content).join("\n\n");
+    const ragContext = formatDocsForPrompt(ragResult.docs);
 
     const designPackage = await generateDesignPackage(
       projectId,
@@ -737,7 +739,7 @@ export async function planProject(
     await gitIntegration.initRepo(project.workspacePath, project.name);
 
     // Configure approval gates for this project
-    approvalGates.configureGates(projectId, approvalGates.getDefaultGates());
+    await approvalGates.configureGates(projectId, approvalGates.getDefaultGates());
     emitLog(
       "[System] Git repository initialized and approval gates configured."
     );
@@ -1,29 +1,144 @@
+import { prisma } from "../lib/prisma";
+import { cosineSimilarity, getEmbeddingProvider, tokenize } from "../llm/embeddings";
+
+export interface RAGDoc {
+  id: string;
+  content: string;
+  score: number;
+  path: string;
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  vectorScore: number;
+  keywordScore: number;
+}
+
 export interface RAGResult {
-  docs: { id: string; content: string; score: number }[];
+  docs: RAGDoc[];
 }
 
+export interface RAGQueryOptions {
+  projectId?: string;
+  // Weight of vector similarity vs keyword match in the final score (0..1)
+  vectorWeight?: number;
+  minScore?: number;
+}
+
+// Upper bound on chunks scored per query
+const MAX_CANDIDATES = 5000;
+const DEFAULT_VECTOR_WEIGHT = 0.6;
+
 /**
- * Queries the Vector Database for relevant documents.
- * Currently a placeholder mock implementation.
+ * Keyword relevance: IDF-weighted share of query terms found in each chunk
+ * (including its path and symbol name), normalized to 0..1.
  */
-export async function queryVectorDB(query: string, k: number = 3): Promise<RAGResult> {
-  // Placeholder for vector DB logic
-  // In production, connect to Pinecone/Weaviate/Milvus
-  console.log(`[RAG] Querying vector DB for: "${query}" (k=${k})`);
-  
-  // Mock response
+function keywordScores(
+  queryTerms: string[],
+  chunkTerms: Set<string>[]
+): number[] {
+  if (queryTerms.length === 0) return chunkTerms.map(() => 0);
+
+  const n = chunkTerms.length;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const df = chunkTerms.filter((terms) => terms.has(term)).length;
+    idf.set(term, Math.log(1 + (n - df + 0.5) / (df + 0.5)));
+  }
+  const maxPossible = queryTerms.reduce((sum, t) => sum + idf.get(t)!, 0);
+  if (maxPossible === 0) return chunkTerms.map(() => 0);
+
+  return chunkTerms.map((terms) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      if (terms.has(term)) score += idf.get(term)!;
+    }
+    return score / maxPossible;
+  });
+}
+
+/**
+ * Queries indexed repo chunks for a project with hybrid
+ * (vector + keyword) ranking. Returns an empty result when the project
+ * has no indexed repo.
+ */
+export async function queryVectorDB(
+  query: string,
+  k: number = 3,
+  options: RAGQueryOptions = {}
+): Promise<RAGResult> {
+  console.log(`[RAG] Querying vector DB for: "${query.slice(0, 80)}" (k=${k})`);
+
+  if (!options.projectId) {
+    console.warn("[RAG] No projectId given, nothing to search");
+    return { docs: [] };
+  }
+
+  const repo = await prisma.repo.findUnique({
+    where: { projectId: options.projectId },
+  });
+  if (!repo) return { docs: [] };
+
+  const provider = getEmbeddingProvider();
+  const chunks = await prisma.fileChunk.findMany({
+    where: { repoId: repo.id },
+    include: { file: { select: { path: true } } },
+    orderBy: { createdAt: "desc" },
+    take: MAX_CANDIDATES,
+  });
+  if (chunks.length === 0) return { docs: [] };
+
+  const [queryEmbedding] = await provider.embed([query]);
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const chunkTerms = chunks.map(
+    (c) => new Set(tokenize(`${c.file.path} ${c.symbolId || ""} ${c.text}`))
+  );
+  const keyword = keywordScores(queryTerms, chunkTerms);
+
+  const vectorWeight = options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT;
+  const minScore = options.minScore ?? 0.05;
+
+  const docs: RAGDoc[] = chunks.map((chunk, i) => {
+    // Chunks embedded with another model (or not yet embedded) rank on keywords only
+    const vectorScore =
+      chunk.embeddingModel === provider.id
+        ? Math.max(0, cosineSimilarity(queryEmbedding, chunk.embedding))
+        : 0;
+    const score = vectorWeight * vectorScore + (1 - vectorWeight) * keyword[i];
+
+    return {
+      id: chunk.id,
+      content: chunk.text,
+      score,
+      path: chunk.file.path,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      symbol: chunk.symbolId ?? undefined,
+      vectorScore,
+      keywordScore: keyword[i],
+    };
+  });
+
   return {
-    docs: [
-      { 
-        id: "DOC-MOCK-001", 
-        content: "Design System Guidelines: Use Tailwind CSS utility classes. Primary color is blue-600.", 
-        score: 0.95 
-      },
-      { 
-        id: "DOC-MOCK-002", 
-        content: "Accessibility Requirement: All interactive elements must have aria-labels.", 
-        score: 0.88 
-      }
-    ]
+    docs: docs
+      .filter((d) => d.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k),
   };
 }
+
+/**
+ * Render retrieved chunks as a citable prompt section.
+ */
+export function formatDocsForPrompt(docs: RAGDoc[]): string {
+  if (docs.length === 0) return "";
+
+  let prompt = "\n\n--- RELEVANT PROJECT CODE ---\n";
+  for (const doc of docs) {
+    const symbol = doc.symbol ? ` (${doc.symbol})` : "";
+    prompt += `\n// ${doc.path}:${doc.startLine}-${doc.endLine}${symbol}\n`;
+    prompt += `${doc.content}\n`;
+  }
+  prompt += "\n--- END PROJECT CODE ---\n";
+
+  return prompt;
+}
@@ -1,79 +1,368 @@
-// @ts-nocheck
 import fs from "fs/promises";
+import { watch, existsSync, FSWatcher, Stats } from "fs";
 import path from "path";
-import * as recast from "recast";
-import * as parser from "@babel/parser";
-import { visit } from "ast-types";
+import { createHash } from "crypto";
 import { prisma } from "../lib/prisma";
-import { workspaceManager } from "./workspaceManager";
-import { vectorDb } from "./vectorDb";
+import { workspaceEvents } from "./workspaceManager";
+import { getEmbeddingProvider } from "../llm/embeddings";
+import {
+  extractSymbols,
+  isIndexable,
+  ExtractedSymbol,
+} from "./indexing/symbolExtractors";
+import { extractReferences, importCandidates } from "./indexing/referenceExtractors";
+
+// Fixed-window size for files without extractable symbols
+const CHUNK_WINDOW_LINES = 60;
+
+// Quiet period before a burst of file events is reindexed
+const WATCH_DEBOUNCE_MS = 500;
+
+// Skip files larger than this (bundles, fixtures, generated data)
+const MAX_FILE_BYTES = 512 * 1024;
+
+// Chunks sent to the embedding provider per request when backfilling vectors
+const EMBED_BATCH_SIZE = 64;
+
+const IGNORED_DIRS = new Set(["node_modules", ".git", ".next", "dist", "build", "__pycache__", ".venv", "coverage"]);
+
+export interface IndexStats {
+  scanned: number;
+  indexed: number;
+  skipped: number;
+  removed: number;
+  durationMs: number;
+}
+
+type ExistingFile = { id: string; path: string; contentHash: string; size: number; mtime: Date };
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function isIgnoredPath(relativePath: string): boolean {
+  return relativePath.split(/[\\/]/).some((part) => IGNORED_DIRS.has(part));
+}
+
+function toPosix(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
 
 export class RepoIndexer {
+  // Serializes index runs per project so the watcher and full scans never interleave
+  private runs = new Map<string, Promise<unknown>>();
+  private watchers = new Map<string, Map<string, FSWatcher>>();
+  private pending = new Map<string, Set<string>>();
+  private debounceTimers = new Map<string, NodeJS.Timeout>();
+  private onFileWritten = ({ projectId, relativePath }: { projectId: string; relativePath: string }) => {
+    this.scheduleFiles(projectId, [relativePath]);
+    this.watch(projectId).catch((e) =>
+      console.error(`[RepoIndexer] Failed to watch ${projectId}:`, e)
+    );
+  };
+
   /**
-   * Index a repository for a project
+   * Index a repository for a project.
+   *
+   * Incremental: files whose size/mtime or content hash are unchanged are
+   * skipped, rows for files no longer on disk are deleted, and chunks still
+   * missing a vector for the active embedding provider are embedded.
    */
-  async indexRepo(projectId: string) {
-    console.log(`[RepoIndexer] 🔍 Indexing project: ${projectId}`);
+  async indexRepo(projectId: string): Promise<IndexStats> {
+    return this.serialize(projectId, () => this.runFullIndex(projectId));
+  }
 
-    // 1. Get Workspace Path
-    const status = await workspaceManager.getPreviewStatus(projectId);
-    if (!status.workspacePath) {
-      throw new Error(`Project ${projectId} has no workspace initialized.`);
+  /**
+   * Reindex specific files (relative to the workspace root). Paths that no
+   * longer exist have their rows removed.
+   */
+  async indexFiles(projectId: string, relativePaths: string[]): Promise<IndexStats> {
+    return this.serialize(projectId, () => this.runFileIndex(projectId, relativePaths));
+  }
+
+  /**
+   * Reindex files written through workspaceManager, and watch every
+   * workspace that gets written to for out-of-band edits.
+   */
+  start() {
+    workspaceEvents.on("file:written", this.onFileWritten);
+  }
+
+  stop() {
+    workspaceEvents.removeListener("file:written", this.onFileWritten);
+    this.unwatchAll();
+  }
+
+  /**
+   * Drop a project's index: stop watching its workspace and delete its
+   * rows (files, symbols, chunks and references cascade from the repo).
+   * Runs after any index run in flight for the project.
+   */
+  async dropIndex(projectId: string): Promise<void> {
+    this.unwatch(projectId);
+    await this.serialize(projectId, async () => {
+      this.unwatch(projectId); // A run in flight may have re-armed it
+      await prisma.repo.deleteMany({ where: { projectId } });
+    });
+    console.log(`[RepoIndexer] 🗑️ Dropped index for ${projectId}`);
+  }
+
+  unwatchAll() {
+    for (const projectId of Array.from(this.watchers.keys())) {
+      this.unwatch(projectId);
+    }
+  }
+
+  /**
+   * Watch a project workspace and reindex changed files. The first call
+   * also runs an (incremental) full index to catch up on offline changes.
+   */
+  async watch(projectId: string): Promise<void> {
+    if (this.watchers.has(projectId)) return;
+    this.watchers.set(projectId, new Map());
+
+    let rootPath: string;
+    try {
+      rootPath = await this.getRootPath(projectId);
+    } catch (e) {
+      this.watchers.delete(projectId);
+      throw e;
     }
-    const rootPath = status.workspacePath;
+    await this.watchTree(projectId, rootPath, rootPath);
+    console.log(`[RepoIndexer] 👀 Watching ${projectId} (${this.watchers.get(projectId)?.size || 0} dirs)`);
 
-    // 2. Create or Update Repo Record
-    let repo = await prisma.repo.findUnique({ where: { projectId } });
-    if (!repo) {
-      repo = await prisma.repo.create({
-        data: { projectId, rootPath },
+    this.indexRepo(projectId).catch((e) =>
+      console.error(`[RepoIndexer] Initial index failed for ${projectId}:`, e)
+    );
+  }
+
+  unwatch(projectId: string) {
+    const dirs = this.watchers.get(projectId);
+    if (!dirs) return;
+    for (const watcher of dirs.values()) watcher.close();
+    this.watchers.delete(projectId);
+
+    const timer = this.debounceTimers.get(projectId);
+    if (timer) clearTimeout(timer);
+    this.debounceTimers.delete(projectId);
+    this.pending.delete(projectId);
+  }
+
+  private serialize<T>(projectId: string, run: () => Promise<T>): Promise<T> {
+    const previous = this.runs.get(projectId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(run);
+    this.runs.set(projectId, next);
+    next.finally(() => {
+      if (this.runs.get(projectId) === next) this.runs.delete(projectId);
+    }).catch(() => undefined);
+    return next;
+  }
+
+  private scheduleFiles(projectId: string, relativePaths: string[]) {
+    if (!this.pending.has(projectId)) this.pending.set(projectId, new Set());
+    const pending = this.pending.get(projectId)!;
+    for (const p of relativePaths) pending.add(toPosix(p));
+
+    const existing = this.debounceTimers.get(projectId);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.debounceTimers.delete(projectId);
+      const paths = Array.from(this.pending.get(projectId) || []);
+      this.pending.delete(projectId);
+      if (paths.length === 0) return;
+
+      this.indexFiles(projectId, paths).catch((e) =>
+        console.error(`[RepoIndexer] Incremental index failed for ${projectId}:`, e)
+      );
+    }, WATCH_DEBOUNCE_MS);
+    timer.unref?.();
+    this.debounceTimers.set(projectId, timer);
+  }
+
+  /**
+   * fs.watch with `recursive` would also descend into node_modules, so
+   * each non-ignored directory gets its own watcher instead.
+   */
+  private async watchTree(projectId: string, rootPath: string, dir: string) {
+    const dirs = this.watchers.get(projectId);
+    if (!dirs || dirs.has(dir)) return;
+
+    try {
+      const watcher = watch(dir, (event, filename) => {
+        if (!filename) return;
+        const full = path.join(dir, filename.toString());
+        const relativePath = path.relative(rootPath, full);
+        if (isIgnoredPath(relativePath)) return;
+
+        if (isIndexable(relativePath)) {
+          this.scheduleFiles(projectId, [relativePath]);
+        } else if (event === "rename") {
+          // A directory appeared or went away
+          fs.stat(full)
+            .then((stats) => {
+              if (stats.isDirectory()) {
+                return this.watchTree(projectId, rootPath, full).then(() =>
+                  this.walkDir(full).then((files) =>
+                    this.scheduleFiles(projectId, files.map((f) => path.relative(rootPath, f)))
+                  )
+                );
+              }
+            })
+            .catch(() => {
+              dirs.get(full)?.close();
+              dirs.delete(full);
+              this.scheduleFiles(projectId, [relativePath]);
+            });
+        }
+      });
+      watcher.on("error", () => {
+        watcher.close();
+        dirs.delete(dir);
       });
+      dirs.set(dir, watcher);
+    } catch (e) {
+      // Directory vanished or watch limit reached; the next full index still catches up
+      return;
+    }
+
+    try {
+      const items = await fs.readdir(dir, { withFileTypes: true });
+      for (const it of items) {
+        if (it.isDirectory() && !IGNORED_DIRS.has(it.name)) {
+          await this.watchTree(projectId, rootPath, path.join(dir, it.name));
+        }
+      }
+    } catch (e) {
+      // Ignore errors (e.g. permission denied)
     }
+  }
+
+  private async getRootPath(projectId: string): Promise<string> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { workspacePath: true },
+    });
+    if (!project?.workspacePath) {
+      throw new Error(`Project ${projectId} has no workspace initialized.`);
+    }
+    return project.workspacePath;
+  }
+
+  private async getRepo(projectId: string, rootPath: string) {
+    return prisma.repo.upsert({
+      where: { projectId },
+      create: { projectId, rootPath },
+      update: { rootPath },
+    });
+  }
+
+  private async runFullIndex(projectId: string): Promise<IndexStats> {
+    const startTime = Date.now();
+    console.log(`[RepoIndexer] 🔍 Indexing project: ${projectId}`);
+
+    const rootPath = await this.getRootPath(projectId);
+    const repo = await this.getRepo(projectId, rootPath);
 
-    // 3. Walk Directory
     const files = await this.walkDir(rootPath);
-    console.log(`[RepoIndexer] Found ${files.length} files.`);
+    const existing = await prisma.repoFile.findMany({
+      where: { repoId: repo.id },
+      select: { id: true, path: true, contentHash: true, size: true, mtime: true },
+    });
+    const byPath = new Map<string, ExistingFile>(existing.map((f) => [f.path, f]));
+
+    const stats: IndexStats = { scanned: files.length, indexed: 0, skipped: 0, removed: 0, durationMs: 0 };
+    const seen = new Set<string>();
 
-    // 4. Process Each File
     for (const filePath of files) {
-      const relativePath = path.relative(rootPath, filePath);
+      const relativePath = toPosix(path.relative(rootPath, filePath));
+      seen.add(relativePath);
+      stats[await this.processFile(repo.id, rootPath, relativePath, byPath.get(relativePath))]++;
+    }
 
-      // Skip node_modules, .git, etc.
-      if (
-        relativePath.includes("node_modules") ||
-        relativePath.includes(".git") ||
-        relativePath.includes("dist") ||
-        relativePath.includes(".next")
-      ) {
+    const removedIds = existing.filter((f) => !seen.has(f.path)).map((f) => f.id);
+    if (removedIds.length > 0) {
+      await prisma.repoFile.deleteMany({ where: { id: { in: removedIds } } });
+    }
+    stats.removed += removedIds.length;
+    if (stats.indexed > 0) await this.resolvePendingReferences(repo.id, rootPath);
+    await this.embedPendingChunks(repo.id);
+    stats.durationMs = Date.now() - startTime;
+
+    console.log(
+      `[RepoIndexer] ✅ Indexing complete for ${projectId}: ${stats.indexed} indexed, ${stats.skipped} unchanged, ${stats.removed} removed (${stats.durationMs}ms)`
+    );
+    return stats;
+  }
+
+  private async runFileIndex(projectId: string, relativePaths: string[]): Promise<IndexStats> {
+    const startTime = Date.now();
+    const rootPath = await this.getRootPath(projectId);
+    const repo = await this.getRepo(projectId, rootPath);
+
+    const stats: IndexStats = { scanned: relativePaths.length, indexed: 0, skipped: 0, removed: 0, durationMs: 0 };
+
+    for (const raw of relativePaths) {
+      const relativePath = toPosix(path.normalize(raw));
+      if (relativePath.startsWith("..") || isIgnoredPath(relativePath)) {
+        stats.skipped++;
+        continue;
+      }
+      const absolutePath = path.join(rootPath, relativePath);
+
+      let fileStats: Stats | null = null;
+      try {
+        fileStats = await fs.stat(absolutePath);
+      } catch {
+        // Deleted
+      }
+
+      if (!fileStats) {
+        // Removed file, or a removed directory and everything under it
+        const { count } = await prisma.repoFile.deleteMany({
+          where: {
+            repoId: repo.id,
+            OR: [{ path: relativePath }, { path: { startsWith: `${relativePath}/` } }],
+          },
+        });
+        stats.removed += count;
+        continue;
+      }
+
+      if (!fileStats.isFile() || !isIndexable(relativePath)) {
+        stats.skipped++;
         continue;
       }
 
-      await this.processFile(repo.id, filePath, relativePath);
+      const existing = await prisma.repoFile.findUnique({
+        where: { repoId_path: { repoId: repo.id, path: relativePath } },
+        select: { id: true, path: true, contentHash: true, size: true, mtime: true },
+      });
+      stats[await this.processFile(repo.id, rootPath, relativePath, existing ?? undefined)]++;
     }
 
-    console.log(`[RepoIndexer] ✅ Indexing complete for ${projectId}`);
+    if (stats.indexed > 0) await this.resolvePendingReferences(repo.id, rootPath);
+    stats.durationMs = Date.now() - startTime;
+    if (stats.indexed || stats.removed) {
+      console.log(
+        `[RepoIndexer] ♻️ Reindexed ${projectId}: ${stats.indexed} updated, ${stats.removed} removed (${stats.durationMs}ms)`
+      );
+    }
+    return stats;
   }
 
-  private async walkDir(
-    dir: string,
-    exts = [".js", ".ts", ".jsx", ".tsx"]
-  ): Promise<string[]> {
+  private async walkDir(dir: string): Promise<string[]> {
     const files: string[] = [];
     try {
       const items = await fs.readdir(dir, { withFileTypes: true });
       for (const it of items) {
         const full = path.join(dir, it.name);
         if (it.isDirectory()) {
-          if (
-            it.name === "node_modules" ||
-            it.name === ".git" ||
-            it.name === ".next" ||
-            it.name === "dist"
-          ) {
+          if (IGNORED_DIRS.has(it.name)) {
             continue;
           }
-          files.push(...(await this.walkDir(full, exts)));
-        } else if (exts.includes(path.extname(it.name))) {
+          files.push(...(await this.walkDir(full)));
+        } else if (isIndexable(it.name)) {
           files.push(full);
         }
       }
@@ -83,194 +372,264 @@ export class RepoIndexer {
     return files;
   }
 
+  /**
+   * Index one file unless it is unchanged. A file that grew past
+   * MAX_FILE_BYTES loses its rows, so stale symbols don't outlive it.
+   */
   private async processFile(
     repoId: string,
-    absolutePath: string,
-    relativePath: string
-  ) {
+    rootPath: string,
+    relativePath: string,
+    existing?: ExistingFile
+  ): Promise<"indexed" | "skipped" | "removed"> {
+    const absolutePath = path.join(rootPath, relativePath);
     try {
-      const content = await fs.readFile(absolutePath, "utf8");
       const stats = await fs.stat(absolutePath);
+      if (stats.size > MAX_FILE_BYTES) {
+        if (!existing) return "skipped";
+        await prisma.repoFile.delete({ where: { id: existing.id } });
+        return "removed";
+      }
 
-      console.log(`[RepoIndexer] Processing file: ${relativePath}`);
+      // Cheap check first: same size and mtime means the content is untouched
+      if (
+        existing &&
+        existing.size === stats.size &&
+        existing.mtime.getTime() === stats.mtime.getTime()
+      ) {
+        return "skipped";
+      }
 
-      // Create/Update RepoFile
-      // Note: In real app, check contentHash to skip unchanged files
-      const fileRecord = await prisma.repoFile.create({
-        data: {
-          repoId,
-          path: relativePath,
-          ext: path.extname(relativePath),
-          size: stats.size,
-          mtime: stats.mtime,
-          contentHash: "TODO_HASH", // Implement hash check
-        },
-      });
+      const content = await fs.readFile(absolutePath, "utf8");
+      const contentHash = hashContent(content);
+
+      if (existing && existing.contentHash === contentHash) {
+        // Touched but not modified
+        await prisma.repoFile.update({
+          where: { id: existing.id },
+          data: { mtime: stats.mtime, size: stats.size },
+        });
+        return "skipped";
+      }
 
-      // Extract Symbols
-      const { symbols } = await this.extractSymbols(content);
+      console.log(`[RepoIndexer] Processing file: ${relativePath}`);
+
+      const symbols = extractSymbols(relativePath, content);
+      const references = this.resolveReferences(
+        rootPath,
+        relativePath,
+        extractReferences(relativePath, content, symbols)
+      );
+      const chunks = await this.buildChunks(content, symbols);
 
-      // Store Symbols
-      for (const sym of symbols) {
-        await prisma.symbol.create({
-          data: {
+      await prisma.$transaction(async (tx) => {
+        const fileRecord = await tx.repoFile.upsert({
+          where: { repoId_path: { repoId, path: relativePath } },
+          create: {
             repoId,
-            fileId: fileRecord.id,
-            name: sym.name,
-            kind: sym.kind,
-            startLine: sym.startLine,
-            endLine: sym.endLine,
+            path: relativePath,
+            ext: path.extname(relativePath),
+            size: stats.size,
+            mtime: stats.mtime,
+            contentHash,
+          },
+          update: {
+            size: stats.size,
+            mtime: stats.mtime,
+            contentHash,
           },
         });
-      }
 
-      // Chunk and Index (RAG)
-      await this.chunkAndIndex(repoId, fileRecord.id, content, symbols);
+        // Replace the file's previous symbols and chunks
+        await tx.symbol.deleteMany({ where: { fileId: fileRecord.id } });
+        await tx.fileChunk.deleteMany({ where: { fileId: fileRecord.id } });
+        await tx.symbolReference.deleteMany({ where: { fileId: fileRecord.id } });
+
+        if (symbols.length > 0) {
+          await tx.symbol.createMany({
+            data: symbols.map((sym) => ({
+              repoId,
+              fileId: fileRecord.id,
+              name: sym.name,
+              kind: sym.kind,
+              startLine: sym.startLine,
+              endLine: sym.endLine,
+              signature: sym.signature,
+            })),
+          });
+        }
+
+        if (references.length > 0) {
+          await tx.symbolReference.createMany({
+            data: references.map((ref) => ({
+              repoId,
+              fileId: fileRecord.id,
+              kind: ref.kind,
+              fromSymbol: ref.fromSymbol,
+              toName: ref.toName,
+              toModule: ref.toModule,
+              resolvedPath: ref.resolvedPath,
+              line: ref.line,
+            })),
+          });
+        }
+
+        if (chunks.length > 0) {
+          await tx.fileChunk.createMany({
+            data: chunks.map((chunk) => ({
+              repoId,
+              fileId: fileRecord.id,
+              symbolId: chunk.symbol, // Symbol name; chunk and symbol share the line range
+              startLine: chunk.startLine,
+              endLine: chunk.endLine,
+              text: chunk.text,
+              embedding: chunk.embedding || [],
+              embeddingModel: chunk.embedding ? chunk.embeddingModel : null,
+              contentHash: hashContent(chunk.text),
+            })),
+          });
+        }
+      });
+
+      return "indexed";
     } catch (error) {
       console.error(`[RepoIndexer] Failed to process ${relativePath}:`, error);
+      return "skipped";
     }
   }
 
-  private async extractSymbols(sourceCode: string) {
-    const symbols: any[] = [];
-    try {
-      const ast = recast.parse(sourceCode, {
-        parser: {
-          parse(code: string) {
-            return parser.parse(code, {
-              sourceType: "module",
-              plugins: [
-                "typescript",
-                "jsx",
-                "decorators-legacy",
-                "classProperties",
-              ],
-              tokens: true,
-            });
-          },
-        },
-      });
+  /**
+   * Attach the repo file each import specifier points at; calls and type
+   * references through an imported binding inherit their import's path.
+   */
+  private resolveReferences<T extends { toModule?: string }>(
+    rootPath: string,
+    relativePath: string,
+    references: T[]
+  ): Array<T & { resolvedPath?: string }> {
+    const resolved = new Map<string, string | undefined>();
+    return references.map((ref) => {
+      if (!ref.toModule) return ref;
+      if (!resolved.has(ref.toModule)) {
+        resolved.set(
+          ref.toModule,
+          importCandidates(relativePath, ref.toModule).find((c) =>
+            existsSync(path.join(rootPath, c))
+          )
+        );
+      }
+      return { ...ref, resolvedPath: resolved.get(ref.toModule) };
+    });
+  }
 
-      visit(ast, {
-        visitFunctionDeclaration(path) {
-          if (path.node.id) {
-            const startLine =
-              path.node.loc?.start.line ??
-              RepoIndexer.getLineFromOffset(
-                sourceCode,
-                path.node.start as number
-              );
-            const endLine =
-              path.node.loc?.end.line ??
-              RepoIndexer.getLineFromOffset(
-                sourceCode,
-                path.node.end as number
-              );
-            symbols.push({
-              name: path.node.id.name,
-              kind: "function",
-              startLine,
-              endLine,
-            });
-            console.log(
-              `[RepoIndexer] Extracted function: ${path.node.id.name}`
-            );
-          }
-          this.traverse(path);
-        },
-        visitClassDeclaration(path) {
-          if (path.node.id) {
-            const startLine =
-              path.node.loc?.start.line ??
-              RepoIndexer.getLineFromOffset(
-                sourceCode,
-                path.node.start as number
-              );
-            const endLine =
-              path.node.loc?.end.line ??
-              RepoIndexer.getLineFromOffset(
-                sourceCode,
-                path.node.end as number
-              );
-            symbols.push({
-              name: path.node.id.name,
-              kind: "class",
-              startLine,
-              endLine,
-            });
-          }
-          this.traverse(path);
-        },
-        visitVariableDeclarator(path) {
-          // Handle const foo = () => {}
-          if (
-            path.node.id.type === "Identifier" &&
-            path.node.init &&
-            (path.node.init.type === "ArrowFunctionExpression" ||
-              path.node.init.type === "FunctionExpression")
-          ) {
-            const startLine =
-              path.node.loc?.start.line ??
-              RepoIndexer.getLineFromOffset(
-                sourceCode,
-                path.node.start as number
-              );
-            const endLine =
-              path.node.loc?.end.line ??
-              RepoIndexer.getLineFromOffset(
-                sourceCode,
-                path.node.end as number
-              );
-            symbols.push({
-              name: path.node.id.name,
-              kind: "function",
-              startLine,
-              endLine,
-            });
-          }
-          this.traverse(path);
-        },
+  /**
+   * Re-resolve local imports that pointed at files which did not exist yet
+   * when the importing file was indexed.
+   */
+  private async resolvePendingReferences(repoId: string, rootPath: string) {
+    const pending = await prisma.symbolReference.findMany({
+      where: { repoId, kind: "import", resolvedPath: null, toModule: { not: null } },
+      select: { fileId: true, toModule: true, file: { select: { path: true } } },
+      distinct: ["fileId", "toModule"],
+    });
+
+    for (const ref of pending) {
+      const resolvedPath = importCandidates(ref.file.path, ref.toModule!).find((c) =>
+        existsSync(path.join(rootPath, c))
+      );
+      if (!resolvedPath) continue;
+      await prisma.symbolReference.updateMany({
+        where: { fileId: ref.fileId, toModule: ref.toModule, resolvedPath: null },
+        data: { resolvedPath },
       });
-    } catch (e) {
-      console.error("Parse error:", e);
     }
-    return { symbols };
   }
 
-  private static getLineFromOffset(source: string, offset: number): number {
-    if (typeof offset !== "number") return 0;
-    return source.substring(0, offset).split("\n").length;
+  /**
+   * Embed chunks stored without a vector for the active provider: chunks
+   * whose embedding failed when their file was indexed (the file hash is
+   * recorded either way, so they are not rebuilt until the file changes),
+   * and chunks embedded by a different provider or dimension. Stops at the
+   * first failed batch and tries again on the next full index.
+   */
+  private async embedPendingChunks(repoId: string) {
+    const provider = getEmbeddingProvider();
+    const pending = await prisma.fileChunk.findMany({
+      where: {
+        repoId,
+        OR: [{ embeddingModel: null }, { embeddingModel: { not: provider.id } }],
+      },
+      select: { id: true, text: true },
+    });
+    if (pending.length === 0) return;
+
+    let embedded = 0;
+    for (let start = 0; start < pending.length; start += EMBED_BATCH_SIZE) {
+      const batch = pending.slice(start, start + EMBED_BATCH_SIZE);
+      try {
+        const embeddings = await provider.embed(batch.map((c) => c.text));
+        await prisma.$transaction(
+          batch.map((chunk, i) =>
+            prisma.fileChunk.update({
+              where: { id: chunk.id },
+              data: { embedding: embeddings[i], embeddingModel: provider.id },
+            })
+          )
+        );
+        embedded += batch.length;
+      } catch (e) {
+        console.error(`[RepoIndexer] Embedding backfill failed (${provider.id}):`, e);
+        break;
+      }
+    }
+    console.log(`[RepoIndexer] Embedded ${embedded}/${pending.length} pending chunks (${provider.id})`);
   }
 
-  private async chunkAndIndex(
-    repoId: string,
-    fileId: string,
-    content: string,
-    symbols: any[]
-  ) {
+  private async buildChunks(content: string, symbols: ExtractedSymbol[]) {
     const lines = content.split("\n");
 
     // Strategy: Chunk by symbol, fallback to fixed window
-    // For MVP, we just chunk by symbol
-    for (const sym of symbols) {
-      const chunkText = lines.slice(sym.startLine - 1, sym.endLine).join("\n");
-
-      // Store in Vector DB (Mock/Real)
-      const vectorId = await vectorDb.store(chunkText); // This returns a pointer, in real app it returns vector ID
-
-      await prisma.fileChunk.create({
-        data: {
-          repoId,
-          fileId,
-          symbolId: sym.name, // We don't have symbol ID yet, maybe store name or link to Symbol record
-          startLine: sym.startLine,
-          endLine: sym.endLine,
-          text: chunkText,
-          vectorId: vectorId,
-          contentHash: "TODO_HASH",
-        },
+    const chunks: Array<{
+      symbol?: string;
+      startLine: number;
+      endLine: number;
+      text: string;
+      embedding?: number[];
+      embeddingModel?: string;
+    }> = symbols.map((sym) => ({
+      symbol: sym.name,
+      startLine: sym.startLine,
+      endLine: sym.endLine,
+      text: lines.slice(sym.startLine - 1, sym.endLine).join("\n"),
+    }));
+
+    if (chunks.length === 0) {
+      for (let start = 0; start < lines.length; start += CHUNK_WINDOW_LINES) {
+        const text = lines.slice(start, start + CHUNK_WINDOW_LINES).join("\n");
+        if (!text.trim()) continue;
+        chunks.push({
+          startLine: start + 1,
+          endLine: Math.min(lines.length, start + CHUNK_WINDOW_LINES),
+          text,
+        });
+      }
+    }
+    if (chunks.length === 0) return chunks;
+
+    // Embed for RAG; chunks are still stored (keyword-searchable) if the provider
+    // fails, and embedPendingChunks fills in their vectors on the next full index
+    const provider = getEmbeddingProvider();
+    try {
+      const embeddings = await provider.embed(chunks.map((c) => c.text));
+      chunks.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i];
+        chunk.embeddingModel = provider.id;
       });
+    } catch (e) {
+      console.error(`[RepoIndexer] Embedding failed (${provider.id}):`, e);
     }
+
+    return chunks;
   }
 }
 
@@ -1,5 +1,33 @@
 import { prisma } from "../lib/prisma";
-import { vectorDb } from "./vectorDb";
+import { queryVectorDB } from "./ragService";
+
+// Edge kinds that mean "uses this symbol at runtime or in a type position"
+const USAGE_KINDS = ["call", "jsx", "type_ref"];
+
+// Upper bound on graph nodes visited by impactRadius
+const MAX_IMPACT_NODES = 200;
+
+export interface SymbolUsage {
+  filePath: string;
+  line: number;
+  fromSymbol: string | null;
+  kind: string;
+  // false when the edge could not be tied to the definition's file (e.g. `this.x()`)
+  resolved: boolean;
+}
+
+export interface ImpactNode {
+  filePath: string;
+  symbol: string | null;
+  depth: number;
+}
+
+export interface ImpactReport {
+  target: { symbol?: string; filePath?: string };
+  maxDepth: number;
+  files: Array<{ filePath: string; depth: number }>;
+  symbols: ImpactNode[];
+}
 
 export class RepoQueryService {
   /**
@@ -50,40 +78,209 @@ export class RepoQueryService {
     };
   }
 
+  private async getRepoId(projectId: string): Promise<string | null> {
+    const repo = await prisma.repo.findUnique({ where: { projectId } });
+    if (!repo) {
+      console.warn(`[RepoQuery] Repo not found for project ${projectId}`);
+      return null;
+    }
+    return repo.id;
+  }
+
   /**
-   * Retrieve relevant code chunks using RAG (Vector Search).
-   * Currently mocks vector search by returning random chunks or keyword match.
+   * Files that define a symbol with this name
    */
-  async ragRetrieve(projectId: string, query: string, limit = 3) {
-    const repo = await prisma.repo.findUnique({ where: { projectId } });
-    if (!repo) return [];
-    const repoId = repo.id;
+  private async definitionPaths(repoId: string, symbolName: string): Promise<string[]> {
+    const symbols = await prisma.symbol.findMany({
+      where: { repoId, name: symbolName },
+      select: { file: { select: { path: true } } },
+    });
+    return Array.from(new Set(symbols.map((s) => s.file.path)));
+  }
+
+  /**
+   * Who calls / renders / references this symbol.
+   * Edges tied to another module that defines the same name are excluded.
+   */
+  async findCallers(projectId: string, symbolName: string, filePath?: string): Promise<SymbolUsage[]> {
+    const repoId = await this.getRepoId(projectId);
+    if (!repoId) return [];
+
+    const defPaths = filePath ? [filePath] : await this.definitionPaths(repoId, symbolName);
+
+    const refs = await prisma.symbolReference.findMany({
+      where: { repoId, toName: symbolName, kind: { in: USAGE_KINDS } },
+      include: { file: { select: { path: true } } },
+      orderBy: [{ fileId: "asc" }, { line: "asc" }],
+    });
+
+    const usages: SymbolUsage[] = [];
+    for (const ref of refs) {
+      const resolved =
+        (ref.resolvedPath !== null && defPaths.includes(ref.resolvedPath)) ||
+        (ref.toModule === null && defPaths.includes(ref.file.path));
 
-    console.log(`[RepoQuery] 🔍 RAG Query: "${query}" in ${repoId}`);
+      // Imported from a module we know is not the definition
+      if (!resolved && (ref.resolvedPath !== null || ref.toModule !== null)) continue;
+      // Recursion inside the definition itself is not a caller
+      if (ref.fromSymbol === symbolName && defPaths.includes(ref.file.path)) continue;
 
-    // TODO: Implement real vector search via vectorDb service
-    // For now, we'll do a simple keyword search on FileChunk text
-    // This is a "poor man's" RAG for MVP
+      usages.push({
+        filePath: ref.file.path,
+        line: ref.line,
+        fromSymbol: ref.fromSymbol,
+        kind: ref.kind,
+        resolved,
+      });
+    }
+    return usages;
+  }
+
+  /**
+   * What a symbol calls / renders / references.
+   */
+  async findCallees(projectId: string, symbolName: string, filePath?: string) {
+    const repoId = await this.getRepoId(projectId);
+    if (!repoId) return [];
 
-    const chunks = await prisma.fileChunk.findMany({
+    const defPaths = filePath ? [filePath] : await this.definitionPaths(repoId, symbolName);
+
+    const refs = await prisma.symbolReference.findMany({
       where: {
         repoId,
-        text: {
-          contains: query, // Simple substring match
-        },
-      },
-      take: limit,
-      include: {
-        file: true,
+        fromSymbol: symbolName,
+        kind: { in: USAGE_KINDS },
+        file: { path: { in: defPaths } },
       },
+      include: { file: { select: { path: true } } },
+      orderBy: { line: "asc" },
     });
 
-    return chunks.map((chunk) => ({
-      text: chunk.text,
-      filePath: chunk.file.path,
-      startLine: chunk.startLine,
-      endLine: chunk.endLine,
-      score: 1.0, // Mock score
+    return refs.map((ref) => ({
+      name: ref.toName,
+      kind: ref.kind,
+      line: ref.line,
+      filePath: ref.file.path,
+      module: ref.toModule,
+      resolvedPath: ref.resolvedPath,
+    }));
+  }
+
+  /**
+   * What a file imports, grouped by module.
+   */
+  async getImports(projectId: string, filePath: string) {
+    const repoId = await this.getRepoId(projectId);
+    if (!repoId) return [];
+
+    const refs = await prisma.symbolReference.findMany({
+      where: { repoId, kind: "import", file: { path: filePath } },
+      orderBy: { line: "asc" },
+    });
+
+    const byModule = new Map<string, { module: string; resolvedPath: string | null; names: string[] }>();
+    for (const ref of refs) {
+      const module = ref.toModule || "";
+      if (!byModule.has(module)) {
+        byModule.set(module, { module, resolvedPath: ref.resolvedPath, names: [] });
+      }
+      const entry = byModule.get(module)!;
+      if (!entry.names.includes(ref.toName)) entry.names.push(ref.toName);
+    }
+    return Array.from(byModule.values());
+  }
+
+  /**
+   * Files that import this file.
+   */
+  async findDependents(projectId: string, filePath: string) {
+    const repoId = await this.getRepoId(projectId);
+    if (!repoId) return [];
+
+    const refs = await prisma.symbolReference.findMany({
+      where: { repoId, kind: "import", resolvedPath: filePath },
+      include: { file: { select: { path: true } } },
+    });
+
+    const byFile = new Map<string, string[]>();
+    for (const ref of refs) {
+      if (!byFile.has(ref.file.path)) byFile.set(ref.file.path, []);
+      const names = byFile.get(ref.file.path)!;
+      if (!names.includes(ref.toName)) names.push(ref.toName);
+    }
+    return Array.from(byFile.entries()).map(([path, names]) => ({ filePath: path, names }));
+  }
+
+  /**
+   * Blast radius of changing a symbol or file: transitive callers of the
+   * symbol and importers of the file, breadth-first up to `maxDepth` hops.
+   */
+  async impactRadius(
+    projectId: string,
+    target: { symbol?: string; filePath?: string },
+    maxDepth = 3
+  ): Promise<ImpactReport> {
+    const report: ImpactReport = { target, maxDepth, files: [], symbols: [] };
+    if (!target.symbol && !target.filePath) return report;
+
+    const seenFiles = new Map<string, number>();
+    const seenSymbols = new Set<string>();
+    const queue: ImpactNode[] = [
+      { filePath: target.filePath || "", symbol: target.symbol || null, depth: 0 },
+    ];
+
+    const visitFile = (filePath: string, depth: number) => {
+      if (!seenFiles.has(filePath)) seenFiles.set(filePath, depth);
+    };
+
+    while (queue.length > 0 && seenSymbols.size + seenFiles.size < MAX_IMPACT_NODES) {
+      const node = queue.shift()!;
+      if (node.depth >= maxDepth) continue;
+
+      if (node.symbol) {
+        const callers = await this.findCallers(projectId, node.symbol, node.filePath || undefined);
+        for (const caller of callers) {
+          visitFile(caller.filePath, node.depth + 1);
+          const key = `${caller.filePath}#${caller.fromSymbol ?? ""}`;
+          if (seenSymbols.has(key)) continue;
+          seenSymbols.add(key);
+
+          const next = { filePath: caller.filePath, symbol: caller.fromSymbol, depth: node.depth + 1 };
+          if (caller.fromSymbol) report.symbols.push(next);
+          queue.push(next);
+        }
+      } else if (node.filePath) {
+        // Module-level change: everything importing the file is affected
+        for (const dependent of await this.findDependents(projectId, node.filePath)) {
+          if (seenFiles.has(dependent.filePath)) continue;
+          visitFile(dependent.filePath, node.depth + 1);
+          queue.push({ filePath: dependent.filePath, symbol: null, depth: node.depth + 1 });
+        }
+      }
+    }
+
+    report.files = Array.from(seenFiles.entries())
+      .filter(([filePath]) => filePath !== target.filePath)
+      .map(([filePath, depth]) => ({ filePath, depth }))
+      .sort((a, b) => a.depth - b.depth || a.filePath.localeCompare(b.filePath));
+    return report;
+  }
+
+  /**
+   * Retrieve relevant code chunks using RAG (hybrid vector + keyword search).
+   */
+  async ragRetrieve(projectId: string, query: string, limit = 3) {
+    console.log(`[RepoQuery] 🔍 RAG Query: "${query}" in project ${projectId}`);
+
+    const { docs } = await queryVectorDB(query, limit, { projectId });
+
+    return docs.map((doc) => ({
+      text: doc.content,
+      filePath: doc.path,
+      startLine: doc.startLine,
+      endLine: doc.endLine,
+      symbol: doc.symbol,
+      score: doc.score,
     }));
   }
 }
@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { sandbox } from "./sandbox";
+import { sideEffects } from "./sideEffects";
 import { midDevAgent } from "../agents/midDevAgent";
 import { stackTraceMapper } from "./stackTraceMapper";
 import { dependencyRepair } from "./dependencyRepair";
@@ -16,14 +17,22 @@ export class RuntimeMonitorService {
   async startMonitoring(projectId: string, runCommand: string = "npm start") {
     console.log(`[RuntimeMonitor] 🛡️ Starting monitor for ${projectId}`);
 
-    const containerId = await sandbox.getOrCreateSession(projectId);
+    const sessionId = await sandbox.getOrCreateSession(projectId);
 
-    const stopExec = await sandbox.streamExec(
-      containerId,
+    // Throws when the safety policy refuses the run command
+    const stopExec = await sideEffects.streamExec(
+      { projectId, agentRole: "RuntimeMonitor" },
+      sessionId,
       runCommand,
       (log, type) => {
         // console.log(`[${projectId}] ${type}: ${log.trim()}`); // Verbose
         this.analyzeLog(projectId, log);
+      },
+      {
+        onExit: ({ exitCode }) => {
+          console.log(`[RuntimeMonitor] Process for ${projectId} exited (${exitCode})`);
+          this.activeMonitors.delete(projectId);
+        },
       }
     );
 
@@ -1,72 +1,15 @@
 /**
  * Safety Policy Enforcement Service
- * 
- * Allowlist/denylist middleware for agent actions.
- * Prevents unauthorized installs, network calls, and dangerous operations.
+ *
+ * Allowlist/denylist checks for agent actions, backed by the declarative
+ * policy engine (services/policy). Prevents unauthorized installs,
+ * dangerous commands, file access and network calls; results keep the
+ * violation shape callers already understand, with the full decision
+ * attached. Side effects themselves go through services/sideEffects.
  */
 
-import { emitLog } from '../websocket/socketServer';
-
-// Package allowlist/denylist
-const PACKAGE_ALLOWLIST = new Set([
-  // Core frameworks
-  'react', 'react-dom', 'next', 'express', 'fastify',
-  // UI libraries
-  'tailwindcss', '@radix-ui/*', 'framer-motion', 'lucide-react',
-  // Data
-  'prisma', '@prisma/client', 'mongoose', 'pg', 'redis', 'ioredis',
-  // Auth
-  '@clerk/nextjs', 'next-auth', 'jsonwebtoken', 'bcrypt',
-  // Utilities
-  'axios', 'zod', 'date-fns', 'lodash', 'uuid',
-  // Testing
-  'jest', 'vitest', '@testing-library/*',
-  // Types
-  '@types/*', 'typescript'
-]);
-
-const PACKAGE_DENYLIST = new Set([
-  // Dangerous packages
-  'eval', 'vm2', 'child_process',
-  // Known malicious patterns
-  'event-stream', 'flatmap-stream',
-  // System access
-  'fs-extra', 'shelljs', 'execa',
-  // Network tools that could be abused
-  'puppeteer', 'playwright', 'selenium-webdriver'
-]);
-
-// Command denylist
-const COMMAND_DENYLIST = [
-  /rm\s+-rf\s+\//, // rm -rf /
-  /rm\s+-rf\s+~/, // rm -rf ~
-  /curl.*\|.*sh/, // curl | sh
-  /wget.*\|.*sh/, // wget | sh
-  /chmod\s+777/, // chmod 777
-  /sudo/, // sudo commands
-  /eval\s*\(/, // eval()
-  /exec\s*\(/, // exec()
-  />\s*\/dev\//, // redirect to /dev/
-  /mkfs/, // format disk
-  /dd\s+if=/, // dd command
-];
-
-// File path denylist
-const PATH_DENYLIST = [
-  /^\/etc\//,
-  /^\/usr\//,
-  /^\/var\//,
-  /^\/root\//,
-  /^~\//,
-  /\.env$/,
-  /\.env\.local$/,
-  /\.env\.production$/,
-  /id_rsa/,
-  /\.ssh\//,
-  /\.aws\//,
-  /credentials/i,
-  /secrets/i,
-];
+import { policyEngine, GLOBAL_SCOPE } from './policy';
+import { PolicyAction, PolicyDecision, PolicyRequest } from '../types/policy';
 
 export interface PolicyViolation {
   type: 'PACKAGE' | 'COMMAND' | 'PATH' | 'NETWORK' | 'COST';
@@ -78,127 +21,118 @@ export interface PolicyViolation {
 export interface PolicyCheckResult {
   allowed: boolean;
   violations: PolicyViolation[];
+  decision?: PolicyDecision;
+}
+
+/**
+ * Who is acting and where; narrows which rules apply
+ */
+export type PolicyContext = Omit<PolicyRequest, 'action' | 'subject'>;
+
+const VIOLATION_TYPES: Record<PolicyAction, PolicyViolation['type']> = {
+  package: 'PACKAGE',
+  command: 'COMMAND',
+  path: 'PATH',
+  network: 'NETWORK',
+};
+
+function toCheckResult(decision: PolicyDecision): PolicyCheckResult {
+  const violations: PolicyViolation[] = decision.effect === 'allow' ? [] : [{
+    type: VIOLATION_TYPES[decision.action],
+    severity: decision.severity,
+    message: `${decision.action} "${decision.subject}": ${decision.reason}`,
+    blocked: decision.effect === 'deny',
+  }];
+  return { allowed: decision.allowed, violations, decision };
 }
 
 /**
  * Check if a package installation is allowed
  */
-export function checkPackageInstall(packageName: string): PolicyCheckResult {
-  const violations: PolicyViolation[] = [];
-  
-  // Check denylist first
-  if (PACKAGE_DENYLIST.has(packageName)) {
-    violations.push({
-      type: 'PACKAGE',
-      severity: 'CRITICAL',
-      message: `Package "${packageName}" is on the denylist`,
-      blocked: true
-    });
-    emitLog(`[Safety] 🚫 BLOCKED: Package install "${packageName}" (denylisted)`);
-    return { allowed: false, violations };
-  }
-  
-  // Check allowlist
-  const isAllowed = PACKAGE_ALLOWLIST.has(packageName) || 
-    Array.from(PACKAGE_ALLOWLIST).some(pattern => {
-      if (pattern.endsWith('/*')) {
-        const prefix = pattern.slice(0, -2);
-        return packageName.startsWith(prefix);
-      }
-      return false;
-    });
-  
-  if (!isAllowed) {
-    violations.push({
-      type: 'PACKAGE',
-      severity: 'MEDIUM',
-      message: `Package "${packageName}" is not on the allowlist - requires approval`,
-      blocked: false // Not blocked, but flagged for approval
-    });
-    emitLog(`[Safety] ⚠️ Package "${packageName}" requires approval (not allowlisted)`);
-  }
-  
-  return { allowed: isAllowed, violations };
+export async function checkPackageInstall(packageName: string, context: PolicyContext = {}): Promise<PolicyCheckResult> {
+  return toCheckResult(await policyEngine.check({ ...context, action: 'package', subject: packageName }));
 }
 
 /**
  * Check if a command is safe to execute
  */
-export function checkCommand(command: string): PolicyCheckResult {
-  const violations: PolicyViolation[] = [];
-  
-  for (const pattern of COMMAND_DENYLIST) {
-    if (pattern.test(command)) {
-      violations.push({
-        type: 'COMMAND',
-        severity: 'CRITICAL',
-        message: `Command matches dangerous pattern: ${pattern}`,
-        blocked: true
-      });
-      emitLog(`[Safety] 🚫 BLOCKED: Dangerous command detected`);
-      return { allowed: false, violations };
-    }
-  }
-  
-  return { allowed: true, violations };
+export async function checkCommand(command: string, context: PolicyContext = {}): Promise<PolicyCheckResult> {
+  return toCheckResult(await policyEngine.check({ ...context, action: 'command', subject: command }));
 }
 
 /**
  * Check if a file path is safe to access
  */
-export function checkFilePath(filePath: string): PolicyCheckResult {
-  const violations: PolicyViolation[] = [];
-  
-  for (const pattern of PATH_DENYLIST) {
-    if (pattern.test(filePath)) {
-      violations.push({
-        type: 'PATH',
-        severity: 'HIGH',
-        message: `Path "${filePath}" matches restricted pattern`,
-        blocked: true
-      });
-      emitLog(`[Safety] 🚫 BLOCKED: Restricted path access "${filePath}"`);
-      return { allowed: false, violations };
-    }
-  }
-  
-  return { allowed: true, violations };
+export async function checkFilePath(filePath: string, context: PolicyContext = {}): Promise<PolicyCheckResult> {
+  return toCheckResult(await policyEngine.check({ ...context, action: 'path', subject: filePath }));
+}
+
+/**
+ * Check if an outbound request to a URL is allowed
+ */
+export async function checkNetworkCall(url: string, context: PolicyContext = {}): Promise<PolicyCheckResult> {
+  return toCheckResult(await policyEngine.check({ ...context, action: 'network', subject: url }));
 }
 
 /**
- * Add package to allowlist (requires admin)
+ * Add package to allowlist (requires admin), globally or for one project.
+ * Stored as an allow rule in the scope's policy override.
  */
-export function addToAllowlist(packageName: string): void {
-  PACKAGE_ALLOWLIST.add(packageName);
-  emitLog(`[Safety] ✅ Added "${packageName}" to package allowlist`);
+export async function addToAllowlist(packageName: string, projectId?: string): Promise<void> {
+  const scope = projectId || GLOBAL_SCOPE;
+  await policyEngine.removeRule(scope, `revoke-${packageName}`);
+  await policyEngine.upsertRule(scope, {
+    id: `allow-${packageName}`,
+    effect: 'allow',
+    match: { package: [packageName] },
+  });
 }
 
 /**
- * Remove package from allowlist
+ * Remove package from allowlist. Packages the base policy allows are
+ * revoked with a require_approval rule, which outranks the allow.
  */
-export function removeFromAllowlist(packageName: string): void {
-  PACKAGE_ALLOWLIST.delete(packageName);
-  emitLog(`[Safety] ❌ Removed "${packageName}" from package allowlist`);
+export async function removeFromAllowlist(packageName: string, projectId?: string): Promise<void> {
+  const scope = projectId || GLOBAL_SCOPE;
+  await policyEngine.removeRule(scope, `allow-${packageName}`);
+
+  const decision = await policyEngine.dryRun({ action: 'package', subject: packageName, projectId });
+  if (decision.allowed) {
+    await policyEngine.upsertRule(scope, {
+      id: `revoke-${packageName}`,
+      effect: 'require_approval',
+      match: { package: [packageName] },
+    });
+  }
+}
+
+async function packagePatterns(effect: 'allow' | 'deny', projectId?: string): Promise<string[]> {
+  const rules = await policyEngine.getEffectiveRules(projectId);
+  const patterns = rules
+    .filter(rule => rule.effect === effect && rule.match.package)
+    .flatMap(rule => rule.match.package);
+  return Array.from(new Set(patterns));
 }
 
 /**
- * Get current allowlist
+ * Get current allowlist (package patterns with an allow rule)
  */
-export function getAllowlist(): string[] {
-  return Array.from(PACKAGE_ALLOWLIST);
+export async function getAllowlist(projectId?: string): Promise<string[]> {
+  return packagePatterns('allow', projectId);
 }
 
 /**
- * Get current denylist
+ * Get current denylist (package patterns with a deny rule)
  */
-export function getDenylist(): string[] {
-  return Array.from(PACKAGE_DENYLIST);
+export async function getDenylist(projectId?: string): Promise<string[]> {
+  return packagePatterns('deny', projectId);
 }
 
 export const safetyPolicy = {
   checkPackageInstall,
   checkCommand,
   checkFilePath,
+  checkNetworkCall,
   addToAllowlist,
   removeFromAllowlist,
   getAllowlist,
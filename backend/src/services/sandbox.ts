@@ -4,6 +4,11 @@ import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 import path from 'path';
 import { PassThrough } from 'stream';
+import { sandboxSessions, OutputHandler, StreamExecOptions } from './sandboxSession';
+import { typeChecker } from './verification/TypeChecker';
+import { TypeDiagnostic } from '../types/verification';
+import { SandboxProjectConfig } from '../types/sandbox';
+import { stubRegistry } from './sandboxStubs';
 
 // --- CONFIGURATION ---
 const EXECUTION_MODE = process.env.EXECUTION_MODE || (process.env.NODE_ENV === 'production' ? 'CLOUD' : 'LOCAL');
@@ -20,20 +25,75 @@ interface ExecutionResult {
   stderr: string;
   exitCode: number;
   error?: string;
+  diagnostics?: TypeDiagnostic[];  // TypeScript only: results of the pre-execution type check
 }
 
+export interface SandboxExecutionOptions {
+  projectRoot?: string;   // Project whose tsconfig and @types the type check uses
+  fileName?: string;      // Snippet path within the project, for diagnostics
+  typeCheck?: boolean;    // Defaults to true for TypeScript
+  projectId?: string;     // Selects the project's package stubs / node_modules cache
+  stubs?: string[];       // Explicit stub selection, overriding the project's
+}
+
+type DockerRunOptions = SandboxProjectConfig;
+
+// tsc exits with 2 when it reports errors
+const TYPE_ERROR_EXIT_CODE = 2;
+
 /**
  * Executes code in a secure sandbox.
  * Automatically selects between Local Docker and AWS Lambda based on env.
+ *
+ * TypeScript is type-checked on the host first (against the project's
+ * tsconfig when `projectRoot` is given); type errors fail the run with
+ * tsc-style diagnostics, otherwise the transpiled JavaScript is executed.
  */
-export const executeInSandbox = async (code: string, language: 'javascript' | 'python' | 'typescript'): Promise<ExecutionResult> => {
+export const executeInSandbox = async (
+  code: string,
+  language: 'javascript' | 'python' | 'typescript',
+  options: SandboxExecutionOptions = {}
+): Promise<ExecutionResult> => {
   console.log(`[Sandbox] Executing ${language} code in ${EXECUTION_MODE} mode...`);
 
+  let diagnostics: TypeDiagnostic[] | undefined;
+  if (language === 'typescript') {
+    const typeCheck = typeChecker.check(code, { projectRoot: options.projectRoot, fileName: options.fileName });
+    diagnostics = typeCheck.diagnostics;
+
+    if (options.typeCheck !== false && !typeCheck.passed) {
+      const errors = diagnostics.filter(d => d.category === 'error');
+      console.log(`[Sandbox] ❌ Type check failed with ${errors.length} error(s)`);
+      return {
+        stdout: "",
+        stderr: typeChecker.format(errors),
+        exitCode: TYPE_ERROR_EXIT_CODE,
+        error: `Type check failed with ${errors.length} error(s)`,
+        diagnostics,
+      };
+    }
+
+    code = typeCheck.outputText;
+    language = 'javascript';
+  }
+
+  let result: ExecutionResult;
   if (EXECUTION_MODE === 'CLOUD') {
-    return executeInLambda(code, language);
+    result = await executeInLambda(code, language);
   } else {
-    return executeInDocker(code, language);
+    const projectConfig: SandboxProjectConfig = options.projectId
+      ? await stubRegistry.getProjectConfig(options.projectId).catch((error) => {
+          console.warn(`[Sandbox] ⚠️ Could not load sandbox config for ${options.projectId}: ${error.message}`);
+          return {};
+        })
+      : {};
+    result = await executeInDocker(code, language, {
+      ...projectConfig,
+      stubs: options.stubs || projectConfig.stubs,
+    });
   }
+
+  return diagnostics ? { ...result, diagnostics } : result;
 };
 
 // --- STRATEGY 1: AWS LAMBDA (PROD) ---
@@ -66,7 +126,7 @@ async function executeInLambda(code: string, language: string): Promise<Executio
 }
 
 // --- STRATEGY 2: LOCAL DOCKER (DEV) ---
-async function executeInDocker(code: string, language: string): Promise<ExecutionResult> {
+async function executeInDocker(code: string, language: string, options: DockerRunOptions = {}): Promise<ExecutionResult> {
   if (!docker) {
     return { stdout: "", stderr: "Docker client not initialized. Are you in LOCAL mode?", exitCode: 1 };
   }
@@ -90,92 +150,26 @@ async function executeInDocker(code: string, language: string): Promise<Executio
       image = 'python:3.10-alpine';
       cmd = ['python', 'script.py'];
       filename = 'script.py';
-    } else if (language === 'typescript') {
-      // For local testing, we run TS using ts-node/tsx if available, or just node (assuming pure JS for now)
-      // Ideally, in a real sandbox, you'd use a custom image with ts-node installed.
-      image = 'node:20-alpine'; 
-      cmd = ['node', 'script.js']; 
     }
 
     // Write the code to the host file system (so Docker can see it)
     fs.writeFileSync(path.join(tmpDir, filename), code);
 
-    // Create a mock node_modules structure for common packages
-    // WHY MOCK? Installing real heavy libraries (Sequelize, AWS SDK) in a fresh Docker container
-    // takes minutes. Mocking allows us to verify API syntax correctness (hallucination detection)
-    // in milliseconds without network/disk overhead.
-    const nodeModulesDir = path.join(tmpDir, 'node_modules');
-    fs.mkdirSync(nodeModulesDir, { recursive: true });
-
-    // Mock lodash
-    const lodashDir = path.join(nodeModulesDir, 'lodash');
-    fs.mkdirSync(lodashDir, { recursive: true });
-    fs.writeFileSync(path.join(lodashDir, 'index.js'), 'const _ = { groupBy: (arr) => ({}), map: (arr) => [], filter: (arr) => [], reduce: (arr) => {} }; _.default = _; module.exports = _;');
-    fs.writeFileSync(path.join(lodashDir, 'package.json'), '{"name": "lodash", "main": "index.js"}');
-
-    // Mock prisma
-    const prismaDir = path.join(nodeModulesDir, '@prisma', 'client');
-    fs.mkdirSync(prismaDir, { recursive: true });
-    fs.writeFileSync(path.join(prismaDir, 'index.js'), 'module.exports = { PrismaClient: class { constructor() { this.user = { findMany: async () => [] }; } } };');
-    fs.writeFileSync(path.join(prismaDir, 'package.json'), '{"name": "@prisma/client", "main": "index.js"}');
-
-    // Mock react
-    const reactDir = path.join(nodeModulesDir, 'react');
-    fs.mkdirSync(reactDir, { recursive: true });
-    fs.writeFileSync(path.join(reactDir, 'index.js'), 'module.exports = { createElement: () => {}, useState: () => [null, () => {}], useEffect: () => {} };');
-    fs.writeFileSync(path.join(reactDir, 'package.json'), '{"name": "react", "main": "index.js"}');
-
-    // Mock express
-    const expressDir = path.join(nodeModulesDir, 'express');
-    fs.mkdirSync(expressDir, { recursive: true });
-    fs.writeFileSync(path.join(expressDir, 'index.js'), 'const e = () => ({ get: () => {}, post: () => {}, listen: () => {}, use: () => {} }); e.default = e; module.exports = e;');
-    fs.writeFileSync(path.join(expressDir, 'package.json'), '{"name": "express", "main": "index.js"}');
-
-    // Mock aws-sdk
-    const awsSdkDir = path.join(nodeModulesDir, 'aws-sdk');
-    fs.mkdirSync(awsSdkDir, { recursive: true });
-    fs.writeFileSync(path.join(awsSdkDir, 'index.js'), `
-      module.exports = {
-        S3: class { upload() { return { promise: () => Promise.resolve() }; } },
-        DynamoDB: {
-          DocumentClient: class {
-            get() { return { promise: () => Promise.resolve({}) }; }
-            put() { return { promise: () => Promise.resolve({}) }; }
-          }
-        }
-      };
-    `);
-    fs.writeFileSync(path.join(awsSdkDir, 'package.json'), '{"name": "aws-sdk", "main": "index.js"}');
-
-    // Mock sequelize
-    const sequelizeDir = path.join(nodeModulesDir, 'sequelize');
-    fs.mkdirSync(sequelizeDir, { recursive: true });
-    fs.writeFileSync(path.join(sequelizeDir, 'index.js'), `
-      module.exports = {
-        Sequelize: class { constructor() {} },
-        Model: class { static init() {} static findAll() { return Promise.resolve([]); } },
-        DataTypes: { STRING: 'STRING' }
-      };
-    `);
-    fs.writeFileSync(path.join(sequelizeDir, 'package.json'), '{"name": "sequelize", "main": "index.js"}');
-
-    // Mock Jest globals for testing libraries
-    // These are not module mocks, but global variables that Jest typically provides.
-    // We'll inject them into the script's preamble.
-    const jestPreamble = `
-      const test = (name, fn) => fn();
-      const expect = (actual) => ({
-        toBe: (expected) => {},
-        toEqual: (expected) => {},
-        toBeTruthy: () => {},
-        toBeFalsy: () => {}
-      });
-      const describe = (name, fn) => fn();
-      const it = test;
-    `;
-
-    // Prepend the Jest preamble to the user's code
-    fs.writeFileSync(path.join(tmpDir, filename), jestPreamble + '\n' + code);
+    // Package stubs (or a real node_modules cache) for the project; see sandboxStubs/
+    const binds = [`${tmpDir}:/app`];
+    const env: string[] = [];
+    if (language !== 'python') {
+      const stubs = stubRegistry.materialize(tmpDir, stubRegistry.resolve(options.stubs));
+      cmd = ['node', '-r', `./${stubs.setupFile}`, filename];
+      env.push(`NODE_PATH=/app/${stubs.nodePath}`);
+
+      const cachePath = options.nodeModulesCache && stubRegistry.getNodeModulesCachePath(options.nodeModulesCache);
+      if (cachePath) {
+        binds.push(`${cachePath}:/app/node_modules:ro`);
+      } else if (options.nodeModulesCache) {
+        console.warn(`[Sandbox] ⚠️ node_modules cache "${options.nodeModulesCache}" not found, using stubs only`);
+      }
+    }
 
     // Prepare streams to capture output
     const stdoutStream = new PassThrough();
@@ -191,12 +185,13 @@ async function executeInDocker(code: string, language: string): Promise<Executio
     
     const runPromise = docker.run(image, cmd, [stdoutStream, stderrStream], {
       HostConfig: {
-        Binds: [`${tmpDir}:/app`], // Mount the temp dir to /app in container
+        Binds: binds,             // Temp dir at /app (+ read-only node_modules cache)
         AutoRemove: true,         // Delete container after run
         NetworkMode: 'none',      // No internet
         Memory: 512 * 1024 * 1024 // 512MB RAM limit
       },
       WorkingDir: '/app',
+      Env: env,
       Tty: false
     });
     
@@ -228,8 +223,14 @@ async function executeInDocker(code: string, language: string): Promise<Executio
 
 export const sandbox = {
   executeInSandbox,
-  getOrCreateSession: (sessionId: string) => ({
-    exec: async (code: string) => executeInSandbox(code, 'javascript'),
-    streamExec: async (code: string, onData: any) => executeInSandbox(code, 'javascript')
-  })
+  // Long-lived per-project sessions (see sandboxSession.ts)
+  getOrCreateSession: (projectId: string, workspacePath?: string) =>
+    sandboxSessions.getOrCreateSession(projectId, workspacePath),
+  exec: (sessionId: string, command: string, timeoutMs?: number) =>
+    sandboxSessions.exec(sessionId, command, timeoutMs),
+  streamExec: (sessionId: string, command: string, onData: OutputHandler, options?: StreamExecOptions) =>
+    sandboxSessions.streamExec(sessionId, command, onData, options),
+  destroySession: (sessionId: string) => sandboxSessions.destroySession(sessionId),
+  listSessions: () => sandboxSessions.listSessions(),
+  getSessionForProject: (projectId: string) => sandboxSessions.getSessionForProject(projectId),
 };
@@ -0,0 +1,486 @@
+/**
+ * Sandbox Sessions
+ *
+ * Long-lived, per-project execution environments with the project
+ * workspace mounted. The preferred backend is a Docker container kept alive
+ * between commands (CPU/memory/pid limits applied); where Docker is not
+ * available (App Runner, CI) commands run as local child processes in their
+ * own process group, started in the workspace with a scrubbed environment,
+ * a CPU-time ulimit and a Node heap cap. That backend is not a filesystem
+ * or network boundary: commands run as the server's user and can reach
+ * anything it can, so only the Docker backend isolates untrusted code.
+ *
+ * Sessions with no running command are reaped after SANDBOX_SESSION_IDLE_MS.
+ */
+
+import Docker from "dockerode";
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import { PassThrough } from "stream";
+import { prisma } from "../lib/prisma";
+
+export type SandboxBackend = "docker" | "local";
+export type OutputStream = "stdout" | "stderr";
+export type OutputHandler = (chunk: string, type: OutputStream) => void;
+
+export interface SandboxExecResult {
+  stdout: string;
+  stderr: string;
+  // stdout and stderr interleaved in arrival order
+  output: string;
+  exitCode: number;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+export interface StreamExecOptions {
+  timeoutMs?: number;
+  onExit?: (result: { exitCode: number; timedOut: boolean }) => void;
+}
+
+interface RunningExec {
+  id: string;
+  command: string;
+  startedAt: Date;
+  stop: () => void;
+}
+
+interface SandboxSession {
+  id: string;
+  projectId: string;
+  workspacePath: string;
+  backend: SandboxBackend;
+  containerId?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  running: Map<string, RunningExec>;
+}
+
+interface ExecHandle {
+  done: Promise<{ exitCode: number; timedOut: boolean }>;
+  stop: () => void;
+}
+
+const SESSION_IMAGE = process.env.SANDBOX_SESSION_IMAGE || "node:20-alpine";
+const SESSION_NETWORK = process.env.SANDBOX_SESSION_NETWORK || "bridge"; // npm install needs the registry
+const MEMORY_MB = Number(process.env.SANDBOX_SESSION_MEMORY_MB || 1024);
+const CPUS = Number(process.env.SANDBOX_SESSION_CPUS || 1);
+const PIDS_LIMIT = Number(process.env.SANDBOX_SESSION_PIDS || 256);
+const CPU_SECONDS = Number(process.env.SANDBOX_SESSION_CPU_SECONDS || 600);
+const IDLE_MS = Number(process.env.SANDBOX_SESSION_IDLE_MS || 15 * 60 * 1000);
+const REAP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_EXEC_TIMEOUT_MS = 60000;
+const MAX_CAPTURED_BYTES = 1024 * 1024;
+const KILL_GRACE_MS = 3000;
+
+// Environment passed to local-backend processes; provider keys and DB
+// credentials from the platform's own env must not leak into generated code
+const LOCAL_ENV_ALLOWLIST = ["PATH", "LANG", "TZ", "npm_config_registry", "npm_config_cache"];
+
+export class SandboxSessionManager {
+  private sessions = new Map<string, SandboxSession>();
+  private byProject = new Map<string, string>();
+  // In-flight creations, so concurrent callers share one container
+  private creating = new Map<string, Promise<SandboxSession>>();
+  private docker: Docker | null = null;
+  private dockerChecked = false;
+  private reaper: NodeJS.Timeout | null = null;
+
+  /**
+   * Session id for a project, creating the session if needed. The
+   * workspace path defaults to the project's recorded workspace.
+   */
+  async getOrCreateSession(projectId: string, workspacePath?: string): Promise<string> {
+    const existingId = this.byProject.get(projectId);
+    if (existingId) {
+      const existing = this.sessions.get(existingId)!;
+      if (await this.isAlive(existing)) {
+        existing.lastUsedAt = new Date();
+        return existing.id;
+      }
+      console.warn(`[SandboxSession] Session ${existingId} for ${projectId} is gone, recreating`);
+      await this.destroySession(existingId);
+    }
+
+    let pending = this.creating.get(projectId);
+    if (!pending) {
+      pending = this.createSession(projectId, workspacePath).finally(() => this.creating.delete(projectId));
+      this.creating.set(projectId, pending);
+    }
+    return (await pending).id;
+  }
+
+  /**
+   * Run a command to completion and collect its output.
+   */
+  async exec(sessionId: string, command: string, timeoutMs: number = DEFAULT_EXEC_TIMEOUT_MS): Promise<SandboxExecResult> {
+    const session = this.requireSession(sessionId);
+    const startedAt = Date.now();
+    let stdout = "";
+    let stderr = "";
+    let output = "";
+
+    const append = (current: string, chunk: string) =>
+      current.length >= MAX_CAPTURED_BYTES ? current : (current + chunk).slice(0, MAX_CAPTURED_BYTES);
+
+    const handle = this.start(session, command, timeoutMs, (chunk, type) => {
+      if (type === "stdout") stdout = append(stdout, chunk);
+      else stderr = append(stderr, chunk);
+      output = append(output, chunk);
+    });
+    const { exitCode, timedOut } = await handle.done;
+
+    return {
+      stdout,
+      stderr: timedOut ? `${stderr}\n[sandbox] Command timed out after ${timeoutMs}ms` : stderr,
+      output,
+      exitCode,
+      timedOut,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Start a (possibly long-running) command, forwarding output as it
+   * arrives. Resolves once the command has started, with a function that
+   * stops it. Without a timeout the command runs until stopped.
+   */
+  async streamExec(
+    sessionId: string,
+    command: string,
+    onData: OutputHandler,
+    options: StreamExecOptions = {}
+  ): Promise<() => void> {
+    const session = this.requireSession(sessionId);
+    const handle = this.start(session, command, options.timeoutMs, onData);
+    handle.done.then(
+      (result) => options.onExit?.(result),
+      (err) => console.error(`[SandboxSession] Stream exec failed in ${sessionId}:`, err)
+    );
+    return handle.stop;
+  }
+
+  async destroySession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    for (const exec of session.running.values()) exec.stop();
+    this.sessions.delete(sessionId);
+    if (this.byProject.get(session.projectId) === sessionId) {
+      this.byProject.delete(session.projectId);
+    }
+
+    if (session.backend === "docker" && session.containerId && this.docker) {
+      try {
+        await this.docker.getContainer(session.containerId).remove({ force: true });
+      } catch (e: any) {
+        console.warn(`[SandboxSession] Failed to remove container ${session.containerId}:`, e.message);
+      }
+    }
+    console.log(`[SandboxSession] 🗑️ Destroyed session ${sessionId} (${session.projectId})`);
+  }
+
+  listSessions() {
+    return Array.from(this.sessions.values()).map((s) => ({
+      id: s.id,
+      projectId: s.projectId,
+      backend: s.backend,
+      containerId: s.containerId,
+      workspacePath: s.workspacePath,
+      createdAt: s.createdAt.toISOString(),
+      lastUsedAt: s.lastUsedAt.toISOString(),
+      running: Array.from(s.running.values()).map((r) => ({
+        id: r.id,
+        command: r.command,
+        startedAt: r.startedAt.toISOString(),
+      })),
+    }));
+  }
+
+  getSessionForProject(projectId: string) {
+    const id = this.byProject.get(projectId);
+    return id ? this.listSessions().find((s) => s.id === id) || null : null;
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+    await Promise.all(Array.from(this.sessions.keys()).map((id) => this.destroySession(id)));
+  }
+
+  // --- Session lifecycle ---
+
+  private requireSession(sessionId: string): SandboxSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Sandbox session ${sessionId} not found (expired or destroyed)`);
+    }
+    session.lastUsedAt = new Date();
+    return session;
+  }
+
+  private async createSession(projectId: string, workspacePath?: string): Promise<SandboxSession> {
+    if (!workspacePath) {
+      const project = await prisma.project.findUnique({
+        where: { id: projectId },
+        select: { workspacePath: true },
+      });
+      workspacePath = project?.workspacePath || undefined;
+    }
+    if (!workspacePath) {
+      throw new Error(`Project ${projectId} has no workspace. Run initializeWorkspace first.`);
+    }
+    if (!fs.existsSync(workspacePath)) {
+      fs.mkdirSync(workspacePath, { recursive: true });
+    }
+
+    const session: SandboxSession = {
+      id: `sbx-${randomUUID()}`,
+      projectId,
+      workspacePath,
+      backend: "local",
+      createdAt: new Date(),
+      lastUsedAt: new Date(),
+      running: new Map(),
+    };
+
+    const docker = await this.getDocker();
+    if (docker) {
+      try {
+        session.containerId = await this.createContainer(docker, session);
+        session.backend = "docker";
+      } catch (e: any) {
+        console.warn(`[SandboxSession] Docker session failed (${e.message}), using local process backend`);
+      }
+    }
+
+    this.sessions.set(session.id, session);
+    this.byProject.set(projectId, session.id);
+    this.ensureReaper();
+
+    console.log(
+      `[SandboxSession] ✅ Session ${session.id} for ${projectId} (${session.backend}${
+        session.containerId ? ` ${session.containerId.slice(0, 12)}` : ""
+      })`
+    );
+    return session;
+  }
+
+  private async isAlive(session: SandboxSession): Promise<boolean> {
+    if (session.backend === "local") {
+      return fs.existsSync(session.workspacePath);
+    }
+    try {
+      const info = await this.docker!.getContainer(session.containerId!).inspect();
+      return info.State.Running;
+    } catch {
+      return false;
+    }
+  }
+
+  private ensureReaper() {
+    if (this.reaper) return;
+    this.reaper = setInterval(() => this.reapIdle(), REAP_INTERVAL_MS);
+    this.reaper.unref();
+  }
+
+  private async reapIdle() {
+    const now = Date.now();
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.running.size > 0) continue;
+      if (now - session.lastUsedAt.getTime() < IDLE_MS) continue;
+      console.log(`[SandboxSession] 🧹 Reaping idle session ${session.id} (${session.projectId})`);
+      await this.destroySession(session.id);
+    }
+  }
+
+  // --- Docker backend ---
+
+  private async getDocker(): Promise<Docker | null> {
+    if (this.dockerChecked) return this.docker;
+    this.dockerChecked = true;
+
+    if (process.env.SANDBOX_SESSION_BACKEND === "local") return null;
+    try {
+      const docker = new Docker();
+      await docker.ping();
+      this.docker = docker;
+    } catch {
+      console.warn("[SandboxSession] Docker unavailable, sessions will use the local process backend");
+    }
+    return this.docker;
+  }
+
+  private async ensureImage(docker: Docker, image: string) {
+    try {
+      await docker.getImage(image).inspect();
+    } catch {
+      console.log(`[SandboxSession] Pulling ${image}...`);
+      const stream = await docker.pull(image);
+      await new Promise((resolve, reject) =>
+        docker.modem.followProgress(stream, (err: any) => (err ? reject(err) : resolve(null)))
+      );
+    }
+  }
+
+  private async createContainer(docker: Docker, session: SandboxSession): Promise<string> {
+    await this.ensureImage(docker, SESSION_IMAGE);
+
+    const container = await docker.createContainer({
+      Image: SESSION_IMAGE,
+      // Idle keep-alive; commands run through `docker exec`
+      Cmd: ["sh", "-c", "trap 'exit 0' TERM; while :; do sleep 3600; done"],
+      WorkingDir: "/app",
+      Tty: false,
+      Labels: { "tholai.sandbox.project": session.projectId, "tholai.sandbox.session": session.id },
+      HostConfig: {
+        Binds: [`${session.workspacePath}:/app`],
+        NetworkMode: SESSION_NETWORK,
+        Memory: MEMORY_MB * 1024 * 1024,
+        NanoCpus: Math.round(CPUS * 1e9),
+        PidsLimit: PIDS_LIMIT,
+        AutoRemove: true,
+        SecurityOpt: ["no-new-privileges"],
+      },
+    });
+    await container.start();
+    return container.id;
+  }
+
+  private startDocker(session: SandboxSession, execId: string, command: string, onData: OutputHandler): ExecHandle {
+    const container = this.docker!.getContainer(session.containerId!);
+    const pidFile = `/tmp/.exec-${execId}.pid`;
+    let exited = false;
+
+    const done = (async () => {
+      const exec = await container.exec({
+        // Record the shell's pid so stop() can signal the command's process tree
+        Cmd: ["sh", "-c", `echo $$ > ${pidFile}; ${command}`],
+        AttachStdout: true,
+        AttachStderr: true,
+        WorkingDir: "/app",
+      });
+      const stream = await exec.start({ hijack: true, stdin: false });
+
+      const stdout = new PassThrough();
+      const stderr = new PassThrough();
+      stdout.on("data", (chunk) => onData(chunk.toString(), "stdout"));
+      stderr.on("data", (chunk) => onData(chunk.toString(), "stderr"));
+      this.docker!.modem.demuxStream(stream, stdout, stderr);
+
+      await new Promise<void>((resolve) => {
+        stream.on("end", () => resolve());
+        stream.on("close", () => resolve());
+        stream.on("error", () => resolve());
+      });
+      exited = true;
+
+      const info = await exec.inspect();
+      return info.ExitCode ?? 1;
+    })();
+
+    const stop = () => {
+      if (exited) return;
+      container
+        .exec({
+          Cmd: ["sh", "-c", `p=$(cat ${pidFile} 2>/dev/null) && pkill -TERM -P $p; kill -TERM $p; rm -f ${pidFile}`],
+        })
+        .then((e) => e.start({}))
+        .catch((err) => console.warn(`[SandboxSession] Failed to stop exec ${execId}:`, err.message));
+    };
+
+    return { done: done.then((exitCode) => ({ exitCode, timedOut: false })), stop };
+  }
+
+  // --- Local process backend ---
+
+  private startLocal(session: SandboxSession, command: string, onData: OutputHandler): ExecHandle {
+    const env: Record<string, string> = {
+      HOME: session.workspacePath,
+      CI: "true",
+      TERM: "dumb",
+      NODE_OPTIONS: `--max-old-space-size=${MEMORY_MB}`,
+    };
+    for (const key of LOCAL_ENV_ALLOWLIST) {
+      if (process.env[key]) env[key] = process.env[key]!;
+    }
+
+    // Own process group (detached) so the whole tree can be signalled
+    const child = spawn("sh", ["-c", `ulimit -t ${CPU_SECONDS} 2>/dev/null; ${command}`], {
+      cwd: session.workspacePath,
+      env,
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    child.stdout!.on("data", (chunk) => onData(chunk.toString(), "stdout"));
+    child.stderr!.on("data", (chunk) => onData(chunk.toString(), "stderr"));
+
+    let exited = false;
+    const done = new Promise<number>((resolve) => {
+      child.on("error", (err) => {
+        onData(`${err.message}\n`, "stderr");
+        exited = true;
+        resolve(1);
+      });
+      child.on("close", (code, signal) => {
+        exited = true;
+        resolve(code ?? (signal ? 128 + 15 : 1));
+      });
+    });
+
+    const signalGroup = (signal: NodeJS.Signals) => {
+      try {
+        process.kill(-child.pid!, signal);
+      } catch {
+        // already gone
+      }
+    };
+    const stop = () => {
+      if (exited || !child.pid) return;
+      signalGroup("SIGTERM");
+      setTimeout(() => !exited && signalGroup("SIGKILL"), KILL_GRACE_MS).unref();
+    };
+
+    return { done: done.then((exitCode) => ({ exitCode, timedOut: false })), stop };
+  }
+
+  // --- Shared ---
+
+  private start(session: SandboxSession, command: string, timeoutMs: number | undefined, onData: OutputHandler): ExecHandle {
+    const execId = randomUUID().slice(0, 8);
+    const handle =
+      session.backend === "docker"
+        ? this.startDocker(session, execId, command, onData)
+        : this.startLocal(session, command, onData);
+
+    let timedOut = false;
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          handle.stop();
+        }, timeoutMs)
+      : null;
+
+    session.running.set(execId, { id: execId, command, startedAt: new Date(), stop: handle.stop });
+
+    const done = handle.done
+      .catch((err) => {
+        onData(`${err.message}\n`, "stderr");
+        return { exitCode: 1, timedOut: false };
+      })
+      .then((result) => {
+        if (timer) clearTimeout(timer);
+        session.running.delete(execId);
+        session.lastUsedAt = new Date();
+        return { exitCode: timedOut ? 124 : result.exitCode, timedOut };
+      });
+
+    return { done, stop: handle.stop };
+  }
+}
+
+export const sandboxSessions = new SandboxSessionManager();
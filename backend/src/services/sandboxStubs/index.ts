@@ -0,0 +1,11 @@
+/**
+ * Sandbox Package Stubs: Module Index
+ */
+
+export { StubRegistry, stubRegistry, SANDBOX_SUPPORT_DIR } from './stubRegistry';
+export type { MaterializedStubs, NodeModulesCache } from './stubRegistry';
+export { generateStubManifest } from './stubGenerator';
+export type { GenerateStubOptions } from './stubGenerator';
+
+// Re-export types
+export * from '../../types/sandbox';
@@ -0,0 +1,226 @@
+/**
+ * Sandbox Stub Generator
+ *
+ * Builds a StubManifest from a package's type declarations: the package is
+ * imported from a virtual file inside the project, and the checker walks its
+ * export types. Named interfaces/classes become shared `types` entries so
+ * recursive APIs (chainable builders, lodash wrappers) stay finite.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { StubManifest, StubShape } from '../../types/sandbox';
+
+export interface GenerateStubOptions {
+  projectRoot: string;     // Where node_modules (and @types) live
+  version?: string;        // Defaults to the installed package.json version
+  maxDepth?: number;       // Anonymous nesting before falling back to 'any'
+  maxTypes?: number;       // Cap on shared named shapes
+}
+
+const DEFAULT_MAX_DEPTH = 4;
+const DEFAULT_MAX_TYPES = 400;
+const MAX_MEMBERS = 400;
+
+class SurfaceWalker {
+  readonly types: Record<string, StubShape> = {};
+  private names = new Map<ts.Type, string>();
+
+  constructor(
+    private checker: ts.TypeChecker,
+    private maxDepth: number,
+    private maxTypes: number
+  ) {}
+
+  describe(type: ts.Type, depth: number): StubShape {
+    const flags = type.flags;
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter | ts.TypeFlags.Never)) {
+      return { kind: 'any' };
+    }
+    if (flags & (ts.TypeFlags.Void | ts.TypeFlags.Undefined)) return { kind: 'value' };
+    if (flags & ts.TypeFlags.Null) return { kind: 'value', value: null };
+    if (type.isStringLiteral() || type.isNumberLiteral()) return { kind: 'value', value: type.value };
+    if (flags & ts.TypeFlags.BooleanLiteral) {
+      return { kind: 'value', value: (type as any).intrinsicName === 'true' };
+    }
+    if (flags & ts.TypeFlags.StringLike) return { kind: 'value', value: '' };
+    if (flags & (ts.TypeFlags.NumberLike | ts.TypeFlags.BigIntLike)) return { kind: 'value', value: 0 };
+    if (flags & ts.TypeFlags.BooleanLike) return { kind: 'value', value: false };
+    if (flags & ts.TypeFlags.ESSymbolLike) return { kind: 'any' };
+
+    if (type.isUnion()) {
+      // Prefer the richest constituent: an object beats a primitive beats null
+      const candidates = type.types.filter(t => !(t.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+      const object = candidates.find(t => t.flags & ts.TypeFlags.Object);
+      return this.describe(object || candidates[0] || type.types[0], depth);
+    }
+    if (type.isIntersection()) {
+      return this.describeObject(type, depth);
+    }
+
+    if (this.checker.isArrayType(type) || this.checker.isTupleType(type)) {
+      return { kind: 'array' };
+    }
+
+    const symbolName = type.getSymbol()?.getName();
+    if (symbolName === 'Promise' || symbolName === 'PromiseLike') {
+      const [resolved] = this.checker.getTypeArguments(type as ts.TypeReference);
+      return { kind: 'promise', resolves: resolved ? this.describe(resolved, depth + 1) : { kind: 'value' } };
+    }
+
+    // Built-ins (Date, Map, Buffer, ...) are real at runtime; don't constrain them
+    if (this.isLibType(type)) return { kind: 'any' };
+
+    const existing = this.names.get(type);
+    if (existing) return { kind: 'ref', ref: existing };
+
+    const name = this.sharedName(type);
+    if (name) {
+      if (Object.keys(this.types).length >= this.maxTypes) return { kind: 'any' };
+      this.names.set(type, name);
+      this.types[name] = { kind: 'any' };  // placeholder breaks cycles
+      this.types[name] = this.describeObject(type, 0);
+      return { kind: 'ref', ref: name };
+    }
+
+    if (depth >= this.maxDepth) return { kind: 'any' };
+    return this.describeObject(type, depth);
+  }
+
+  describeObject(type: ts.Type, depth: number): StubShape {
+    const shape: StubShape = { kind: 'object' };
+
+    const members: Record<string, StubShape> = {};
+    for (const property of this.checker.getPropertiesOfType(type).slice(0, MAX_MEMBERS)) {
+      if (property.getName().startsWith('__@')) continue;  // symbol-keyed members
+      const declaration = property.valueDeclaration || property.declarations?.[0];
+      if (!declaration) {
+        members[property.getName()] = { kind: 'any' };
+        continue;
+      }
+      const propertyType = this.checker.getTypeOfSymbolAtLocation(property, declaration);
+      members[property.getName()] = this.describe(propertyType, depth + 1);
+    }
+    if (Object.keys(members).length > 0) shape.members = members;
+
+    const indexType = this.checker.getIndexTypeOfType(type, ts.IndexKind.String);
+    if (indexType) shape.index = this.describe(indexType, depth + 1);
+
+    const [call] = type.getCallSignatures();
+    if (call) shape.call = this.describe(call.getReturnType(), depth + 1);
+
+    const [construct] = type.getConstructSignatures();
+    if (construct) shape.construct = this.describe(construct.getReturnType(), depth + 1);
+
+    return shape;
+  }
+
+  private sharedName(type: ts.Type): string | undefined {
+    const symbol = type.aliasSymbol || type.getSymbol();
+    if (!symbol || symbol.getName().startsWith('__')) return undefined;
+    const declaration = symbol.declarations?.[0];
+    if (!declaration) return undefined;
+    if (!ts.isInterfaceDeclaration(declaration) && !ts.isClassDeclaration(declaration) && !ts.isTypeAliasDeclaration(declaration)) {
+      return undefined;
+    }
+
+    // Generic instantiations differ by argument; keep the display text unique
+    const base = this.checker
+      .typeToString(type, undefined, ts.TypeFormatFlags.NoTruncation | ts.TypeFormatFlags.UseFullyQualifiedType)
+      .replace(/import\("[^"]*"\)\./g, '');
+    let name = base.length > 120 ? `${symbol.getName()}#${Object.keys(this.types).length}` : base;
+    while (this.types[name]) name += "'";
+    return name;
+  }
+
+  private isLibType(type: ts.Type): boolean {
+    const declaration = (type.aliasSymbol || type.getSymbol())?.declarations?.[0];
+    if (!declaration) return false;
+    const fileName = declaration.getSourceFile().fileName;
+    return /[\\/]typescript[\\/]lib[\\/]lib\.[^\\/]*\.d\.ts$/.test(fileName)
+      || /[\\/]@types[\\/]node[\\/]/.test(fileName);
+  }
+}
+
+function readInstalledVersion(packageName: string, projectRoot: string): string {
+  for (const candidate of [packageName, `@types/${packageName.replace(/^@/, '').replace('/', '__')}`]) {
+    const manifestPath = path.join(projectRoot, 'node_modules', candidate, 'package.json');
+    if (fs.existsSync(manifestPath)) {
+      return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')).version;
+    }
+  }
+  return '0.0.0';
+}
+
+/**
+ * Generate a stub manifest for `packageName` from the declarations installed
+ * under `projectRoot` (the package's own types or its @types package).
+ */
+export function generateStubManifest(packageName: string, options: GenerateStubOptions): StubManifest {
+  const projectRoot = path.resolve(options.projectRoot);
+  const entryName = path.join(projectRoot, '__stub_entry__.ts');
+  const entrySource = `import * as __pkg from ${JSON.stringify(packageName)};\nexport = __pkg;\n`;
+
+  const compilerOptions: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    noEmit: true,
+    types: [],
+  };
+
+  const host = ts.createCompilerHost(compilerOptions, true);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.fileExists = (fileName) => path.resolve(fileName) === entryName || fileExists.call(host, fileName);
+  host.readFile = (fileName) => (path.resolve(fileName) === entryName ? entrySource : readFile.call(host, fileName));
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) =>
+    path.resolve(fileName) === entryName
+      ? ts.createSourceFile(fileName, entrySource, languageVersion, true)
+      : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+
+  const program = ts.createProgram([entryName], compilerOptions, host);
+  const checker = program.getTypeChecker();
+  const entry = program.getSourceFile(entryName);
+
+  const importDeclaration = entry?.statements.find(ts.isImportDeclaration);
+  const moduleSymbol = importDeclaration && checker.getSymbolAtLocation(importDeclaration.moduleSpecifier);
+  if (!moduleSymbol) {
+    throw new Error(`No type declarations found for "${packageName}" under ${projectRoot}`);
+  }
+
+  const walker = new SurfaceWalker(checker, options.maxDepth ?? DEFAULT_MAX_DEPTH, options.maxTypes ?? DEFAULT_MAX_TYPES);
+
+  // `export =` modules (express, lodash) are the value itself; ES modules are their namespace
+  const exportAssignment = moduleSymbol.exports?.get(ts.InternalSymbolName.ExportEquals);
+  const exportEquals = exportAssignment && exportAssignment.flags & ts.SymbolFlags.Alias
+    ? checker.getAliasedSymbol(exportAssignment)
+    : exportAssignment;
+  let exportsShape: StubShape;
+  if (exportEquals?.valueDeclaration) {
+    exportsShape = walker.describeObject(checker.getTypeOfSymbolAtLocation(exportEquals, exportEquals.valueDeclaration), 0);
+  } else {
+    const members: Record<string, StubShape> = {};
+    for (const symbol of checker.getExportsOfModule(moduleSymbol)) {
+      const resolved = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+      if (!(resolved.flags & ts.SymbolFlags.Value)) continue;  // types and interfaces have no runtime presence
+      const declaration = resolved.valueDeclaration || resolved.declarations?.[0];
+      if (!declaration) continue;
+      members[symbol.getName()] = walker.describe(checker.getTypeOfSymbolAtLocation(resolved, declaration), 1);
+    }
+    exportsShape = { kind: 'object', members };
+  }
+
+  return {
+    name: packageName,
+    version: options.version || readInstalledVersion(packageName, projectRoot),
+    source: 'generated',
+    generatedFrom: (moduleSymbol.declarations?.[0]?.getSourceFile().fileName || '').replace(projectRoot + path.sep, ''),
+    generatedAt: new Date().toISOString(),
+    exports: exportsShape,
+    types: walker.types,
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Sandbox Stub Registry
+ *
+ * Versioned package stubs for one-shot sandbox runs. Builtin manifests ship
+ * in ./manifests; generated or custom ones are persisted under
+ * SANDBOX_STUBS_DIR. Each project picks which stubs it gets (default: all
+ * builtins) and can instead mount a pre-built real node_modules cache from
+ * SANDBOX_NODE_MODULES_CACHE_DIR, read-only and without network access.
+ */
+
+import fs from "fs";
+import path from "path";
+import { prisma } from "../../lib/prisma";
+import { SandboxProjectConfig, StubManifest, StubSummary } from "../../types/sandbox";
+import { generateStubManifest } from "./stubGenerator";
+import { STUB_RUNTIME_SOURCE } from "./stubRuntime";
+import awsSdk from "./manifests/aws-sdk.json";
+import express from "./manifests/express.json";
+import jestGlobals from "./manifests/jest__globals.json";
+import lodash from "./manifests/lodash.json";
+import prismaClient from "./manifests/prisma__client.json";
+import react from "./manifests/react.json";
+import sequelize from "./manifests/sequelize.json";
+
+const BUILTIN_MANIFESTS = [lodash, prismaClient, react, express, awsSdk, sequelize, jestGlobals] as unknown as StubManifest[];
+
+const STUBS_DIR = process.env.SANDBOX_STUBS_DIR || path.join(process.cwd(), ".sandbox_stubs");
+const NODE_MODULES_CACHE_DIR =
+  process.env.SANDBOX_NODE_MODULES_CACHE_DIR || path.join(process.cwd(), ".sandbox_cache");
+
+// Directory inside the run's temp dir holding the runtime, stubs and setup file
+export const SANDBOX_SUPPORT_DIR = "__sandbox__";
+
+export interface MaterializedStubs {
+  setupFile: string;      // Relative to the run dir; preload with `node -r`
+  nodePath: string;       // Relative to the run dir; stub fallback for NODE_PATH
+  packages: string[];
+}
+
+export interface NodeModulesCache {
+  key: string;
+  path: string;
+  packages: number;
+}
+
+/**
+ * "lodash", "lodash@4", "@prisma/client@5.22.0" -> name + optional version prefix
+ */
+function parseSpec(spec: string): { name: string; range?: string } {
+  const at = spec.lastIndexOf("@");
+  if (at > 0) return { name: spec.slice(0, at), range: spec.slice(at + 1) };
+  return { name: spec };
+}
+
+function matchesVersion(version: string, range?: string): boolean {
+  if (!range || range === "*" || range === "latest") return true;
+  return version === range || version.startsWith(`${range}.`);
+}
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split(/[.-]/).map(Number);
+  const pb = b.split(/[.-]/).map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+function fileNameFor(manifest: Pick<StubManifest, "name" | "version">): string {
+  return `${manifest.name.replace(/^@/, "").replace(/\//g, "__")}@${manifest.version}.json`;
+}
+
+function summarize(manifest: StubManifest): StubSummary {
+  const { name, version, source, description, globals } = manifest;
+  return { name, version, source, description, globals };
+}
+
+export class StubRegistry {
+  // name -> version -> manifest
+  private manifests = new Map<string, Map<string, StubManifest>>();
+  private loaded = false;
+
+  private load() {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    for (const manifest of BUILTIN_MANIFESTS) this.add(manifest);
+
+    if (!fs.existsSync(STUBS_DIR)) return;
+    for (const file of fs.readdirSync(STUBS_DIR).filter((f) => f.endsWith(".json"))) {
+      try {
+        this.add(JSON.parse(fs.readFileSync(path.join(STUBS_DIR, file), "utf-8")));
+      } catch (error: any) {
+        console.warn(`[StubRegistry] ⚠️ Skipping ${file}: ${error.message}`);
+      }
+    }
+  }
+
+  private add(manifest: StubManifest) {
+    if (!manifest?.name || !manifest.version || !manifest.exports) {
+      throw new Error("Stub manifest needs name, version and exports");
+    }
+    if (!this.manifests.has(manifest.name)) this.manifests.set(manifest.name, new Map());
+    this.manifests.get(manifest.name)!.set(manifest.version, manifest);
+  }
+
+  list(): StubSummary[] {
+    this.load();
+    return [...this.manifests.values()].flatMap((versions) => [...versions.values()].map(summarize));
+  }
+
+  /**
+   * Highest registered version matching the spec
+   */
+  get(spec: string): StubManifest | undefined {
+    this.load();
+    const { name, range } = parseSpec(spec);
+    const versions = this.manifests.get(name);
+    if (!versions) return undefined;
+
+    const [best] = [...versions.values()]
+      .filter((m) => matchesVersion(m.version, range))
+      .sort((a, b) => compareVersions(b.version, a.version));
+    return best;
+  }
+
+  /**
+   * Add (or replace) a non-builtin manifest and persist it
+   */
+  register(manifest: StubManifest): StubSummary {
+    this.load();
+    if (manifest.source === "builtin") {
+      throw new Error("Builtin stubs ship with the platform and can't be registered");
+    }
+    this.add(manifest);
+
+    fs.mkdirSync(STUBS_DIR, { recursive: true });
+    fs.writeFileSync(path.join(STUBS_DIR, fileNameFor(manifest)), JSON.stringify(manifest, null, 2));
+    console.log(`[StubRegistry] ✅ Registered ${manifest.name}@${manifest.version} (${manifest.source})`);
+    return summarize(manifest);
+  }
+
+  /**
+   * Generate a stub from the .d.ts installed under projectRoot and register it
+   */
+  generate(packageName: string, projectRoot: string, version?: string): StubSummary {
+    const manifest = generateStubManifest(packageName, { projectRoot, version });
+    return this.register(manifest);
+  }
+
+  /**
+   * Resolve stub specs to manifests; no selection means every builtin
+   */
+  resolve(specs?: string[]): StubManifest[] {
+    this.load();
+    if (!specs) return BUILTIN_MANIFESTS;
+
+    const resolved: StubManifest[] = [];
+    for (const spec of specs) {
+      const manifest = this.get(spec);
+      if (manifest) resolved.push(manifest);
+      else console.warn(`[StubRegistry] ⚠️ No stub registered for "${spec}"`);
+    }
+    return resolved;
+  }
+
+  // --- PER-PROJECT SELECTION ---
+
+  async getProjectConfig(projectId: string): Promise<SandboxProjectConfig> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { sandboxConfig: true },
+    });
+    return (project?.sandboxConfig as SandboxProjectConfig) || {};
+  }
+
+  async setProjectConfig(projectId: string, config: SandboxProjectConfig): Promise<SandboxProjectConfig> {
+    for (const spec of config.stubs || []) {
+      if (!this.get(spec)) throw new Error(`No stub registered for "${spec}"`);
+    }
+    if (config.nodeModulesCache && !this.getNodeModulesCachePath(config.nodeModulesCache)) {
+      throw new Error(`node_modules cache "${config.nodeModulesCache}" not found in ${NODE_MODULES_CACHE_DIR}`);
+    }
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { sandboxConfig: config as any },
+    });
+    return config;
+  }
+
+  // --- NODE_MODULES CACHES ---
+
+  /**
+   * Host path of a pre-built `<cache dir>/<key>/node_modules`, if present
+   */
+  getNodeModulesCachePath(key: string): string | undefined {
+    if (!/^[\w.-]+$/.test(key)) return undefined;
+    const cachePath = path.join(NODE_MODULES_CACHE_DIR, key, "node_modules");
+    return fs.existsSync(cachePath) ? cachePath : undefined;
+  }
+
+  listNodeModulesCaches(): NodeModulesCache[] {
+    if (!fs.existsSync(NODE_MODULES_CACHE_DIR)) return [];
+    return fs
+      .readdirSync(NODE_MODULES_CACHE_DIR)
+      .map((key) => ({ key, path: this.getNodeModulesCachePath(key) }))
+      .filter((c): c is { key: string; path: string } => !!c.path)
+      .map(({ key, path: cachePath }) => ({
+        key,
+        path: cachePath,
+        packages: fs.readdirSync(cachePath).filter((entry) => !entry.startsWith(".")).length,
+      }));
+  }
+
+  // --- MATERIALIZATION ---
+
+  /**
+   * Write the runtime, one module per stub and a preload that installs
+   * globals into `runDir/__sandbox__`. Stubs resolve through NODE_PATH, so a
+   * mounted real node_modules always takes precedence.
+   */
+  materialize(runDir: string, manifests: StubManifest[]): MaterializedStubs {
+    const supportDir = path.join(runDir, SANDBOX_SUPPORT_DIR);
+    const modulesDir = path.join(supportDir, "node_modules");
+    fs.mkdirSync(modulesDir, { recursive: true });
+
+    const runtimeFile = path.join(supportDir, "runtime.js");
+    fs.writeFileSync(runtimeFile, STUB_RUNTIME_SOURCE);
+
+    for (const manifest of manifests) {
+      const packageDir = path.join(modulesDir, ...manifest.name.split("/"));
+      fs.mkdirSync(packageDir, { recursive: true });
+      const runtimePath = path.relative(packageDir, runtimeFile).split(path.sep).join("/");
+
+      fs.writeFileSync(path.join(packageDir, "manifest.json"), JSON.stringify(manifest));
+      fs.writeFileSync(
+        path.join(packageDir, "index.js"),
+        `const { createStubModule } = require(${JSON.stringify(runtimePath)});\n` +
+          `module.exports = createStubModule(require('./manifest.json'));\n`
+      );
+      fs.writeFileSync(
+        path.join(packageDir, "package.json"),
+        JSON.stringify({ name: manifest.name, version: manifest.version, main: "index.js" })
+      );
+    }
+
+    const setup = manifests
+      .filter((m) => m.globals?.length)
+      .map((m) => `installGlobals(require('./node_modules/${m.name}/manifest.json'), require('./node_modules/${m.name}'));`);
+    fs.writeFileSync(
+      path.join(supportDir, "setup.js"),
+      `const { installGlobals } = require('./runtime.js');\n${setup.join("\n")}\n`
+    );
+
+    return {
+      setupFile: `${SANDBOX_SUPPORT_DIR}/setup.js`,
+      nodePath: `${SANDBOX_SUPPORT_DIR}/node_modules`,
+      packages: manifests.map((m) => `${m.name}@${m.version}`),
+    };
+  }
+}
+
+export const stubRegistry = new StubRegistry();
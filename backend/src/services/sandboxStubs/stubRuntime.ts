@@ -0,0 +1,114 @@
+/**
+ * Sandbox Stub Runtime
+ *
+ * Plain CommonJS source written into every sandbox run. It turns a
+ * StubManifest into a live module: declared members are built lazily from
+ * their shapes, and reading an undeclared member throws a TypeError naming
+ * the package, which is how hallucinated APIs surface in the sandbox.
+ */
+
+export const STUB_RUNTIME_SOURCE = String.raw`'use strict';
+
+// Probed by interop helpers, test runners and util.inspect; never an API call
+const PASSTHROUGH = new Set(['then', '__esModule', 'toJSON', 'inspect', 'asymmetricMatch', '$$typeof', 'nodeType', 'default']);
+
+function permissive() {
+  const target = function () {};
+  const proxy = new Proxy(target, {
+    get: (t, key) => (typeof key === 'symbol' ? Reflect.get(t, key) : key === 'then' ? undefined : proxy),
+    apply: () => proxy,
+    construct: () => proxy,
+  });
+  return proxy;
+}
+
+function createStubModule(manifest) {
+  const types = manifest.types || {};
+  const label = manifest.name + '@' + manifest.version;
+
+  function build(shape, path) {
+    if (!shape) return undefined;
+    switch (shape.kind) {
+      case 'any':
+        return permissive();
+      case 'value':
+        return shape.value;
+      case 'array':
+        return [];
+      case 'promise':
+        return Promise.resolve(build(shape.resolves, path));
+      case 'ref':
+        return build(types[shape.ref], path);
+      case 'object':
+        return strictObject(shape, path);
+      default:
+        return undefined;
+    }
+  }
+
+  function strictObject(shape, path) {
+    const members = shape.members || {};
+    const target = shape.call || shape.construct ? function () {} : {};
+    const built = new Map();
+
+    return new Proxy(target, {
+      get(t, key) {
+        if (typeof key === 'symbol') return Reflect.get(t, key);
+        if (built.has(key)) return built.get(key);
+        const declared = Object.prototype.hasOwnProperty.call(members, key);
+        if (!declared && (PASSTHROUGH.has(key) || key in t)) return Reflect.get(t, key);
+        if (declared || shape.index) {
+          const value = build(declared ? members[key] : shape.index, path + '.' + key);
+          built.set(key, value);
+          return value;
+        }
+        throw new TypeError(path + '.' + key + ' does not exist in ' + label + ' (sandbox stub)');
+      },
+      set(t, key, value) {
+        built.set(key, value);
+        return true;
+      },
+      has(t, key) {
+        return built.has(key) || Object.prototype.hasOwnProperty.call(members, key) || Reflect.has(t, key);
+      },
+      ownKeys(t) {
+        return Array.from(new Set([...Reflect.ownKeys(t), ...Object.keys(members), ...built.keys()]));
+      },
+      getOwnPropertyDescriptor(t, key) {
+        const own = Reflect.getOwnPropertyDescriptor(t, key);
+        if (own) return own;
+        if (built.has(key) || Object.prototype.hasOwnProperty.call(members, key)) {
+          return { configurable: true, enumerable: true, writable: true, value: this.get(t, key) };
+        }
+        return undefined;
+      },
+      apply() {
+        if (!shape.call) throw new TypeError(path + ' is not a function (' + label + ')');
+        return build(shape.call, path + '()');
+      },
+      construct() {
+        if (!shape.construct) throw new TypeError(path + ' is not a constructor (' + label + ')');
+        return build(shape.construct, 'new ' + path + '()');
+      },
+    });
+  }
+
+  const stub = build(manifest.exports, manifest.name);
+  if (!manifest.implementation) return stub;
+
+  // Hand-written behaviour layered over the declared surface
+  const overrides = new Function('stub', 'runtime', manifest.implementation)(stub, { build, permissive });
+  for (const key of Object.keys(overrides || {})) {
+    stub[key] = overrides[key];
+  }
+  return stub;
+}
+
+function installGlobals(manifest, stub) {
+  for (const name of manifest.globals || []) {
+    globalThis[name] = stub[name];
+  }
+}
+
+module.exports = { createStubModule, installGlobals };
+`;
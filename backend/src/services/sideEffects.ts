@@ -0,0 +1,175 @@
+/**
+ * Guarded Side Effects
+ *
+ * The one way agents and services act on a project: workspace file writes,
+ * sandbox and workspace commands, package installs and outbound HTTP. Each
+ * call is evaluated against the safety policy, recorded to the task's
+ * immutable trace, and then performed, blocked, or escalated to an approval
+ * gate (the call fails until the gate is approved). test_side_effects.ts
+ * fails the build when a module performs these directly.
+ *
+ * URLs inside commands are checked as network calls too, and file paths
+ * are resolved (following symlinks) before the policy sees them: the
+ * workspace-relative path inside the workspace, the absolute path outside
+ * it, so system-directory rules apply wherever the workspace lives.
+ */
+
+import path from "path";
+import { policyEngine } from "./policy";
+import { PolicyAction, PolicyDecision } from "../types/policy";
+import { recordImmutableTrace } from "./traceImmutability";
+import { workspaceManager } from "./workspaceManager";
+import { sandbox } from "./sandbox";
+import { OutputHandler, SandboxExecResult, StreamExecOptions } from "./sandboxSession";
+
+export type SideEffectKind = "file_write" | "command" | "package_install" | "network";
+
+export interface SideEffectContext {
+  projectId?: string;
+  taskId?: string;              // Decisions are traced on the task when given
+  agentRole?: string;           // Matched by rules' agentRole condition
+  actor?: string;               // Trace agentId; defaults to agentRole
+}
+
+const POLICY_ACTIONS: Record<SideEffectKind, PolicyAction> = {
+  file_write: "path",
+  command: "command",
+  package_install: "package",
+  network: "network",
+};
+
+// npm install spec: optional scope, name, optional @version (no shell metacharacters)
+const PACKAGE_SPEC = /^(@[a-z0-9][\w.-]*\/)?[a-z0-9][\w.-]*(@[\w.^~*-]+)?$/i;
+
+// URLs a command may reach (curl, wget, git clone, npm install <url>, ...)
+const COMMAND_URL = /\b(?:https?|ftp):\/\/[^\s'"`|;&<>()]+/gi;
+
+/**
+ * True for errors thrown because the policy denied the side effect or is
+ * waiting on an approval gate (`error.decision` has the details)
+ */
+export function isPolicyBlock(error: any): boolean {
+  return error?.code === "POLICY_BLOCKED" || error?.code === "POLICY_APPROVAL_REQUIRED";
+}
+
+function describe(kind: SideEffectKind, subject: string): string {
+  return `${kind} "${subject.length > 120 ? `${subject.slice(0, 117)}...` : subject}"`;
+}
+
+export class SideEffectGuard {
+  /**
+   * Evaluate and trace a side effect; throws unless the policy allows it
+   */
+  async authorize(kind: SideEffectKind, subject: string, context: SideEffectContext): Promise<PolicyDecision> {
+    const decision = await this.authorizeOne(kind, subject, context);
+    if (kind === "command") {
+      for (const url of new Set(subject.match(COMMAND_URL) || [])) {
+        await this.authorizeOne("network", url, context);
+      }
+    }
+    return decision;
+  }
+
+  private async authorizeOne(kind: SideEffectKind, subject: string, context: SideEffectContext): Promise<PolicyDecision> {
+    const decision = await policyEngine.check({
+      action: POLICY_ACTIONS[kind],
+      subject,
+      projectId: context.projectId,
+      taskId: context.taskId,
+      agentRole: context.agentRole,
+    });
+    await this.trace(kind, subject, context, decision);
+
+    if (!decision.allowed) {
+      const pending = decision.effect === "require_approval";
+      const message = pending
+        ? `Approval required for ${describe(kind, subject)}${decision.gateId ? ` (gate ${decision.gateId})` : ""}: ${decision.reason}`
+        : `Blocked by safety policy: ${describe(kind, subject)}: ${decision.reason}`;
+      throw Object.assign(new Error(message), {
+        status: 403,
+        code: pending ? "POLICY_APPROVAL_REQUIRED" : "POLICY_BLOCKED",
+        decision,
+      });
+    }
+    return decision;
+  }
+
+  async writeFile(context: SideEffectContext & { projectId: string }, relativePath: string, content: string): Promise<void> {
+    const { workspacePath, target, inside } = await workspaceManager.resolvePath(context.projectId, relativePath);
+    const subject = inside ? path.relative(workspacePath, target).split(path.sep).join("/") : target;
+    await this.authorize("file_write", subject, context);
+    await workspaceManager.writeFile(context.projectId, relativePath, content);
+  }
+
+  async exec(context: SideEffectContext, sessionId: string, command: string, timeoutMs?: number): Promise<SandboxExecResult> {
+    await this.authorize("command", command, context);
+    return sandbox.exec(sessionId, command, timeoutMs);
+  }
+
+  async streamExec(
+    context: SideEffectContext,
+    sessionId: string,
+    command: string,
+    onData: OutputHandler,
+    options?: StreamExecOptions
+  ): Promise<() => void> {
+    await this.authorize("command", command, context);
+    return sandbox.streamExec(sessionId, command, onData, options);
+  }
+
+  /**
+   * Run a command directly in the workspace directory (outside the sandbox)
+   */
+  async runWorkspaceCommand(context: SideEffectContext & { projectId: string }, command: string) {
+    await this.authorize("command", command, context);
+    return workspaceManager.runCommand(context.projectId, command);
+  }
+
+  /**
+   * `npm install <spec>` in a sandbox session. The package name is what the
+   * policy sees; the spec is validated so it cannot smuggle in a command.
+   */
+  async installPackage(
+    context: SideEffectContext,
+    sessionId: string,
+    spec: string,
+    timeoutMs: number = 120000
+  ): Promise<SandboxExecResult> {
+    if (!PACKAGE_SPEC.test(spec)) {
+      throw Object.assign(new Error(`Blocked: "${spec}" is not a valid npm package spec`), { status: 400, code: "POLICY_BLOCKED" });
+    }
+    const packageName = spec.replace(/^(@?[^@]+)@.*$/, "$1");
+    await this.authorize("package_install", packageName, context);
+    return sandbox.exec(sessionId, `npm install ${spec}`, timeoutMs);
+  }
+
+  async fetch(context: SideEffectContext, url: string, init?: RequestInit): Promise<Response> {
+    await this.authorize("network", url, context);
+    return fetch(url, init);
+  }
+
+  /**
+   * Trace rows belong to a task; without one the decision is still in
+   * PolicyDecisionLog
+   */
+  private async trace(kind: SideEffectKind, subject: string, context: SideEffectContext, decision: PolicyDecision) {
+    if (!context.taskId) return;
+    try {
+      await recordImmutableTrace(context.taskId, context.taskId, context.actor || context.agentRole || "system", "SIDE_EFFECT", {
+        kind,
+        subject: subject.slice(0, 2000),
+        projectId: context.projectId,
+        effect: decision.effect,
+        allowed: decision.allowed,
+        ruleId: decision.ruleId,
+        source: decision.source,
+        gateId: decision.gateId,
+        reason: decision.reason,
+      });
+    } catch (error) {
+      console.error(`[SideEffects] Failed to trace ${kind} for task ${context.taskId}:`, error);
+    }
+  }
+}
+
+export const sideEffects = new SideEffectGuard();
@@ -1,5 +1,6 @@
 import { prisma } from "../lib/prisma";
 import path from "path";
+import { repoQuery } from "./repoQuery";
 
 export interface StackFrame {
   functionName: string | null;
@@ -86,10 +87,12 @@ export class StackTraceMapper {
       },
     });
 
-    // Find the exact file match (if multiple files have same name)
-    // For MVP, we take the first one or try to match more path segments?
-    // Let's just use the first candidate for now.
-    const file = candidates[0];
+    // Find the exact file match (if multiple files have same name):
+    // prefer the indexed path that is a suffix of the frame path
+    const framePath = topFrame.filePath.split(path.sep).join("/");
+    const file =
+      candidates.find((c) => framePath.endsWith(`/${c.path}`) || framePath === c.path) ||
+      candidates[0];
     if (!file) return null;
 
     // Find symbol containing the line number
@@ -98,10 +101,16 @@ export class StackTraceMapper {
         s.startLine <= topFrame.lineNumber && s.endLine >= topFrame.lineNumber
     );
 
+    // Who else is affected by a fix here
+    const impact = symbol
+      ? await repoQuery.impactRadius(projectId, { symbol: symbol.name, filePath: file.path }, 2)
+      : null;
+
     return {
       frame: topFrame,
       file: file.path,
       symbol: symbol || null,
+      impact,
     };
   }
 }
@@ -5,6 +5,7 @@ import {
   emitAgentUpdate,
   emitLog,
 } from "../websocket/socketServer";
+import { taskQueue, LEASED_TASK_ROLES } from "./taskQueue";
 
 export async function dispatchTasks() {
   // 1. Find all QUEUED tasks, ordered by priority (or creation time)
@@ -226,6 +227,12 @@ async function assignTaskToAgent(
         }`
       );
     });
+
+    // Track the assignment in the durable queue so it survives worker
+    // crashes; only roles whose worker leases and acks are queued
+    if (LEASED_TASK_ROLES.includes(task.requiredRole)) {
+      await taskQueue.add(task.id);
+    }
   } catch (error) {
     console.error(
       `[TaskDispatcher] ❌ Failed to assign task ${task.id} to agent ${agent.id}:`,
@@ -0,0 +1,185 @@
+/**
+ * Task File Bases
+ *
+ * Task.files records, per path, the content an agent last worked from
+ * ({ path, artifactId, sha256 }, content kept as an Artifact). Patches an
+ * agent produces are applied against the live workspace file; when other
+ * agents changed it in the meantime, the recorded base lets PatchEngine
+ * three-way merge instead of clobbering their edits. Conflicts, and diffs
+ * that do not apply at all, send the task back to NEEDS_REVISION with the
+ * hunks per file in reviewFeedback.patchConflicts.
+ */
+
+import { createHash } from "crypto";
+import { prisma } from "../lib/prisma";
+import { emitTaskUpdate } from "../websocket/socketServer";
+import { patchEngine, PatchOperation, PatchReport } from "./patchEngine";
+import { ConflictHunk } from "./diffMerge";
+import { workspaceManager } from "./workspaceManager";
+import { sideEffects } from "./sideEffects";
+
+export interface TaskFileEntry {
+  path: string;
+  artifactId?: string;
+  sha256: string;
+}
+
+export interface PatchConflictEntry {
+  file: string;
+  hunks: ConflictHunk[];
+  operations: PatchReport["results"];
+  instruction: string;
+  detectedAt: string;
+}
+
+export interface TaskPatchOutcome {
+  applied: boolean;
+  conflicted: boolean;
+  report: PatchReport;
+}
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+export class TaskFileService {
+  /**
+   * Record `content` as the base the task's next patch to `filePath` is written against
+   */
+  async snapshot(taskId: string, filePath: string, content: string): Promise<TaskFileEntry> {
+    const hash = sha256(content);
+    const task = await prisma.task.findUnique({ where: { id: taskId }, select: { files: true } });
+    const files = ((task?.files as unknown as TaskFileEntry[]) || []).filter((f) => f.path !== filePath);
+
+    const existing = await prisma.artifact.findFirst({
+      where: { taskId, path: filePath, hash },
+      select: { id: true },
+    });
+    const artifact = existing || (await prisma.artifact.create({
+      data: { taskId, path: filePath, content, hash },
+      select: { id: true },
+    }));
+
+    const entry: TaskFileEntry = { path: filePath, artifactId: artifact.id, sha256: hash };
+    await prisma.task.update({
+      where: { id: taskId },
+      data: { files: [...files, entry] as any },
+    });
+    return entry;
+  }
+
+  /**
+   * Content of the recorded base for `filePath`, verified against its sha256
+   */
+  async getBase(taskId: string, filePath: string): Promise<{ content: string; sha256: string } | undefined> {
+    const task = await prisma.task.findUnique({ where: { id: taskId }, select: { files: true } });
+    const entry = ((task?.files as unknown as TaskFileEntry[]) || []).find((f) => f.path === filePath);
+    if (!entry) return undefined;
+
+    const artifact = entry.artifactId
+      ? await prisma.artifact.findUnique({ where: { id: entry.artifactId } })
+      : await prisma.artifact.findFirst({ where: { hash: entry.sha256 } });
+    if (!artifact) return undefined;
+
+    if (sha256(artifact.content) !== entry.sha256) {
+      console.error(`[TaskFiles] 🚨 Base for ${filePath} (task ${taskId}) does not match its sha256`);
+      return undefined;
+    }
+    return { content: artifact.content, sha256: entry.sha256 };
+  }
+
+  /**
+   * Apply operations to the live workspace file. Diffs fall back to a
+   * three-way merge against the task's base; on conflict, or when a diff
+   * fits neither the file nor the base, the file is left alone and the task
+   * goes to NEEDS_REVISION with the hunks that did not apply.
+   * The write is subject to the safety policy (throws when blocked).
+   */
+  async applyPatch(
+    taskId: string,
+    projectId: string,
+    filePath: string,
+    operations: PatchOperation[],
+    agentRole?: string
+  ): Promise<TaskPatchOutcome> {
+    let current = "";
+    try {
+      current = await workspaceManager.readFile(projectId, filePath);
+    } catch {
+      // New file: diffs against /dev/null apply to empty content
+    }
+
+    const base = operations.some((op) => op.type === "apply_diff")
+      ? await this.getBase(taskId, filePath)
+      : undefined;
+    const withBase = operations.map((op) =>
+      op.type === "apply_diff" && op.base === undefined && base
+        ? { ...op, base: base.content, baseSha256: base.sha256 }
+        : op
+    );
+
+    const report = patchEngine.applyPatchesWithReport(filePath, current, withBase);
+    const failures = report.results.filter((r) => !r.matched && !r.skipped);
+    const conflicts = failures.flatMap((r) => r.conflicts || []);
+
+    if (conflicts.length > 0 || failures.some((r) => r.type === "apply_diff")) {
+      await this.reportConflicts(taskId, filePath, conflicts, report);
+      return { applied: false, conflicted: true, report };
+    }
+    if (failures.length > 0) {
+      return { applied: false, conflicted: false, report };
+    }
+
+    if (report.changed) {
+      await sideEffects.writeFile({ projectId, taskId, agentRole }, filePath, report.code);
+    }
+    // What was just written is the base for the task's next revision
+    await this.snapshot(taskId, filePath, report.code);
+    console.log(`[TaskFiles] ✅ Patched ${filePath} (${report.results.map((r) => r.strategy || r.type).join(", ")})`);
+    return { applied: true, conflicted: false, report };
+  }
+
+  private async reportConflicts(
+    taskId: string,
+    filePath: string,
+    conflicts: ConflictHunk[],
+    report: PatchReport
+  ) {
+    const concurrentEdit = conflicts.some((c) => c.reason === "conflict");
+    console.warn(
+      concurrentEdit
+        ? `[TaskFiles] ⚠️ ${conflicts.length} conflicting hunks in ${filePath}; sending task ${taskId} back for revision`
+        : `[TaskFiles] ⚠️ Diff for ${filePath} did not apply; sending task ${taskId} back for revision`
+    );
+
+    const task = await prisma.task.findUnique({ where: { id: taskId }, select: { reviewFeedback: true } });
+    const existingFeedback = (task?.reviewFeedback as any) || {};
+    // One entry per file: a conflict in another file of the task stays reported
+    const previous: PatchConflictEntry[] = ([] as PatchConflictEntry[]).concat(existingFeedback.patchConflicts || []);
+    const entry: PatchConflictEntry = {
+      file: filePath,
+      hunks: conflicts,
+      operations: report.results,
+      instruction:
+        concurrentEdit
+          ? "The file changed since you read it. Re-read it and redo your change on top of the current content."
+          : "Your diff does not match the file. Re-read it and send a diff against its current content.",
+      detectedAt: new Date().toISOString(),
+    };
+
+    const updatedTask = await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status: "NEEDS_REVISION",
+        lastFailureReason: "PATCH_CONFLICT",
+        reviewFeedback: {
+          ...existingFeedback,
+          patchConflicts: [...previous.filter((p) => p.file !== filePath), entry],
+        } as any,
+      },
+    });
+    emitTaskUpdate(updatedTask);
+  }
+}
+
+export const taskFiles = new TaskFileService();
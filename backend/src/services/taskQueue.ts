@@ -1,26 +1,347 @@
 import Redis from "ioredis";
+import { randomUUID } from "crypto";
+import { prisma } from "../lib/prisma";
+import { emitAgentUpdate, emitLog, emitTaskUpdate } from "../websocket/socketServer";
 
 /**
  * Phase 3: Message Queue (Redis)
- * 
+ *
  * Ensures Fault Tolerance.
- * If the server crashes, tasks persist in the 'task_queue' list.
+ * A task is never removed from the queue on pop: it is *leased* to a worker
+ * for a visibility timeout. Workers heartbeat to extend the lease and ack when
+ * done. If a worker crashes, the lease expires and the reaper re-delivers the
+ * task, bumping `Task.retryCount`. After `maxAttempts` the task is moved to the
+ * dead-letter set and marked FAILED.
+ *
+ * Redis is used when reachable; otherwise an in-process backend with the same
+ * semantics takes over so dev and tests behave like prod.
  */
+
+const READY_KEY = "task_queue";
+const INFLIGHT_KEY = "task_queue:inflight"; // ZSET taskId -> lease expiry (ms)
+const LEASES_KEY = "task_queue:leases"; // HASH taskId -> TaskLease JSON
+const DLQ_KEY = "task_queue:dlq"; // HASH taskId -> DeadLetterEntry JSON
+
+const DEFAULT_VISIBILITY_MS = Number(process.env.TASK_QUEUE_VISIBILITY_MS) || 60_000;
+const HEARTBEAT_INTERVAL_MS = Math.floor(DEFAULT_VISIBILITY_MS / 3);
+const REAPER_INTERVAL_MS = 5_000;
+const MAX_ATTEMPTS = Number(process.env.TASK_QUEUE_MAX_ATTEMPTS) || 3;
+
+/**
+ * Task.requiredRole values whose worker leases, heartbeats and acks through
+ * this queue (runMidDevAgentOnce handles all developer work). Tasks for other
+ * roles are not enqueued: nothing would ever lease them.
+ */
+export const LEASED_TASK_ROLES = [
+  "MidDev",
+  "MIDDEV",
+  "MID_DEV",
+  "midDev",
+  "middev",
+  "FrontendDev",
+  "SeniorDev",
+  "JuniorDev",
+  "Developer",
+  "Dev",
+];
+
+export interface TaskLease {
+  taskId: string;
+  token: string;
+  workerId: string;
+  priority: number;
+  leasedAt: number;
+  expiresAt: number;
+}
+
+export interface DeadLetterEntry {
+  taskId: string;
+  attempts: number;
+  reason: string;
+  lastWorkerId?: string;
+  deadAt: number;
+}
+
+export interface QueueStats {
+  backend: "redis" | "memory";
+  depth: number;
+  inFlight: TaskLease[];
+  deadLetters: DeadLetterEntry[];
+}
+
+/**
+ * Storage contract shared by the Redis and in-process backends.
+ * All lease mutations are token-checked so a stale worker cannot ack
+ * or extend a lease that has already been re-delivered to someone else.
+ */
+interface QueueBackend {
+  readonly name: "redis" | "memory";
+  enqueue(taskId: string, priority: number): Promise<void>;
+  leaseNext(workerId: string, visibilityMs: number): Promise<TaskLease | null>;
+  leaseTask(taskId: string, workerId: string, visibilityMs: number): Promise<TaskLease | null>;
+  extend(lease: TaskLease, visibilityMs: number): Promise<boolean>;
+  release(lease: TaskLease): Promise<boolean>;
+  takeExpired(now: number): Promise<TaskLease[]>;
+  deadLetter(entry: DeadLetterEntry): Promise<void>;
+  removeDeadLetter(taskId: string): Promise<DeadLetterEntry | null>;
+  stats(): Promise<Omit<QueueStats, "backend">>;
+}
+
+class MemoryQueueBackend implements QueueBackend {
+  readonly name = "memory" as const;
+  private ready = new Map<string, number>();
+  private leases = new Map<string, TaskLease>();
+  private dlq = new Map<string, DeadLetterEntry>();
+
+  async enqueue(taskId: string, priority: number) {
+    if (this.leases.has(taskId)) return;
+    this.dlq.delete(taskId);
+    this.ready.set(taskId, priority);
+  }
+
+  async leaseNext(workerId: string, visibilityMs: number) {
+    let best: [string, number] | null = null;
+    for (const entry of this.ready) {
+      if (!best || entry[1] > best[1]) best = entry;
+    }
+    if (!best) return null;
+    return this.leaseTask(best[0], workerId, visibilityMs);
+  }
+
+  async leaseTask(taskId: string, workerId: string, visibilityMs: number) {
+    const existing = this.leases.get(taskId);
+    if (existing && existing.expiresAt > Date.now()) return null;
+
+    const now = Date.now();
+    const lease: TaskLease = {
+      taskId,
+      token: randomUUID(),
+      workerId,
+      priority: this.ready.get(taskId) ?? existing?.priority ?? 0,
+      leasedAt: now,
+      expiresAt: now + visibilityMs,
+    };
+    this.ready.delete(taskId);
+    this.leases.set(taskId, lease);
+    return lease;
+  }
+
+  async extend(lease: TaskLease, visibilityMs: number) {
+    const current = this.leases.get(lease.taskId);
+    if (!current || current.token !== lease.token) return false;
+    current.expiresAt = Date.now() + visibilityMs;
+    lease.expiresAt = current.expiresAt;
+    return true;
+  }
+
+  async release(lease: TaskLease) {
+    const current = this.leases.get(lease.taskId);
+    if (!current || current.token !== lease.token) return false;
+    this.leases.delete(lease.taskId);
+    return true;
+  }
+
+  async takeExpired(now: number) {
+    const expired: TaskLease[] = [];
+    for (const [taskId, lease] of this.leases) {
+      if (lease.expiresAt <= now) {
+        this.leases.delete(taskId);
+        expired.push(lease);
+      }
+    }
+    return expired;
+  }
+
+  async deadLetter(entry: DeadLetterEntry) {
+    this.ready.delete(entry.taskId);
+    this.dlq.set(entry.taskId, entry);
+  }
+
+  async removeDeadLetter(taskId: string) {
+    const entry = this.dlq.get(taskId) || null;
+    this.dlq.delete(taskId);
+    return entry;
+  }
+
+  async stats() {
+    return {
+      depth: this.ready.size,
+      inFlight: Array.from(this.leases.values()),
+      deadLetters: Array.from(this.dlq.values()),
+    };
+  }
+}
+
+// Atomically move a task from the ready set (if present) into a lease,
+// unless another worker already holds a live lease on it.
+const LEASE_TASK_SCRIPT = `
+local existing = redis.call('HGET', KEYS[3], ARGV[1])
+if existing then
+  local expiry = redis.call('ZSCORE', KEYS[2], ARGV[1])
+  if expiry and tonumber(expiry) > tonumber(ARGV[2]) then
+    return nil
+  end
+end
+local priority = redis.call('ZSCORE', KEYS[1], ARGV[1])
+redis.call('ZREM', KEYS[1], ARGV[1])
+if not priority then
+  if existing then
+    priority = cjson.decode(existing)['priority']
+  else
+    priority = 0
+  end
+end
+local lease = cjson.encode({
+  taskId = ARGV[1], token = ARGV[3], workerId = ARGV[4],
+  priority = tonumber(priority), leasedAt = tonumber(ARGV[2]),
+  expiresAt = tonumber(ARGV[2]) + tonumber(ARGV[5])
+})
+redis.call('HSET', KEYS[3], ARGV[1], lease)
+redis.call('ZADD', KEYS[2], tonumber(ARGV[2]) + tonumber(ARGV[5]), ARGV[1])
+return lease
+`;
+
+// Extend or release a lease only if the caller still owns it (token match).
+const OWNED_LEASE_SCRIPT = `
+local existing = redis.call('HGET', KEYS[2], ARGV[1])
+if not existing then return 0 end
+local lease = cjson.decode(existing)
+if lease['token'] ~= ARGV[2] then return 0 end
+if ARGV[3] == 'release' then
+  redis.call('HDEL', KEYS[2], ARGV[1])
+  redis.call('ZREM', KEYS[1], ARGV[1])
+else
+  lease['expiresAt'] = tonumber(ARGV[4])
+  redis.call('HSET', KEYS[2], ARGV[1], cjson.encode(lease))
+  redis.call('ZADD', KEYS[1], tonumber(ARGV[4]), ARGV[1])
+end
+return 1
+`;
+
+class RedisQueueBackend implements QueueBackend {
+  readonly name = "redis" as const;
+
+  constructor(private redis: Redis) {}
+
+  async enqueue(taskId: string, priority: number) {
+    if (await this.redis.hexists(LEASES_KEY, taskId)) return;
+    await this.redis.hdel(DLQ_KEY, taskId);
+    await this.redis.zadd(READY_KEY, priority, taskId);
+  }
+
+  async leaseNext(workerId: string, visibilityMs: number) {
+    // A concurrent worker may win the race for the top entry; try a few.
+    for (let i = 0; i < 3; i++) {
+      const top = await this.redis.zrevrange(READY_KEY, 0, 0);
+      if (top.length === 0) return null;
+      const lease = await this.leaseTask(top[0], workerId, visibilityMs);
+      if (lease) return lease;
+    }
+    return null;
+  }
+
+  async leaseTask(taskId: string, workerId: string, visibilityMs: number) {
+    const raw = (await this.redis.eval(
+      LEASE_TASK_SCRIPT,
+      3,
+      READY_KEY,
+      INFLIGHT_KEY,
+      LEASES_KEY,
+      taskId,
+      String(Date.now()),
+      randomUUID(),
+      workerId,
+      String(visibilityMs)
+    )) as string | null;
+    return raw ? (JSON.parse(raw) as TaskLease) : null;
+  }
+
+  async extend(lease: TaskLease, visibilityMs: number) {
+    const expiresAt = Date.now() + visibilityMs;
+    const ok = await this.redis.eval(
+      OWNED_LEASE_SCRIPT,
+      2,
+      INFLIGHT_KEY,
+      LEASES_KEY,
+      lease.taskId,
+      lease.token,
+      "extend",
+      String(expiresAt)
+    );
+    if (ok === 1) lease.expiresAt = expiresAt;
+    return ok === 1;
+  }
+
+  async release(lease: TaskLease) {
+    const ok = await this.redis.eval(
+      OWNED_LEASE_SCRIPT,
+      2,
+      INFLIGHT_KEY,
+      LEASES_KEY,
+      lease.taskId,
+      lease.token,
+      "release",
+      "0"
+    );
+    return ok === 1;
+  }
+
+  async takeExpired(now: number) {
+    const taskIds = await this.redis.zrangebyscore(INFLIGHT_KEY, 0, now);
+    const expired: TaskLease[] = [];
+    for (const taskId of taskIds) {
+      // ZREM is the claim: only one instance gets 1 back for a given lease.
+      const raw = await this.redis.hget(LEASES_KEY, taskId);
+      if ((await this.redis.zrem(INFLIGHT_KEY, taskId)) !== 1) continue;
+      await this.redis.hdel(LEASES_KEY, taskId);
+      if (raw) expired.push(JSON.parse(raw));
+    }
+    return expired;
+  }
+
+  async deadLetter(entry: DeadLetterEntry) {
+    await this.redis.zrem(READY_KEY, entry.taskId);
+    await this.redis.hset(DLQ_KEY, entry.taskId, JSON.stringify(entry));
+  }
+
+  async removeDeadLetter(taskId: string) {
+    const raw = await this.redis.hget(DLQ_KEY, taskId);
+    await this.redis.hdel(DLQ_KEY, taskId);
+    return raw ? (JSON.parse(raw) as DeadLetterEntry) : null;
+  }
+
+  async stats() {
+    const [depth, leases, dead] = await Promise.all([
+      this.redis.zcard(READY_KEY),
+      this.redis.hvals(LEASES_KEY),
+      this.redis.hvals(DLQ_KEY),
+    ]);
+    return {
+      depth,
+      inFlight: leases.map((l) => JSON.parse(l) as TaskLease),
+      deadLetters: dead.map((d) => JSON.parse(d) as DeadLetterEntry),
+    };
+  }
+}
+
 class TaskQueueService {
   private redis: Redis;
-  private isProcessing = false;
+  private backendPromise: Promise<QueueBackend> | null = null;
+  private reaperTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     // Connect to Redis (supports REDIS_URL or REDIS_HOST/PORT)
     if (process.env.REDIS_URL) {
       this.redis = new Redis(process.env.REDIS_URL, {
-        lazyConnect: true
+        lazyConnect: true,
+        maxRetriesPerRequest: 2,
       });
     } else {
       this.redis = new Redis({
         host: process.env.REDIS_HOST || "localhost",
         port: Number(process.env.REDIS_PORT) || 6379,
         lazyConnect: true,
+        maxRetriesPerRequest: 2,
         retryStrategy: (times) => {
           // Retry with exponential backoff, max 2 seconds
           return Math.min(times * 50, 2000);
@@ -39,36 +360,227 @@ class TaskQueueService {
     });
   }
 
+  /**
+   * Resolves the storage backend once per process. Switching backends
+   * mid-run would split queue state, so the first decision sticks.
+   */
+  private backend(): Promise<QueueBackend> {
+    if (!this.backendPromise) {
+      this.backendPromise = this.selectBackend();
+    }
+    return this.backendPromise;
+  }
+
+  private async selectBackend(): Promise<QueueBackend> {
+    if (process.env.TASK_QUEUE_BACKEND === "memory") {
+      return new MemoryQueueBackend();
+    }
+    try {
+      await Promise.race([
+        this.redis.connect().then(() => this.redis.ping()),
+        new Promise((_, reject) =>
+          setTimeout(() => reject(new Error("Redis connect timeout")), 3000)
+        ),
+      ]);
+      console.log(`[TaskQueue] ✅ Using Redis backend`);
+      return new RedisQueueBackend(this.redis);
+    } catch (error: any) {
+      console.warn(
+        `[TaskQueue] ⚠️  Redis not available (${error.message}), using in-process backend.`
+      );
+      this.redis.disconnect();
+      return new MemoryQueueBackend();
+    }
+  }
+
   /**
    * Adds a task to the persistent queue.
+   * No-op if the task is currently leased by a worker.
    */
   async add(taskId: string, priority: number = 0) {
-    try {
-      // Use a Sorted Set for priority queueing
-      // ZADD task_queue <priority> <taskId>
-      await this.redis.zadd("task_queue", priority, taskId);
-      console.log(`[TaskQueue] 📥 Enqueued Task ${taskId} (Priority: ${priority})`);
-    } catch (error) {
-      console.warn(`[TaskQueue] ⚠️  Redis not available, falling back to direct execution.`);
+    const backend = await this.backend();
+    await backend.enqueue(taskId, priority);
+    console.log(`[TaskQueue] 📥 Enqueued Task ${taskId} (Priority: ${priority})`);
+  }
+
+  /**
+   * Leases the next highest priority task for `visibilityMs`.
+   * The caller must `heartbeat` to keep it and `ack` when done.
+   */
+  async lease(
+    workerId: string,
+    visibilityMs: number = DEFAULT_VISIBILITY_MS
+  ): Promise<TaskLease | null> {
+    const backend = await this.backend();
+    const lease = await backend.leaseNext(workerId, visibilityMs);
+    if (lease) {
+      console.log(`[TaskQueue] 📤 Leased Task ${lease.taskId} to ${workerId}`);
     }
+    return lease;
   }
 
   /**
-   * Retrieves the next highest priority task.
+   * Leases a specific task (whether or not it is sitting in the ready set).
+   * Returns null if another worker holds a live lease on it, which agents
+   * use to avoid double-processing a task that only *looks* stuck.
    */
-  async pop(): Promise<string | null> {
-    try {
-      // ZPOPMAX returns [member, score]
-      const result = await this.redis.zpopmax("task_queue");
-      if (result.length > 0) {
-        const taskId = result[0];
-        console.log(`[TaskQueue] 📤 Dequeued Task ${taskId}`);
-        return taskId;
+  async claim(
+    taskId: string,
+    workerId: string,
+    visibilityMs: number = DEFAULT_VISIBILITY_MS
+  ): Promise<TaskLease | null> {
+    const backend = await this.backend();
+    return backend.leaseTask(taskId, workerId, visibilityMs);
+  }
+
+  /**
+   * Extends a lease. Returns false if the lease was lost (expired and
+   * re-delivered), in which case the worker should stop writing results.
+   */
+  async heartbeat(
+    lease: TaskLease,
+    visibilityMs: number = DEFAULT_VISIBILITY_MS
+  ): Promise<boolean> {
+    const backend = await this.backend();
+    return backend.extend(lease, visibilityMs);
+  }
+
+  /**
+   * Marks a leased task as done and drops it from the queue.
+   */
+  async ack(lease: TaskLease): Promise<boolean> {
+    const backend = await this.backend();
+    return backend.release(lease);
+  }
+
+  /**
+   * Heartbeats a lease in the background until the returned stop function is called.
+   */
+  startHeartbeat(lease: TaskLease): () => void {
+    const timer = setInterval(() => {
+      this.heartbeat(lease)
+        .then((ok) => {
+          if (!ok) {
+            console.warn(`[TaskQueue] ⚠️  Lost lease on Task ${lease.taskId} (${lease.workerId})`);
+            clearInterval(timer);
+          }
+        })
+        .catch((err) => console.warn(`[TaskQueue] Heartbeat failed for ${lease.taskId}:`, err.message));
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Re-delivers tasks whose leases expired. Each expiry counts as an attempt
+   * against `Task.retryCount`; once it reaches `MAX_ATTEMPTS` the task is
+   * dead-lettered and marked FAILED.
+   */
+  async reapExpired(): Promise<{ redelivered: string[]; deadLettered: string[] }> {
+    const backend = await this.backend();
+    const expired = await backend.takeExpired(Date.now());
+    const redelivered: string[] = [];
+    const deadLettered: string[] = [];
+
+    for (const lease of expired) {
+      const task = await prisma.task
+        .update({
+          where: { id: lease.taskId },
+          data: { retryCount: { increment: 1 } },
+        })
+        .catch(() => null);
+
+      if (!task) {
+        // Task deleted while leased - nothing to re-deliver
+        continue;
+      }
+      if (task.assignedToAgentId) {
+        await this.releaseAgent(task.assignedToAgentId, task.id);
+      }
+
+      if (task.retryCount >= MAX_ATTEMPTS) {
+        const reason = `Lease expired ${task.retryCount} time(s); last worker ${lease.workerId}`;
+        await backend.deadLetter({
+          taskId: task.id,
+          attempts: task.retryCount,
+          reason,
+          lastWorkerId: lease.workerId,
+          deadAt: Date.now(),
+        });
+        const failedTask = await prisma.task.update({
+          where: { id: task.id },
+          data: { status: "FAILED", errorMessage: `Dead-lettered: ${reason}` },
+        });
+        emitTaskUpdate(failedTask);
+        emitLog(`[TaskQueue] ☠️ Dead-lettered: ${task.title}`);
+        deadLettered.push(task.id);
+      } else {
+        await backend.enqueue(task.id, lease.priority);
+        const requeuedTask = await prisma.task.update({
+          where: { id: task.id },
+          data: { status: "QUEUED", assignedToAgentId: null },
+        });
+        emitTaskUpdate(requeuedTask);
+        emitLog(`[TaskQueue] 🔁 Re-delivered: ${task.title} (attempt ${task.retryCount + 1}/${MAX_ATTEMPTS})`);
+        redelivered.push(task.id);
       }
-    } catch (error) {
-      // Ignore connection errors in dev
     }
-    return null;
+
+    return { redelivered, deadLettered };
+  }
+
+  /**
+   * Frees the agent whose worker died holding the lease, unless it has
+   * already moved on to another task.
+   */
+  private async releaseAgent(agentId: string, taskId: string) {
+    const { count } = await prisma.agent.updateMany({
+      where: { id: agentId, currentTaskId: taskId },
+      data: { status: "IDLE", currentTaskId: null },
+    });
+    if (count === 0) return;
+    const agent = await prisma.agent.findUnique({ where: { id: agentId } });
+    if (agent) emitAgentUpdate(agent);
+  }
+
+  /**
+   * Moves a dead-lettered task back to the ready set with a fresh attempt budget.
+   */
+  async requeueDeadLetter(taskId: string): Promise<boolean> {
+    const backend = await this.backend();
+    const entry = await backend.removeDeadLetter(taskId);
+    if (!entry) return false;
+
+    const task = await prisma.task.update({
+      where: { id: taskId },
+      data: { status: "QUEUED", retryCount: 0, errorMessage: null, assignedToAgentId: null },
+    });
+    await backend.enqueue(taskId, 0);
+    emitTaskUpdate(task);
+    return true;
+  }
+
+  async stats(): Promise<QueueStats> {
+    const backend = await this.backend();
+    return { backend: backend.name, ...(await backend.stats()) };
+  }
+
+  /**
+   * Starts the background reaper that re-delivers expired leases.
+   */
+  startReaper(intervalMs: number = REAPER_INTERVAL_MS) {
+    if (this.reaperTimer) return;
+    this.reaperTimer = setInterval(() => {
+      this.reapExpired().catch((err) =>
+        console.warn(`[TaskQueue] Reaper error:`, err.message)
+      );
+    }, intervalMs);
+  }
+
+  stopReaper() {
+    if (this.reaperTimer) {
+      clearInterval(this.reaperTimer);
+      this.reaperTimer = null;
+    }
   }
 }
 
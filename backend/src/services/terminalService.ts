@@ -3,13 +3,24 @@ import * as os from "os";
 import * as path from "path";
 import * as fs from "fs";
 import { prisma } from "../lib/prisma";
+import { sideEffects } from "./sideEffects";
 
 interface TerminalSession {
   pty: pty.IPty;
   projectId: string;
   cwd: string;
+  onData: (data: string) => void;
+  line: string;                 // Input typed since the last Enter (what the shell has)
+  escape: "" | "esc" | "csi";   // Inside an escape sequence that is being dropped
+  lastChar: string;             // To treat CRLF as one Enter
+  input: Promise<void>;         // Serializes writes while a line is being authorized
 }
 
+const ENTER = "\r";
+const LINE_FEED = "\n";         // Bash accepts a line on LF (Ctrl-J) too
+const KILL_LINE = "\x15";       // Ctrl-U: clears the shell's input line
+const BELL = "\x07";
+
 export class TerminalService {
   private sessions = new Map<string, TerminalSession>();
 
@@ -104,6 +115,11 @@ export class TerminalService {
         pty: terminal,
         projectId,
         cwd: workspacePath,
+        onData,
+        line: "",
+        escape: "",
+        lastChar: "",
+        input: Promise.resolve(),
       });
 
       console.log(
@@ -137,15 +153,102 @@ export class TerminalService {
   }
 
   /**
-   * Write data to terminal (user input)
+   * Write data to terminal (user input). Keystrokes are mirrored into a
+   * line buffer; on Enter the line is checked as a command against the
+   * safety policy and cleared instead of run when it isn't allowed. Only
+   * printable characters and line-editing keys the buffer can follow
+   * (backspace, Ctrl-C/U/W) reach the shell before Enter; completion,
+   * history, cursor keys and other control characters are dropped, so the
+   * shell's line is always the one that gets checked.
    */
-  write(sessionId: string, data: string): void {
+  write(sessionId: string, data: string): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Terminal session ${sessionId} not found`);
     }
 
-    session.pty.write(data);
+    const next = session.input.then(() => this.processInput(session, data));
+    session.input = next.catch(() => undefined);
+    return next;
+  }
+
+  private async processInput(session: TerminalSession, data: string): Promise<void> {
+    let pending = "";
+    for (const char of data) {
+      const previous = session.lastChar;
+      session.lastChar = char;
+      if (char === LINE_FEED && previous === ENTER) continue; // CRLF
+      if (char !== ENTER && char !== LINE_FEED) {
+        if (this.trackLine(session, char)) pending += char;
+        continue;
+      }
+
+      session.pty.write(pending);
+      pending = "";
+      const line = session.line;
+      session.line = "";
+      session.escape = "";
+
+      const refusal = await this.checkLine(session, line);
+      if (refusal) {
+        session.pty.write(KILL_LINE + ENTER);
+        session.onData(`\r\n\x1b[31m🚫 ${refusal}\x1b[0m\r\n`);
+      } else {
+        session.pty.write(ENTER);
+      }
+    }
+    if (pending) session.pty.write(pending);
+  }
+
+  /**
+   * Mirror a keystroke into the line buffer; false when it must not reach
+   * the shell (it would change the line in ways the buffer can't follow, or
+   * run it: Ctrl-O, Meta-Enter, ...)
+   */
+  private trackLine(session: TerminalSession, char: string): boolean {
+    if (session.escape) {
+      // ESC x, or ESC [ / ESC O followed by parameters up to a final byte
+      if (session.escape === "esc" && (char === "[" || char === "O")) {
+        session.escape = "csi";
+      } else if (session.escape === "esc" || (char >= "@" && char <= "~")) {
+        session.escape = "";
+      }
+      return false;
+    }
+
+    if (char === "\x7f" || char === "\b") {
+      session.line = session.line.slice(0, -1);
+    } else if (char === "\x03" || char === KILL_LINE) {
+      session.line = "";
+    } else if (char === "\x17") {
+      session.line = session.line.replace(/\S+\s*$/, "");
+    } else if (char === "\x04") {
+      // Ctrl-D: EOF on an empty line (leaves programs and the shell)
+      return session.line === "";
+    } else if (char === "\x1b") {
+      session.escape = "esc";
+      session.onData(BELL);
+      return false;
+    } else if (char < " ") {
+      session.onData(BELL);
+      return false;
+    } else {
+      session.line += char;
+    }
+    return true;
+  }
+
+  /**
+   * Reason the command is refused, or null when it may run
+   */
+  private async checkLine(session: TerminalSession, line: string): Promise<string | null> {
+    if (!line.trim()) return null;
+    try {
+      await sideEffects.authorize("command", line.trim(), { projectId: session.projectId, actor: "terminal" });
+      return null;
+    } catch (error: any) {
+      return error.message;
+    }
   }
 
   /**
@@ -0,0 +1,362 @@
+/**
+ * Test Runner
+ *
+ * Runs a project's own Jest or Vitest suite inside its sandbox session and
+ * parses the JSON reporter output into per-test results (failure messages,
+ * stack traces, locations) plus a coverage summary. Both runners write the
+ * Jest JSON result format, so one parser covers them.
+ */
+
+import fs from "fs";
+import path from "path";
+import { sandbox } from "./sandbox";
+import { sideEffects, isPolicyBlock, SideEffectContext } from "./sideEffects";
+import { prisma } from "../lib/prisma";
+
+export type TestFramework = "jest" | "vitest";
+export type TestStatus = "passed" | "failed" | "skipped" | "todo";
+
+export interface TestCaseResult {
+  file: string;                 // Relative to the workspace
+  name: string;                 // Full name, including describe blocks
+  status: TestStatus;
+  durationMs?: number;
+  failureMessages: string[];    // Assertion messages, ANSI-stripped
+  stackTrace?: string;
+  location?: { line: number; column: number };
+}
+
+export interface CoverageMetric {
+  total: number;
+  covered: number;
+  pct: number;
+}
+
+export interface CoverageSummary {
+  lines: CoverageMetric;
+  statements: CoverageMetric;
+  functions: CoverageMetric;
+  branches: CoverageMetric;
+  files: Record<string, { lines: number }>;  // Line coverage % per source file
+}
+
+export interface TestRunResult {
+  framework: TestFramework | null;
+  command?: string;
+  success: boolean;
+  numTotal: number;
+  numPassed: number;
+  numFailed: number;
+  numSkipped: number;
+  tests: TestCaseResult[];
+  coverage?: CoverageSummary;
+  exitCode: number;
+  durationMs: number;
+  output?: string;              // Tail of the runner's console output
+  error?: string;               // Why the suite couldn't be run or parsed
+  finishedAt: string;
+}
+
+export interface TestRunOptions {
+  files?: string[];             // Limit the run to these test files
+  coverage?: boolean;
+  timeoutMs?: number;
+  taskId?: string;              // Policy decisions are traced on this task
+  agentRole?: string;
+}
+
+// Kept under node_modules/.cache so results never end up in the project's git history
+const RESULTS_DIR = "node_modules/.cache/tholai-qa";
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const INSTALL_TIMEOUT_MS = 10 * 60 * 1000;
+const OUTPUT_TAIL_CHARS = 4000;
+
+const JEST_CONFIGS = ["jest.config.js", "jest.config.ts", "jest.config.mjs", "jest.config.cjs", "jest.config.json"];
+const VITEST_CONFIGS = ["vitest.config.ts", "vitest.config.js", "vitest.config.mts", "vitest.config.mjs"];
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+function shellQuote(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * "expect(x).toBe(y)\n\nExpected: 1\n    at Object.<anonymous> (...)" -> message + stack
+ */
+export function splitFailure(failure: string): { message: string; stack?: string } {
+  const clean = stripAnsi(failure);
+  const index = clean.search(/\n\s+at /);
+  if (index === -1) return { message: clean.trim() };
+  return { message: clean.slice(0, index).trim(), stack: clean.slice(index + 1) };
+}
+
+function metric(raw: any): CoverageMetric {
+  return { total: raw?.total ?? 0, covered: raw?.covered ?? 0, pct: typeof raw?.pct === "number" ? raw.pct : 0 };
+}
+
+export class TestRunnerService {
+  private lastRuns = new Map<string, TestRunResult>();
+
+  /**
+   * Sandbox exec through the safety policy; a block comes back as its reason
+   */
+  private async guardedExec(context: SideEffectContext, sessionId: string, command: string, timeoutMs: number) {
+    try {
+      return await sideEffects.exec(context, sessionId, command, timeoutMs);
+    } catch (error: any) {
+      if (isPolicyBlock(error)) return error.message as string;
+      throw error;
+    }
+  }
+
+  /**
+   * Jest or Vitest, from the project's dependencies or config files
+   */
+  detectFramework(workspacePath: string): TestFramework | null {
+    const pkgPath = path.join(workspacePath, "package.json");
+    if (fs.existsSync(pkgPath)) {
+      const pkg = JSON.parse(fs.readFileSync(pkgPath, "utf-8"));
+      const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+      if (deps.vitest) return "vitest";
+      if (deps.jest || deps["ts-jest"] || pkg.jest) return "jest";
+      if (/\bvitest\b/.test(pkg.scripts?.test || "")) return "vitest";
+      if (/\bjest\b/.test(pkg.scripts?.test || "")) return "jest";
+    }
+    if (VITEST_CONFIGS.some((f) => fs.existsSync(path.join(workspacePath, f)))) return "vitest";
+    if (JEST_CONFIGS.some((f) => fs.existsSync(path.join(workspacePath, f)))) return "jest";
+    return null;
+  }
+
+  /**
+   * Run the project's test suite (or just `options.files`) in its sandbox.
+   */
+  async run(projectId: string, options: TestRunOptions = {}): Promise<TestRunResult> {
+    const startedAt = Date.now();
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: { workspacePath: true },
+    });
+    const workspacePath = project?.workspacePath;
+    if (!workspacePath) {
+      return this.remember(projectId, this.emptyResult(null, startedAt, `Project ${projectId} has no workspace`));
+    }
+
+    const framework = this.detectFramework(workspacePath);
+    if (!framework) {
+      return this.remember(projectId, this.emptyResult(null, startedAt, "No Jest or Vitest setup found in package.json"));
+    }
+
+    const sessionId = await sandbox.getOrCreateSession(projectId, workspacePath);
+    const context: SideEffectContext = { projectId, taskId: options.taskId, agentRole: options.agentRole };
+
+    if (!fs.existsSync(path.join(workspacePath, "node_modules", framework))) {
+      console.log(`[TestRunner] 📦 Installing dependencies for ${projectId}...`);
+      const install = await this.guardedExec(context, sessionId, "npm install --no-audit --no-fund", INSTALL_TIMEOUT_MS);
+      if (typeof install === "string") {
+        return this.remember(projectId, this.emptyResult(framework, startedAt, install));
+      }
+      if (install.exitCode !== 0) {
+        return this.remember(
+          projectId,
+          this.emptyResult(framework, startedAt, `npm install failed: ${install.output.slice(-OUTPUT_TAIL_CHARS)}`)
+        );
+      }
+    }
+
+    const resultsDir = path.join(workspacePath, RESULTS_DIR);
+    const resultsFile = path.join(resultsDir, `${framework}-results.json`);
+    const coverageDir = path.join(resultsDir, "coverage");
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+    fs.mkdirSync(resultsDir, { recursive: true });
+
+    // Vitest needs a coverage provider package; Jest ships its own
+    const coverage = !!options.coverage && (
+      framework === "jest" ||
+      ["@vitest/coverage-v8", "@vitest/coverage-istanbul"].some((p) => fs.existsSync(path.join(workspacePath, "node_modules", p)))
+    );
+    if (options.coverage && !coverage) {
+      console.warn(`[TestRunner] ⚠️ No Vitest coverage provider installed for ${projectId}, skipping coverage`);
+    }
+
+    const command = this.buildCommand(framework, { ...options, coverage });
+    console.log(`[TestRunner] 🧪 ${projectId}: ${command}`);
+    const exec = await this.guardedExec(context, sessionId, command, options.timeoutMs || DEFAULT_TIMEOUT_MS);
+    if (typeof exec === "string") {
+      return this.remember(projectId, { ...this.emptyResult(framework, startedAt, exec), command });
+    }
+    const output = stripAnsi(exec.output).slice(-OUTPUT_TAIL_CHARS);
+
+    if (!fs.existsSync(resultsFile)) {
+      const reason = exec.timedOut ? "Test run timed out" : `${framework} produced no JSON report (exit ${exec.exitCode})`;
+      return this.remember(projectId, { ...this.emptyResult(framework, startedAt, reason), command, exitCode: exec.exitCode, output });
+    }
+
+    let report: any;
+    try {
+      report = JSON.parse(fs.readFileSync(resultsFile, "utf-8"));
+    } catch (error: any) {
+      return this.remember(projectId, {
+        ...this.emptyResult(framework, startedAt, `Unreadable ${framework} report: ${error.message}`),
+        command,
+        exitCode: exec.exitCode,
+        output,
+      });
+    }
+
+    const tests = this.parseReport(report, workspacePath);
+    const numFailed = tests.filter((t) => t.status === "failed").length;
+    const result: TestRunResult = {
+      framework,
+      command,
+      success: numFailed === 0 && exec.exitCode === 0,
+      numTotal: tests.length,
+      numPassed: tests.filter((t) => t.status === "passed").length,
+      numFailed,
+      numSkipped: tests.filter((t) => t.status === "skipped" || t.status === "todo").length,
+      tests,
+      coverage: coverage ? this.readCoverage(coverageDir, workspacePath) : undefined,
+      exitCode: exec.exitCode,
+      durationMs: Date.now() - startedAt,
+      output,
+      finishedAt: new Date().toISOString(),
+    };
+
+    console.log(
+      `[TestRunner] ${result.success ? "✅" : "❌"} ${projectId}: ${result.numPassed}/${result.numTotal} passed` +
+        (result.coverage ? `, ${result.coverage.lines.pct}% line coverage` : "")
+    );
+    return this.remember(projectId, result);
+  }
+
+  getLastRun(projectId: string): TestRunResult | null {
+    return this.lastRuns.get(projectId) || null;
+  }
+
+  /**
+   * Command to re-run a single failing test, for bug report repro steps
+   */
+  reproCommand(framework: TestFramework, test: Pick<TestCaseResult, "file" | "name">): string {
+    return framework === "vitest"
+      ? `npx vitest run ${shellQuote(test.file)} -t ${shellQuote(test.name)}`
+      : `npx jest ${shellQuote(test.file)} -t ${shellQuote(test.name)}`;
+  }
+
+  private buildCommand(framework: TestFramework, options: TestRunOptions): string {
+    const files = (options.files || []).map(shellQuote);
+    const resultsFile = `${RESULTS_DIR}/${framework}-results.json`;
+    const coverageDir = `${RESULTS_DIR}/coverage`;
+
+    if (framework === "vitest") {
+      const args = ["npx --no-install vitest run", "--reporter=json", `--outputFile=${resultsFile}`];
+      if (options.coverage) {
+        args.push("--coverage.enabled", "--coverage.reporter=json-summary", `--coverage.reportsDirectory=${coverageDir}`);
+      }
+      return [...args, ...files].join(" ");
+    }
+
+    const args = ["CI=true npx --no-install jest", "--ci", "--json", `--outputFile=${resultsFile}`, "--testLocationInResults"];
+    if (options.coverage) {
+      args.push("--coverage", "--coverageReporters=json-summary", `--coverageDirectory=${coverageDir}`);
+    }
+    return [...args, ...files].join(" ");
+  }
+
+  private relativize(file: string, workspacePath: string): string {
+    const root = path.resolve(workspacePath) + path.sep;
+    if (file.startsWith(root)) return file.slice(root.length);
+    if (file.startsWith("/app/")) return file.slice("/app/".length);
+    return file;
+  }
+
+  private relativizeStack(stack: string | undefined, workspacePath: string): string | undefined {
+    if (!stack) return stack;
+    return stack.split(path.resolve(workspacePath) + path.sep).join("").split("/app/").join("");
+  }
+
+  private parseReport(report: any, workspacePath: string): TestCaseResult[] {
+    const tests: TestCaseResult[] = [];
+
+    for (const suite of report.testResults || []) {
+      const file = this.relativize(suite.name || suite.testFilePath || "", workspacePath);
+      const assertions = suite.assertionResults || [];
+
+      // A suite that fails to load (syntax error, bad import) has no assertions
+      if (assertions.length === 0 && suite.status === "failed") {
+        const { message, stack } = splitFailure(suite.message || suite.failureMessage || "Test suite failed to run");
+        tests.push({
+          file,
+          name: `${file} (suite failed to run)`,
+          status: "failed",
+          failureMessages: [message],
+          stackTrace: this.relativizeStack(stack, workspacePath),
+        });
+        continue;
+      }
+
+      for (const assertion of assertions) {
+        const status: TestStatus =
+          assertion.status === "passed" ? "passed"
+          : assertion.status === "failed" ? "failed"
+          : assertion.status === "todo" ? "todo"
+          : "skipped";
+        const failures = (assertion.failureMessages || []).map(splitFailure);
+
+        tests.push({
+          file,
+          name: assertion.fullName || [...(assertion.ancestorTitles || []), assertion.title].join(" "),
+          status,
+          durationMs: assertion.duration ?? undefined,
+          failureMessages: failures.map((f) => f.message),
+          stackTrace: this.relativizeStack(failures.find((f) => f.stack)?.stack, workspacePath),
+          location: assertion.location || undefined,
+        });
+      }
+    }
+    return tests;
+  }
+
+  private readCoverage(coverageDir: string, workspacePath: string): CoverageSummary | undefined {
+    const summaryFile = path.join(coverageDir, "coverage-summary.json");
+    if (!fs.existsSync(summaryFile)) return undefined;
+
+    const summary = JSON.parse(fs.readFileSync(summaryFile, "utf-8"));
+    const files: CoverageSummary["files"] = {};
+    for (const [file, entry] of Object.entries<any>(summary)) {
+      if (file === "total") continue;
+      files[this.relativize(file, workspacePath)] = { lines: metric(entry.lines).pct };
+    }
+
+    return {
+      lines: metric(summary.total?.lines),
+      statements: metric(summary.total?.statements),
+      functions: metric(summary.total?.functions),
+      branches: metric(summary.total?.branches),
+      files,
+    };
+  }
+
+  private emptyResult(framework: TestFramework | null, startedAt: number, error: string): TestRunResult {
+    return {
+      framework,
+      success: false,
+      numTotal: 0,
+      numPassed: 0,
+      numFailed: 0,
+      numSkipped: 0,
+      tests: [],
+      exitCode: 1,
+      durationMs: Date.now() - startedAt,
+      error,
+      finishedAt: new Date().toISOString(),
+    };
+  }
+
+  private remember(projectId: string, result: TestRunResult): TestRunResult {
+    this.lastRuns.set(projectId, result);
+    return result;
+  }
+}
+
+export const testRunner = new TestRunnerService();
@@ -2,31 +2,89 @@
  * Trace Immutability Service
  *
  * Ensures trace logs cannot be tampered with.
- * Uses append-only storage with cryptographic hashing.
+ * Every immutable trace is appended to a hash chain persisted in Postgres
+ * (TraceChainEntry, one row per Trace), so the chain survives restarts and
+ * can be re-verified from the stored traces at any time. Snapshots of a
+ * chain range are signed with an Ed25519 key (TRACE_SIGNING_KEY) and can be
+ * checked offline with src/scripts/verify_trace_snapshot.ts.
  */
 
-import { createHash } from "crypto";
+import { createHash, createPrivateKey, createPublicKey, sign, KeyObject } from "crypto";
+import { Prisma, Trace, TraceChainEntry } from "@prisma/client";
 import { prisma } from "../lib/prisma";
 import { emitLog } from "../websocket/socketServer";
 
-// In-memory hash chain (in production, use append-only DB or blockchain)
-const hashChain: Array<{
-  index: number;
-  timestamp: string;
-  traceId: string;
-  eventHash: string;
-  previousHash: string;
-  chainHash: string;
-}> = [];
+const GENESIS = "GENESIS";
+const SNAPSHOT_FORMAT = "trace-chain-snapshot/v1";
+const MAX_APPEND_ATTEMPTS = 5;
+const VERIFY_BATCH_SIZE = 500;
+const MAX_EXPORT_ENTRIES = 10_000;
 
-let lastHash = "GENESIS";
+export interface ChainRange {
+  from?: number;
+  to?: number;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  from: number;
+  to: number;
+  checked: number;
+  errors: Array<{ index: number; error: string }>;
+}
+
+export interface SignedSnapshot {
+  format: string;
+  createdAt: string;
+  chainLength: number;
+  range: { from: number; to: number };
+  anchorHash: string;       // previousHash of the first entry ("GENESIS" from 0)
+  headHash: string;         // chainHash of the last entry
+  entries: Array<{
+    index: number;
+    traceId: string;
+    timestamp: string;
+    eventHash: string;
+    previousHash: string;
+    chainHash: string;
+    payload?: any;          // The hashed event, so auditors can recompute eventHash
+  }>;
+  snapshotHash: string;     // sha256 of the canonical snapshot without snapshotHash/signature
+  signature: {
+    algorithm: "ed25519";
+    keyId: string;
+    publicKey: string;      // SPKI PEM
+    value: string;          // base64 signature over snapshotHash
+  };
+}
+
+type ChainEntryWithTrace = TraceChainEntry & { trace: Trace | null };
+
+// Head of the persisted chain, loaded on first use
+let head: { nextIndex: number; lastHash: string } | null = null;
+// Appends within this process run one at a time
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * JSON with object keys sorted at every level
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
 
 /**
  * Hash an event payload
  */
 function hashEvent(event: any): string {
-  const content = JSON.stringify(event, Object.keys(event).sort());
-  return createHash("sha256").update(content).digest("hex");
+  return createHash("sha256").update(canonicalJson(event)).digest("hex");
 }
 
 /**
@@ -41,6 +99,35 @@ function createChainHash(
   return createHash("sha256").update(content).digest("hex");
 }
 
+/**
+ * The event that was hashed, rebuilt from the stored Trace row
+ */
+function eventPayloadFor(trace: Trace, entry: TraceChainEntry) {
+  const { _immutable, ...metadata } = (trace.metadata as any) || {};
+  return {
+    traceId: entry.traceId,
+    taskId: trace.taskId,
+    agentId: trace.agentId,
+    event: trace.event,
+    metadata,
+    timestamp: entry.timestamp,
+  };
+}
+
+async function loadHead(): Promise<{ nextIndex: number; lastHash: string }> {
+  if (head) return head;
+
+  const last = await prisma.traceChainEntry.findFirst({ orderBy: { index: "desc" } });
+  head = last
+    ? { nextIndex: last.index + 1, lastHash: last.chainHash }
+    : { nextIndex: 0, lastHash: GENESIS };
+
+  if (last) {
+    console.log(`[TraceImmutability] 🔗 Resumed chain at #${last.index} (${last.chainHash.substring(0, 16)}...)`);
+  }
+  return head;
+}
+
 /**
  * Record an immutable trace event
  */
@@ -51,92 +138,143 @@ export async function recordImmutableTrace(
   event: string,
   metadata: any
 ): Promise<{ chainHash: string; index: number }> {
-  const timestamp = new Date().toISOString();
-  const index = hashChain.length;
-
-  // Create event hash
-  const eventPayload = {
-    traceId,
-    taskId,
-    agentId,
-    event,
-    metadata,
-    timestamp,
-  };
-  const eventHash = hashEvent(eventPayload);
-
-  // Create chain hash
-  const chainHash = createChainHash(eventHash, lastHash, index);
-
-  // Add to chain
-  const chainEntry = {
-    index,
-    timestamp,
-    traceId,
-    eventHash,
-    previousHash: lastHash,
-    chainHash,
-  };
-  hashChain.push(chainEntry);
-  lastHash = chainHash;
-
-  // Store in database with hash
-  await prisma.trace.create({
-    data: {
-      id: `${traceId}-${index}`,
-      taskId,
-      agentId,
-      event,
-      metadata: {
-        ...metadata,
-        _immutable: {
-          index,
-          eventHash,
-          chainHash,
-          previousHash: chainEntry.previousHash,
-        },
-      },
-    },
-  });
+  const append = appendQueue.then(() => appendTrace(traceId, taskId, agentId, event, metadata));
+  appendQueue = append.catch(() => undefined);
+  return append;
+}
 
-  return { chainHash, index };
+async function appendTrace(
+  traceId: string,
+  taskId: string,
+  agentId: string,
+  event: string,
+  metadata: any
+): Promise<{ chainHash: string; index: number }> {
+  // Stored JSON is what gets re-hashed on verification; hash exactly that
+  const storedMetadata = JSON.parse(JSON.stringify(metadata ?? {}));
+
+  for (let attempt = 1; ; attempt++) {
+    const { nextIndex: index, lastHash: previousHash } = await loadHead();
+    const timestamp = new Date().toISOString();
+
+    // Create event hash
+    const eventHash = hashEvent({ traceId, taskId, agentId, event, metadata: storedMetadata, timestamp });
+
+    // Create chain hash
+    const chainHash = createChainHash(eventHash, previousHash, index);
+
+    try {
+      // Store the trace and its chain link together
+      await prisma.$transaction(async (tx) => {
+        const trace = await tx.trace.create({
+          data: {
+            id: `${traceId}-${index}`,
+            taskId,
+            agentId,
+            event,
+            metadata: {
+              ...storedMetadata,
+              _immutable: { index, eventHash, chainHash, previousHash },
+            },
+          },
+        });
+        await tx.traceChainEntry.create({
+          data: { index, traceRowId: trace.id, traceId, timestamp, eventHash, previousHash, chainHash },
+        });
+      });
+    } catch (error: any) {
+      // Another process appended this index first: reload the head and retry
+      const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      head = null;
+      if (!conflict || attempt >= MAX_APPEND_ATTEMPTS) throw error;
+      continue;
+    }
+
+    head = { nextIndex: index + 1, lastHash: chainHash };
+    return { chainHash, index };
+  }
 }
 
 /**
- * Verify the integrity of the hash chain
+ * Check one entry against its Trace row and its predecessor's hash
  */
-export function verifyChainIntegrity(): {
-  valid: boolean;
-  errors: Array<{ index: number; error: string }>;
-} {
-  const errors: Array<{ index: number; error: string }> = [];
-  let expectedPrevious = "GENESIS";
+function checkEntry(entry: ChainEntryWithTrace, expectedPrevious: string | undefined): string[] {
+  const errors: string[] = [];
 
-  for (let i = 0; i < hashChain.length; i++) {
-    const entry = hashChain[i];
+  // Check previous hash link
+  if (expectedPrevious !== undefined && entry.previousHash !== expectedPrevious) {
+    errors.push(`Previous hash mismatch: expected ${expectedPrevious}, got ${entry.previousHash}`);
+  }
 
-    // Check previous hash link
-    if (entry.previousHash !== expectedPrevious) {
-      errors.push({
-        index: i,
-        error: `Previous hash mismatch: expected ${expectedPrevious}, got ${entry.previousHash}`,
-      });
-    }
+  // Verify chain hash
+  const expectedChainHash = createChainHash(entry.eventHash, entry.previousHash, entry.index);
+  if (entry.chainHash !== expectedChainHash) {
+    errors.push(`Chain hash mismatch: expected ${expectedChainHash}, got ${entry.chainHash}`);
+  }
 
-    // Verify chain hash
-    const expectedChainHash = createChainHash(
-      entry.eventHash,
-      entry.previousHash,
-      i
-    );
-    if (entry.chainHash !== expectedChainHash) {
-      errors.push({
-        index: i,
-        error: `Chain hash mismatch: expected ${expectedChainHash}, got ${entry.chainHash}`,
-      });
+  // Verify the stored trace still hashes to the chained event
+  if (!entry.trace) {
+    errors.push("Trace row missing");
+  } else {
+    const eventHash = hashEvent(eventPayloadFor(entry.trace, entry));
+    if (eventHash !== entry.eventHash) {
+      errors.push(`Event hash mismatch: trace ${entry.trace.id} was modified after it was chained`);
     }
+  }
+
+  return errors;
+}
+
+async function chainLength(): Promise<number> {
+  const last = await prisma.traceChainEntry.findFirst({ orderBy: { index: "desc" }, select: { index: true } });
+  return last ? last.index + 1 : 0;
+}
+
+function clampRange(range: ChainRange, length: number): { from: number; to: number } {
+  const from = Math.max(0, Math.floor(range.from ?? 0));
+  const to = Math.min(length - 1, Math.floor(range.to ?? length - 1));
+  return { from, to };
+}
+
+/**
+ * Verify the integrity of the hash chain (optionally a range of it)
+ */
+export async function verifyChainIntegrity(range: ChainRange = {}): Promise<ChainVerification> {
+  const { from, to } = clampRange(range, await chainLength());
+  const errors: Array<{ index: number; error: string }> = [];
+  let checked = 0;
+
+  // The link into the range comes from the entry just before it
+  let expectedPrevious: string | undefined = GENESIS;
+  if (from > 0) {
+    const before = await prisma.traceChainEntry.findUnique({ where: { index: from - 1 } });
+    expectedPrevious = before?.chainHash;
+    if (!before) errors.push({ index: from - 1, error: "Entry missing" });
+  }
 
-    expectedPrevious = entry.chainHash;
+  let expectedIndex = from;
+  for (let cursor = from; cursor <= to; cursor += VERIFY_BATCH_SIZE) {
+    const batch = await prisma.traceChainEntry.findMany({
+      where: { index: { gte: cursor, lte: Math.min(cursor + VERIFY_BATCH_SIZE - 1, to) } },
+      orderBy: { index: "asc" },
+      include: { trace: true },
+    });
+
+    for (const entry of batch) {
+      for (; expectedIndex < entry.index; expectedIndex++) {
+        errors.push({ index: expectedIndex, error: "Entry missing" });
+        expectedPrevious = undefined;
+      }
+      for (const error of checkEntry(entry, expectedPrevious)) {
+        errors.push({ index: entry.index, error });
+      }
+      expectedPrevious = entry.chainHash;
+      expectedIndex = entry.index + 1;
+      checked++;
+    }
+  }
+  for (; expectedIndex <= to; expectedIndex++) {
+    errors.push({ index: expectedIndex, error: "Entry missing" });
   }
 
   const valid = errors.length === 0;
@@ -147,7 +285,28 @@ export function verifyChainIntegrity(): {
     );
   }
 
-  return { valid, errors };
+  return { valid, from, to, checked, errors };
+}
+
+async function verifyEntry(entry: ChainEntryWithTrace | null): Promise<{ valid: boolean; index?: number; error?: string }> {
+  if (!entry) {
+    return { valid: false, error: "Entry not found in chain" };
+  }
+
+  const previous = entry.index > 0
+    ? (await prisma.traceChainEntry.findUnique({ where: { index: entry.index - 1 } }))?.chainHash
+    : GENESIS;
+  const errors = checkEntry(entry, previous);
+
+  // The copy kept on the trace must agree with the chain
+  const copy = (entry.trace?.metadata as any)?._immutable;
+  if (copy && copy.chainHash !== entry.chainHash) {
+    errors.push("Chain hash mismatch between trace and chain");
+  }
+
+  return errors.length === 0
+    ? { valid: true, index: entry.index }
+    : { valid: false, index: entry.index, error: errors.join("; ") };
 }
 
 /**
@@ -160,89 +319,152 @@ export async function verifyTraceEntry(
   valid: boolean;
   error?: string;
 }> {
-  const entry = hashChain.find(
-    (e) => e.traceId === traceId && e.index === index
-  );
-
-  if (!entry) {
-    return { valid: false, error: "Entry not found in chain" };
-  }
-
-  // Fetch from database
-  const dbEntry = await prisma.trace.findUnique({
-    where: { id: `${traceId}-${index}` },
+  const entry = await prisma.traceChainEntry.findFirst({
+    where: { traceId, index },
+    include: { trace: true },
   });
+  return verifyEntry(entry);
+}
 
-  if (!dbEntry) {
-    return { valid: false, error: "Entry not found in database" };
-  }
-
-  const dbMeta = dbEntry.metadata as any;
-  if (!dbMeta?._immutable) {
-    return { valid: false, error: "Missing immutability metadata" };
-  }
-
-  // Verify hashes match
-  if (dbMeta._immutable.chainHash !== entry.chainHash) {
-    return { valid: false, error: "Chain hash mismatch between DB and chain" };
-  }
-
-  return { valid: true };
+/**
+ * Verify the chain entry of a stored Trace row
+ */
+export async function verifyTraceRow(traceRowId: string): Promise<{ valid: boolean; index?: number; error?: string }> {
+  const entry = await prisma.traceChainEntry.findUnique({
+    where: { traceRowId },
+    include: { trace: true },
+  });
+  return verifyEntry(entry);
 }
 
 /**
  * Get chain statistics
  */
-export function getChainStats(): {
+export async function getChainStats(): Promise<{
   length: number;
   lastHash: string;
   lastTimestamp: string | null;
-} {
+}> {
+  const last = await prisma.traceChainEntry.findFirst({ orderBy: { index: "desc" } });
   return {
-    length: hashChain.length,
-    lastHash,
-    lastTimestamp:
-      hashChain.length > 0 ? hashChain[hashChain.length - 1].timestamp : null,
+    length: last ? last.index + 1 : 0,
+    lastHash: last?.chainHash || GENESIS,
+    lastTimestamp: last?.timestamp || null,
   };
 }
 
 /**
- * Export chain for audit
+ * Export chain entries (with the hashed event payloads) for audit
  */
-export function exportChain(): typeof hashChain {
-  return [...hashChain];
+export async function exportChain(range: ChainRange = {}, includePayloads = true) {
+  const { from, to } = clampRange(range, await chainLength());
+  if (to - from + 1 > MAX_EXPORT_ENTRIES) {
+    throw new Error(`Range too large: export at most ${MAX_EXPORT_ENTRIES} entries at a time`);
+  }
+
+  const entries = await prisma.traceChainEntry.findMany({
+    where: { index: { gte: from, lte: to } },
+    orderBy: { index: "asc" },
+    include: { trace: true },
+  });
+
+  return entries.map((entry) => ({
+    index: entry.index,
+    traceId: entry.traceId,
+    timestamp: entry.timestamp,
+    eventHash: entry.eventHash,
+    previousHash: entry.previousHash,
+    chainHash: entry.chainHash,
+    ...(includePayloads && entry.trace ? { payload: eventPayloadFor(entry.trace, entry) } : {}),
+  }));
 }
 
 /**
- * Create a snapshot of current state
+ * Chain entries for traces belonging to a proposal, task or logical trace id
  */
-export function createSnapshot(): {
-  timestamp: string;
-  chainLength: number;
-  chainHash: string;
-  snapshotHash: string;
-} {
-  const timestamp = new Date().toISOString();
-  const chainLength = hashChain.length;
-  const chainHash = lastHash;
-
-  const snapshotContent = `${timestamp}:${chainLength}:${chainHash}`;
-  const snapshotHash = createHash("sha256")
-    .update(snapshotContent)
-    .digest("hex");
+export async function findEntries(subjectId: string) {
+  const entries = await prisma.traceChainEntry.findMany({
+    where: {
+      OR: [
+        { traceId: subjectId },
+        { trace: { taskId: subjectId } },
+        { trace: { task: { proposalId: subjectId } } },
+      ],
+    },
+    orderBy: { index: "asc" },
+    include: { trace: true },
+  });
+
+  return entries.map((entry) => ({ entry, payload: entry.trace ? eventPayloadFor(entry.trace, entry) : null }));
+}
+
+function signingKey(): KeyObject {
+  const pem = process.env.TRACE_SIGNING_KEY;
+  if (!pem) {
+    throw new Error("TRACE_SIGNING_KEY is not set; cannot sign trace snapshots");
+  }
+  // Env files usually carry the PEM with escaped newlines
+  const key = createPrivateKey(pem.replace(/\\n/g, "\n"));
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error(`TRACE_SIGNING_KEY must be an Ed25519 private key (got ${key.asymmetricKeyType})`);
+  }
+  return key;
+}
+
+/**
+ * PEM public key auditors should pin when verifying snapshots
+ */
+export function getSigningPublicKey(): { keyId: string; publicKey: string } {
+  const publicKey = createPublicKey(signingKey());
+  const der = publicKey.export({ type: "spki", format: "der" });
+  return {
+    keyId: createHash("sha256").update(der).digest("hex").substring(0, 16),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+/**
+ * Create a signed snapshot of (a range of) the chain
+ */
+export async function createSnapshot(
+  range: ChainRange = {},
+  includePayloads = true
+): Promise<SignedSnapshot> {
+  const key = signingKey();
+  const length = await chainLength();
+  const entries = await exportChain(range, includePayloads);
+  if (entries.length === 0) {
+    throw new Error("Nothing to snapshot: the chain range is empty");
+  }
+
+  const body = {
+    format: SNAPSHOT_FORMAT,
+    createdAt: new Date().toISOString(),
+    chainLength: length,
+    range: { from: entries[0].index, to: entries[entries.length - 1].index },
+    anchorHash: entries[0].previousHash,
+    headHash: entries[entries.length - 1].chainHash,
+    entries,
+  };
+  const snapshotHash = createHash("sha256").update(canonicalJson(body)).digest("hex");
+  const { keyId, publicKey } = getSigningPublicKey();
 
   emitLog(
     `[TraceImmutability] 📸 Snapshot created: ${snapshotHash.substring(
       0,
       16
-    )}...`
+    )}... (#${body.range.from}-#${body.range.to}, key ${keyId})`
   );
 
   return {
-    timestamp,
-    chainLength,
-    chainHash,
+    ...body,
     snapshotHash,
+    signature: {
+      algorithm: "ed25519",
+      keyId,
+      publicKey,
+      value: sign(null, Buffer.from(snapshotHash), key).toString("base64"),
+    },
   };
 }
 
@@ -250,7 +472,10 @@ export const traceImmutability = {
   recordImmutableTrace,
   verifyChainIntegrity,
   verifyTraceEntry,
+  verifyTraceRow,
   getChainStats,
   exportChain,
+  findEntries,
+  getSigningPublicKey,
   createSnapshot,
 };
@@ -19,6 +19,15 @@ import {
   ROLE_BASELINES,
 } from '../../types/verification';
 import { apiValidator } from './APIValidator';
+import { typeChecker } from './TypeChecker';
+
+// Globals transformForSandbox (and the sandbox's Jest preamble) provide at runtime
+const SANDBOX_FIXTURE_GLOBALS = [
+  'React', 'useState', 'useEffect', 'useCallback', 'useMemo', 'useRef',
+  'person', 'user', 'data', 'items', 'arr', 'obj', 'config', 'options', 'props', 'state',
+  'event', 'e', 'req', 'res', 'db', 'url', 'graph', 'start', 'list',
+  'test', 'expect', 'describe', 'it',
+];
 
 export class HallucinationDetector {
   /**
@@ -56,47 +65,40 @@ export class HallucinationDetector {
       return this.buildResult(startTime, input, syntaxResult, { passed: true, durationMs: 0 }, { passed: true, durationMs: 0 }, { passed: true, durationMs: 0 }, { passed: true, durationMs: 0 }, { passed: true, durationMs: 0 });
     }
 
-    // Layer 2: Sandbox Execution (catches runtime errors)
-    let sandboxResult: CheckResult = { passed: true, durationMs: 0 };
-    if (this.isExecutableCode(output)) {
-      let codeToRun = output;
-      let langToRun = language;
-
-      if (language === 'typescript') {
-        try {
-          const ts = require('typescript');
-          const transpiled = ts.transpileModule(output, {
-            compilerOptions: { 
-              module: ts.ModuleKind.CommonJS,
-              jsx: ts.JsxEmit.React 
-            }
-          });
-          codeToRun = transpiled.outputText;
-          langToRun = 'javascript';
-        } catch (e) {
-          // Continue with original
-        }
-      }
+    // Layer 2: Type Check (TypeScript only; catches nonexistent members and bad signatures)
+    let typesResult: CheckResult | undefined;
+    let codeToRun = output;
+    let langToRun = language;
+    if (language === 'typescript') {
+      const typeCheck = this.checkTypes(output, input);
+      typesResult = typeCheck.result;
+      codeToRun = typeCheck.outputText;
+      langToRun = 'javascript';
+    }
 
-      sandboxResult = await this.checkSandbox(codeToRun, langToRun);
+    // Layer 3: Sandbox Execution (catches runtime errors)
+    let sandboxResult: CheckResult = { passed: true, durationMs: 0 };
+    if (this.isExecutableCode(output) && (!typesResult || typesResult.passed)) {
+      sandboxResult = await this.checkSandbox(codeToRun, langToRun, input.projectId);
     }
 
-    // Layer 3: API Validation (catches obvious hallucinations quickly)
+    // Layer 4: API Validation (catches obvious hallucinations quickly)
     const apiResult = this.checkAPIs(output);
 
-    // Layer 4: LLM CRITIC (PRIMARY HALLUCINATION DETECTOR)
+    // Layer 5: LLM CRITIC (PRIMARY HALLUCINATION DETECTOR)
     // This is the most important layer - uses DeepSeek V3 to analyze code
     const criticResult = await this.checkCriticLLM(input.input, output, language);
 
     // Determine final result
-    // Priority: Syntax -> Sandbox -> API -> Critic
-    const passed = syntaxResult.passed && sandboxResult.passed && apiResult.passed && criticResult.passed;
+    // Priority: Syntax -> Types -> Sandbox -> API -> Critic
+    const passed = syntaxResult.passed && (!typesResult || typesResult.passed) && sandboxResult.passed && apiResult.passed && criticResult.passed;
 
     // Generate proof hash
     const proofHash = this.generateProofHash({
       inputHash: this.hashContent(input.input),
       outputHash: this.hashContent(output),
       syntax: syntaxResult.passed,
+      types: typesResult?.passed,
       sandbox: sandboxResult.passed,
       api: apiResult.passed,
       critic: criticResult.passed,
@@ -113,6 +115,7 @@ export class HallucinationDetector {
         api: apiResult,
         safety: { passed: true, durationMs: 0 },
         critic: criticResult,
+        ...(typesResult && { types: typesResult }),
       },
       proofHash,
       timestamp: startTime,
@@ -191,6 +194,48 @@ Respond with JSON ONLY:
     }
   }
 
+  /**
+   * Real type check via the compiler API. Uses the project's tsconfig and
+   * @types when the input names a project; otherwise the snippet is checked
+   * standalone, with the sandbox fixtures declared so they aren't flagged.
+   */
+  private checkTypes(code: string, input: HallucinationDetectionInput): { result: CheckResult; outputText: string } {
+    const startTime = Date.now();
+    const source = code
+      .replace(/^```(?:javascript|typescript|js|ts|tsx)?\n?/gm, '')
+      .replace(/```$/gm, '')
+      .trim();
+
+    try {
+      const ambient = input.projectRoot
+        ? undefined
+        : SANDBOX_FIXTURE_GLOBALS
+            .filter(name => !new RegExp(`\\b(const|let|var|function|class)\\s+${name}\\b`).test(source))
+            .map(name => `declare var ${name}: any;`)
+            .join('\n');
+
+      const typeCheck = typeChecker.check(source, { projectRoot: input.projectRoot, fileName: input.fileName, ambient });
+      const errors = typeCheck.diagnostics.filter(d => d.category === 'error');
+
+      return {
+        result: {
+          passed: typeCheck.passed,
+          message: errors.length > 0 ? `Type errors:\n${typeChecker.format(errors)}` : undefined,
+          durationMs: Date.now() - startTime,
+          diagnostics: typeCheck.diagnostics,
+        },
+        outputText: typeCheck.outputText,
+      };
+    } catch (error: any) {
+      // A compiler crash says nothing about the code; let the sandbox decide
+      console.warn('Type check failed:', error);
+      return {
+        result: { passed: true, message: `Type check error: ${error.message}`, durationMs: Date.now() - startTime },
+        outputText: source,
+      };
+    }
+  }
+
   private buildResult(
     startTime: number,
     input: HallucinationDetectionInput,
@@ -265,11 +310,11 @@ Respond with JSON ONLY:
     return result;
   }
 
-  private async checkSandbox(code: string, language: string): Promise<CheckResult> {
+  private async checkSandbox(code: string, language: string, projectId?: string): Promise<CheckResult> {
     const startTime = Date.now();
     try {
       const executableCode = this.transformForSandbox(code, language);
-      const result = await executeInSandbox(executableCode, language as 'javascript' | 'typescript' | 'python');
+      const result = await executeInSandbox(executableCode, language as 'javascript' | 'typescript' | 'python', { projectId });
       const durationMs = Date.now() - startTime;
 
       if (result.exitCode === 0) {
@@ -292,7 +337,11 @@ Respond with JSON ONLY:
         .replace(/^```(?:javascript|typescript|js|ts)?\n?/gm, '')
         .replace(/```$/gm, '')
         .trim();
-      transformed = this.stripModuleSyntax(transformed);
+      // Imports become require() calls so they hit the sandbox's package stubs,
+      // which throw on members the real package doesn't have
+      transformed = /^\s*(import|export)\s/m.test(transformed)
+        ? this.toCommonJS(transformed)
+        : this.stripModuleSyntax(transformed);
       return `
 try {
   const React = { createElement: (...args) => ({}), useState: () => [null, () => {}], useEffect: () => {}, useCallback: (fn) => fn, useMemo: (fn) => fn(), useRef: () => ({current: null}), useContext: () => ({}), createClass: () => ({}) };
@@ -332,6 +381,22 @@ try {
     return code;
   }
 
+  private toCommonJS(code: string): string {
+    try {
+      const ts = require('typescript');
+      return ts.transpileModule(code, {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+          esModuleInterop: true,
+          jsx: ts.JsxEmit.React,
+        },
+      }).outputText;
+    } catch (e) {
+      return this.stripModuleSyntax(code);
+    }
+  }
+
   private isModuleError(stderr: string): boolean {
     const moduleErrors = ['Cannot use import statement', 'import is not defined', 'require is not defined in ES module', 'SyntaxError: Cannot use import', "Unexpected token 'export'"];
     return moduleErrors.some(err => stderr.includes(err));
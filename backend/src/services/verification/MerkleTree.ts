@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { MerkleLeaf, MerkleProofStep } from '../../types/verification';
+
+const SHA256_HEX = /^[0-9a-f]{64}$/i;
+
+/**
+ * Binary Merkle tree over verified statements. A leaf commits to both the
+ * statement's symbolic contentHash and its artifactHash (SHA-256 of the exact
+ * content), so neither can be swapped in a proof without changing the root.
+ *
+ * Leaves and interior nodes are domain-separated (0x00 / 0x01 prefix, as in
+ * RFC 6962) so an interior node can never be passed off as a leaf. An odd
+ * node at the end of a level is carried up unchanged instead of being
+ * duplicated, so no two different leaf lists share a root.
+ */
+export class MerkleTree {
+  /**
+   * H(0x00 || contentHash || artifactHash); statements recorded before
+   * artifact hashes existed commit to the contentHash alone
+   */
+  hashLeaf(leaf: MerkleLeaf): string {
+    const parts = [Buffer.from([0x00]), this.bytes(leaf.contentHash)];
+    if (leaf.artifactHash) parts.push(this.bytes(leaf.artifactHash));
+    return this.sha256(Buffer.concat(parts));
+  }
+
+  hashNode(left: string, right: string): string {
+    return this.sha256(Buffer.concat([Buffer.from([0x01]), this.bytes(left), this.bytes(right)]));
+  }
+
+  /**
+   * Root over the leaves in order; an empty block has the hash of nothing
+   */
+  root(leaves: MerkleLeaf[]): string {
+    if (leaves.length === 0) return this.sha256(Buffer.alloc(0));
+
+    let level = leaves.map(leaf => this.hashLeaf(leaf));
+    while (level.length > 1) {
+      level = this.nextLevel(level);
+    }
+    return level[0];
+  }
+
+  /**
+   * Sibling path from leaf `index` up to the root
+   */
+  proof(leaves: MerkleLeaf[], index: number): MerkleProofStep[] {
+    if (index < 0 || index >= leaves.length) {
+      throw new Error(`Leaf ${index} is out of range (${leaves.length} leaves)`);
+    }
+
+    const path: MerkleProofStep[] = [];
+    let level = leaves.map(leaf => this.hashLeaf(leaf));
+    let position = index;
+
+    while (level.length > 1) {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        path.push({ position: sibling < position ? 'left' : 'right', hash: level[sibling] });
+      }
+      level = this.nextLevel(level);
+      position = Math.floor(position / 2);
+    }
+    return path;
+  }
+
+  /**
+   * Fold a leaf up its path and compare with the expected root
+   */
+  verify(leaf: MerkleLeaf, path: MerkleProofStep[], expectedRoot: string): boolean {
+    const computed = path.reduce(
+      (node, step) => (step.position === 'left' ? this.hashNode(step.hash, node) : this.hashNode(node, step.hash)),
+      this.hashLeaf(leaf)
+    );
+    return computed === expectedRoot;
+  }
+
+  private nextLevel(level: string[]): string[] {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? this.hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    return next;
+  }
+
+  // Buffer.from(hex) silently stops at the first non-hex character
+  private bytes(hash: string): Buffer {
+    if (!SHA256_HEX.test(hash)) throw new Error(`Not a hex SHA-256 hash: ${hash}`);
+    return Buffer.from(hash, 'hex');
+  }
+
+  private sha256(data: Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+}
+
+export const merkleTree = new MerkleTree();
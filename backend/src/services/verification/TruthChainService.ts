@@ -9,13 +9,19 @@ import { createHash } from 'crypto';
 import { PrismaClient, TruthBlock, VerifiedStatement } from '@prisma/client';
 import { symbolicHasher } from './SymbolicHasher';
 import { hallucinationDetector } from './HallucinationDetector';
-import { VerificationResult, VerifiedStatementData } from '../../types/verification';
+import { merkleTree } from './MerkleTree';
+import { InclusionProof, VerificationResult, VerifiedStatementData } from '../../types/verification';
 
 const prisma = new PrismaClient();
 
 // Genesis block hash (the first block in the chain)
 const GENESIS_HASH = '0000000000000000000000000000000000000000000000000000000000000000';
 
+// Leaf order within a block; sealing, verification and proofs must agree on it
+const STATEMENT_ORDER = [{ createdAt: 'asc' as const }, { id: 'asc' as const }];
+
+type BlockHashInput = { index: number; previousHash: string; nonce: number; merkleRoot?: string | null };
+
 export class TruthChainService {
   private readonly DIFFICULTY = 2; // Number of leading zeros required (simplified PoW)
 
@@ -64,6 +70,7 @@ export class TruthChainService {
       contentType,
       content,
       contentHash: symbolicHasher.hashContent(content),
+      artifactHash: createHash('sha256').update(content).digest('hex'),
       proofHash: verificationResult.proofHash,
       syntaxValid: verificationResult.checks.syntax.passed,
       sandboxValid: verificationResult.checks.sandbox.passed,
@@ -105,6 +112,7 @@ export class TruthChainService {
         contentType: statementData.contentType,
         content: statementData.content,
         contentHash: statementData.contentHash,
+        artifactHash: statementData.artifactHash ?? createHash('sha256').update(statementData.content).digest('hex'),
         proofHash: statementData.proofHash,
         syntaxValid: statementData.syntaxValid,
         sandboxValid: statementData.sandboxValid,
@@ -159,25 +167,31 @@ export class TruthChainService {
   }
 
   /**
-   * Seal current block and create a new one
+   * Seal current block and create a new one.
+   * The sealed hash commits to the Merkle root of the block's statements,
+   * which is what inclusion proofs are checked against.
    */
   private async sealAndCreateNewBlock(currentBlock: TruthBlock): Promise<TruthBlock> {
     // Get all statements in current block
     const statements = await prisma.verifiedStatement.findMany({
       where: { blockId: currentBlock.id },
+      orderBy: STATEMENT_ORDER,
     });
+    const merkleRoot = merkleTree.root(statements);
 
     // Recalculate and update the block hash
     const { hash, nonce } = this.mineBlock({
       index: currentBlock.index,
       previousHash: currentBlock.previousHash,
       nonce: 0,
+      merkleRoot,
     }, statements);
 
     await prisma.truthBlock.update({
       where: { id: currentBlock.id },
-      data: { hash, nonce },
+      data: { hash, nonce, merkleRoot, sealedAt: new Date() },
     });
+    console.log(`[TruthChain] 🔒 Sealed block #${currentBlock.index} (${statements.length} statements, root ${merkleRoot.substring(0, 12)}...)`);
 
     // Create new block
     const newIndex = currentBlock.index + 1;
@@ -199,13 +213,12 @@ export class TruthChainService {
   }
 
   /**
-   * Calculate block hash from block data and statements
+   * Calculate block hash from block data and statements.
+   * Blocks sealed with a Merkle root hash the root; blocks sealed before
+   * roots existed hash the concatenated statement hashes.
    */
-  private calculateBlockHash(
-    blockData: { index: number; previousHash: string; nonce: number },
-    statements: VerifiedStatement[]
-  ): string {
-    const statementHashes = statements.map(s => s.contentHash).join('');
+  private calculateBlockHash(blockData: BlockHashInput, statements: VerifiedStatement[]): string {
+    const statementHashes = blockData.merkleRoot ?? statements.map(s => s.contentHash).join('');
     const payload = `${blockData.index}${blockData.previousHash}${statementHashes}${blockData.nonce}`;
     return createHash('sha256').update(payload).digest('hex');
   }
@@ -214,7 +227,7 @@ export class TruthChainService {
    * Simple proof-of-work mining (find nonce that produces hash with leading zeros)
    */
   private mineBlock(
-    blockData: { index: number; previousHash: string; nonce: number },
+    blockData: BlockHashInput,
     statements: VerifiedStatement[]
   ): { hash: string; nonce: number } {
     let nonce = 0;
@@ -271,7 +284,7 @@ export class TruthChainService {
   }> {
     const blocks = await prisma.truthBlock.findMany({
       orderBy: { index: 'asc' },
-      include: { statements: true },
+      include: { statements: { orderBy: STATEMENT_ORDER } },
     });
 
     const invalidBlocks: number[] = [];
@@ -279,10 +292,17 @@ export class TruthChainService {
     for (let i = 0; i < blocks.length; i++) {
       const block = blocks[i];
 
-      // Check 1: Verify hash
+      // Check 1: The Merkle root still matches the stored statements
+      if (block.merkleRoot && merkleTree.root(block.statements) !== block.merkleRoot) {
+        invalidBlocks.push(block.index);
+        continue;
+      }
+
+      // Check 2: Verify hash (the open block keeps the hash it was created with)
+      const isOpen = i === blocks.length - 1 && !block.sealedAt;
       const calculatedHash = this.calculateBlockHash(
-        { index: block.index, previousHash: block.previousHash, nonce: block.nonce },
-        block.statements
+        { index: block.index, previousHash: block.previousHash, nonce: block.nonce, merkleRoot: block.merkleRoot },
+        isOpen ? [] : block.statements
       );
 
       if (calculatedHash !== block.hash) {
@@ -290,7 +310,7 @@ export class TruthChainService {
         continue;
       }
 
-      // Check 2: Verify previous hash link (except genesis)
+      // Check 3: Verify previous hash link (except genesis)
       if (i > 0) {
         const prevBlock = blocks[i - 1];
         if (block.previousHash !== prevBlock.hash) {
@@ -305,6 +325,92 @@ export class TruthChainService {
     };
   }
 
+  /**
+   * Inclusion proof for a statement, looked up by statement id, contentHash
+   * or artifactHash (plain SHA-256 of the verified content). The proof links
+   * the statement to its block's Merkle root and the root to the block hash,
+   * so it can be checked offline with src/scripts/verify_truth_proof.ts
+   * against a pinned block hash.
+   */
+  async getInclusionProof(ref: string): Promise<InclusionProof> {
+    const candidates = await prisma.verifiedStatement.findMany({
+      where: { OR: [{ id: ref }, { contentHash: ref }, { artifactHash: ref }] },
+      include: { block: true },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (candidates.length === 0) {
+      throw Object.assign(new Error(`No verified statement matches ${ref}`), { status: 404 });
+    }
+
+    const sealed = candidates.find(s => s.block.merkleRoot);
+    if (!sealed) {
+      const pending = candidates[0].block;
+      const latest = await this.getLatestBlock();
+      const reason = latest?.id === pending.id
+        ? 'has not been sealed yet'
+        : 'was sealed before Merkle roots were recorded';
+      throw Object.assign(new Error(`Block #${pending.index} ${reason}`), { status: 409 });
+    }
+
+    const { block } = sealed;
+    const leaves = await prisma.verifiedStatement.findMany({
+      where: { blockId: block.id },
+      orderBy: STATEMENT_ORDER,
+      select: { id: true, contentHash: true, artifactHash: true },
+    });
+    const leafIndex = leaves.findIndex(l => l.id === sealed.id);
+    if (merkleTree.root(leaves) !== block.merkleRoot) {
+      console.error(`[TruthChain] 🚨 Block #${block.index} statements no longer match its Merkle root`);
+      throw new Error(`Block #${block.index} failed integrity check`);
+    }
+
+    return {
+      format: 'truth-chain-inclusion/v2',
+      statement: {
+        id: sealed.id,
+        agentId: sealed.agentId,
+        taskId: sealed.taskId,
+        contentType: sealed.contentType,
+        contentHash: sealed.contentHash,
+        artifactHash: sealed.artifactHash,
+        proofHash: sealed.proofHash,
+        createdAt: sealed.createdAt,
+      },
+      leafIndex,
+      leafCount: leaves.length,
+      path: merkleTree.proof(leaves, leafIndex),
+      block: {
+        index: block.index,
+        previousHash: block.previousHash,
+        merkleRoot: block.merkleRoot,
+        nonce: block.nonce,
+        hash: block.hash,
+        sealedAt: block.sealedAt,
+      },
+    };
+  }
+
+  /**
+   * Block header (without statement contents), for clients pinning block hashes
+   */
+  async getBlockHeader(index: number) {
+    const block = await prisma.truthBlock.findUnique({
+      where: { index },
+      include: { _count: { select: { statements: true } } },
+    });
+    if (!block) return null;
+
+    return {
+      index: block.index,
+      previousHash: block.previousHash,
+      merkleRoot: block.merkleRoot,
+      nonce: block.nonce,
+      hash: block.hash,
+      sealedAt: block.sealedAt,
+      statementCount: block._count.statements,
+    };
+  }
+
   /**
    * Get verification statistics
    */
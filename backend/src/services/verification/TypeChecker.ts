@@ -0,0 +1,183 @@
+/**
+ * Zero-Hallucination System: Type Checker
+ *
+ * Runs a real `tsc --noEmit` style check over a TypeScript snippet using the
+ * compiler API. The snippet is placed as a virtual file inside the project so
+ * the project's tsconfig, path aliases and installed @types apply, exactly as
+ * they would for `tsc -p`. Only diagnostics for the snippet itself are
+ * reported; the rest of the project is used for resolution only.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { TypeCheckResult, TypeDiagnostic } from '../../types/verification';
+
+export interface TypeCheckOptions {
+  projectRoot?: string;   // Directory holding tsconfig.json / node_modules
+  fileName?: string;      // Path of the snippet relative to projectRoot
+  ambient?: string;       // Extra declarations visible to the snippet (e.g. sandbox fixtures)
+}
+
+// Used when the project has no tsconfig (or no project is given)
+const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  jsx: ts.JsxEmit.ReactJSX,
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+  skipLibCheck: true,
+  strict: false,
+  lib: ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+};
+
+// Node types come from the backend's own install when the project has none
+const FALLBACK_TYPE_ROOTS = [path.join(__dirname, '..', '..', '..', 'node_modules', '@types')];
+
+// Unresolvable imports are not the snippet's fault when nothing is installed
+const MODULE_RESOLUTION_CODES = new Set([2307, 2580, 2582, 2591, 2792, 2875, 7016]);
+
+export class TypeChecker {
+  // lib.*.d.ts and node_modules declarations never change between checks
+  private sourceFileCache = new Map<string, ts.SourceFile>();
+
+  check(code: string, options: TypeCheckOptions = {}): TypeCheckResult {
+    const startTime = Date.now();
+    const projectRoot = path.resolve(options.projectRoot || process.cwd());
+    const { compilerOptions, configPath } = this.loadCompilerOptions(projectRoot, !!options.projectRoot);
+
+    const defaultName = /<[A-Za-z][\w.]*[\s>/]/.test(code) && /\/>|<\/[A-Za-z]/.test(code) ? 'snippet.tsx' : 'snippet.ts';
+    const fileName = path.resolve(projectRoot, options.fileName || defaultName);
+    const ambientName = path.join(path.dirname(fileName), '__sandbox_ambient__.d.ts');
+
+    const virtualFiles = new Map<string, string>([[fileName, code]]);
+    if (options.ambient) virtualFiles.set(ambientName, options.ambient);
+
+    const host = this.createHost(compilerOptions, virtualFiles);
+    const program = ts.createProgram([...virtualFiles.keys()], compilerOptions, host);
+    const sourceFile = program.getSourceFile(fileName);
+
+    const raw = sourceFile
+      ? [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]
+      : [];
+
+    // Standalone snippets (no project) and uninstalled projects can't resolve packages
+    const demoteResolution = !options.projectRoot || !fs.existsSync(path.join(projectRoot, 'node_modules'));
+    const diagnostics = raw
+      .filter((d) => d.category === ts.DiagnosticCategory.Error || d.category === ts.DiagnosticCategory.Warning)
+      .map((d) => this.toDiagnostic(d, projectRoot, demoteResolution));
+
+    const outputText = ts.transpileModule(code, {
+      compilerOptions: {
+        ...compilerOptions,
+        module: ts.ModuleKind.CommonJS,
+        noEmit: false,
+        jsx: compilerOptions.jsx === ts.JsxEmit.Preserve ? ts.JsxEmit.React : compilerOptions.jsx,
+      },
+      fileName,
+    }).outputText;
+
+    return {
+      passed: !diagnostics.some((d) => d.category === 'error'),
+      diagnostics,
+      outputText,
+      configPath,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * One line per diagnostic, in tsc's own `file:line:col - error TSxxxx: msg` layout
+   */
+  format(diagnostics: TypeDiagnostic[]): string {
+    return diagnostics
+      .map((d) => `${d.file}:${d.line}:${d.column} - ${d.category} ${d.code}: ${d.message}`)
+      .join('\n');
+  }
+
+  private loadCompilerOptions(projectRoot: string, isProject: boolean): { compilerOptions: ts.CompilerOptions; configPath?: string } {
+    const configPath = isProject ? ts.findConfigFile(projectRoot, ts.sys.fileExists, 'tsconfig.json') : undefined;
+
+    let compilerOptions: ts.CompilerOptions = { ...DEFAULT_COMPILER_OPTIONS };
+    if (configPath) {
+      const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+      if (!error) {
+        const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+        compilerOptions = parsed.options;
+      } else {
+        console.warn(`[TypeChecker] ⚠️ Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+      }
+    }
+
+    if (!compilerOptions.typeRoots && !fs.existsSync(path.join(projectRoot, 'node_modules', '@types'))) {
+      compilerOptions.typeRoots = FALLBACK_TYPE_ROOTS;
+      compilerOptions.types = compilerOptions.types || ['node'];
+    }
+
+    return {
+      compilerOptions: {
+        ...compilerOptions,
+        noEmit: true,
+        incremental: false,
+        composite: false,
+        declaration: false,
+        skipLibCheck: true,
+      },
+      configPath,
+    };
+  }
+
+  private createHost(options: ts.CompilerOptions, virtualFiles: Map<string, string>): ts.CompilerHost {
+    const host = ts.createCompilerHost(options, true);
+    const { getSourceFile, fileExists, readFile } = host;
+
+    host.fileExists = (fileName) => virtualFiles.has(path.resolve(fileName)) || fileExists.call(host, fileName);
+    host.readFile = (fileName) => virtualFiles.get(path.resolve(fileName)) ?? readFile.call(host, fileName);
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+      const virtual = virtualFiles.get(path.resolve(fileName));
+      if (virtual !== undefined) {
+        return ts.createSourceFile(fileName, virtual, languageVersion, true);
+      }
+
+      const cacheable = fileName.endsWith('.d.ts') && (fileName.includes('node_modules') || path.basename(fileName).startsWith('lib.'));
+      if (!cacheable) return getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+
+      const key = `${fileName}:${JSON.stringify(languageVersion)}`;
+      let sourceFile = this.sourceFileCache.get(key);
+      if (!sourceFile) {
+        sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+        if (sourceFile) this.sourceFileCache.set(key, sourceFile);
+      }
+      return sourceFile;
+    };
+
+    return host;
+  }
+
+  private toDiagnostic(diagnostic: ts.Diagnostic, projectRoot: string, demoteResolution: boolean): TypeDiagnostic {
+    let line = 0;
+    let column = 0;
+    let file = '<unknown>';
+    if (diagnostic.file && diagnostic.start !== undefined) {
+      const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      line = position.line + 1;
+      column = position.character + 1;
+      file = path.relative(projectRoot, diagnostic.file.fileName) || diagnostic.file.fileName;
+    }
+
+    const isError = diagnostic.category === ts.DiagnosticCategory.Error
+      && !(demoteResolution && MODULE_RESOLUTION_CODES.has(diagnostic.code));
+
+    return {
+      file,
+      line,
+      column,
+      code: `TS${diagnostic.code}`,
+      category: isError ? 'error' : 'warning',
+      message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    };
+  }
+}
+
+export const typeChecker = new TypeChecker();
@@ -7,8 +7,10 @@
 export { SymbolicHasher, symbolicHasher } from './SymbolicHasher';
 export { HallucinationDetector, hallucinationDetector } from './HallucinationDetector';
 export { TruthChainService, truthChainService } from './TruthChainService';
+export { MerkleTree, merkleTree } from './MerkleTree';
 export { APIValidator, apiValidator } from './APIValidator';
 export { CodeSafetyAnalyzer, codeSafetyAnalyzer } from './CodeSafetyAnalyzer';
+export { TypeChecker, typeChecker } from './TypeChecker';
 
 // Re-export types
 export * from '../../types/verification';
@@ -4,6 +4,7 @@
  */
 
 import { exec, spawn, ChildProcess } from "child_process";
+import { EventEmitter } from "events";
 import path from "path";
 import fs from "fs/promises";
 import { promisify } from "util";
@@ -49,6 +50,12 @@ async function findAvailablePort(basePort: number): Promise<number> {
   return port;
 }
 
+/**
+ * Workspace file events ("file:written" with { projectId, relativePath }),
+ * consumed by the repo indexer to keep the index current.
+ */
+export const workspaceEvents = new EventEmitter();
+
 export class WorkspaceManager {
   /**
    * Initialize a new Next.js workspace for a project
@@ -352,16 +359,16 @@ body {
   }
 
   /**
-   * Write a file to the workspace
+   * Absolute target of a workspace path, following symlinks in the part
+   * that already exists, and whether it stays inside the workspace
    */
-  async writeFile(
+  async resolvePath(
     projectId: string,
-    relativePath: string,
-    content: string
-  ): Promise<void> {
+    relativePath: string
+  ): Promise<{ workspacePath: string; target: string; inside: boolean }> {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
-      select: { workspacePath: true, name: true },
+      select: { workspacePath: true },
     });
 
     if (!project?.workspacePath) {
@@ -370,7 +377,40 @@ body {
       );
     }
 
-    const fullPath = path.join(project.workspacePath, relativePath);
+    const workspacePath = await this.realPath(path.resolve(project.workspacePath));
+    const target = await this.realPath(path.resolve(path.join(project.workspacePath, relativePath)));
+    return { workspacePath, target, inside: target.startsWith(workspacePath + path.sep) };
+  }
+
+  private async realPath(absolute: string): Promise<string> {
+    const missing: string[] = [];
+    let existing = absolute;
+    while (true) {
+      try {
+        return path.join(await fs.realpath(existing), ...missing.reverse());
+      } catch {
+        const parent = path.dirname(existing);
+        if (parent === existing) return absolute;
+        missing.push(path.basename(existing));
+        existing = parent;
+      }
+    }
+  }
+
+  /**
+   * Write a file to the workspace
+   */
+  async writeFile(
+    projectId: string,
+    relativePath: string,
+    content: string
+  ): Promise<void> {
+    const { target: fullPath, inside } = await this.resolvePath(projectId, relativePath);
+
+    // Security: ensure path (and any symlink on it) stays within workspace
+    if (!inside) {
+      throw new Error("Access denied: path outside workspace");
+    }
 
     // Ensure parent directory exists
     await fs.mkdir(path.dirname(fullPath), { recursive: true });
@@ -381,6 +421,8 @@ body {
     console.log(
       `[Workspace] 💾 Wrote file: ${relativePath} (${content.length} bytes)`
     );
+
+    workspaceEvents.emit("file:written", { projectId, relativePath });
   }
 
   /**
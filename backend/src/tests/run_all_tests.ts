@@ -6,6 +6,17 @@
 
 import { runTests as runApprovalTests } from './test_approval_flow';
 import { runTests as runMemoryTests } from './test_memory_reuse';
+import { runTests as runCassetteTests } from './test_llm_cassette';
+import { runTests as runStubTests } from './test_sandbox_stubs';
+import { runTests as runPatchTests } from './test_patch_engine';
+import { runTests as runPolicyTests } from './test_policy_engine';
+import { runTests as runSideEffectTests } from './test_side_effects';
+import { runTests as runBenchmarkTests } from './test_genome_benchmark';
+import { runTests as runRegistryTests } from './test_genome_registry';
+import { runTests as runParetoTests } from './test_pareto_selection';
+import { runTests as runGovernanceRulesTests } from './test_governance_rules';
+import { runTests as runResilienceTests } from './test_llm_resilience';
+import { runTests as runTestRunnerTests } from './test_test_runner';
 
 interface TestResult {
   name: string;
@@ -109,6 +120,283 @@ async function runAllTests() {
     duration: Date.now() - traceStart
   });
 
+  // Test 6: LLM Cassettes
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 6: LLM Cassette Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const cassetteStart = Date.now();
+  try {
+    const cassetteResult = await runCassetteTests();
+    results.push({
+      name: 'LLM Cassettes',
+      passed: cassetteResult.passed,
+      failed: cassetteResult.failed,
+      duration: Date.now() - cassetteStart
+    });
+  } catch (error) {
+    console.error('Cassette tests crashed:', error);
+    results.push({
+      name: 'LLM Cassettes',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - cassetteStart
+    });
+  }
+
+  // Test 7: Sandbox Package Stubs
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 7: Sandbox Stub Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const stubStart = Date.now();
+  try {
+    const stubResult = await runStubTests();
+    results.push({
+      name: 'Sandbox Stubs',
+      passed: stubResult.passed,
+      failed: stubResult.failed,
+      duration: Date.now() - stubStart
+    });
+  } catch (error) {
+    console.error('Stub tests crashed:', error);
+    results.push({
+      name: 'Sandbox Stubs',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - stubStart
+    });
+  }
+
+  // Test 8: Structural Patching
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 8: Structural Patch Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const patchStart = Date.now();
+  try {
+    const patchResult = await runPatchTests();
+    results.push({
+      name: 'Structural Patches',
+      passed: patchResult.passed,
+      failed: patchResult.failed,
+      duration: Date.now() - patchStart
+    });
+  } catch (error) {
+    console.error('Patch tests crashed:', error);
+    results.push({
+      name: 'Structural Patches',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - patchStart
+    });
+  }
+
+  // Test 9: Truth Chain Merkle Proofs (inline tests)
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 9: Truth Chain Merkle Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const merkleStart = Date.now();
+  const merkleResult = await runMerkleTests();
+  results.push({
+    name: 'Truth Chain Merkle',
+    ...merkleResult,
+    duration: Date.now() - merkleStart
+  });
+
+  // Test 10: Policy Engine
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 10: Policy Engine Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const policyStart = Date.now();
+  try {
+    const policyResult = await runPolicyTests();
+    results.push({
+      name: 'Policy Engine',
+      passed: policyResult.passed,
+      failed: policyResult.failed,
+      duration: Date.now() - policyStart
+    });
+  } catch (error) {
+    console.error('Policy tests crashed:', error);
+    results.push({
+      name: 'Policy Engine',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - policyStart
+    });
+  }
+
+  // Test 11: Guarded Side Effects
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 11: Guarded Side Effect Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const sideEffectStart = Date.now();
+  try {
+    const sideEffectResult = await runSideEffectTests();
+    results.push({
+      name: 'Guarded Side Effects',
+      passed: sideEffectResult.passed,
+      failed: sideEffectResult.failed,
+      duration: Date.now() - sideEffectStart
+    });
+  } catch (error) {
+    console.error('Side effect tests crashed:', error);
+    results.push({
+      name: 'Guarded Side Effects',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - sideEffectStart
+    });
+  }
+
+  // Test 12: Genome Benchmark
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 12: Genome Benchmark Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const benchmarkStart = Date.now();
+  try {
+    const benchmarkResult = await runBenchmarkTests();
+    results.push({
+      name: 'Genome Benchmark',
+      passed: benchmarkResult.passed,
+      failed: benchmarkResult.failed,
+      duration: Date.now() - benchmarkStart
+    });
+  } catch (error) {
+    console.error('Benchmark tests crashed:', error);
+    results.push({
+      name: 'Genome Benchmark',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - benchmarkStart
+    });
+  }
+
+  // Test 13: Genome Registry
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 13: Genome Registry Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const registryStart = Date.now();
+  try {
+    const registryResult = await runRegistryTests();
+    results.push({
+      name: 'Genome Registry',
+      passed: registryResult.passed,
+      failed: registryResult.failed,
+      duration: Date.now() - registryStart
+    });
+  } catch (error) {
+    console.error('Registry tests crashed:', error);
+    results.push({
+      name: 'Genome Registry',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - registryStart
+    });
+  }
+
+  // Test 14: Pareto Selection
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 14: Pareto Selection Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const paretoStart = Date.now();
+  try {
+    const paretoResult = await runParetoTests();
+    results.push({
+      name: 'Pareto Selection',
+      passed: paretoResult.passed,
+      failed: paretoResult.failed,
+      duration: Date.now() - paretoStart
+    });
+  } catch (error) {
+    console.error('Pareto tests crashed:', error);
+    results.push({
+      name: 'Pareto Selection',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - paretoStart
+    });
+  }
+
+  // Test 15: Governance Rules
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 15: Governance Rules Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const governanceStart = Date.now();
+  try {
+    const governanceResult = await runGovernanceRulesTests();
+    results.push({
+      name: 'Governance Rules',
+      passed: governanceResult.passed,
+      failed: governanceResult.failed,
+      duration: Date.now() - governanceStart
+    });
+  } catch (error) {
+    console.error('Governance rules tests crashed:', error);
+    results.push({
+      name: 'Governance Rules',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - governanceStart
+    });
+  }
+
+  // Test 16: LLM Resilience
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 16: LLM Resilience Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const resilienceStart = Date.now();
+  try {
+    const resilienceResult = await runResilienceTests();
+    results.push({
+      name: 'LLM Resilience',
+      passed: resilienceResult.passed,
+      failed: resilienceResult.failed,
+      duration: Date.now() - resilienceStart
+    });
+  } catch (error) {
+    console.error('Resilience tests crashed:', error);
+    results.push({
+      name: 'LLM Resilience',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - resilienceStart
+    });
+  }
+
+  // Test 17: Test Runner Reports
+  console.log('\n' + '─'.repeat(60));
+  console.log('SUITE 17: Test Runner Tests');
+  console.log('─'.repeat(60) + '\n');
+
+  const testRunnerStart = Date.now();
+  try {
+    const testRunnerResult = await runTestRunnerTests();
+    results.push({
+      name: 'Test Runner',
+      passed: testRunnerResult.passed,
+      failed: testRunnerResult.failed,
+      duration: Date.now() - testRunnerStart
+    });
+  } catch (error) {
+    console.error('Test runner tests crashed:', error);
+    results.push({
+      name: 'Test Runner',
+      passed: 0,
+      failed: 1,
+      duration: Date.now() - testRunnerStart
+    });
+  }
+
   // Final Report
   const totalDuration = Date.now() - startTime;
   const totalPassed = results.reduce((sum, r) => sum + r.passed, 0);
@@ -146,7 +434,7 @@ async function runSafetyTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 1: Allowlisted package
   console.log('Test 1: Allowlisted package check');
-  const reactCheck = safetyPolicy.checkPackageInstall('react');
+  const reactCheck = await safetyPolicy.checkPackageInstall('react');
   if (reactCheck.allowed) {
     console.log('  ✅ PASSED: react is allowed');
     passed++;
@@ -157,7 +445,7 @@ async function runSafetyTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 2: Denylisted package
   console.log('Test 2: Denylisted package check');
-  const evalCheck = safetyPolicy.checkPackageInstall('eval');
+  const evalCheck = await safetyPolicy.checkPackageInstall('eval');
   if (!evalCheck.allowed) {
     console.log('  ✅ PASSED: eval is blocked');
     passed++;
@@ -168,7 +456,7 @@ async function runSafetyTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 3: Dangerous command
   console.log('Test 3: Dangerous command check');
-  const cmdCheck = safetyPolicy.checkCommand('rm -rf /');
+  const cmdCheck = await safetyPolicy.checkCommand('rm -rf /');
   if (!cmdCheck.allowed) {
     console.log('  ✅ PASSED: rm -rf / is blocked');
     passed++;
@@ -179,7 +467,7 @@ async function runSafetyTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 4: Safe command
   console.log('Test 4: Safe command check');
-  const safeCmd = safetyPolicy.checkCommand('npm install lodash');
+  const safeCmd = await safetyPolicy.checkCommand('npm install lodash');
   if (safeCmd.allowed) {
     console.log('  ✅ PASSED: npm install is allowed');
     passed++;
@@ -190,7 +478,7 @@ async function runSafetyTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 5: Restricted path
   console.log('Test 5: Restricted path check');
-  const pathCheck = safetyPolicy.checkFilePath('/etc/passwd');
+  const pathCheck = await safetyPolicy.checkFilePath('/etc/passwd');
   if (!pathCheck.allowed) {
     console.log('  ✅ PASSED: /etc/passwd is blocked');
     passed++;
@@ -224,7 +512,7 @@ async function runBudgetTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 2: Get spend stats
   console.log('Test 2: Get spend stats');
-  const stats = budgetLimiter.getSpendStats(testProjectId);
+  const stats = await budgetLimiter.getSpendStats(testProjectId);
   if (stats.daily && stats.project) {
     console.log('  ✅ PASSED: Stats retrieved');
     console.log(`     Daily: $${stats.daily.spent.toFixed(4)}`);
@@ -236,7 +524,7 @@ async function runBudgetTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 3: Can proceed check
   console.log('Test 3: Can proceed check');
-  const canProceed = budgetLimiter.canProceed(testProjectId, 1.0);
+  const canProceed = await budgetLimiter.canProceed(testProjectId, 1.0);
   if (typeof canProceed === 'boolean') {
     console.log(`  ✅ PASSED: Can proceed = ${canProceed}`);
     passed++;
@@ -247,10 +535,10 @@ async function runBudgetTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 4: Pause/Resume
   console.log('Test 4: Pause and resume');
-  budgetLimiter.pauseProject(testProjectId, 'Test pause');
-  const afterPause = budgetLimiter.canProceed(testProjectId);
-  budgetLimiter.resumeProject(testProjectId);
-  const afterResume = budgetLimiter.canProceed(testProjectId);
+  await budgetLimiter.pauseProject(testProjectId, 'Test pause');
+  const afterPause = await budgetLimiter.canProceed(testProjectId);
+  await budgetLimiter.resumeProject(testProjectId);
+  const afterResume = await budgetLimiter.canProceed(testProjectId);
   
   if (!afterPause && afterResume) {
     console.log('  ✅ PASSED: Pause/resume working');
@@ -260,6 +548,38 @@ async function runBudgetTests(): Promise<{ passed: number; failed: number }> {
     failed++;
   }
 
+  // Test 5: Spend made while paused still reaches the ledger
+  console.log('Test 5: Record cost while paused');
+  await budgetLimiter.pauseProject(testProjectId, 'Test pause');
+  const pausedResult = await budgetLimiter.recordCost(testProjectId, 'task-paused', 0.02);
+  await budgetLimiter.resumeProject(testProjectId);
+  const pausedEntries = await budgetLimiter.getLedger({ projectId: testProjectId, taskId: 'task-paused' });
+
+  if (!pausedResult.allowed && pausedEntries.length > 0) {
+    console.log('  ✅ PASSED: Ledger row written, further work refused');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Paused spend was dropped or allowed');
+    failed++;
+  }
+
+  // Test 6: A project's own daily limit pauses only that project
+  console.log('Test 6: Per-project daily limit');
+  const lowLimitProjectId = 'test-budget-daily-project';
+  await budgetLimiter.setProjectBudget(lowLimitProjectId, { dailyLimit: 0.001 });
+  const overOwnLimit = await budgetLimiter.recordCost(lowLimitProjectId, 'task-daily', 0.01);
+  const lowLimitCanProceed = await budgetLimiter.canProceed(lowLimitProjectId);
+  const othersCanProceed = await budgetLimiter.canProceed(testProjectId);
+  await budgetLimiter.resumeProject(lowLimitProjectId);
+
+  if (!overOwnLimit.allowed && !lowLimitCanProceed && othersCanProceed) {
+    console.log('  ✅ PASSED: Only the project over its own daily limit was paused');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Per-project daily limit', { overOwnLimit, lowLimitCanProceed, othersCanProceed });
+    failed++;
+  }
+
   console.log(`\nResults: ${passed} passed, ${failed} failed`);
   return { passed, failed };
 }
@@ -267,14 +587,32 @@ async function runBudgetTests(): Promise<{ passed: number; failed: number }> {
 // Trace Immutability Tests
 async function runTraceTests(): Promise<{ passed: number; failed: number }> {
   const { traceImmutability } = await import('../services/traceImmutability');
+  const { prisma } = await import('../lib/prisma');
   let passed = 0;
   let failed = 0;
 
+  // Traces reference a real task; the chain is append-only, so the fixture is kept
+  const project = await prisma.project.upsert({
+    where: { id: 'test-trace-project' },
+    update: {},
+    create: { id: 'test-trace-project', name: 'Trace Test Project', clientName: 'Test' },
+  });
+  const module = await prisma.module.upsert({
+    where: { id: 'test-trace-module' },
+    update: {},
+    create: { id: 'test-trace-module', name: 'Trace Test Module', projectId: project.id },
+  });
+  const task = await prisma.task.upsert({
+    where: { id: 'test-trace-task' },
+    update: {},
+    create: { id: 'test-trace-task', moduleId: module.id, title: 'Trace test task', requiredRole: 'MidDev' },
+  });
+
   // Test 1: Record trace
   console.log('Test 1: Record immutable trace');
   const trace = await traceImmutability.recordImmutableTrace(
     'test-trace-1',
-    'task-1',
+    task.id,
     'agent-1',
     'TEST_EVENT',
     { test: true }
@@ -290,7 +628,7 @@ async function runTraceTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 2: Chain stats
   console.log('Test 2: Get chain stats');
-  const stats = traceImmutability.getChainStats();
+  const stats = await traceImmutability.getChainStats();
   if (stats.length > 0 && stats.lastHash) {
     console.log('  ✅ PASSED: Chain stats retrieved');
     console.log(`     Length: ${stats.length}`);
@@ -302,7 +640,7 @@ async function runTraceTests(): Promise<{ passed: number; failed: number }> {
 
   // Test 3: Verify integrity
   console.log('Test 3: Verify chain integrity');
-  const verification = traceImmutability.verifyChainIntegrity();
+  const verification = await traceImmutability.verifyChainIntegrity();
   if (verification.valid) {
     console.log('  ✅ PASSED: Chain integrity verified');
     passed++;
@@ -312,10 +650,15 @@ async function runTraceTests(): Promise<{ passed: number; failed: number }> {
     failed++;
   }
 
-  // Test 4: Create snapshot
+  // Test 4: Create signed snapshot (throwaway key unless one is configured)
   console.log('Test 4: Create snapshot');
-  const snapshot = traceImmutability.createSnapshot();
-  if (snapshot.snapshotHash && snapshot.chainLength >= 0) {
+  if (!process.env.TRACE_SIGNING_KEY) {
+    const { generateKeyPairSync } = await import('crypto');
+    const { privateKey } = generateKeyPairSync('ed25519');
+    process.env.TRACE_SIGNING_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  }
+  const snapshot = await traceImmutability.createSnapshot({ from: trace.index, to: trace.index });
+  if (snapshot.snapshotHash && snapshot.signature.value && snapshot.headHash === trace.chainHash) {
     console.log('  ✅ PASSED: Snapshot created');
     console.log(`     Hash: ${snapshot.snapshotHash.substring(0, 16)}...`);
     passed++;
@@ -328,6 +671,83 @@ async function runTraceTests(): Promise<{ passed: number; failed: number }> {
   return { passed, failed };
 }
 
+// Truth Chain Merkle Tests
+async function runMerkleTests(): Promise<{ passed: number; failed: number }> {
+  const { merkleTree } = await import('../services/verification/MerkleTree');
+  const { createHash } = await import('crypto');
+  let passed = 0;
+  let failed = 0;
+
+  const sha256 = (data: string) => createHash('sha256').update(data).digest('hex');
+  const leaves = Array.from({ length: 7 }, (_, i) => ({
+    contentHash: sha256(`statement-${i}`),
+    artifactHash: sha256(`artifact-${i}`),
+  }));
+  const root = merkleTree.root(leaves);
+
+  // Test 1: Every leaf of an odd-sized block proves against the root
+  console.log('Test 1: Proofs for every leaf');
+  if (leaves.every((leaf, i) => merkleTree.verify(leaf, merkleTree.proof(leaves, i), root))) {
+    console.log('  ✅ PASSED: All 7 leaves verified');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: A valid proof was rejected');
+    failed++;
+  }
+
+  // Test 2: A different leaf or a tampered path is rejected
+  console.log('Test 2: Forged proofs are rejected');
+  const path = merkleTree.proof(leaves, 3);
+  const tampered = path.map((step, i) => (i === 0 ? { ...step, hash: leaves[0].contentHash } : step));
+  if (!merkleTree.verify(leaves[4], path, root) && !merkleTree.verify(leaves[3], tampered, root)) {
+    console.log('  ✅ PASSED: Forged proofs rejected');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Forged proof accepted');
+    failed++;
+  }
+
+  // Test 3: Carrying the odd node up means duplicating it changes the root
+  console.log('Test 3: Odd leaf is not duplicated');
+  if (merkleTree.root([...leaves, leaves[6]]) !== root) {
+    console.log('  ✅ PASSED: Roots differ');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Duplicated last leaf produced the same root');
+    failed++;
+  }
+
+  // Test 4: The leaf commits to the artifact hash, not just the symbolic hash
+  console.log('Test 4: Swapped artifactHash is rejected');
+  const swapped = { ...leaves[2], artifactHash: sha256('some other file') };
+  if (!merkleTree.verify(swapped, merkleTree.proof(leaves, 2), root)) {
+    console.log('  ✅ PASSED: Proof fails for a different artifact');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Proof accepted a different artifactHash');
+    failed++;
+  }
+
+  // Test 5: Non-hex hashes are refused instead of silently truncated
+  console.log('Test 5: Non-hex hashes are rejected');
+  let rejected = false;
+  try {
+    merkleTree.root([{ contentHash: leaves[0].contentHash.slice(0, 10) + 'zz' + leaves[0].contentHash.slice(12) }]);
+  } catch {
+    rejected = true;
+  }
+  if (rejected) {
+    console.log('  ✅ PASSED: Malformed hash refused');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Malformed hash accepted');
+    failed++;
+  }
+
+  console.log(`\nResults: ${passed} passed, ${failed} failed`);
+  return { passed, failed };
+}
+
 // Run if executed directly
 if (require.main === module) {
   runAllTests()
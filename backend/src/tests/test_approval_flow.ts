@@ -42,7 +42,7 @@ async function runTests() {
   // Test 2: Get pending gates
   console.log('\nTest 2: Get pending gates');
   try {
-    const pending = approvalGates.getPendingGates(testProjectId);
+    const pending = await approvalGates.getPendingGates(testProjectId);
     
     if (pending.length > 0) {
       console.log('  ✅ PASSED: Retrieved pending gates');
@@ -60,7 +60,7 @@ async function runTests() {
   // Test 3: Approve gate
   console.log('\nTest 3: Approve gate');
   try {
-    const pending = approvalGates.getPendingGates(testProjectId);
+    const pending = await approvalGates.getPendingGates(testProjectId);
     if (pending.length > 0) {
       const approved = await approvalGates.approveGate(
         pending[0].id,
@@ -147,12 +147,12 @@ async function runTests() {
   // Test 6: Gate configuration
   console.log('\nTest 6: Gate configuration');
   try {
-    approvalGates.configureGates(testProjectId, ['PRE_COMMIT', 'SECURITY']);
+    await approvalGates.configureGates(testProjectId, ['PRE_COMMIT', 'SECURITY']);
     
     // PRE_COMMIT should be enabled
-    const preCommitEnabled = approvalGates.isGateEnabled(testProjectId, 'PRE_COMMIT');
+    const preCommitEnabled = await approvalGates.isGateEnabled(testProjectId, 'PRE_COMMIT');
     // ARCHITECTURE should be disabled
-    const archEnabled = approvalGates.isGateEnabled(testProjectId, 'ARCHITECTURE');
+    const archEnabled = await approvalGates.isGateEnabled(testProjectId, 'ARCHITECTURE');
     
     if (preCommitEnabled && !archEnabled) {
       console.log('  ✅ PASSED: Gate configuration working');
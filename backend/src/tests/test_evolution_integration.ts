@@ -57,7 +57,7 @@ async function runEvolutionIntegrationTest() {
         // Step 4: Run dry-run evolution cycle
         console.log('🔄 Step 4: Running DRY-RUN evolution cycle...');
         evolutionCycleService.setDryRunMode(true);
-        const cycleResult = await evolutionCycleService.runCycle('test-project');
+        const cycleResult = await evolutionCycleService.runCycle('global');
         
         console.log(`   Generation: ${cycleResult.generationNumber}`);
         console.log(`   Would terminate: ${cycleResult.terminated.length} agents`);
@@ -0,0 +1,149 @@
+/**
+ * Genome Benchmark Tests
+ *
+ * Runs every corpus task's reference solution through the acceptance-test
+ * harness (in a local node process, standing in for the sandbox), checks
+ * that solutions cannot forge their results, and checks code extraction and
+ * scoring. No LLM or database is needed.
+ */
+
+import { execFileSync } from 'child_process';
+import crypto from 'crypto';
+import {
+  genomeBenchmarkService,
+  buildHarness,
+  parseHarnessOutput,
+  extractCode,
+  scoreTasks,
+  BenchmarkTask,
+} from '../services/evolution/GenomeBenchmarkService';
+
+function runHarness(solution: string, task: BenchmarkTask) {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  let stdout = '';
+  let stderr = '';
+  try {
+    stdout = execFileSync(process.execPath, ['-e', buildHarness(solution, task, nonce)], {
+      encoding: 'utf-8',
+      timeout: 10000,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error: any) {
+    stdout = error.stdout || '';
+    stderr = error.stderr || error.message;
+  }
+  return parseHarnessOutput(stdout, stderr, task.tests, nonce);
+}
+
+async function runTests() {
+  console.log('🧪 Running Genome Benchmark Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: any) => {
+    if (ok) {
+      console.log(`  ✅ PASSED: ${label}`);
+      passed++;
+    } else {
+      console.log(`  ❌ FAILED: ${label}`, detail ?? '');
+      failed++;
+    }
+  };
+
+  const corpus = genomeBenchmarkService.getCorpus();
+
+  // Test 1: The corpus is solvable and its tests discriminate
+  console.log('Test 1: Corpus');
+  for (const task of corpus.tasks) {
+    const reference = runHarness(task.referenceSolution, task);
+    const stub = runHarness(`function ${task.entryPoint}() {}\nclass __Unused {}`, task);
+    check(
+      `${task.id}: reference passes all ${task.tests.length} tests, a stub passes none`,
+      reference.length === task.tests.length && reference.every(t => t.passed) && stub.every(t => !t.passed),
+      { reference: reference.filter(t => !t.passed), stub: stub.filter(t => t.passed) }
+    );
+  }
+
+  // Test 2: Solutions that crash on load fail every test with the error
+  console.log('\nTest 2: Crashing solution');
+  const task = corpus.tasks[0];
+  const crashed = runHarness(`throw new Error('boom');`, task);
+  check(
+    'Every test fails and carries the stderr',
+    crashed.length === task.tests.length && crashed.every(t => !t.passed && (t.error || '').includes('boom')),
+    crashed
+  );
+
+  // Test 3: Solutions cannot report their own results
+  console.log('\nTest 3: Tampering');
+  const names = task.tests.map(t => t.name);
+  const forged = JSON.stringify(names.map(name => ({ name, passed: true })));
+  const printer = runHarness(
+    `function ${task.entryPoint}() {}\nconsole.log('__BENCHMARK_RESULTS__' + ${JSON.stringify(forged)});\n` +
+      `process.on('exit', () => console.log('__BENCHMARK_RESULTS__' + ${JSON.stringify(forged)}));`,
+    task
+  );
+  const patcher = runHarness(
+    `const a = require('assert'); for (const k of Object.keys(a)) a[k] = () => {};\n` +
+      `process.send = () => true;\nfunction ${task.entryPoint}() {}`,
+    task
+  );
+  const sender = runHarness(
+    `process.send({ nonce: 'guess', results: ${forged} });\nsetTimeout(() => process.exit(0), 50);\nfunction ${task.entryPoint}() {}`,
+    task
+  );
+  check(
+    'Printed, patched and self-sent results are all ignored',
+    [printer, patcher, sender].every(r => r.length === task.tests.length && r.every(t => !t.passed)),
+    { printer, patcher, sender }
+  );
+  const nonce = 'n'.repeat(32);
+  const wrongNonce = parseHarnessOutput(`__BENCHMARK_RESULTS__${'x'.repeat(32)}${forged}\n`, '', task.tests, nonce);
+  const notLast = parseHarnessOutput(`__BENCHMARK_RESULTS__${nonce}${forged}\nmore output\n`, '', task.tests, nonce);
+  const missing = parseHarnessOutput(
+    `__BENCHMARK_RESULTS__${nonce}${JSON.stringify([{ name: names[0], passed: true }])}\n`,
+    '',
+    task.tests,
+    nonce
+  );
+  const genuine = parseHarnessOutput(`__BENCHMARK_RESULTS__${nonce}${forged}\n`, '', task.tests, nonce);
+  check(
+    'Only a nonce-tagged last line listing exactly the declared tests counts',
+    [wrongNonce, notLast, missing].every(r => r.every(t => !t.passed)) &&
+      missing[0].error === 'Reported test results do not match the declared tests' &&
+      genuine.every(t => t.passed),
+    { wrongNonce, notLast, missing, genuine }
+  );
+
+  // Test 4: Code extraction and difficulty weighting
+  console.log('\nTest 4: Extraction and scoring');
+  const extracted = extractCode('Here you go:\n```javascript\nfunction f() {}\n```\nDone.');
+  const score = scoreTasks(
+    [{ taskId: 'slugify', score: 1 }, { taskId: 'retry-async', score: 0 }],
+    corpus.tasks
+  );
+  check('Fenced block is extracted', extracted === 'function f() {}', extracted);
+  check('Harder tasks weigh more', Math.abs(score - 1.2 / 2.9) < 1e-9, score);
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
@@ -0,0 +1,118 @@
+/**
+ * Genome Registry Tests
+ *
+ * Checks content addressing (lineage fields never change a version, equal
+ * content always hashes the same) and genome diffs. No database is needed.
+ */
+
+import { AgentGenome } from '../services/evolution/EvolutionService';
+import {
+  genomeRegistry,
+  canonicalGenome,
+  hashGenome,
+  diffGenomes,
+} from '../services/evolution/GenomeRegistry';
+
+const parent: AgentGenome = {
+  id: 'genome-parent',
+  generation: 2,
+  parents: ['genome-a', 'genome-b'],
+  system_prompt: 'You are a Mid-Level Developer. Write clean, efficient code.',
+  temperature: 0.7,
+  risk_tolerance: 0.5,
+  collaboration_preference: 0.6,
+  specialization: { React: 0.4, SQL: 0.2 },
+  fitness_history: [0.5, 0.6],
+};
+
+async function runTests() {
+  console.log('🧪 Running Genome Registry Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: any) => {
+    if (ok) {
+      console.log(`  ✅ PASSED: ${label}`);
+      passed++;
+    } else {
+      console.log(`  ❌ FAILED: ${label}`, detail ?? '');
+      failed++;
+    }
+  };
+
+  // Test 1: Content addressing
+  console.log('Test 1: Content addressing');
+  const sameContent = genomeRegistry.materialize(parent, { generation: 7, parents: ['someone-else'] });
+  const reordered = {
+    specialization: { SQL: 0.2, React: 0.4 },
+    collaboration_preference: 0.6,
+    risk_tolerance: 0.5,
+    temperature: 0.1 + 0.2 + 0.4, // 0.7000000000000001
+    system_prompt: parent.system_prompt,
+    id: 'x', generation: 0, parents: [], fitness_history: [],
+  } as AgentGenome;
+  check('Lineage fields do not change the hash', hashGenome(sameContent) === hashGenome(parent));
+  check('Key order and float noise do not change the hash', hashGenome(reordered) === hashGenome(parent));
+  check('A prompt change does', hashGenome({ ...parent, system_prompt: parent.system_prompt + '!' }) !== hashGenome(parent));
+  check(
+    'Canonical content drops lineage fields',
+    ['id', 'generation', 'parents', 'fitness_history'].every(key => !(key in canonicalGenome(parent))),
+    canonicalGenome(parent)
+  );
+  check('Materialized genomes are new individuals', sameContent.id !== parent.id && sameContent.fitness_history.length === 0);
+
+  // Test 2: Diffs
+  console.log('\nTest 2: Diffs');
+  const child: AgentGenome = {
+    ...parent,
+    id: 'genome-child',
+    generation: 3,
+    parents: ['genome-parent'],
+    system_prompt: 'You are a Mid-Level Developer. Write clean, well-tested code.',
+    temperature: 0.75,
+    specialization: { React: 0.5, SQL: 0.2, Testing: 0.1 },
+  };
+  const diff = diffGenomes(parent, child);
+  const temperature = diff.fields.find(f => f.field === 'temperature');
+  check('Numeric field change carries a delta', temperature?.delta === 0.05 && diff.fields.length === 1, diff.fields);
+  check(
+    'Specialization changes are per skill',
+    diff.specialization.map(s => s.field).join(',') === 'React,Testing',
+    diff.specialization
+  );
+  const removedText = diff.prompt.segments.filter(s => s.op === '-').map(s => s.text).join('|');
+  const addedText = diff.prompt.segments.filter(s => s.op === '+').map(s => s.text).join('|');
+  check(
+    'Prompt diff isolates the changed words',
+    removedText === 'efficient' && addedText === 'well-tested' && diff.prompt.added === 1 && diff.prompt.removed === 1,
+    diff.prompt.segments
+  );
+  check(
+    'Prompt segments reassemble both prompts',
+    diff.prompt.segments.filter(s => s.op !== '+').map(s => s.text).join('') === parent.system_prompt &&
+      diff.prompt.segments.filter(s => s.op !== '-').map(s => s.text).join('') === child.system_prompt
+  );
+  check('Lineage-only differences are identical', diffGenomes(parent, sameContent).identical);
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
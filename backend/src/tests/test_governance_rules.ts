@@ -0,0 +1,138 @@
+/**
+ * Governance Rules Tests
+ *
+ * Configurable governance: the default rule set reproduces the original
+ * fixed thresholds, custom thresholds and role ladders, exemptions,
+ * cooldowns, rule validation and the what-if replay of performance logs.
+ * Pure functions, no database needed.
+ */
+
+import { evaluateGovernanceAction, AgentContext } from '../governance/governanceRules';
+import { DEFAULT_GOVERNANCE_RULES, parseGovernanceRules } from '../governance/governanceConfig';
+import { replayGovernance, ReplayLog } from '../governance/governanceSimulation';
+
+const agent = (overrides: Partial<AgentContext>): AgentContext => ({
+  id: 'agent-1',
+  role: 'MidDev',
+  score: 60,
+  riskLevel: 'MEDIUM',
+  successCount: 5,
+  failCount: 1,
+  tasksHandled: 6,
+  ...overrides,
+});
+
+async function runTests() {
+  console.log('🧪 Running Governance Rules Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: any) => {
+    if (ok) {
+      console.log(`  ✅ PASSED: ${label}`);
+      passed++;
+    } else {
+      console.log(`  ❌ FAILED: ${label}`, detail ?? '');
+      failed++;
+    }
+  };
+
+  // Test 1: Defaults match the original fixed rules
+  console.log('Test 1: Default rules');
+  const star = agent({ score: 85, successCount: 6, failCount: 0 });
+  const promoted = evaluateGovernanceAction(star);
+  check('High performer is promoted up the default ladder', promoted.action === 'PROMOTE' && promoted.newRole === 'SeniorDev', promoted);
+  check('Five failures terminate', evaluateGovernanceAction(agent({ failCount: 5 })).action === 'TERMINATE');
+  const breaker = evaluateGovernanceAction(agent({ costBaseline: 0.05, sessionCost: 0.2 }));
+  check('Circuit breaker fires above 3x the baseline', breaker.action === 'TERMINATE' && breaker.reason.includes('Circuit Breaker'), breaker);
+
+  // Test 2: Custom thresholds and ladders
+  console.log('\nTest 2: Custom rules');
+  const custom = parseGovernanceRules({
+    promotion: { scoreAbove: 70 },
+    roleLadder: { promote: { MidDev: 'Architect' } },
+    circuitBreaker: { enabled: false },
+  });
+  const early = evaluateGovernanceAction(agent({ score: 75, successCount: 6, failCount: 0 }), custom);
+  check('Lower promotion bar and custom ladder apply', early.action === 'PROMOTE' && early.newRole === 'Architect', early);
+  check(
+    'Disabled circuit breaker does not terminate',
+    evaluateGovernanceAction(agent({ costBaseline: 0.05, sessionCost: 0.2 }), custom).action !== 'TERMINATE'
+  );
+  check('Unchanged sections keep their defaults', custom.termination.maxFailures === DEFAULT_GOVERNANCE_RULES.termination.maxFailures);
+
+  // Test 3: Exemptions and cooldowns
+  console.log('\nTest 3: Exemptions and cooldowns');
+  const exempt = parseGovernanceRules({ exemptions: [{ role: 'SeniorQA', actions: ['TERMINATE'], reason: 'audit lead' }] });
+  const spared = evaluateGovernanceAction(agent({ role: 'SeniorQA', score: 35, riskLevel: 'HIGH', failCount: 5 }), exempt);
+  check('Exempt agent falls through to the next rule', spared.action === 'DEMOTE' && spared.newRole === 'QA', spared);
+
+  const cooling = parseGovernanceRules({ cooldowns: { promotionMs: 60 * 60 * 1000 } });
+  const changedAt = new Date('2025-01-01T10:00:00Z');
+  const tooSoon = evaluateGovernanceAction({ ...star, lastRoleChangeAt: changedAt, at: new Date('2025-01-01T10:10:00Z') }, cooling);
+  const later = evaluateGovernanceAction({ ...star, lastRoleChangeAt: changedAt, at: new Date('2025-01-01T12:00:00Z') }, cooling);
+  check('Promotion waits for the cooldown', tooSoon.action === 'NONE' && tooSoon.reason.includes('cooling down') && later.action === 'PROMOTE', [tooSoon, later]);
+
+  // Test 4: Validation
+  console.log('\nTest 4: Validation');
+  let issues: string[] = [];
+  try {
+    parseGovernanceRules({ promotion: { scoreAbove: -1, bogus: 1 }, tenure: {} });
+  } catch (error: any) {
+    issues = error.status === 400 ? error.issues : [];
+  }
+  check('Unknown sections and settings are rejected', issues.some(i => i.includes('tenure')) && issues.some(i => i.includes('bogus')), issues);
+  try {
+    parseGovernanceRules({ promotion: { scoreAbove: -1 }, exemptions: [{ actions: ['PROMOTE'] }] });
+    issues = [];
+  } catch (error: any) {
+    issues = error.issues || [];
+  }
+  check('Bad values and exemptions are reported together', issues.length === 2, issues);
+
+  // Test 5: What-if replay
+  console.log('\nTest 5: Replay');
+  const start = Date.parse('2025-01-01T00:00:00Z');
+  const logs: ReplayLog[] = [];
+  for (let i = 0; i < 6; i++) {
+    logs.push({ id: `good-${i}`, agentId: 'good', success: true, costUsd: 0, durationMs: 0, revisionCount: 0, createdAt: new Date(start + i * 60000) });
+    logs.push({ id: `bad-${i}`, agentId: 'bad', success: false, costUsd: 0, durationMs: 0, revisionCount: 0, createdAt: new Date(start + i * 60000) });
+  }
+  const agents = [{ id: 'good', role: 'MidDev' }, { id: 'bad', role: 'MidDev' }];
+
+  const defaults = replayGovernance(agents, logs, DEFAULT_GOVERNANCE_RULES);
+  const bad = defaults.agents.find(a => a.agentId === 'bad')!;
+  check(
+    'Defaults promote the good agent once and terminate the bad one',
+    JSON.stringify(defaults.promoted) === '["good"]' &&
+      defaults.agents.find(a => a.agentId === 'good')!.finalRole === 'SeniorDev' &&
+      JSON.stringify(defaults.terminated) === '["bad"]' &&
+      bad.evaluations === 3,
+    defaults.events
+  );
+
+  const lenient = replayGovernance(agents, logs, parseGovernanceRules({ termination: { maxFailures: 10 } }));
+  check('A lenient candidate keeps the bad agent', lenient.terminated.length === 0 && lenient.warnings === 4, lenient);
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
@@ -0,0 +1,159 @@
+/**
+ * LLM Resilience Tests
+ *
+ * Walks a circuit breaker through its CLOSED -> OPEN -> HALF_OPEN cycle,
+ * checks which provider errors are retried and that a timed-out request
+ * is aborted at the provider rather than left running.
+ */
+
+import { callLLM } from '../llm/llmClient';
+import { circuitBreakers, isRetryableError } from '../llm/circuitBreaker';
+
+async function runTests() {
+  console.log('🧪 Running LLM Resilience Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const { failureThreshold, cooldownMs } = circuitBreakers.snapshot().config;
+  const breaker = circuitBreakers.get('test:resilience');
+  // Pretend the cooldown is over without waiting for it
+  const expireCooldown = () => {
+    breaker.openedAt = new Date(Date.now() - cooldownMs - 1);
+  };
+
+  // Test 1: Consecutive failures open the breaker
+  console.log('Test 1: Breaker opens after the failure threshold');
+  for (let i = 0; i < failureThreshold - 1; i++) breaker.recordFailure('503 Service Unavailable');
+  const closedBeforeThreshold = breaker.state === 'CLOSED' && breaker.tryAcquire();
+  breaker.recordFailure('503 Service Unavailable');
+
+  if (closedBeforeThreshold && breaker.state === 'OPEN' && !breaker.tryAcquire()) {
+    console.log(`  ✅ PASSED: Open after ${failureThreshold} failures, requests refused`);
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Unexpected state', breaker.snapshot());
+    failed++;
+  }
+
+  // Test 2: After the cooldown exactly one probe is let through
+  console.log('\nTest 2: Half-open admits a single probe');
+  expireCooldown();
+  const probe = breaker.tryAcquire();
+  const second = breaker.tryAcquire();
+
+  if (probe && !second && breaker.state === 'HALF_OPEN') {
+    console.log('  ✅ PASSED: One probe admitted, concurrent request refused');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Unexpected half-open behavior', { probe, second, state: breaker.state });
+    failed++;
+  }
+
+  // Test 3: A failed probe re-opens at once, a successful one closes
+  console.log('\nTest 3: Probe outcome re-opens or closes the breaker');
+  breaker.recordFailure('503 Service Unavailable');
+  const reopened = breaker.state === 'OPEN' && !breaker.tryAcquire();
+  expireCooldown();
+  breaker.tryAcquire();
+  breaker.recordSuccess();
+
+  if (reopened && breaker.state === 'CLOSED' && breaker.consecutiveFailures === 0 && breaker.tryAcquire()) {
+    console.log('  ✅ PASSED: Failed probe re-opened, successful probe closed');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Unexpected state', breaker.snapshot());
+    failed++;
+  }
+
+  // Test 4: Only transient errors are retried
+  console.log('\nTest 4: isRetryableError');
+  const retryable = [
+    Object.assign(new Error('Too Many Requests'), { status: 429 }),
+    Object.assign(new Error('Bad gateway'), { status: 502 }),
+    { message: 'x', $metadata: { httpStatusCode: 503 } },
+    new Error('OpenRouter API error 529: overloaded'),
+    new Error('Bedrock API error: ThrottlingException: Rate exceeded'),
+    new Error('Groq API error: socket hang up'),
+    new Error('read ECONNRESET'),
+  ];
+  const permanent = [
+    Object.assign(new Error('Unauthorized'), { status: 401 }),
+    Object.assign(new Error('rate limit'), { status: 400 }),
+    new Error('OpenRouter API error 400: invalid model'),
+    new Error('Groq returned empty response'),
+    new Error('Port 5000 in use'),
+    undefined,
+  ];
+  const wronglyPermanent = retryable.filter((e) => !isRetryableError(e));
+  const wronglyRetried = permanent.filter((e) => isRetryableError(e));
+
+  if (wronglyPermanent.length === 0 && wronglyRetried.length === 0) {
+    console.log('  ✅ PASSED: Transient and permanent errors told apart');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED: Misclassified', { wronglyPermanent, wronglyRetried });
+    failed++;
+  }
+
+  // Test 5: A timed-out request is aborted at the provider
+  console.log('\nTest 5: Timeout aborts the provider request');
+  const previousFetch = globalThis.fetch;
+  const previousKey = process.env.OPENROUTER_API_KEY;
+  const previousMock = process.env.USE_MOCK_LLM;
+  let signal: AbortSignal | undefined;
+  try {
+    process.env.OPENROUTER_API_KEY = 'test-key';
+    process.env.USE_MOCK_LLM = 'false';
+    // A provider that never answers unless cancelled
+    globalThis.fetch = ((_url: any, init?: RequestInit) => {
+      signal = init?.signal ?? undefined;
+      return new Promise((_, reject) => signal?.addEventListener('abort', () => reject(signal!.reason)));
+    }) as typeof fetch;
+
+    await callLLM(
+      { provider: 'openrouter', model: 'test/hanging-model', maxTokens: 16, temperature: 0, timeoutMs: 50, fallbacks: [] },
+      [{ role: 'user', content: 'Hello' }]
+    );
+
+    if (signal?.aborted && String(signal.reason?.message).includes('timed out')) {
+      console.log('  ✅ PASSED: Provider request cancelled on timeout');
+      passed++;
+    } else {
+      console.log('  ❌ FAILED: Provider request was not aborted');
+      failed++;
+    }
+  } catch (error) {
+    console.log('  ❌ FAILED:', error);
+    failed++;
+  } finally {
+    globalThis.fetch = previousFetch;
+    for (const [key, value] of [['OPENROUTER_API_KEY', previousKey], ['USE_MOCK_LLM', previousMock]] as const) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    circuitBreakers.reset('openrouter');
+    circuitBreakers.reset('test:resilience');
+  }
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
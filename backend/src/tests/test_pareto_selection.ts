@@ -0,0 +1,102 @@
+/**
+ * Pareto Selection Tests
+ *
+ * NSGA-II building blocks used by the evolution cycle: dominance, fast
+ * non-dominated sorting, crowding distance and imputation of missing
+ * objectives. Pure functions, no database needed.
+ */
+
+import {
+  dominates,
+  nonDominatedSort,
+  crowdingDistance,
+  imputeObjectives,
+  rankPopulation,
+  ObjectiveVector,
+} from '../services/evolution/ParetoSelection';
+
+const agent = (successRate: number, costPerTask: number, qaRejectionRate: number, latencyMs: number): ObjectiveVector =>
+  ({ successRate, costPerTask, qaRejectionRate, latencyMs });
+
+async function runTests() {
+  console.log('🧪 Running Pareto Selection Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: any) => {
+    if (ok) {
+      console.log(`  ✅ PASSED: ${label}`);
+      passed++;
+    } else {
+      console.log(`  ❌ FAILED: ${label}`, detail ?? '');
+      failed++;
+    }
+  };
+
+  // Test 1: Dominance
+  console.log('Test 1: Dominance');
+  const careful = agent(0.95, 0.40, 0.05, 60000);
+  const sloppy = agent(0.60, 0.02, 0.50, 15000);
+  const worse = agent(0.90, 0.45, 0.10, 65000);
+  check('Better or equal everywhere dominates', dominates(careful, worse) && !dominates(worse, careful));
+  check('Cheap-but-sloppy and careful do not dominate each other', !dominates(sloppy, careful) && !dominates(careful, sloppy));
+  check('Equal vectors do not dominate', !dominates(careful, { ...careful }));
+
+  // Test 2: Fronts
+  console.log('\nTest 2: Non-dominated sorting');
+  const balanced = agent(0.85, 0.15, 0.15, 30000);
+  const hopeless = agent(0.50, 0.50, 0.60, 90000);
+  const vectors = [careful, sloppy, worse, balanced, hopeless];
+  const fronts = nonDominatedSort(vectors).map(front => [...front].sort());
+  check(
+    'Front 0 holds every trade-off, dominated agents follow',
+    JSON.stringify(fronts) === JSON.stringify([[0, 1, 3], [2], [4]]),
+    fronts
+  );
+
+  // Test 3: Crowding distance
+  console.log('\nTest 3: Crowding distance');
+  const line = [agent(0.9, 0.1, 0.1, 1000), agent(0.8, 0.08, 0.1, 1000), agent(0.5, 0.02, 0.1, 1000), agent(0.7, 0.06, 0.1, 1000)];
+  const distances = crowdingDistance([0, 1, 2, 3], line);
+  check('Extremes are infinitely far', distances[0] === Infinity && distances[2] === Infinity, distances);
+  check('The isolated interior point is less crowded', distances[3] > distances[1], distances);
+
+  // Test 4: Ranking with missing data
+  console.log('\nTest 4: Ranking');
+  const imputed = imputeObjectives([{ successRate: 0.8, costPerTask: 0.2 }, { successRate: 0.6 }, {}]);
+  check(
+    'Missing objectives take the population mean',
+    imputed[2].successRate === 0.7 && imputed[1].costPerTask === 0.2 && imputed[0].latencyMs === 0,
+    imputed
+  );
+  const ranked = rankPopulation(['careful', 'sloppy', 'worse', 'balanced', 'hopeless'], name => vectors[
+    ['careful', 'sloppy', 'worse', 'balanced', 'hopeless'].indexOf(name)
+  ]);
+  check(
+    'Ranked best front first, then by crowding',
+    ranked.slice(0, 3).every(r => r.rank === 0) && ranked[3].item === 'worse' && ranked[4].item === 'hopeless',
+    ranked.map(r => [r.item, r.rank, r.crowding])
+  );
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
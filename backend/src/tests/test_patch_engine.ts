@@ -0,0 +1,257 @@
+/**
+ * Structural Patch Tests
+ *
+ * Applies the symbol-level operations to small JS/TS, Python and CSS
+ * sources and checks both the output and the per-operation match report,
+ * plus unified diffs with fuzzy placement and three-way merging.
+ */
+
+import { patchEngine, PatchOperation } from '../services/patchEngine';
+
+const TS_SOURCE = `export class Greeter {
+  constructor(private name: string) {}
+  greet() { return 'hi ' + this.name; }
+  shout() { return this.greet().toUpperCase(); }
+}
+export function helper(n: number) { return n + 1; }
+function shadow() { const helper = 2; return helper; }
+`;
+
+const PY_SOURCE = `class Store:
+    """Keeps items.
+
+def not_a_method(): docstring text
+"""
+
+    @property
+    def size(self):
+        return len(self.items)
+
+    def add(self, item,
+            quiet=False):
+        self.items.append(item)
+        return item
+
+
+def helper(x):
+    return Store().add(x, quiet=True)
+`;
+
+const SHADOW_SOURCE = `def scale(value, factor=2):
+    return value * factor
+
+
+factor = 3
+print(scale(10, factor))
+`;
+
+const CSS_SOURCE = `/* buttons */
+.btn, .btn-primary {
+  color: red;
+}
+@media (max-width: 600px) {
+  .card > .btn { margin: 0; }
+}
+`;
+
+const DIFF_BASE = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].map(l => `line ${l}`).join('\n') + '\n';
+
+const DIFF = `--- a/notes.txt
++++ b/notes.txt
+@@ -3,7 +3,7 @@
+ line c
+-line d
++line D
+ line e
+ line f
+ line g
+-line h
++line H
+ line i
+`;
+
+async function runTests() {
+  console.log('🧪 Running Structural Patch Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: any) => {
+    if (ok) {
+      console.log(`  ✅ PASSED: ${label}`);
+      passed++;
+    } else {
+      console.log(`  ❌ FAILED: ${label}`, detail ?? '');
+      failed++;
+    }
+  };
+
+  // Test 1: JS/TS class, method and symbol operations via recast
+  console.log('Test 1: JS/TS structural operations');
+  const ts = patchEngine.applyPatchesWithReport('greeter.ts', TS_SOURCE, [
+    { type: 'replace_method', className: 'Greeter', name: 'greet', newCode: "greet() { return 'hello ' + this.name; }" },
+    { type: 'remove_symbol', className: 'Greeter', name: 'shout' },
+    { type: 'rename_symbol', name: 'helper', newName: 'increment' },
+    { type: 'insert_after_symbol', name: 'increment', code: 'export const two = increment(1);' },
+  ]);
+  check('All operations matched', ts.results.every(r => r.matched), ts.results);
+  check(
+    'Method replaced, member removed, binding renamed without touching the shadow',
+    ts.code.includes("'hello '") && !ts.code.includes('shout') &&
+      ts.code.includes('function increment') && ts.code.includes('const helper = 2; return helper;') &&
+      ts.code.indexOf('export const two') > ts.code.indexOf('function increment'),
+    ts.code
+  );
+
+  // Test 2: Python blocks follow indentation, not text that merely looks like code
+  console.log('\nTest 2: Python structural operations');
+  const py = patchEngine.applyPatchesWithReport('store.py', PY_SOURCE, [
+    { type: 'replace_method', className: 'Store', name: 'add', newCode: 'def add(self, item):\n    self.items.append(item)\n    return self' },
+    { type: 'insert_after_symbol', className: 'Store', name: 'size', code: 'def clear(self):\n    self.items = []' },
+    { type: 'rename_symbol', name: 'helper', newName: 'assist' },
+    { type: 'replace_method', className: 'Store', name: 'not_a_method', newCode: 'def not_a_method(self): pass' },
+  ]);
+  check(
+    'Docstring contents are not mistaken for a method',
+    py.results[3].matched === false && /not found/.test(py.results[3].error || ''),
+    py.results[3]
+  );
+  check(
+    'Method replaced and inserted at class-body indentation',
+    py.code.includes('    def add(self, item):\n        self.items.append(item)\n        return self\n') &&
+      py.code.includes('        return len(self.items)\n\n    def clear(self):\n        self.items = []') &&
+      !py.code.includes('quiet=False'),
+    py.code
+  );
+  check(
+    'Rename leaves keyword arguments alone',
+    py.code.includes('def assist(x):') && py.code.includes('quiet=True') && py.results[2].occurrences === 1,
+    py.results[2]
+  );
+
+  const shadowed = patchEngine.applyPatchesWithReport('scale.py', SHADOW_SOURCE, [
+    { type: 'rename_symbol', name: 'factor', newName: 'ratio' },
+  ]);
+  check(
+    'Rename refused when a def rebinds the name used outside it',
+    !shadowed.results[0].matched && /rebound inside def scale \(line 1\)/.test(shadowed.results[0].error || '') &&
+      !shadowed.changed,
+    shadowed.results[0]
+  );
+  const local = patchEngine.applyPatchesWithReport('scale.py', 'def scale(value, factor=2):\n    return value * factor\n', [
+    { type: 'rename_symbol', name: 'factor', newName: 'ratio' },
+  ]);
+  check(
+    'Parameter defaults are renamed with the body',
+    local.code === 'def scale(value, ratio=2):\n    return value * ratio\n' && local.results[0].occurrences === 2,
+    local.code
+  );
+
+  // Test 3: CSS rule-level replacement
+  console.log('\nTest 3: CSS rule operations');
+  const css = patchEngine.applyPatchesWithReport('styles.css', CSS_SOURCE, [
+    { type: 'replace_rule', selector: '.btn-primary ,.btn', newCode: '.btn, .btn-primary {\n  color: purple;\n}' },
+    { type: 'replace_rule', selector: '.card>.btn', newCode: '.card > .btn { margin: 4px; }' },
+  ]);
+  check(
+    'Rules replaced by normalized selector, comments kept',
+    css.results.every(r => r.matched) && css.code.includes('/* buttons */\n.btn, .btn-primary {\n  color: purple;') &&
+      css.code.includes('  .card > .btn { margin: 4px; }'),
+    css.code
+  );
+  const duplicated = patchEngine.applyPatchesWithReport('styles.css', css.code + '.card > .btn { margin: 8px; }\n', [
+    { type: 'replace_rule', selector: '.card > .btn', newCode: '.card > .btn { margin: 2px; }' },
+  ]);
+  check(
+    'Ambiguous selector is refused, file untouched',
+    !duplicated.results[0].matched && /ambiguous: 2 rules match \(lines 6, 8\)/.test(duplicated.results[0].error || '') &&
+      !duplicated.changed,
+    duplicated.results[0]
+  );
+
+  // Test 4: Unmatched operations fail loudly instead of returning the file unchanged
+  console.log('\nTest 4: Unmatched operations are reported');
+  const missing: PatchOperation[] = [{ type: 'replace_class', name: 'Missing', newCode: 'class Missing {}' }];
+  let message = '';
+  try {
+    patchEngine.applyPatchesToFile('greeter.ts', TS_SOURCE, missing);
+  } catch (error: any) {
+    message = error.message;
+  }
+  check('applyPatchesToFile throws naming the target', /replace_class "Missing"/.test(message), message);
+
+  // Test 5: Diffs land despite shifted lines, merge around concurrent edits, and report conflicts
+  console.log('\nTest 5: Unified diffs');
+  const shifted = patchEngine.applyPatchesWithReport('notes.txt', 'intro\n' + DIFF_BASE, [{ type: 'apply_diff', diff: DIFF }]);
+  check(
+    'Offset hunk applies fuzzily',
+    shifted.results[0].matched && shifted.results[0].strategy === 'fuzzy' && shifted.code.includes('line D'),
+    shifted.results
+  );
+
+  const concurrent = DIFF_BASE.replace('line f', 'line F');
+  const merged = patchEngine.applyPatchesWithReport('notes.txt', concurrent, [{ type: 'apply_diff', diff: DIFF, base: DIFF_BASE }]);
+  check(
+    'An edit inside the hunk by someone else is kept via three-way merge',
+    merged.results[0].strategy === 'three_way' &&
+      ['line D', 'line F', 'line H'].every(line => merged.code.includes(line)),
+    merged
+  );
+
+  const clash = DIFF_BASE.replace('line d', 'line d!');
+  const conflicted = patchEngine.applyPatchesWithReport('notes.txt', clash, [{ type: 'apply_diff', diff: DIFF, base: DIFF_BASE }]);
+  const [conflict] = conflicted.results[0].conflicts || [];
+  check(
+    'Overlapping edits are reported as conflict hunks and the file is untouched',
+    !conflicted.changed && conflict?.reason === 'conflict' &&
+      conflict.ours[0] === 'line d!' && conflict.theirs[0] === 'line D' && conflict.base[0] === 'line d',
+    conflicted.results
+  );
+
+  // Edits all over a large file used to exceed the LCS table limit
+  const bigBase = Array.from({ length: 6000 }, (_, i) => `row ${i}`);
+  const bigOurs = bigBase.map((line, i) => (i % 10 === 1 ? `${line} (ours)` : line));
+  const bigDiff = `--- a/rows.txt
++++ b/rows.txt
+@@ -5989,7 +5989,7 @@
+-row 5988
++row 5988!
+ row 5989
+ row 5990
+ row 5991
+ row 5992
+ row 5993
+-row 5994
++row 5994!
+`;
+  const bigMerge = patchEngine.applyPatchesWithReport('rows.txt', bigOurs.join('\n'), [
+    { type: 'apply_diff', diff: bigDiff, base: bigBase.join('\n') },
+  ]);
+  check(
+    'Large files with scattered edits still merge',
+    bigMerge.results[0].strategy === 'three_way' &&
+      ['row 5988!', 'row 5991 (ours)', 'row 5994!', 'row 1 (ours)'].every(line => bigMerge.code.includes(line)),
+    bigMerge.results
+  );
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
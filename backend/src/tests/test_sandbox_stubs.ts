@@ -0,0 +1,121 @@
+/**
+ * Sandbox Package Stub Tests
+ *
+ * Materializes the builtin stubs into a temp dir and runs snippets with
+ * plain node (the same preload and NODE_PATH the Docker sandbox uses), so
+ * no container is needed.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import { stubRegistry, generateStubManifest } from '../services/sandboxStubs';
+
+function runSnippet(dir: string, setupFile: string, nodePath: string, code: string): { exitCode: number; stderr: string } {
+  fs.writeFileSync(path.join(dir, 'script.js'), code);
+  try {
+    execFileSync('node', ['-r', `./${setupFile}`, 'script.js'], {
+      cwd: dir,
+      env: { PATH: process.env.PATH, NODE_PATH: path.join(dir, nodePath) },
+      timeout: 10000,
+      stdio: 'pipe',
+    });
+    return { exitCode: 0, stderr: '' };
+  } catch (error: any) {
+    return { exitCode: error.status ?? 1, stderr: error.stderr?.toString() || error.message };
+  }
+}
+
+async function runTests() {
+  console.log('🧪 Running Sandbox Stub Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-stubs-'));
+  const { setupFile, nodePath } = stubRegistry.materialize(dir, stubRegistry.resolve());
+
+  // Test 1: Real APIs of every builtin stub run cleanly
+  console.log('Test 1: Declared APIs run');
+  const valid = runSnippet(dir, setupFile, nodePath, `
+    const _ = require('lodash');
+    const express = require('express');
+    const { PrismaClient } = require('@prisma/client');
+    const { Sequelize, DataTypes } = require('sequelize');
+    _.groupBy([1, 2], (n) => n % 2);
+    const app = express();
+    app.use(express.json());
+    app.get('/', (req, res) => res.json({}));
+    new PrismaClient().user.findMany();
+    new Sequelize('sqlite::memory:').define('User', { name: DataTypes.STRING(20) }).findAll();
+    describe('suite', () => it('case', () => expect([1]).not.toContain(2)));
+  `);
+  if (valid.exitCode === 0) {
+    console.log('  ✅ PASSED: Snippet ran against stubs');
+    passed++;
+  } else {
+    console.log('  ❌ FAILED:', valid.stderr);
+    failed++;
+  }
+
+  // Test 2: Hallucinated members fail the run
+  console.log('\nTest 2: Nonexistent methods throw');
+  const hallucinations = [
+    `require('lodash').groupByKey([])`,
+    `require('express')().listenAsync(3000)`,
+    `new (require('@prisma/client').PrismaClient)().user.findAll()`,
+    `expect(1).toBeEqual(1)`,
+  ];
+  const caught = hallucinations.filter(code => {
+    const result = runSnippet(dir, setupFile, nodePath, code);
+    return result.exitCode !== 0 && result.stderr.includes('does not exist');
+  });
+  if (caught.length === hallucinations.length) {
+    console.log(`  ✅ PASSED: ${caught.length}/${hallucinations.length} hallucinations caught`);
+    passed++;
+  } else {
+    console.log(`  ❌ FAILED: only ${caught.length}/${hallucinations.length} caught`);
+    failed++;
+  }
+
+  // Test 3: Generated stubs follow the package's .d.ts
+  console.log('\nTest 3: Stub generated from .d.ts');
+  try {
+    const manifest = generateStubManifest('uuid', { projectRoot: path.join(__dirname, '..', '..') });
+    const members = Object.keys(manifest.exports.members || {});
+    if (members.includes('v4') && members.includes('validate') && !members.includes('generate')) {
+      console.log('  ✅ PASSED: uuid surface generated');
+      passed++;
+    } else {
+      console.log('  ❌ FAILED: Unexpected surface', members);
+      failed++;
+    }
+  } catch (error) {
+    console.log('  ❌ FAILED:', error);
+    failed++;
+  }
+
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
@@ -0,0 +1,161 @@
+/**
+ * Test Runner Tests
+ *
+ * Offline checks of how project test runs are parsed: Jest JSON reports
+ * (per-test status, failure messages, stacks, suites that failed to load),
+ * the runner commands, and json-summary coverage.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { testRunner, splitFailure } from '../services/testRunner';
+
+async function runTests() {
+  console.log('🧪 Running Test Runner Tests\n');
+
+  let passed = 0;
+  let failed = 0;
+
+  const check = (label: string, ok: boolean, detail?: any) => {
+    if (ok) {
+      console.log(`  ✅ PASSED: ${label}`);
+      passed++;
+    } else {
+      console.log(`  ❌ FAILED: ${label}`, detail ?? '');
+      failed++;
+    }
+  };
+
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'test-runner-'));
+  // Private helpers are exercised directly; they need no sandbox
+  const runner = testRunner as any;
+
+  // Test 1: Failure text splits into an ANSI-free message and its stack
+  console.log('Test 1: splitFailure');
+  const split = splitFailure('\u001b[31mexpect(received).toBe(expected)\u001b[39m\n\nExpected: 2\nReceived: 3\n    at Object.<anonymous> (/app/src/math.test.ts:5:17)\n    at run (node:internal)');
+  check(
+    'Message and stack separated',
+    split.message === 'expect(received).toBe(expected)\n\nExpected: 2\nReceived: 3' &&
+      split.stack === '    at Object.<anonymous> (/app/src/math.test.ts:5:17)\n    at run (node:internal)',
+    split
+  );
+  const bare = splitFailure('  Timeout - Async callback was not invoked  ');
+  check('Failure without a stack keeps only the message', bare.message === 'Timeout - Async callback was not invoked' && bare.stack === undefined, bare);
+
+  // Test 2: Jest JSON report -> per-test results with workspace-relative paths
+  console.log('\nTest 2: parseReport');
+  const tests = runner.parseReport(
+    {
+      testResults: [
+        {
+          name: path.join(workspace, 'src/math.test.ts'),
+          status: 'failed',
+          assertionResults: [
+            { fullName: 'math adds', status: 'passed', duration: 3, failureMessages: [] },
+            {
+              ancestorTitles: ['math'],
+              title: 'subtracts',
+              status: 'failed',
+              failureMessages: [`expected 1\n    at Object.<anonymous> (${workspace}/src/math.test.ts:9:5)`],
+              location: { line: 8, column: 3 },
+            },
+            { fullName: 'math divides', status: 'pending', failureMessages: [] },
+            { fullName: 'math rounds', status: 'todo', failureMessages: [] },
+          ],
+        },
+        {
+          testFilePath: '/app/src/broken.test.ts',
+          status: 'failed',
+          assertionResults: [],
+          message: "Cannot find module './missing'\n    at Resolver (/app/node_modules/jest-resolve/index.js:1:1)",
+        },
+      ],
+    },
+    workspace
+  );
+  const [adds, subtracts, divides, rounds, broken] = tests;
+  check('Every assertion and the broken suite are reported', tests.length === 5, tests);
+  check(
+    'Statuses, names and locations mapped',
+    adds.status === 'passed' && adds.durationMs === 3 && adds.file === 'src/math.test.ts' &&
+      subtracts.name === 'math subtracts' && subtracts.status === 'failed' && subtracts.location?.line === 8 &&
+      divides.status === 'skipped' && rounds.status === 'todo',
+    tests
+  );
+  check(
+    'Failure messages and stacks relativized',
+    subtracts.failureMessages[0] === 'expected 1' && subtracts.stackTrace === '    at Object.<anonymous> (src/math.test.ts:9:5)',
+    subtracts
+  );
+  check(
+    'Suite that failed to load becomes one failed result',
+    broken.file === 'src/broken.test.ts' && broken.status === 'failed' &&
+      broken.failureMessages[0] === "Cannot find module './missing'" && broken.stackTrace?.includes('node_modules/jest-resolve'),
+    broken
+  );
+
+  // Test 3: Runner commands write the JSON report and quote the selected files
+  console.log('\nTest 3: buildCommand');
+  const jest = runner.buildCommand('jest', { files: ["src/it's.test.ts"], coverage: true });
+  const vitest = runner.buildCommand('vitest', { files: ['src/a.test.ts'] });
+  check(
+    'Jest command',
+    jest.startsWith('CI=true npx --no-install jest --ci --json --outputFile=node_modules/.cache/tholai-qa/jest-results.json') &&
+      jest.includes('--coverage --coverageReporters=json-summary') && jest.endsWith(`'src/it'\\''s.test.ts'`),
+    jest
+  );
+  check(
+    'Vitest command',
+    vitest === "npx --no-install vitest run --reporter=json --outputFile=node_modules/.cache/tholai-qa/vitest-results.json 'src/a.test.ts'",
+    vitest
+  );
+
+  // Test 4: json-summary coverage totals and per-file line coverage
+  console.log('\nTest 4: readCoverage');
+  const coverageDir = path.join(workspace, 'coverage');
+  check('No summary, no coverage', runner.readCoverage(coverageDir, workspace) === undefined);
+  fs.mkdirSync(coverageDir);
+  fs.writeFileSync(
+    path.join(coverageDir, 'coverage-summary.json'),
+    JSON.stringify({
+      total: {
+        lines: { total: 10, covered: 8, pct: 80 },
+        statements: { total: 12, covered: 9, pct: 75 },
+        functions: { total: 4, covered: 4, pct: 100 },
+        branches: { total: 0, covered: 0, pct: 'Unknown' },
+      },
+      [path.join(workspace, 'src/math.ts')]: { lines: { total: 10, covered: 8, pct: 80 } },
+    })
+  );
+  const coverage = runner.readCoverage(coverageDir, workspace);
+  check(
+    'Totals and per-file line coverage read',
+    coverage?.lines.pct === 80 && coverage.statements.covered === 9 && coverage.functions.pct === 100 &&
+      coverage.branches.pct === 0 && coverage.files['src/math.ts']?.lines === 80 && Object.keys(coverage.files).length === 1,
+    coverage
+  );
+
+  fs.rmSync(workspace, { recursive: true, force: true });
+
+  // Summary
+  console.log('\n' + '='.repeat(50));
+  console.log(`Results: ${passed} passed, ${failed} failed`);
+  console.log('='.repeat(50));
+
+  return { passed, failed };
+}
+
+// Run if executed directly
+if (require.main === module) {
+  runTests()
+    .then(({ passed, failed }) => {
+      process.exit(failed > 0 ? 1 : 0);
+    })
+    .catch(error => {
+      console.error('Test suite failed:', error);
+      process.exit(1);
+    });
+}
+
+export { runTests };
@@ -0,0 +1,78 @@
+/**
+ * Safety Policy: Type Definitions
+ *
+ * A policy document is a list of rules (YAML or JSON). Each rule matches an
+ * agent action on its subject (package, command, path or URL) plus optional
+ * context (agent role, project, environment) and decides allow, deny or
+ * require_approval. The builtin policy can be extended globally and
+ * overridden per project; overrides are stored in the database.
+ */
+
+// --- DOCUMENT TYPES ---
+
+export type PolicyEffect = 'allow' | 'deny' | 'require_approval';
+export type PolicyAction = 'package' | 'command' | 'path' | 'network';
+export type PolicySeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+/**
+ * Conditions are ANDed; the patterns inside one condition are ORed.
+ * package/agentRole/project/environment take globs (`@types/*`), command,
+ * path and network (the URL) take regular expressions (a leading `(?i)`
+ * makes them case-insensitive).
+ * A rule with a package condition only applies to package actions, etc.
+ */
+export interface PolicyMatch {
+  package?: string[];
+  command?: string[];
+  path?: string[];
+  network?: string[];
+  agentRole?: string[];
+  project?: string[];
+  environment?: string[];
+}
+
+export interface PolicyRule {
+  id: string;
+  description?: string;
+  effect: PolicyEffect;
+  severity?: PolicySeverity;
+  priority?: number;            // Higher wins within a layer (default 0)
+  locked?: boolean;             // Global rules only: project overrides cannot outrank it
+  match: PolicyMatch;
+}
+
+export interface PolicyDocument {
+  version: 1;
+  name?: string;
+  defaults?: Partial<Record<PolicyAction, PolicyEffect>>;  // When no rule matches
+  rules: PolicyRule[];
+}
+
+// --- EVALUATION TYPES ---
+
+export type PolicySource = 'global' | 'project' | 'default';
+
+export interface PolicyRequest {
+  action: PolicyAction;
+  subject: string;              // Package name, command line, file path or URL
+  agentRole?: string;
+  projectId?: string;
+  environment?: string;         // Defaults to POLICY_ENVIRONMENT / NODE_ENV
+  taskId?: string;
+}
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  subject: string;
+  effect: PolicyEffect;
+  allowed: boolean;             // Only 'allow' (or an approved gate) is allowed
+  severity: PolicySeverity;
+  source: PolicySource;
+  ruleId?: string;
+  reason: string;
+  matchedRules: Array<{ id: string; effect: PolicyEffect; source: PolicySource }>;
+  environment: string;
+  dryRun: boolean;
+  gateId?: string;              // Approval gate created for require_approval
+  gateStatus?: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Sandbox Package Stubs: Type Definitions
+ *
+ * A stub manifest declares the runtime surface of a package (usually
+ * generated from its .d.ts). The sandbox turns it into a strict module:
+ * declared members behave, anything else throws, so calls to methods that
+ * don't exist fail the run instead of silently passing.
+ */
+
+// --- SURFACE TYPES ---
+
+export type StubPrimitive = string | number | boolean | null;
+
+export interface StubShape {
+  kind: 'any' | 'value' | 'array' | 'promise' | 'object' | 'ref';
+  value?: StubPrimitive;                 // kind 'value': the value returned (omitted = undefined)
+  element?: StubShape;                   // kind 'array'
+  resolves?: StubShape;                  // kind 'promise'
+  ref?: string;                          // kind 'ref': key into StubManifest.types
+  members?: Record<string, StubShape>;   // kind 'object': declared properties
+  index?: StubShape;                     // kind 'object': shape of any other key (index signature)
+  call?: StubShape;                      // callable; shape of the return value
+  construct?: StubShape;                 // newable; shape of the instance
+}
+
+export interface StubManifest {
+  name: string;                          // npm package name
+  version: string;
+  source: 'builtin' | 'generated' | 'custom';
+  description?: string;
+  generatedFrom?: string;                // .d.ts entry point the surface came from
+  generatedAt?: string;
+  exports: StubShape;                    // module.exports
+  types?: Record<string, StubShape>;     // named shapes, referenced by kind 'ref'
+  globals?: string[];                    // exports also installed on globalThis (e.g. Jest)
+  /**
+   * Optional behaviour, as the body of a JS function `(stub, runtime) => overrides`.
+   * Returned members replace the generated no-op ones.
+   */
+  implementation?: string;
+}
+
+export interface StubSummary {
+  name: string;
+  version: string;
+  source: StubManifest['source'];
+  description?: string;
+  globals?: string[];
+}
+
+// --- PROJECT CONFIG ---
+
+export interface SandboxProjectConfig {
+  stubs?: string[];                      // "lodash", "express@4", ... (default: all builtins)
+  nodeModulesCache?: string | null;      // Pre-built node_modules cache key, mounted read-only
+}
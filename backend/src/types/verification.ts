@@ -15,6 +15,7 @@ export interface VerificationResult {
     api?: CheckResult;
     safety?: CheckResult;
     critic?: CheckResult;
+    types?: CheckResult;
   };
   proofHash: string;
   timestamp: number;
@@ -24,6 +25,26 @@ export interface CheckResult {
   passed: boolean;
   message?: string;
   durationMs: number;
+  diagnostics?: TypeDiagnostic[];
+}
+
+// --- TYPE CHECK TYPES ---
+
+export interface TypeDiagnostic {
+  file: string;
+  line: number;           // 1-based
+  column: number;         // 1-based
+  code: string;           // e.g. TS2339
+  category: 'error' | 'warning';
+  message: string;
+}
+
+export interface TypeCheckResult {
+  passed: boolean;
+  diagnostics: TypeDiagnostic[];
+  outputText: string;     // Transpiled CommonJS, runnable with node
+  configPath?: string;    // tsconfig used, if the project has one
+  durationMs: number;
 }
 
 export interface ProofCertificate {
@@ -67,6 +88,42 @@ export interface VerifiedStatementData {
   entropyValid: boolean;
   entropyScore?: number;
   complexityRatio?: number;
+  artifactHash?: string;    // Plain SHA-256 of the content, for lookup by file hash
+}
+
+export interface MerkleLeaf {
+  contentHash: string;
+  artifactHash?: string | null;
+}
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';  // Side the sibling sits on
+  hash: string;
+}
+
+export interface InclusionProof {
+  format: 'truth-chain-inclusion/v2';
+  statement: {
+    id: string;
+    agentId: string;
+    taskId: string | null;
+    contentType: string;
+    contentHash: string;          // SymbolicHasher.hashContent, committed in the leaf
+    artifactHash: string | null;  // SHA-256 of the exact verified content, committed in the leaf
+    proofHash: string;
+    createdAt: Date;
+  };
+  leafIndex: number;
+  leafCount: number;
+  path: MerkleProofStep[];
+  block: {
+    index: number;
+    previousHash: string;
+    merkleRoot: string;
+    nonce: number;
+    hash: string;                 // sha256(index + previousHash + merkleRoot + nonce)
+    sealedAt: Date | null;
+  };
 }
 
 // --- SANDBOX TYPES ---
@@ -107,6 +164,9 @@ export interface HallucinationDetectionInput {
   language?: 'javascript' | 'typescript' | 'python';
   roleBaseline?: RoleBaseline;
   useCritic?: boolean;     // Enable LLM-based critic layer
+  projectId?: string;      // Selects the project's sandbox package stubs
+  projectRoot?: string;    // Workspace whose tsconfig/@types the type check uses
+  fileName?: string;       // Path of the output within the project, if known
 }
 
 export interface RoleBaseline {
@@ -58,9 +58,9 @@ export function initializeWebSocket(httpServer: HTTPServer) {
       }
     });
 
-    socket.on("terminal:input", ({ sessionId, data }) => {
+    socket.on("terminal:input", async ({ sessionId, data }) => {
       try {
-        terminalService.write(sessionId, data);
+        await terminalService.write(sessionId, data);
       } catch (err: any) {
         console.error("[WebSocket] Terminal write failed:", err);
         socket.emit("terminal:error", { sessionId, error: err.message });
@@ -162,6 +162,56 @@ export const emitProjectUpdate = (project: any) => {
   }
 };
 
+// Live LLM generation, keyed by streamId (one per callLLM invocation)
+export const emitLLMStreamStart = (stream: {
+  streamId: string;
+  taskId?: string;
+  agentId?: string;
+  projectId?: string;
+  provider: string;
+  model: string;
+}) => {
+  if (io) {
+    io.emit("llm:stream:start", { ...stream, startedAt: new Date().toISOString() });
+  }
+};
+
+export const emitLLMStreamChunk = (chunk: {
+  streamId: string;
+  taskId?: string;
+  agentId?: string;
+  delta: string;
+}) => {
+  if (io) {
+    io.emit("llm:stream:chunk", chunk);
+  }
+};
+
+export const emitLLMStreamRetract = (stream: {
+  streamId: string;
+  taskId?: string;
+  agentId?: string;
+}) => {
+  if (io) {
+    io.emit("llm:stream:retract", stream);
+  }
+};
+
+export const emitLLMStreamEnd = (stream: {
+  streamId: string;
+  taskId?: string;
+  agentId?: string;
+  projectId?: string;
+  content: string;
+  usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+  costUsd?: number;
+  error?: string;
+}) => {
+  if (io) {
+    io.emit("llm:stream:end", { ...stream, endedAt: new Date().toISOString() });
+  }
+};
+
 const LOG_HISTORY_SIZE = 50;
 const logHistory: string[] = [];
 
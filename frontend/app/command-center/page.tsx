@@ -19,6 +19,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useDashboardData } from "@/hooks/useDashboardData";
 import { useWebSocket } from "@/providers/WebSocketProvider";
 import { EnterpriseProjectWizard } from "@/components/EnterpriseProjectWizard";
+import { AgentTypingPane } from "@/components/AgentTypingPane";
 
 export default function CommandCenterPage() {
   const {
@@ -223,6 +224,15 @@ export default function CommandCenterPage() {
         </motion.div>
       </div>
 
+      {/* Live Generation */}
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.7 }}
+      >
+        <AgentTypingPane />
+      </motion.div>
+
       <EnterpriseProjectWizard
         open={showNewProject}
         onOpenChange={setShowNewProject}
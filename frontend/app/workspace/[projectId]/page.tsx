@@ -7,6 +7,7 @@ import { useState } from 'react';
 import { ChevronRight, ChevronDown, File, Folder, FolderOpen, Loader2 } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { AgentTypingPane } from '@/components/AgentTypingPane';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:4000';
 
@@ -164,7 +165,7 @@ export default function WorkspaceExplorer() {
             </ScrollArea>
           </>
         ) : (
-          <div className="flex items-center justify-center h-full">
+          <div className="flex items-center justify-center flex-1">
             <div className="text-center text-slate-400">
               <File className="h-16 w-16 mx-auto mb-4 opacity-20" />
               <p className="text-lg font-medium">No file selected</p>
@@ -172,6 +173,11 @@ export default function WorkspaceExplorer() {
             </div>
           </div>
         )}
+
+        {/* Live agent output */}
+        <div className="border-t border-slate-700 p-4 max-h-[40vh] overflow-y-auto">
+          <AgentTypingPane projectId={projectId} />
+        </div>
       </div>
     </div>
   );
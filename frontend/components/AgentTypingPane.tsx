@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Sparkles, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useLLMStreams, LLMStream } from '@/hooks/useLLMStreams';
+
+/**
+ * "Agent is typing" view: one pane per in-flight LLM generation, with
+ * tokens appended as they stream in.
+ */
+export function AgentTypingPane({ projectId, compact = false }: { projectId?: string; compact?: boolean }) {
+  const { streams, activeCount } = useLLMStreams(projectId);
+
+  return (
+    <div className="flex flex-col rounded-xl border border-white/10 bg-zinc-900/50 backdrop-blur-xl overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4 border-b border-white/5 bg-white/[0.02]">
+        <div className="flex items-center gap-2">
+          <Sparkles className={`h-4 w-4 ${activeCount > 0 ? 'text-indigo-400 animate-pulse' : 'text-zinc-500'}`} />
+          <span className="text-xs font-medium text-zinc-400 tracking-wider uppercase">
+            Live Generation
+          </span>
+        </div>
+        <span className="text-[10px] font-mono text-zinc-600">
+          {activeCount} STREAMING
+        </span>
+      </div>
+
+      <div className={`p-4 grid gap-4 ${compact ? '' : 'md:grid-cols-2'}`}>
+        <AnimatePresence mode="popLayout">
+          {streams.length === 0 && (
+            <p className="text-xs font-mono text-zinc-600 tracking-widest uppercase py-6 text-center md:col-span-2">
+              No agent is generating right now
+            </p>
+          )}
+          {streams.map(stream => (
+            <StreamCard key={stream.streamId} stream={stream} compact={compact} />
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
+
+function StreamCard({ stream, compact }: { stream: LLMStream; compact: boolean }) {
+  const bodyRef = useRef<HTMLPreElement>(null);
+
+  // Keep the newest tokens in view
+  useEffect(() => {
+    if (bodyRef.current) {
+      bodyRef.current.scrollTop = bodyRef.current.scrollHeight;
+    }
+  }, [stream.content]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0 }}
+      className="rounded-lg border border-white/5 bg-zinc-950/60 overflow-hidden"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-white/5">
+        <div className="flex items-center gap-2 min-w-0">
+          {stream.done ? (
+            stream.error ? (
+              <AlertTriangle className="h-3 w-3 text-amber-400" />
+            ) : (
+              <CheckCircle className="h-3 w-3 text-emerald-400" />
+            )
+          ) : (
+            <div className="w-1.5 h-1.5 rounded-full bg-indigo-500 shadow-[0_0_6px_#6366f1] animate-pulse" />
+          )}
+          <span className="font-mono text-[10px] text-zinc-400 truncate">
+            {stream.agentId || 'agent'}
+            {stream.taskId && ` · ID-${stream.taskId.substring(0, 4)}`}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {stream.done && stream.costUsd !== undefined && (
+            <span className="font-mono text-[10px] text-zinc-600">
+              ${stream.costUsd.toFixed(4)}
+            </span>
+          )}
+          <Badge
+            variant="outline"
+            className="text-[9px] h-4 border-white/5 bg-white/[0.02] text-zinc-500 font-mono"
+          >
+            {stream.model}
+          </Badge>
+        </div>
+      </div>
+      <pre
+        ref={bodyRef}
+        className={`p-3 text-[11px] leading-relaxed font-mono text-zinc-300 whitespace-pre-wrap break-words overflow-y-auto ${
+          compact ? 'max-h-48' : 'max-h-64'
+        }`}
+      >
+        {stream.content}
+        {!stream.done && <span className="inline-block w-1.5 h-3 bg-indigo-400 animate-pulse align-middle ml-0.5" />}
+      </pre>
+    </motion.div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GitBranch, User, Zap, Skull, Trophy } from 'lucide-react';
+import { GenomeDiffView } from './GenomeDiffView';
 
 interface FamilyTreeNode {
   id: string;
@@ -81,7 +82,7 @@ export function EvolutionFamilyTree({ projectId }: EvolutionFamilyTreeProps) {
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: 20 }}
-            className="fixed bottom-8 right-8 w-80 bg-zinc-900/95 backdrop-blur-md border border-white/10 rounded-xl p-6 shadow-2xl z-50"
+            className="fixed bottom-8 right-8 w-96 max-h-[80vh] overflow-y-auto bg-zinc-900/95 backdrop-blur-md border border-white/10 rounded-xl p-6 shadow-2xl z-50"
           >
             <div className="flex justify-between items-start mb-4">
               <h3 className="text-lg font-bold text-white flex items-center gap-2">
@@ -118,6 +119,12 @@ export function EvolutionFamilyTree({ projectId }: EvolutionFamilyTreeProps) {
                 </span>
               </div>
             </div>
+
+            {selectedNode.generation > 0 && (
+              <div className="mt-4 pt-4 border-t border-white/10">
+                <GenomeDiffView genomeRef={`snapshot:${selectedNode.id}`} />
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
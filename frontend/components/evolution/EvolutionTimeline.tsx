@@ -26,6 +26,19 @@ interface TimelineDataPoint {
   specializationDistribution: Record<string, number>;
   keyInnovations: string[];
   topAgentName: string;
+  paretoFront?: ParetoPoint[];
+}
+
+interface ParetoPoint {
+  agentId: string;
+  role: string;
+  objectives: {
+    successRate: number;
+    costPerTask: number;
+    qaRejectionRate: number;
+    latencyMs: number;
+  };
+  crowding: number | null;
 }
 
 
@@ -104,6 +117,23 @@ export function EvolutionTimeline({
             ))}
           </div>
         )}
+
+        {genData.paretoFront && genData.paretoFront.length > 0 && (
+          <div className="mt-3 pt-3 border-t border-gray-700">
+            <div className="text-xs text-gray-400 mb-1">
+              Pareto front (success / $ per task / QA rejects / latency):
+            </div>
+            {genData.paretoFront.map((point) => (
+              <div key={point.agentId} className="text-xs font-mono flex justify-between gap-3">
+                <span className="text-purple-400">{point.role}</span>
+                <span className="text-gray-300">
+                  {(point.objectives.successRate * 100).toFixed(0)}% / ${point.objectives.costPerTask.toFixed(3)} /{' '}
+                  {(point.objectives.qaRejectionRate * 100).toFixed(0)}% / {(point.objectives.latencyMs / 1000).toFixed(1)}s
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </motion.div>
     );
   };
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { GitCompare } from 'lucide-react';
+
+interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+  delta?: number;
+}
+
+interface PromptSegment {
+  op: ' ' | '-' | '+';
+  text: string;
+}
+
+interface GenomeDiff {
+  identical: boolean;
+  fields: FieldChange[];
+  specialization: FieldChange[];
+  prompt: {
+    changed: boolean;
+    added: number;
+    removed: number;
+    segments: PromptSegment[];
+  };
+  from: { hash: string };
+  to: { hash: string };
+}
+
+interface GenomeDiffViewProps {
+  genomeRef: string;   // snapshot:<id>, agent:<id> or a version hash
+  fromRef?: string;    // Defaults to the genome's parent
+}
+
+const formatValue = (value: any) =>
+  typeof value === 'number' ? value.toFixed(3) : value === null ? '—' : String(value);
+
+export function GenomeDiffView({ genomeRef, fromRef }: GenomeDiffViewProps) {
+  const [diff, setDiff] = useState<GenomeDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDiff();
+  }, [genomeRef, fromRef]);
+
+  const fetchDiff = async () => {
+    setLoading(true);
+    setError(null);
+    setDiff(null);
+    try {
+      const params = new URLSearchParams({ to: genomeRef });
+      if (fromRef) params.set('from', fromRef);
+      const res = await fetch(`http://localhost:4000/api/evolution/genomes/diff?${params}`);
+      const data = await res.json();
+      if (res.ok && data.success) {
+        setDiff(data.diff);
+      } else {
+        setError(data.error || 'Diff unavailable');
+      }
+    } catch (err) {
+      console.error('Failed to fetch genome diff:', err);
+      setError('Diff unavailable');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-xs text-gray-500 animate-pulse">Comparing with parent...</div>;
+  }
+
+  if (error || !diff) {
+    return <div className="text-xs text-gray-500">{error}</div>;
+  }
+
+  const changes = [...diff.fields, ...diff.specialization];
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between text-gray-400">
+        <span className="flex items-center gap-1">
+          <GitCompare className="w-3 h-3" />
+          vs parent
+        </span>
+        <span className="font-mono text-xs">
+          {diff.from.hash.slice(0, 8)} → {diff.to.hash.slice(0, 8)}
+        </span>
+      </div>
+
+      {diff.identical ? (
+        <p className="text-xs text-gray-500">Identical genome content.</p>
+      ) : (
+        <>
+          {changes.length > 0 && (
+            <div className="space-y-1">
+              {changes.map((change) => (
+                <div key={change.field} className="flex justify-between text-xs text-gray-400">
+                  <span>{change.field}</span>
+                  <span className="font-mono">
+                    {formatValue(change.from)} → <span className="text-white">{formatValue(change.to)}</span>
+                    {change.delta !== undefined && (
+                      <span className={change.delta > 0 ? 'text-green-400' : 'text-red-400'}>
+                        {' '}({change.delta > 0 ? '+' : ''}{change.delta.toFixed(3)})
+                      </span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {diff.prompt.changed && (
+            <div>
+              <div className="text-xs text-gray-400 mb-1">
+                System prompt <span className="text-green-400">+{diff.prompt.added}</span>{' '}
+                <span className="text-red-400">-{diff.prompt.removed}</span>
+              </div>
+              <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words rounded bg-black/40 p-2 text-xs text-gray-300">
+                {diff.prompt.segments.map((segment, i) => (
+                  <span
+                    key={i}
+                    className={
+                      segment.op === '+'
+                        ? 'bg-green-500/20 text-green-300'
+                        : segment.op === '-'
+                          ? 'bg-red-500/20 text-red-300 line-through'
+                          : ''
+                    }
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </pre>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useWebSocket } from './useWebSocket';
+
+export interface LLMStream {
+  streamId: string;
+  taskId?: string;
+  agentId?: string;
+  projectId?: string;
+  provider: string;
+  model: string;
+  content: string;
+  done: boolean;
+  error?: string;
+  costUsd?: number;
+  totalTokens?: number;
+  startedAt: string;
+}
+
+// Finished streams linger briefly so the final output can be read
+const FINISHED_STREAM_TTL_MS = 15000;
+const MAX_STREAMS = 6;
+
+/**
+ * Live LLM generations broadcast by the backend (`llm:stream:*`),
+ * optionally filtered to a single project.
+ */
+export function useLLMStreams(projectId?: string) {
+  const { socket, isConnected } = useWebSocket();
+  const [streams, setStreams] = useState<Record<string, LLMStream>>({});
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    const handleStart = (data: any) => {
+      if (projectId && data.projectId !== projectId) return;
+      setStreams(prev => ({
+        ...prev,
+        [data.streamId]: {
+          streamId: data.streamId,
+          taskId: data.taskId,
+          agentId: data.agentId,
+          projectId: data.projectId,
+          provider: data.provider,
+          model: data.model,
+          content: '',
+          done: false,
+          startedAt: data.startedAt,
+        },
+      }));
+    };
+
+    const handleChunk = (data: { streamId: string; delta: string }) => {
+      setStreams(prev => {
+        const stream = prev[data.streamId];
+        if (!stream) return prev;
+        return { ...prev, [data.streamId]: { ...stream, content: stream.content + data.delta } };
+      });
+    };
+
+    // A failed attempt's partial output; the fallback's answer arrives with the end event
+    const handleRetract = (data: { streamId: string }) => {
+      setStreams(prev => {
+        const stream = prev[data.streamId];
+        if (!stream) return prev;
+        return { ...prev, [data.streamId]: { ...stream, content: '' } };
+      });
+    };
+
+    const handleEnd = (data: any) => {
+      setStreams(prev => {
+        const stream = prev[data.streamId];
+        if (!stream) return prev;
+        return {
+          ...prev,
+          [data.streamId]: {
+            ...stream,
+            content: data.content ?? stream.content,
+            done: true,
+            error: data.error,
+            costUsd: data.costUsd,
+            totalTokens: data.usage?.totalTokens,
+          },
+        };
+      });
+
+      timers.push(
+        setTimeout(() => {
+          setStreams(prev => {
+            const { [data.streamId]: _removed, ...rest } = prev;
+            return rest;
+          });
+        }, FINISHED_STREAM_TTL_MS)
+      );
+    };
+
+    socket.on('llm:stream:start', handleStart);
+    socket.on('llm:stream:chunk', handleChunk);
+    socket.on('llm:stream:retract', handleRetract);
+    socket.on('llm:stream:end', handleEnd);
+
+    return () => {
+      socket.off('llm:stream:start', handleStart);
+      socket.off('llm:stream:chunk', handleChunk);
+      socket.off('llm:stream:retract', handleRetract);
+      socket.off('llm:stream:end', handleEnd);
+      timers.forEach(clearTimeout);
+    };
+  }, [socket, isConnected, projectId]);
+
+  const list = Object.values(streams)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, MAX_STREAMS);
+
+  return {
+    streams: list,
+    activeCount: list.filter(s => !s.done).length,
+  };
+}